@@ -0,0 +1,77 @@
+import { readFileSync } from 'fs';
+
+/**
+ * Labeled dataset for the disaster classifier
+ * One JSON object per line:
+ * {"id":"eq-001","title":"...","content":"...","subreddit":"earthquake","platform":"reddit",
+ *  "expected":{"isDisaster":true,"disasterType":"earthquake","severity":"high","location":"Tokyo"}}
+ * disasterType, severity and location may be null when the post is not a disaster or names no place.
+ */
+
+export interface ExpectedLabel {
+  isDisaster: boolean;
+  disasterType: string | null;
+  severity: 'low' | 'medium' | 'high' | 'critical' | null;
+  location: string | null;
+}
+
+export interface LabeledExample {
+  id: string;
+  title: string;
+  content: string;
+  subreddit: string;
+  platform: string;
+  expected: ExpectedLabel;
+}
+
+const SEVERITIES = ['low', 'medium', 'high', 'critical'];
+
+// Throws with the offending line numbers so a bad label is fixed rather than silently skipped
+export function loadDataset(path: string): LabeledExample[] {
+  const examples: LabeledExample[] = [];
+  const errors: string[] = [];
+
+  readFileSync(path, 'utf8').split('\n').forEach((line, index) => {
+    if (!line.trim()) return;
+
+    try {
+      const example = parseExample(JSON.parse(line));
+      if (examples.some(existing => existing.id === example.id)) {
+        throw new Error(`duplicate id ${example.id}`);
+      }
+      examples.push(example);
+    } catch (error) {
+      errors.push(`line ${index + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid dataset ${path}:\n${errors.join('\n')}`);
+  }
+  return examples;
+}
+
+function parseExample(raw: any): LabeledExample {
+  if (!raw?.id || typeof raw.title !== 'string') throw new Error('id and title are required');
+
+  const expected = raw.expected;
+  if (!expected || typeof expected.isDisaster !== 'boolean') throw new Error('expected.isDisaster must be a boolean');
+  if (expected.isDisaster && !expected.disasterType) throw new Error('expected.disasterType is required for disasters');
+  if (expected.severity != null && !SEVERITIES.includes(expected.severity)) {
+    throw new Error(`expected.severity must be one of ${SEVERITIES.join('|')}`);
+  }
+
+  return {
+    id: String(raw.id),
+    title: raw.title,
+    content: raw.content || '',
+    subreddit: raw.subreddit || '',
+    platform: raw.platform || 'reddit',
+    expected: {
+      isDisaster: expected.isDisaster,
+      disasterType: expected.isDisaster ? String(expected.disasterType).toLowerCase() : null,
+      severity: expected.severity ?? null,
+      location: expected.location ?? null
+    }
+  };
+}
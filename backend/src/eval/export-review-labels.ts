@@ -0,0 +1,72 @@
+import { writeFileSync } from 'fs';
+import { logger } from '../utils/logger';
+import { listReviewItems } from '../utils/review-queue-store';
+
+const DEFAULT_OUTPUT = 'src/eval/datasets/reviewed.jsonl';
+const VALUE_FLAGS = ['--output', '--since'];
+
+interface ExportOptions {
+  output: string;
+  since: number; // Only decisions made at or after this time
+}
+
+/**
+ * Exports reviewer decisions from the review queue as an evaluation dataset
+ * Every decided item becomes one labeled example, so the file loads with the same loader as the
+ * hand-written dataset:
+ *
+ *   npm run export:review-labels -- [--output path.jsonl] [--since 2026-01-01]
+ *   npm run evaluate -- --dataset path.jsonl
+ */
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  logger.level = 'warn';
+
+  const items = await listReviewItems('decided');
+  const labels = items
+    .filter(item => item.label && (item.decision?.decidedAt || 0) >= options.since)
+    .sort((a, b) => a.decision!.decidedAt - b.decision!.decidedAt)
+    .map(item => item.label!);
+
+  writeFileSync(options.output, labels.map(label => JSON.stringify(label)).join('\n') + (labels.length > 0 ? '\n' : ''));
+
+  const disasters = labels.filter(label => label.expected.isDisaster).length;
+  console.log(`Exported ${labels.length} reviewed examples (${disasters} disasters, ${labels.length - disasters} rejected) to ${options.output}`);
+}
+
+function parseArgs(args: string[]): ExportOptions {
+  const options: ExportOptions = {
+    output: DEFAULT_OUTPUT,
+    since: 0
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const value = args[i + 1];
+    if (VALUE_FLAGS.includes(args[i]) && (!value || value.startsWith('--'))) {
+      throw new Error(`${args[i]} needs a value`);
+    }
+
+    switch (args[i]) {
+      case '--output':
+        options.output = value;
+        i++;
+        break;
+      case '--since':
+        options.since = Date.parse(value);
+        if (isNaN(options.since)) {
+          throw new Error(`--since must be a date, got ${value}`);
+        }
+        i++;
+        break;
+      default:
+        throw new Error(`Unknown argument ${args[i]}`);
+    }
+  }
+
+  return options;
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,167 @@
+import { LabeledExample } from './dataset';
+
+// Label used in the confusion matrix for "not a disaster"
+const NONE_LABEL = 'none';
+
+export interface EvaluatedExample {
+  example: LabeledExample;
+  predicted: {
+    isDisaster: boolean;
+    disasterType: string | null;
+    severity: string;
+    location: string | null;
+    confidence: number;
+  } | null; // Null when the classifier threw
+  error?: string;
+}
+
+export interface ClassMetrics {
+  label: string;
+  support: number; // Examples labeled with this class
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export interface EvaluationReport {
+  examples: number;
+  errors: number;
+  detection: ClassMetrics & { accuracy: number }; // isDisaster as a binary task
+  perType: ClassMetrics[];
+  macroF1: number; // Mean F1 over disaster types, ignoring "none"
+  confusionMatrix: { labels: string[]; counts: number[][] }; // Rows are expected, columns predicted
+  severityAccuracy: number | null; // Over disasters whose type was predicted correctly
+  locationAccuracy: number | null; // Over disasters with an expected location
+  misclassified: { id: string; expected: string; predicted: string }[];
+}
+
+export function buildReport(results: EvaluatedExample[]): EvaluationReport {
+  const expectedLabels = results.map(result => typeLabel(result.example.expected.isDisaster, result.example.expected.disasterType));
+  const predictedLabels = results.map(result => result.predicted ? typeLabel(result.predicted.isDisaster, result.predicted.disasterType) : NONE_LABEL);
+
+  const labels = [...new Set([...expectedLabels, ...predictedLabels])]
+    .sort((a, b) => a === NONE_LABEL ? 1 : b === NONE_LABEL ? -1 : a.localeCompare(b));
+  const counts = labels.map(() => labels.map(() => 0));
+  expectedLabels.forEach((expected, index) => {
+    counts[labels.indexOf(expected)][labels.indexOf(predictedLabels[index])]++;
+  });
+
+  const perType = labels
+    .filter(label => label !== NONE_LABEL)
+    .map(label => classMetrics(label, expectedLabels, predictedLabels));
+
+  const detection = classMetrics(
+    'disaster',
+    expectedLabels.map(label => label === NONE_LABEL ? NONE_LABEL : 'disaster'),
+    predictedLabels.map(label => label === NONE_LABEL ? NONE_LABEL : 'disaster')
+  );
+  const detectionCorrect = expectedLabels.filter((label, index) => (label === NONE_LABEL) === (predictedLabels[index] === NONE_LABEL)).length;
+
+  const typedCorrectly = results.filter((result, index) => expectedLabels[index] !== NONE_LABEL && expectedLabels[index] === predictedLabels[index]);
+  const severityScored = typedCorrectly.filter(result => result.example.expected.severity);
+  const locationScored = results.filter(result => result.example.expected.isDisaster && result.example.expected.location);
+
+  return {
+    examples: results.length,
+    errors: results.filter(result => result.error).length,
+    detection: { ...detection, accuracy: ratio(detectionCorrect, results.length) },
+    perType,
+    macroF1: ratio(perType.reduce((sum, metrics) => sum + metrics.f1, 0), perType.length),
+    confusionMatrix: { labels, counts },
+    severityAccuracy: severityScored.length > 0
+      ? ratio(severityScored.filter(result => result.predicted?.severity === result.example.expected.severity).length, severityScored.length)
+      : null,
+    locationAccuracy: locationScored.length > 0
+      ? ratio(locationScored.filter(result => locationMatches(result.example.expected.location!, result.predicted?.location || null)).length, locationScored.length)
+      : null,
+    misclassified: results
+      .map((result, index) => ({ id: result.example.id, expected: expectedLabels[index], predicted: result.error ? `error: ${result.error}` : predictedLabels[index] }))
+      .filter((entry, index) => entry.expected !== predictedLabels[index] || results[index].error)
+  };
+}
+
+export function formatReport(report: EvaluationReport): string {
+  const lines: string[] = [];
+  const percent = (value: number | null) => value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`;
+
+  lines.push(`Examples: ${report.examples} (errors: ${report.errors})`);
+  lines.push('');
+  lines.push(`Disaster detection: precision ${percent(report.detection.precision)}, recall ${percent(report.detection.recall)}, F1 ${percent(report.detection.f1)}, accuracy ${percent(report.detection.accuracy)}`);
+  lines.push(`Severity accuracy (correctly typed disasters): ${percent(report.severityAccuracy)}`);
+  lines.push(`Location accuracy: ${percent(report.locationAccuracy)}`);
+  lines.push('');
+
+  lines.push(formatTable(
+    ['type', 'support', 'precision', 'recall', 'f1'],
+    report.perType.map(metrics => [metrics.label, String(metrics.support), percent(metrics.precision), percent(metrics.recall), percent(metrics.f1)])
+  ));
+  lines.push(`Macro F1: ${percent(report.macroF1)}`);
+  lines.push('');
+
+  lines.push('Confusion matrix (rows expected, columns predicted):');
+  lines.push(formatTable(
+    ['', ...report.confusionMatrix.labels],
+    report.confusionMatrix.counts.map((row, index) => [report.confusionMatrix.labels[index], ...row.map(String)])
+  ));
+
+  if (report.misclassified.length > 0) {
+    lines.push('');
+    lines.push('Misclassified:');
+    for (const entry of report.misclassified) {
+      lines.push(`  ${entry.id}: expected ${entry.expected}, got ${entry.predicted}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function typeLabel(isDisaster: boolean, disasterType: string | null): string {
+  return isDisaster && disasterType ? disasterType.toLowerCase() : NONE_LABEL;
+}
+
+function classMetrics(label: string, expected: string[], predicted: string[]): ClassMetrics {
+  let truePositives = 0;
+  let falsePositives = 0;
+  let falseNegatives = 0;
+
+  expected.forEach((expectedLabel, index) => {
+    const predictedLabel = predicted[index];
+    if (expectedLabel === label && predictedLabel === label) truePositives++;
+    else if (predictedLabel === label) falsePositives++;
+    else if (expectedLabel === label) falseNegatives++;
+  });
+
+  const precision = ratio(truePositives, truePositives + falsePositives);
+  const recall = ratio(truePositives, truePositives + falseNegatives);
+  return {
+    label,
+    support: truePositives + falseNegatives,
+    truePositives,
+    falsePositives,
+    falseNegatives,
+    precision,
+    recall,
+    f1: precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0
+  };
+}
+
+// Either side may be more specific ("Tokyo" vs "Tokyo, Japan")
+function locationMatches(expected: string, predicted: string | null): boolean {
+  if (!predicted) return false;
+  const a = expected.toLowerCase();
+  const b = predicted.toLowerCase();
+  return a.includes(b) || b.includes(a);
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator > 0 ? numerator / denominator : 0;
+}
+
+function formatTable(header: string[], rows: string[][]): string {
+  const widths = header.map((cell, column) => Math.max(cell.length, ...rows.map(row => row[column].length)));
+  const formatRow = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+  return [formatRow(header), widths.map(width => '-'.repeat(width)).join('  '), ...rows.map(formatRow)].join('\n');
+}
@@ -0,0 +1,135 @@
+import { writeFileSync } from 'fs';
+import { classifyPost } from '../handlers/ai-disaster-analyzer';
+import { logger } from '../utils/logger';
+import { loadDataset } from './dataset';
+import { buildReport, EvaluatedExample, formatReport } from './report';
+
+const DEFAULT_DATASET = 'src/eval/datasets/disaster-classifier.jsonl';
+// Providers that never leave the machine (openai is expected to point at a local server)
+const OFFLINE_PROVIDERS = ['rules', 'openai'];
+const VALUE_FLAGS = ['--dataset', '--provider', '--model', '--prompt-version', '--output'];
+
+interface EvaluationOptions {
+  dataset: string;
+  provider: string;
+  model: string | null;
+  promptVersion: string | null;
+  output: string | null;
+  verbose: boolean;
+}
+
+/**
+ * Offline classifier evaluation
+ * Runs keyword pre-analysis plus model analysis over a labeled dataset and prints precision/recall
+ * per disaster type and a confusion matrix. Nothing is written to DynamoDB.
+ *
+ *   npm run evaluate -- --dataset path.jsonl --provider rules|openai [--model id] [--prompt-version v1] [--output report.json]
+ */
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+
+  if (!OFFLINE_PROVIDERS.includes(options.provider)) {
+    throw new Error(`Provider "${options.provider}" is not allowed offline; use one of ${OFFLINE_PROVIDERS.join(', ')}`);
+  }
+
+  // The analyzer reads its model and prompt configuration from the environment on every call
+  process.env.LLM_DISASTER_ANALYSIS_PROVIDER = options.provider;
+  if (options.model) process.env.LLM_DISASTER_ANALYSIS_MODEL_ID = options.model;
+  if (options.promptVersion) process.env.PROMPT_DISASTER_ANALYSIS_VERSION = options.promptVersion;
+  // Every example goes through the chosen prompt, not a traffic split
+  delete process.env.PROMPT_DISASTER_ANALYSIS_CANDIDATE;
+  process.env.METRICS_DISABLED = 'true';
+  if (!options.verbose) logger.level = 'warn';
+
+  const examples = loadDataset(options.dataset);
+  const results: EvaluatedExample[] = [];
+
+  for (const example of examples) {
+    try {
+      const analysis = await classifyPost({
+        id: example.id,
+        title: example.title,
+        content: example.content,
+        subreddit: example.subreddit,
+        platform: example.platform,
+        comments: []
+      });
+      results.push({
+        example,
+        predicted: {
+          isDisaster: analysis.isDisaster,
+          disasterType: analysis.disasterType,
+          severity: analysis.severity,
+          location: analysis.location,
+          confidence: analysis.confidence
+        }
+      });
+    } catch (error) {
+      results.push({ example, predicted: null, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  const report = buildReport(results);
+  console.log(`Dataset: ${options.dataset}`);
+  console.log(`Provider: ${options.provider}${options.model ? ` (${options.model})` : ''}, prompt: ${options.promptVersion || 'default'}`);
+  console.log('');
+  console.log(formatReport(report));
+
+  if (options.output) {
+    writeFileSync(options.output, JSON.stringify({ options, report, results }, null, 2));
+    console.log(`\nFull results written to ${options.output}`);
+  }
+}
+
+function parseArgs(args: string[]): EvaluationOptions {
+  const options: EvaluationOptions = {
+    dataset: DEFAULT_DATASET,
+    provider: 'rules',
+    model: null,
+    promptVersion: null,
+    output: null,
+    verbose: false
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const value = args[i + 1];
+    if (VALUE_FLAGS.includes(args[i]) && (!value || value.startsWith('--'))) {
+      throw new Error(`${args[i]} needs a value`);
+    }
+
+    switch (args[i]) {
+      case '--dataset':
+        options.dataset = value;
+        i++;
+        break;
+      case '--provider':
+        options.provider = value.toLowerCase();
+        i++;
+        break;
+      case '--model':
+        options.model = value;
+        i++;
+        break;
+      case '--prompt-version':
+        options.promptVersion = value;
+        i++;
+        break;
+      case '--output':
+        options.output = value;
+        i++;
+        break;
+      case '--verbose':
+        options.verbose = true;
+        break;
+      default:
+        throw new Error(`Unknown argument ${args[i]}`);
+    }
+  }
+
+  return options;
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
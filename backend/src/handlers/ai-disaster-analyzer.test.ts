@@ -0,0 +1,136 @@
+import { selectPromptTemplate } from '../llm/prompts';
+import { invokeModel } from '../llm/registry';
+import { classifyPost, classifyPosts, ClassifierInput } from './ai-disaster-analyzer';
+
+jest.mock('../llm/registry', () => ({ invokeModel: jest.fn() }));
+
+const mockInvokeModel = invokeModel as jest.MockedFunction<typeof invokeModel>;
+
+const POST: ClassifierInput = {
+  id: 'post1',
+  title: 'Massive earthquake in Tokyo right now',
+  content: 'Buildings collapsed and people are trapped, emergency crews on the way',
+  subreddit: 'earthquake',
+  platform: 'reddit',
+  comments: [],
+  language: 'en',
+  createdUtc: Math.floor(Date.parse('2026-10-19T08:00:00Z') / 1000)
+};
+
+const ANALYSIS = {
+  isDisaster: true,
+  disasterType: 'earthquake',
+  severity: 'critical',
+  confidence: 90,
+  location: 'Tokyo',
+  urgency: 'immediate',
+  affectedPopulation: null,
+  timeframe: 'current',
+  reportingStyle: 'firsthand',
+  summary: 'Major earthquake in Tokyo',
+  keyIndicators: ['earthquake', 'collapsed'],
+  recommendations: []
+};
+
+function modelAnswer(text: string): any {
+  return { text, provider: 'bedrock', modelId: 'test-model', usage: { inputTokens: 10, outputTokens: 10 }, latencyMs: 5 };
+}
+
+describe('classifyPost schema repair', () => {
+  beforeAll(() => {
+    process.env.METRICS_DISABLED = 'true';
+  });
+
+  beforeEach(() => {
+    mockInvokeModel.mockReset();
+  });
+
+  it('uses a valid first answer without a repair request', async () => {
+    mockInvokeModel.mockResolvedValueOnce(modelAnswer(JSON.stringify(ANALYSIS)));
+
+    const analysis = await classifyPost(POST);
+
+    expect(mockInvokeModel).toHaveBeenCalledTimes(1);
+    expect(analysis.severity).toBe('critical');
+    expect(analysis.modelProvider).toBe('bedrock');
+  });
+
+  it('asks once for a repair with the validation errors and uses the repaired answer', async () => {
+    mockInvokeModel
+      .mockResolvedValueOnce(modelAnswer(JSON.stringify({ ...ANALYSIS, severity: 'catastrophic' })))
+      .mockResolvedValueOnce(modelAnswer(`Corrected:\n${JSON.stringify(ANALYSIS)}`));
+
+    const analysis = await classifyPost(POST);
+
+    expect(mockInvokeModel).toHaveBeenCalledTimes(2);
+    const [stage, repairRequest] = mockInvokeModel.mock.calls[1];
+    expect(stage).toBe('disaster_analysis');
+    expect(repairRequest.prompt).toContain('severity: "catastrophic" is not one of low|medium|high|critical');
+    expect(repairRequest.input).toEqual({ title: POST.title, content: POST.content });
+    expect(analysis.severity).toBe('critical');
+    expect(analysis.summary).toBe('Major earthquake in Tokyo');
+  });
+
+  it('falls back to the keyword analysis when the repair is still invalid', async () => {
+    mockInvokeModel
+      .mockResolvedValueOnce(modelAnswer('I think this is an earthquake.'))
+      .mockResolvedValueOnce(modelAnswer(JSON.stringify({ ...ANALYSIS, isDisaster: 'maybe' })));
+
+    const analysis = await classifyPost(POST);
+
+    expect(mockInvokeModel).toHaveBeenCalledTimes(2);
+    expect(mockInvokeModel.mock.calls[1][1].prompt).toContain('- Response is not a JSON object');
+    expect(analysis.summary).toMatch(/based on keyword analysis$/);
+    expect(analysis.isDisaster).toBe(true);
+  });
+
+  it('falls back without a repair when the model call fails', async () => {
+    mockInvokeModel.mockRejectedValueOnce(new Error('Throttled'));
+
+    const analysis = await classifyPost(POST);
+
+    expect(mockInvokeModel).toHaveBeenCalledTimes(1);
+    expect(analysis.summary).toMatch(/based on keyword analysis$/);
+  });
+});
+
+describe('classifyPosts prompt routing', () => {
+  const posts = Array.from({ length: 12 }, (_, i) => ({ ...POST, id: `post${i}` }));
+
+  beforeAll(() => {
+    process.env.METRICS_DISABLED = 'true';
+    process.env.PROMPT_DISASTER_ANALYSIS_CANDIDATE = 'v1';
+    process.env.PROMPT_DISASTER_ANALYSIS_CANDIDATE_PERCENT = '50';
+  });
+
+  afterAll(() => {
+    delete process.env.PROMPT_DISASTER_ANALYSIS_CANDIDATE;
+    delete process.env.PROMPT_DISASTER_ANALYSIS_CANDIDATE_PERCENT;
+  });
+
+  beforeEach(() => {
+    mockInvokeModel.mockReset();
+    mockInvokeModel.mockImplementation(async (_stage, request) => modelAnswer(JSON.stringify({
+      results: (request.items || []).map(item => ({ id: item.id, ...ANALYSIS }))
+    })));
+  });
+
+  it('batches posts by their own prompt variant and uses its batch form', async () => {
+    const analyses = await classifyPosts(posts);
+    const variants = new Map(posts.map(post => [post.id, selectPromptTemplate('disaster_analysis', post.id)]));
+    // The split has to put posts on both sides for this test to mean anything
+    expect(new Set([...variants.values()].map(selection => selection.variant)).size).toBe(2);
+
+    for (const [, request] of mockInvokeModel.mock.calls) {
+      const batchVariants = new Set(request.items!.map(item => variants.get(item.id)!.variant));
+      expect(batchVariants.size).toBe(1);
+    }
+    for (const post of posts) {
+      const selection = variants.get(post.id)!;
+      expect(analyses.get(post.id)).toMatchObject({
+        promptVersion: `batch-${selection.template.version}`,
+        promptVariant: selection.variant
+      });
+    }
+  });
+});
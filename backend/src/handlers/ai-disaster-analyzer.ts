@@ -1,13 +1,30 @@
 import { DynamoDBStreamHandler, APIGatewayProxyHandler, APIGatewayProxyResult } from 'aws-lambda';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient, UpdateCommand, ScanCommand } from '@aws-sdk/lib-dynamodb';
-import { BedrockRuntimeClient, InvokeModelCommand } from '@aws-sdk/client-bedrock-runtime';
+import { AnalysisOutput, buildRepairPrompt, extractJsonObject, validateAnalysisOutput } from '../llm/analysis-schema';
+import { getStageModelConfig } from '../llm/config';
+import { getBatchPromptTemplate, PromptSelection, renderPrompt, selectPromptTemplate } from '../llm/prompts';
+import { invokeModel } from '../llm/registry';
+import { ModelStage, PromptTemplate } from '../llm/types';
+import { takeUsageSummary } from '../llm/usage';
+import { loadGazetteer } from '../location/gazetteer';
+import { findPlaces, resolveLocation } from '../location/resolver';
+import { LocationHints, ResolvedLocation } from '../location/types';
+import { LOCALIZED_DISASTER_KEYWORDS } from '../sources/disaster-terms';
+import { AuthorAccount } from '../sources/types';
 import { logger } from '../utils/logger';
+import { analysisCacheKey, CachedAnalysis, getCachedAnalyses, putCachedAnalysis } from '../utils/analysis-cache';
+import { chunk, mapWithConcurrency } from '../utils/concurrency';
+import { assessCredibility, CredibilityAssessment } from '../utils/credibility';
+import { findMentionedDates } from '../utils/dates';
+import { detectLanguage, UNKNOWN_LANGUAGE } from '../utils/language';
+import { recordMetric } from '../utils/metrics';
+import { enqueueForReview, isBorderlineConfidence } from '../utils/review-queue-store';
+import { assessTimeframe } from '../utils/timeframe';
 import axios from 'axios';
 
 const dynamoClient = new DynamoDBClient({ region: process.env.AWS_REGION });
 const docClient = DynamoDBDocumentClient.from(dynamoClient);
-const bedrockClient = new BedrockRuntimeClient({ region: process.env.AWS_REGION });
 
 // Table name configuration
 const EVENTS_TABLE_NAME = process.env.DYNAMODB_TABLE || (process.env.DYNAMODB_TABLE_PREFIX ? `${process.env.DYNAMODB_TABLE_PREFIX}-events` : undefined);
@@ -71,7 +88,7 @@ const DISASTER_DETECTION_KEYWORDS = {
   ]
 };
 
-interface DisasterAnalysis {
+export interface DisasterAnalysis {
   isDisaster: boolean;
   disasterType: string | null;
   disasterCategory: string | null;
@@ -79,9 +96,15 @@ interface DisasterAnalysis {
   confidence: number; // 0-100
   location: string | null;
   coordinates: { lat: number; lng: number } | null;
+  resolvedLocation: ResolvedLocation | null; // Gazetteer place behind location and coordinates
   urgency: 'low' | 'medium' | 'high' | 'immediate';
   affectedPopulation: number | null;
   timeframe: 'historical' | 'current' | 'imminent';
+  modelTimeframe: AnalysisOutput['timeframe']; // What the model answered; null when it didn't say
+  referencedDates: string[]; // ISO dates the post mentions
+  timeframeEvidence: string[]; // Why the timeframe was chosen
+  reportingStyle: AnalysisOutput['reportingStyle']; // The model's reading; null without a model answer
+  credibility: CredibilityAssessment | null;
   summary: string;
   keyIndicators: string[];
   recommendations: string[];
@@ -91,6 +114,51 @@ interface DisasterAnalysis {
     dates: string[];
     organizations: string[];
   };
+  // Which prompt and model produced the analysis; null for keyword-only results
+  promptVersion: string | null;
+  promptVariant: 'control' | 'candidate' | null;
+  modelProvider: string | null;
+  modelId: string | null;
+  language: string;
+  // English text the model read instead of the original (TRANSLATE_NON_ENGLISH)
+  translation: PostTranslation | null;
+}
+
+export interface PostTranslation {
+  title: string;
+  content: string;
+}
+
+// How an analysis was produced; stored on the event and in the analysis cache
+type AnalysisProvenance = Pick<DisasterAnalysis, 'promptVersion' | 'promptVariant' | 'modelProvider' | 'modelId' | 'translation'>;
+
+export interface CorroboratingComment {
+  author: string;
+  body: string;
+  score: number;
+}
+
+// A post headed for the model
+interface PendingAnalysis {
+  post: ClassifierInput;
+  preAnalysis: any;
+  prompt: PromptSelection; // Routed by post id, so a post keeps its variant whichever batch it lands in
+  cacheKey: string; // From the original text, so translation never changes it
+  batchCacheKey: string | null; // Same text under the prompt's batch form; null when it has none
+  translation: PostTranslation | null;
+}
+
+export interface ClassifierInput {
+  id: string;
+  title: string;
+  content: string;
+  subreddit: string;
+  platform: string;
+  comments: CorroboratingComment[];
+  language?: string; // Detected from the text when the event has none
+  url?: string; // Link to the original post, shown to reviewers
+  createdUtc?: number; // When the post was published, unix seconds
+  authorAccount?: AuthorAccount | null;
 }
 
 /**
@@ -171,18 +239,131 @@ export const httpHandler: APIGatewayProxyHandler = async (event) => {
   }
 };
 
+interface PromptVersionStats {
+  promptVersion: string;
+  variant: string;
+  modelIds: string[];
+  analyzed: number;
+  flaggedDisaster: number;
+  validated: number;
+  confirmed: number;
+  confirmationRate: number; // Confirmed share of posts the prompt flagged as disasters
+  averageConfidence: number;
+}
+
+/**
+ * Prompt comparison report
+ * Groups analyzed posts by prompt version so a candidate's confirmation rate can be compared
+ * with the control before it is promoted.
+ */
+export const promptReportHandler: APIGatewayProxyHandler = async (event) => {
+  // Handle CORS preflight requests
+  if (event.httpMethod === 'OPTIONS') {
+    const response: APIGatewayProxyResult = {
+      statusCode: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Amz-Date, X-Api-Key, X-Amz-Security-Token, X-Amz-User-Agent',
+        'Access-Control-Allow-Methods': 'GET, OPTIONS',
+        'Access-Control-Max-Age': '86400',
+      },
+      body: '',
+    };
+    return response;
+  }
+
+  const headers = {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*'
+  };
+
+  try {
+    const sinceHours = parseInt(event.queryStringParameters?.sinceHours || '168', 10);
+    const versions = await comparePromptVersions(Date.now() - sinceHours * 60 * 60 * 1000);
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({
+        versions,
+        sinceHours,
+        timestamp: new Date().toISOString()
+      })
+    };
+
+  } catch (error) {
+    logger.error('Prompt report error:', error);
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: 'Prompt report failed',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      })
+    };
+  }
+};
+
+async function comparePromptVersions(since: number): Promise<PromptVersionStats[]> {
+  const stats = new Map<string, PromptVersionStats & { confidenceTotal: number }>();
+  let lastEvaluatedKey: Record<string, any> | undefined;
+
+  do {
+    const result = await docClient.send(new ScanCommand({
+      TableName: EVENTS_TABLE_NAME,
+      FilterExpression: 'attribute_exists(promptVersion) AND aiAnalysisTimestamp >= :since',
+      ExpressionAttributeValues: { ':since': since },
+      ProjectionExpression: 'promptVersion, promptVariant, modelId, isDisaster, aiConfidence, weatherValidated, disasterConfirmed',
+      ExclusiveStartKey: lastEvaluatedKey
+    }));
+
+    for (const item of result.Items || []) {
+      const key = `${item.promptVersion}|${item.promptVariant || 'control'}`;
+      const entry = stats.get(key) || {
+        promptVersion: item.promptVersion,
+        variant: item.promptVariant || 'control',
+        modelIds: [] as string[],
+        analyzed: 0,
+        flaggedDisaster: 0,
+        validated: 0,
+        confirmed: 0,
+        confirmationRate: 0,
+        averageConfidence: 0,
+        confidenceTotal: 0
+      };
+
+      entry.analyzed++;
+      entry.confidenceTotal += item.aiConfidence || 0;
+      if (item.modelId && !entry.modelIds.includes(item.modelId)) entry.modelIds.push(item.modelId);
+      if (item.isDisaster) entry.flaggedDisaster++;
+      if (item.weatherValidated) entry.validated++;
+      if (item.disasterConfirmed) entry.confirmed++;
+      stats.set(key, entry);
+    }
+
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  return [...stats.values()].map(({ confidenceTotal, ...entry }) => ({
+    ...entry,
+    confirmationRate: entry.flaggedDisaster > 0 ? Math.round((entry.confirmed / entry.flaggedDisaster) * 1000) / 1000 : 0,
+    averageConfidence: Math.round(confidenceTotal / entry.analyzed)
+  }));
+}
+
 /**
  * Analyze text for disaster content (simplified version for HTTP API)
  */
 async function analyzeTextWithAI(text: string): Promise<any> {
   try {
     // First, do keyword-based pre-analysis
-    const preAnalysis = performKeywordAnalysis(text, '');
+    await loadGazetteer();
+    const preAnalysis = performKeywordAnalysis(text, '', detectLanguage(text), {});
     
     // If pre-analysis indicates potential disaster, use AI for detailed analysis
     if (preAnalysis.potentialDisaster) {
       // Use AI LLM for detailed analysis
-      return await performAIAnalysis(text, '', 'api', 'api', preAnalysis);
+      return await performAIAnalysis(toPendingAnalysis({ id: text, title: text, content: '', subreddit: 'api', platform: 'api', comments: [] }, preAnalysis));
     } else {
       // Return simplified analysis
       return {
@@ -207,110 +388,330 @@ async function analyzeTextWithAI(text: string): Promise<any> {
  * Uses LLM to analyze posts and determine if they relate to natural disasters
  */
 export const handler: DynamoDBStreamHandler = async (event) => {
-  try {
-    logger.info(`Processing ${event.Records.length} DynamoDB stream records for AI analysis`);
-    
-    const processedCount = {
-      total: 0,
-      disasters: 0,
-      nonDisasters: 0,
-      errors: 0
-    };
-    
-    for (const record of event.Records) {
-      if (record.eventName === 'INSERT' && record.dynamodb?.NewImage) {
-        const newItem = record.dynamodb.NewImage;
-        
-        // Only process unanalyzed social media posts
-        if (newItem.type?.S === 'social_media_post' && 
-            newItem.aiAnalyzed?.BOOL !== true &&
-            newItem.relevanceScore?.N && 
-            parseFloat(newItem.relevanceScore.N) > 0) {
-          
-          try {
-            await analyzePostWithAI(newItem);
-            processedCount.total++;
-          } catch (error) {
-            logger.error(`Error processing post ${newItem.id.S}:`, error);
-            processedCount.errors++;
-          }
-        }
+  logger.info(`Processing ${event.Records.length} DynamoDB stream records for AI analysis`);
+  // Drop usage left over from an earlier invocation that failed before reporting it
+  takeUsageSummary();
+  await loadGazetteer();
+  
+  const processedCount = {
+    total: 0,
+    disasters: 0,
+    nonDisasters: 0,
+    errors: 0
+  };
+  // Only these records are retried by Lambda (ReportBatchItemFailures)
+  const batchItemFailures: { itemIdentifier: string }[] = [];
+  const pending: { sequenceNumber: string; input: ClassifierInput }[] = [];
+  
+  let skippedModifies = 0;
+  
+  for (const record of event.Records) {
+    if ((record.eventName === 'INSERT' || record.eventName === 'MODIFY') && record.dynamodb?.NewImage) {
+      const newItem = record.dynamodb.NewImage;
+      
+      // Only process social media posts; near-duplicates are covered by their canonical post
+      if (newItem.type?.S !== 'social_media_post' ||
+          newItem.duplicateOf?.S ||
+          !newItem.relevanceScore?.N ||
+          !(parseFloat(newItem.relevanceScore.N) > 0)) {
+        continue;
+      }
+      
+      if (needsAnalysis(record.eventName, record.dynamodb.OldImage, newItem)) {
+        pending.push({ sequenceNumber: record.dynamodb.SequenceNumber || '', input: toClassifierInput(newItem) });
+      } else if (record.eventName === 'MODIFY') {
+        skippedModifies++;
       }
     }
-    
-    logger.info(`AI analysis completed. Processed: ${processedCount.total}, Errors: ${processedCount.errors}`);
-    
-  } catch (error) {
-    logger.error('AI disaster analyzer error:', error);
-    throw error;
   }
+  if (skippedModifies > 0) {
+    logger.info(`Skipped ${skippedModifies} post updates that did not change the analyzed text`);
+  }
+  
+  const analyses = await classifyPosts(pending.map(entry => entry.input));
+  
+  await mapWithConcurrency(pending, getBatchConcurrency(), async ({ sequenceNumber, input }) => {
+    try {
+      const analysis = analyses.get(input.id);
+      if (!analysis) {
+        throw new Error('No analysis produced');
+      }
+      await storeAnalysis(input, analysis);
+      processedCount.total++;
+      if (analysis.isDisaster) processedCount.disasters++;
+      else processedCount.nonDisasters++;
+    } catch (error) {
+      logger.error(`Error processing post ${input.id}:`, error);
+      processedCount.errors++;
+      batchItemFailures.push({ itemIdentifier: sequenceNumber });
+    }
+  });
+  
+  const usage = takeUsageSummary();
+  logger.info(`AI analysis completed. Processed: ${processedCount.total}, Disasters: ${processedCount.disasters}, Errors: ${processedCount.errors}. ` +
+    `Model calls: ${usage.invocations}, tokens: ${usage.inputTokens} in / ${usage.outputTokens} out, estimated cost: $${usage.estimatedCostUsd}`, { usage });
+  
+  return { batchItemFailures };
 };
 
-async function analyzePostWithAI(item: any): Promise<void> {
-  try {
-    const eventId = item.id.S;
-    const title = item.title?.S || '';
-    const content = item.content?.S || '';
-    const subreddit = item.subreddit?.S || '';
-    const platform = item.platform?.S || 'reddit';
-    
-    logger.info(`Analyzing post ${eventId} from r/${subreddit}`);
-    
-    // First, do keyword-based pre-analysis
-    const preAnalysis = performKeywordAnalysis(title, content);
-    
-    // If pre-analysis indicates potential disaster, use AI for detailed analysis
-    let finalAnalysis: DisasterAnalysis;
-    
+// Fields the model reads; a MODIFY that leaves these alone only touched bookkeeping
+const ANALYZED_FIELDS = ['title', 'content', 'corroboratingComments'];
+
+/**
+ * Whether a stream record should be (re-)analyzed
+ * New posts are analyzed once. Updates are analyzed when the text changed, or when a re-save by
+ * the scraper replaced the item and dropped its analysis; unchanged text is then served from the
+ * analysis cache. Our own analysis writes and other bookkeeping updates are ignored.
+ */
+function needsAnalysis(eventName: string, oldItem: any, newItem: any): boolean {
+  if (eventName === 'INSERT') {
+    return newItem.aiAnalyzed?.BOOL !== true;
+  }
+  
+  const textChanged = !oldItem || ANALYZED_FIELDS.some(field => JSON.stringify(oldItem[field]) !== JSON.stringify(newItem[field]));
+  return textChanged || newItem.aiAnalyzed?.BOOL !== true;
+}
+
+function toClassifierInput(item: any): ClassifierInput {
+  return {
+    id: item.id.S,
+    title: item.title?.S || '',
+    content: item.content?.S || '',
+    subreddit: item.subreddit?.S || '',
+    platform: item.platform?.S || 'reddit',
+    comments: parseCorroboratingComments(item),
+    language: item.language?.S,
+    url: item.url?.S,
+    createdUtc: item.created_utc?.N ? parseInt(item.created_utc.N, 10) : undefined,
+    authorAccount: parseAuthorAccount(item)
+  };
+}
+
+function parseAuthorAccount(item: any): AuthorAccount | null {
+  const account = item.authorAccount?.M;
+  if (!account) return null;
+  return {
+    createdUtc: account.createdUtc?.N ? parseFloat(account.createdUtc.N) : null,
+    reputation: account.reputation?.N ? parseFloat(account.reputation.N) : null
+  };
+}
+
+async function storeAnalysis(post: ClassifierInput, analysis: DisasterAnalysis): Promise<void> {
+  // Update the event with AI analysis results
+  await updateEventWithAIAnalysis(post.id, analysis, post.comments.length);
+  
+  // Past events are kept for search only; the validator skips them too
+  if (analysis.isDisaster && analysis.timeframe === 'historical') {
+    recordMetric('HistoricalPostSuppressed', 1, { Platform: post.platform });
+    logger.info(`AI analysis completed for ${post.id}: historical ${analysis.disasterType || 'disaster'}, not alerting (${analysis.timeframeEvidence.join('; ')})`);
+    return;
+  }
+  
+  // If confirmed disaster with high confidence, trigger further processing
+  if (analysis.isDisaster && analysis.confidence > 70) {
+    await triggerWeatherValidation(post.id, analysis);
+  }
+  
+  // Too unsure for the validator to pick up, too likely to drop; a person decides
+  if (analysis.isDisaster && isBorderlineConfidence(analysis.confidence)) {
+    await enqueueForReview({
+      eventId: post.id,
+      reason: 'borderline_confidence',
+      title: post.title,
+      content: post.content,
+      subreddit: post.subreddit,
+      platform: post.platform,
+      url: post.url || null,
+      aiDisasterType: analysis.disasterType,
+      aiSeverity: analysis.severity,
+      aiLocation: analysis.location,
+      aiConfidence: analysis.confidence,
+      validationConfidence: null,
+      incidentId: null
+    });
+  }
+  
+  logger.info(`AI analysis completed for ${post.id} from r/${post.subreddit}: ${analysis.isDisaster ? 'DISASTER' : 'NOT_DISASTER'} (confidence: ${analysis.confidence}%)`);
+}
+
+/**
+ * Keyword pre-analysis, then model analysis for posts that look like disasters
+ * Has no side effects, so the stream handler and the offline evaluation share it.
+ */
+export async function classifyPost(post: ClassifierInput): Promise<DisasterAnalysis> {
+  // A single post never forms a batch, so this is the single-prompt path
+  const analysis = (await classifyPosts([post])).get(post.id);
+  if (!analysis) {
+    throw new Error(`No analysis produced for post ${post.id}`);
+  }
+  return analysis;
+}
+
+/**
+ * classifyPost for many posts at once: posts that need the model are sent in batches of
+ * AI_BATCH_SIZE, at most AI_BATCH_CONCURRENCY requests at a time. Results are keyed by post id.
+ */
+export async function classifyPosts(posts: ClassifierInput[]): Promise<Map<string, DisasterAnalysis>> {
+  const analyses = new Map<string, DisasterAnalysis>();
+  const needsModel: PendingAnalysis[] = [];
+  
+  for (const post of posts) {
+    const language = post.language || detectLanguage(`${post.title} ${post.content}`);
+    const preAnalysis = performKeywordAnalysis(post.title, post.content, language, { subreddit: post.subreddit });
     if (preAnalysis.potentialDisaster) {
-      // Use AI LLM for detailed analysis
-      finalAnalysis = await performAIAnalysis(title, content, subreddit, platform, preAnalysis);
+      needsModel.push(toPendingAnalysis(post, preAnalysis));
     } else {
-      // Mark as non-disaster based on keyword analysis
-      finalAnalysis = {
-        isDisaster: false,
-        disasterType: null,
-        disasterCategory: null,
-        severity: 'low',
-        confidence: preAnalysis.confidence,
-        location: preAnalysis.location,
-        coordinates: null,
-        urgency: 'low',
-        affectedPopulation: null,
-        timeframe: 'current',
-        summary: 'No disaster indicators detected',
-        keyIndicators: preAnalysis.matchedKeywords,
-        recommendations: [],
-        extractedEntities: preAnalysis.entities
-      };
+      analyses.set(post.id, createKeywordOnlyAnalysis(preAnalysis));
     }
-    
-    // Update the event with AI analysis results
-    await updateEventWithAIAnalysis(eventId, finalAnalysis);
-    
-    // If confirmed disaster with high confidence, trigger further processing
-    if (finalAnalysis.isDisaster && finalAnalysis.confidence > 70) {
-      await triggerWeatherValidation(eventId, finalAnalysis);
+  }
+  
+  // Posts whose exact text was analyzed before skip the model
+  const cached = await getCachedAnalyses(needsModel.flatMap(entry => entry.batchCacheKey ? [entry.cacheKey, entry.batchCacheKey] : [entry.cacheKey]));
+  const uncached = needsModel.filter(({ post, preAnalysis, cacheKey, batchCacheKey }) => {
+    const entry = cached.get(cacheKey) || (batchCacheKey ? cached.get(batchCacheKey) : undefined);
+    if (entry) analyses.set(post.id, fromCachedAnalysis(entry, preAnalysis));
+    return !entry;
+  });
+  recordAnalysisCacheResults(needsModel.length - uncached.length, uncached.length);
+  
+  const translated = await mapWithConcurrency(uncached, getBatchConcurrency(), translateForAnalysis);
+  const batchResults = await mapWithConcurrency(batchByPrompt(translated), getBatchConcurrency(), performBatchAIAnalysis);
+  for (const results of batchResults) {
+    results.forEach((analysis, postId) => analyses.set(postId, analysis));
+  }
+  
+  // Scored after the model so its reading of the reporting style and timeframe counts
+  for (const post of posts) {
+    const analysis = analyses.get(post.id);
+    if (analysis) analyses.set(post.id, withPostContext(post, analysis));
+  }
+  return analyses;
+}
+
+// Credibility and timeframe, which depend on when and where the post was published
+function withPostContext(post: ClassifierInput, analysis: DisasterAnalysis): DisasterAnalysis {
+  const postedAt = post.createdUtc || Math.floor(Date.now() / 1000);
+  // Only a timeframe the model actually answered is evidence, not the 'current' default
+  const temporal = assessTimeframe(`${post.title} ${post.content}`, postedAt, analysis.modelTimeframe);
+  
+  return {
+    ...analysis,
+    timeframe: temporal.timeframe,
+    referencedDates: temporal.referencedDates,
+    timeframeEvidence: temporal.evidence,
+    credibility: assessCredibility({
+      title: post.title,
+      content: post.content,
+      subreddit: post.subreddit,
+      url: post.url || null,
+      postedAt,
+      authorAccount: post.authorAccount || null,
+      reportingStyle: analysis.reportingStyle
+    })
+  };
+}
+
+function toPendingAnalysis(post: ClassifierInput, preAnalysis: any): PendingAnalysis {
+  const prompt = selectPromptTemplate('disaster_analysis', post.id);
+  const batchTemplate = getBatchPromptTemplate(prompt.template);
+  return {
+    post,
+    preAnalysis,
+    prompt,
+    cacheKey: analysisCacheKey(post, prompt.template.version, getStageModelConfig('disaster_analysis').modelId),
+    batchCacheKey: batchTemplate ? analysisCacheKey(post, batchTemplate.version, getStageModelConfig('disaster_analysis_batch').modelId) : null,
+    translation: null
+  };
+}
+
+// Batches of AI_BATCH_SIZE posts that share a prompt variant, so each batch can use that variant's batch form
+function batchByPrompt(entries: PendingAnalysis[]): PendingAnalysis[][] {
+  const groups = new Map<string, PendingAnalysis[]>();
+  for (const entry of entries) {
+    const key = `${entry.prompt.variant}|${entry.prompt.template.version}`;
+    groups.set(key, [...(groups.get(key) || []), entry]);
+  }
+  return [...groups.values()].flatMap(group => chunk(group, getBatchSize()));
+}
+
+/**
+ * Optional translation to English before classification (TRANSLATE_NON_ENGLISH=true)
+ * Only title and content are translated; comments go to the model as written. If translation
+ * fails the model reads the original text, which current models mostly handle anyway.
+ */
+async function translateForAnalysis(entry: PendingAnalysis): Promise<PendingAnalysis> {
+  const language = entry.preAnalysis.language;
+  if (process.env.TRANSLATE_NON_ENGLISH !== 'true' || language === 'en' || language === UNKNOWN_LANGUAGE) {
+    return entry;
+  }
+  
+  try {
+    const { template } = selectPromptTemplate('translation', entry.post.id);
+    const response = await invokeModel('translation', {
+      prompt: renderPrompt(template, { language, title: entry.post.title, content: entry.post.content }),
+      input: { title: entry.post.title, content: entry.post.content }
+    });
+    const parsed = extractJsonObject(response.text) as any;
+    if (typeof parsed?.title !== 'string' || typeof parsed?.content !== 'string') {
+      throw new Error('Translation response is missing title or content');
     }
     
-    logger.info(`AI analysis completed for ${eventId}: ${finalAnalysis.isDisaster ? 'DISASTER' : 'NOT_DISASTER'} (confidence: ${finalAnalysis.confidence}%)`);
-    
+    recordMetric('PostTranslation', 1, { Language: language, Result: 'translated' });
+    return { ...entry, translation: { title: parsed.title, content: parsed.content } };
   } catch (error) {
-    logger.error('Error in AI analysis:', error);
-    throw error;
+    logger.warn(`Translation of post ${entry.post.id} from ${language} failed, analyzing the original text:`, error);
+    recordMetric('PostTranslation', 1, { Language: language, Result: 'failed' });
+    return entry;
   }
 }
 
-function performKeywordAnalysis(title: string, content: string): any {
-  const fullText = `${title} ${content}`.toLowerCase();
-  const entities = extractEntities(fullText);
+// Mark as non-disaster based on keyword analysis
+function createKeywordOnlyAnalysis(preAnalysis: any): DisasterAnalysis {
+  return {
+    isDisaster: false,
+    disasterType: null,
+    disasterCategory: null,
+    severity: 'low',
+    confidence: preAnalysis.confidence,
+    location: preAnalysis.location,
+    coordinates: preAnalysis.resolvedLocation?.coordinates || null,
+    resolvedLocation: preAnalysis.resolvedLocation,
+    urgency: 'low',
+    affectedPopulation: null,
+    timeframe: 'current',
+    modelTimeframe: null,
+    referencedDates: [],
+    timeframeEvidence: [],
+    reportingStyle: null,
+    credibility: null,
+    summary: 'No disaster indicators detected',
+    keyIndicators: preAnalysis.matchedKeywords,
+    recommendations: [],
+    extractedEntities: preAnalysis.entities,
+    promptVersion: null,
+    promptVariant: null,
+    modelProvider: null,
+    modelId: null,
+    language: preAnalysis.language,
+    translation: null
+  };
+}
+
+function performKeywordAnalysis(title: string, content: string, language: string, locationHints: LocationHints): any {
+  const originalText = `${title} ${content}`;
+  const fullText = originalText.toLowerCase();
+  const localizedKeywords: Record<string, string[]> = LOCALIZED_DISASTER_KEYWORDS[language] || {};
+  // Place names are matched on the original text; capitalization separates "Mobile" from "mobile"
+  const entities = extractEntities(fullText, findPlaces(originalText, locationHints));
   
   let score = 0;
   let matchedKeywords: string[] = [];
   let disasterCategory: string | null = null;
   
   // Check each disaster category
-  for (const [category, keywords] of Object.entries(DISASTER_DETECTION_KEYWORDS)) {
+  for (const [category, englishKeywords] of Object.entries(DISASTER_DETECTION_KEYWORDS)) {
+    // English terms turn up in every language, so the post language's words are added, not swapped in
+    const keywords = [...englishKeywords, ...(localizedKeywords[category] || [])];
     for (const keyword of keywords) {
       if (fullText.includes(keyword.toLowerCase())) {
         score += getCategoryWeight(category);
@@ -326,16 +727,19 @@ function performKeywordAnalysis(title: string, content: string): any {
   }
   
   // Location boost
-  const location = extractDetailedLocation(fullText);
-  if (location) score += 5;
+  const resolvedLocation = resolveLocation(originalText, locationHints);
+  if (resolvedLocation) score += 5;
   
   return {
     potentialDisaster: score >= 15, // Threshold for AI analysis
     confidence: Math.min(score * 5, 95), // Convert to percentage
     matchedKeywords,
     disasterCategory,
-    location,
-    entities
+    location: resolvedLocation?.displayName || null,
+    resolvedLocation,
+    locationHints,
+    entities,
+    language
   };
 }
 
@@ -354,141 +758,239 @@ function getCategoryWeight(category: string): number {
   return weights[category] || 1;
 }
 
-async function performAIAnalysis(title: string, content: string, subreddit: string, platform: string, preAnalysis: any): Promise<DisasterAnalysis> {
+// Harvested comments arrive embedded on the post as a DynamoDB list of maps
+function parseCorroboratingComments(item: any): CorroboratingComment[] {
+  const comments = item.corroboratingComments?.L || [];
+  return comments
+    .map((comment: any) => ({
+      author: comment.M?.author?.S || 'unknown',
+      body: comment.M?.body?.S || '',
+      score: parseInt(comment.M?.score?.N || '0')
+    }))
+    .filter((comment: CorroboratingComment) => comment.body.length > 0);
+}
+
+// How an analysis was obtained, recorded as the AnalysisOutputPath metric
+type AnalysisOutputPath = 'valid' | 'coerced' | 'repaired' | 'fallback_invalid' | 'fallback_error';
+
+// Routing by post id keeps a post on the same prompt variant across retries
+async function performAIAnalysis(entry: PendingAnalysis): Promise<DisasterAnalysis> {
+  const { post, preAnalysis } = entry;
+  const { title, content } = entry.translation || post;
+  const { template, variant } = entry.prompt;
+  const provenance: AnalysisProvenance = {
+    promptVersion: template.version,
+    promptVariant: variant,
+    modelProvider: null,
+    modelId: null,
+    translation: entry.translation
+  };
+  
   try {
-    const prompt = createDetailedAnalysisPrompt(title, content, subreddit, platform, preAnalysis);
+    const prompt = createDetailedAnalysisPrompt(template, title, content, post.subreddit, post.platform, preAnalysis, post.comments);
     
-    // Call Amazon Bedrock Nova Pro for analysis
-    const aiResponse = await invokeBedrockNova(prompt);
+    // Call the model configured for this stage (Bedrock by default)
+    const aiResponse = await invokeModel('disaster_analysis', { prompt, input: { title, content } });
+    provenance.modelProvider = aiResponse.provider;
+    provenance.modelId = aiResponse.modelId;
+    const validation = validateAnalysisOutput(extractJsonObject(aiResponse.text));
     
-    // Parse and validate AI response
-    return parseAIResponse(aiResponse, preAnalysis);
+    if (validation.output) {
+      recordAnalysisPath(validation.coercions.length > 0 ? 'coerced' : 'valid');
+      await cacheAnalysisOutput(entry.cacheKey, validation.output, provenance);
+      return { ...toDisasterAnalysis(validation.output, preAnalysis), ...provenance };
+    }
+    
+    // One repair attempt with the validation errors fed back
+    logger.warn(`AI analysis failed schema validation, requesting repair: ${validation.errors.join('; ')}`);
+    const repairResponse = await invokeModel('disaster_analysis', {
+      prompt: buildRepairPrompt(prompt, aiResponse.text, validation.errors),
+      input: { title, content }
+    });
+    const repaired = validateAnalysisOutput(extractJsonObject(repairResponse.text));
+    
+    if (repaired.output) {
+      recordAnalysisPath('repaired');
+      await cacheAnalysisOutput(entry.cacheKey, repaired.output, provenance);
+      return { ...toDisasterAnalysis(repaired.output, preAnalysis), ...provenance };
+    }
+    
+    logger.warn(`Repaired AI analysis still invalid, using keyword fallback: ${repaired.errors.join('; ')}`);
+    recordAnalysisPath('fallback_invalid');
+    return { ...createFallbackAnalysis(preAnalysis), ...provenance };
     
   } catch (error) {
     logger.error('Error in AI analysis:', error);
+    recordAnalysisPath('fallback_error');
     
     // Fallback to keyword-based analysis
-    return createFallbackAnalysis(preAnalysis);
+    return { ...createFallbackAnalysis(preAnalysis), ...provenance };
   }
 }
 
-function createDetailedAnalysisPrompt(title: string, content: string, subreddit: string, platform: string, preAnalysis: any): string {
-  return `
-You are an expert disaster monitoring AI with extensive knowledge of natural disasters, emergency situations, and crisis management. Analyze the following social media post to determine if it reports a real natural disaster or emergency situation.
+function recordAnalysisPath(path: AnalysisOutputPath, stage: ModelStage = 'disaster_analysis'): void {
+  recordMetric('AnalysisOutputPath', 1, { Stage: stage, Path: path });
+}
 
-Context:
-- Platform: ${platform}
-- Subreddit: r/${subreddit}
-- Pre-analysis detected: ${preAnalysis.disasterCategory || 'potential disaster'}
-- Matched keywords: ${preAnalysis.matchedKeywords.join(', ')}
+// Only validated model output is cached; fallbacks are retried next time
+// Stored under the key of the prompt that produced it: the post's single-post or batch key
+async function cacheAnalysisOutput(cacheKey: string, output: AnalysisOutput, provenance: AnalysisProvenance): Promise<void> {
+  await putCachedAnalysis(cacheKey, {
+    output,
+    promptVersion: provenance.promptVersion || '',
+    promptVariant: provenance.promptVariant || 'control',
+    modelProvider: provenance.modelProvider || '',
+    modelId: provenance.modelId || '',
+    translation: provenance.translation
+  });
+}
 
-Post Content:
-Title: ${title}
-Content: ${content}
-
-Your task is to provide a comprehensive analysis. Consider:
-
-1. **Disaster Classification**: Is this a real natural disaster report?
-2. **Disaster Type**: Earthquake, flood, hurricane, wildfire, tornado, etc.
-3. **Severity Assessment**: Based on described impacts and scope
-4. **Location Analysis**: Extract specific geographic locations
-5. **Temporal Context**: Is this happening now, recently, or historically?
-6. **Credibility Assessment**: Does this seem like a reliable report?
-7. **Impact Assessment**: Scale and scope of potential damage/casualties
-
-Provide your analysis in this exact JSON format:
-{
-  "isDisaster": boolean,
-  "disasterType": "earthquake|tsunami|flood|hurricane|tornado|wildfire|volcano|landslide|blizzard|drought|other|null",
-  "severity": "low|medium|high|critical",
-  "confidence": number (0-100),
-  "location": "extracted location string or null",
-  "urgency": "low|medium|high|immediate",
-  "affectedPopulation": number or null,
-  "timeframe": "historical|current|imminent",
-  "summary": "2-3 sentence analysis summary",
-  "keyIndicators": ["list", "of", "key", "disaster", "indicators"],
-  "recommendations": ["list", "of", "recommended", "actions"]
-}
-
-Be precise and analytical. Only mark as disaster if there's strong evidence of a real natural disaster event.
-`;
-}
-
-async function invokeBedrockNova(prompt: string): Promise<any> {
-  try {
-    logger.info('Invoking Amazon Bedrock Nova Pro for disaster analysis');
-    
-    const modelId = process.env.BEDROCK_MODEL_ID || 'amazon.nova-pro-v1:0';
-    
-    const requestBody = {
-      messages: [
-        {
-          role: "user",
-          content: [{ text: prompt }]
+function fromCachedAnalysis(entry: CachedAnalysis, preAnalysis: any): DisasterAnalysis {
+  return {
+    ...toDisasterAnalysis(entry.output, preAnalysis),
+    promptVersion: entry.promptVersion,
+    promptVariant: entry.promptVariant,
+    modelProvider: entry.modelProvider,
+    modelId: entry.modelId,
+    translation: entry.translation || null
+  };
+}
+
+function recordAnalysisCacheResults(hits: number, misses: number): void {
+  if (hits > 0) recordMetric('AnalysisCacheHit', hits);
+  if (misses > 0) recordMetric('AnalysisCacheMiss', misses);
+}
+
+// One request for several posts; posts the batch answer doesn't cover validly go through performAIAnalysis alone
+async function performBatchAIAnalysis(batch: PendingAnalysis[]): Promise<Map<string, DisasterAnalysis>> {
+  const analyses = new Map<string, DisasterAnalysis>();
+  let unresolved = batch;
+  
+  // Every post in a batch routed to the same variant; a prompt without a batch form is sent post by post
+  const { variant } = batch[0].prompt;
+  const template = getBatchPromptTemplate(batch[0].prompt.template);
+  
+  if (batch.length > 1 && template) {
+    try {
+      const aiResponse = await invokeModel('disaster_analysis_batch', {
+        prompt: createBatchAnalysisPrompt(template, batch),
+        items: batch.map(({ post, translation }) => ({ id: post.id, ...(translation || { title: post.title, content: post.content }) }))
+      });
+      
+      const results = (extractJsonObject(aiResponse.text) as any)?.results;
+      const resultsById = new Map<string, any>((Array.isArray(results) ? results : [])
+        .filter((result: any) => result && result.id !== undefined)
+        .map((result: any) => [String(result.id), result]));
+      
+      unresolved = [];
+      for (const entry of batch) {
+        const validation = validateAnalysisOutput(resultsById.get(entry.post.id));
+        if (validation.output) {
+          recordAnalysisPath(validation.coercions.length > 0 ? 'coerced' : 'valid', 'disaster_analysis_batch');
+          const provenance: AnalysisProvenance = { promptVersion: template.version, promptVariant: variant, modelProvider: aiResponse.provider, modelId: aiResponse.modelId, translation: entry.translation };
+          await cacheAnalysisOutput(entry.batchCacheKey!, validation.output, provenance);
+          analyses.set(entry.post.id, { ...toDisasterAnalysis(validation.output, entry.preAnalysis), ...provenance });
+        } else {
+          unresolved.push(entry);
         }
-      ],
-      inferenceConfig: {
-        maxTokens: 1500,
-        temperature: 0.1,
-        topP: 0.9
       }
-    };
-    
-    const command = new InvokeModelCommand({
-      modelId: modelId,
-      body: JSON.stringify(requestBody),
-      contentType: 'application/json',
-      accept: 'application/json'
-    });
-    
-    const response = await bedrockClient.send(command);
-    
-    // Parse the response
-    const responseBody = JSON.parse(new TextDecoder().decode(response.body));
-    
-    logger.info('Bedrock Nova analysis completed successfully');
-    return responseBody;
-    
-  } catch (error) {
-    logger.error('Error invoking Bedrock Nova:', error);
-    throw error;
+      
+      if (unresolved.length > 0) {
+        logger.warn(`Batch analysis returned no valid result for ${unresolved.length} of ${batch.length} posts, analyzing them individually`);
+      }
+    } catch (error) {
+      logger.error('Error in batch AI analysis, analyzing posts individually:', error);
+    }
+  }
+  
+  for (const entry of unresolved) {
+    analyses.set(entry.post.id, await performAIAnalysis(entry));
   }
+  return analyses;
 }
 
-function parseAIResponse(aiResponse: any, preAnalysis: any): DisasterAnalysis {
-  try {
-    // Extract JSON from AI response
-    const content = aiResponse.output?.message?.content?.[0]?.text || '';
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    
-    if (jsonMatch) {
-      const parsed = JSON.parse(jsonMatch[0]);
-      
-      return {
-        isDisaster: parsed.isDisaster || false,
-        disasterType: parsed.disasterType || null,
-        disasterCategory: preAnalysis.disasterCategory,
-        severity: parsed.severity || 'low',
-        confidence: Math.min(parsed.confidence || 0, 100),
-        location: parsed.location || preAnalysis.location,
-        coordinates: null, // Will be geocoded later
-        urgency: parsed.urgency || 'low',
-        affectedPopulation: parsed.affectedPopulation || null,
-        timeframe: parsed.timeframe || 'current',
-        summary: parsed.summary || '',
-        keyIndicators: parsed.keyIndicators || preAnalysis.matchedKeywords,
-        recommendations: parsed.recommendations || [],
-        extractedEntities: preAnalysis.entities
-      };
-    }
+function createDetailedAnalysisPrompt(template: PromptTemplate, title: string, content: string, subreddit: string, platform: string, preAnalysis: any, comments: CorroboratingComment[]): string {
+  const commentSection = comments.length > 0
+    ? `
+Top Comments (eyewitness replies - use as corroborating evidence for location, damage and whether the event is real; do not treat them as a separate event):
+${comments.map(c => `- [score ${c.score}] ${c.body}`).join('\n')}
+`
+    : '';
+
+  return renderPrompt(template, {
+    platform,
+    subreddit,
+    disasterCategory: preAnalysis.disasterCategory || 'potential disaster',
+    matchedKeywords: preAnalysis.matchedKeywords.join(', '),
+    title,
+    content,
+    commentSection
+  });
+}
+
+function createBatchAnalysisPrompt(template: PromptTemplate, batch: PendingAnalysis[]): string {
+  const posts = batch.map(({ post, preAnalysis, translation }, index) => {
+    const { title, content } = translation || post;
+    const commentSection = post.comments.length > 0
+      ? `\nTop Comments (eyewitness replies):\n${post.comments.map(c => `- [score ${c.score}] ${c.body}`).join('\n')}`
+      : '';
     
-  } catch (error) {
-    logger.error('Error parsing AI response:', error);
-  }
+    return `Post ${index + 1} (id: ${post.id}):
+- Platform: ${post.platform}
+- Subreddit: r/${post.subreddit}
+- Pre-analysis detected: ${preAnalysis.disasterCategory || 'potential disaster'}
+- Matched keywords: ${preAnalysis.matchedKeywords.join(', ')}
+Title: ${title}
+Content: ${content}${commentSection}`;
+  }).join('\n\n');
   
-  // Fallback to pre-analysis
-  return createFallbackAnalysis(preAnalysis);
+  return renderPrompt(template, { posts });
+}
+
+function getBatchSize(): number {
+  return Math.max(1, parseInt(process.env.AI_BATCH_SIZE || '5', 10));
+}
+
+function getBatchConcurrency(): number {
+  return Math.max(1, parseInt(process.env.AI_BATCH_CONCURRENCY || '2', 10));
+}
+
+function toDisasterAnalysis(output: AnalysisOutput, preAnalysis: any): DisasterAnalysis {
+  const resolvedLocation = resolveModelLocation(output.location, preAnalysis);
+  return {
+    ...output,
+    disasterCategory: preAnalysis.disasterCategory,
+    location: output.location || preAnalysis.location,
+    // Places the gazetteer doesn't know are geocoded later by the validator
+    coordinates: resolvedLocation?.coordinates || null,
+    resolvedLocation,
+    timeframe: output.timeframe || 'current',
+    modelTimeframe: output.timeframe,
+    referencedDates: [],
+    timeframeEvidence: [],
+    credibility: null,
+    keyIndicators: output.keyIndicators.length > 0 ? output.keyIndicators : preAnalysis.matchedKeywords,
+    extractedEntities: preAnalysis.entities,
+    promptVersion: null,
+    promptVariant: null,
+    modelProvider: null,
+    modelId: null,
+    language: preAnalysis.language,
+    translation: null
+  };
+}
+
+/**
+ * Gazetteer place for the location the model named
+ * The post's subreddit and the country of the place found in the post itself break ties, so a
+ * bare "Victoria" from r/australia stays in Australia. Without a model location the post's own
+ * place is used; a model location the gazetteer doesn't know resolves to nothing.
+ */
+function resolveModelLocation(location: string | null, preAnalysis: any): ResolvedLocation | null {
+  if (!location) return preAnalysis.resolvedLocation;
+
+  const hints: LocationHints = { ...preAnalysis.locationHints, countryCode: preAnalysis.resolvedLocation?.countryCode };
+  return resolveLocation(location, hints);
 }
 
 function createFallbackAnalysis(preAnalysis: any): DisasterAnalysis {
@@ -499,14 +1001,26 @@ function createFallbackAnalysis(preAnalysis: any): DisasterAnalysis {
     severity: preAnalysis.confidence > 70 ? 'medium' : 'low',
     confidence: preAnalysis.confidence,
     location: preAnalysis.location,
-    coordinates: null,
+    coordinates: preAnalysis.resolvedLocation?.coordinates || null,
+    resolvedLocation: preAnalysis.resolvedLocation,
     urgency: preAnalysis.confidence > 80 ? 'medium' : 'low',
     affectedPopulation: null,
     timeframe: 'current',
+    modelTimeframe: null,
+    referencedDates: [],
+    timeframeEvidence: [],
+    reportingStyle: null,
+    credibility: null,
     summary: `Potential ${preAnalysis.disasterCategory} disaster detected based on keyword analysis`,
     keyIndicators: preAnalysis.matchedKeywords,
     recommendations: ['Monitor for official updates', 'Verify through additional sources'],
-    extractedEntities: preAnalysis.entities
+    extractedEntities: preAnalysis.entities,
+    promptVersion: null,
+    promptVariant: null,
+    modelProvider: null,
+    modelId: null,
+    language: preAnalysis.language,
+    translation: null
   };
 }
 
@@ -522,32 +1036,15 @@ function mapCategoryToType(category: string): string | null {
   return mapping[category] || null;
 }
 
-function extractEntities(text: string): any {
+function extractEntities(text: string, places: ResolvedLocation[]): any {
   return {
-    locations: extractLocations(text),
+    locations: places.map(place => place.name),
     numbers: extractNumbers(text),
     dates: extractDates(text),
     organizations: extractOrganizations(text)
   };
 }
 
-function extractLocations(text: string): string[] {
-  const locationPatterns = [
-    /\b[A-Z][a-z]+(?:\s+[A-Z][a-z]+)*(?:\s+(?:County|City|State|Province|Country))?\b/g,
-    /\b(?:in|near|at)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)/g
-  ];
-  
-  const locations: string[] = [];
-  for (const pattern of locationPatterns) {
-    const matches = text.match(pattern);
-    if (matches) {
-      locations.push(...matches);
-    }
-  }
-  
-  return [...new Set(locations)]; // Remove duplicates
-}
-
 function extractNumbers(text: string): string[] {
   const numberPatterns = [
     /\b\d+\.?\d*\s*(?:magnitude|richter|casualties|deaths|injured|missing|displaced)\b/gi,
@@ -565,22 +1062,10 @@ function extractNumbers(text: string): string[] {
   return numbers;
 }
 
+// Relative references, then the calendar dates the timeframe assessment compares with the post time
 function extractDates(text: string): string[] {
-  const datePatterns = [
-    /\b(?:today|yesterday|now|currently|this\s+(?:morning|afternoon|evening))\b/gi,
-    /\b\d{1,2}\/\d{1,2}\/\d{2,4}\b/g,
-    /\b(?:January|February|March|April|May|June|July|August|September|October|November|December)\s+\d{1,2},?\s+\d{4}\b/gi
-  ];
-  
-  const dates: string[] = [];
-  for (const pattern of datePatterns) {
-    const matches = text.match(pattern);
-    if (matches) {
-      dates.push(...matches);
-    }
-  }
-  
-  return dates;
+  const relative = text.match(/\b(?:today|yesterday|now|currently|this\s+(?:morning|afternoon|evening))\b/gi) || [];
+  return [...relative, ...findMentionedDates(text).map(date => date.text)];
 }
 
 function extractOrganizations(text: string): string[] {
@@ -599,24 +1084,7 @@ function extractOrganizations(text: string): string[] {
   return orgs;
 }
 
-function extractDetailedLocation(text: string): string | null {
-  const locationPatterns = [
-    /(?:in|near|at)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*(?:\s*,\s*[A-Z][A-Z])?)/g,
-    /([A-Z][a-z]+\s+(?:County|City|State|Province))/g,
-    /([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)\s+area/g
-  ];
-  
-  for (const pattern of locationPatterns) {
-    const match = pattern.exec(text);
-    if (match) {
-      return match[1].trim();
-    }
-  }
-  
-  return null;
-}
-
-async function updateEventWithAIAnalysis(eventId: string, analysis: DisasterAnalysis): Promise<void> {
+async function updateEventWithAIAnalysis(eventId: string, analysis: DisasterAnalysis, commentEvidenceCount: number): Promise<void> {
   try {
     const updateCommand = new UpdateCommand({
       TableName: EVENTS_TABLE_NAME,
@@ -629,13 +1097,28 @@ async function updateEventWithAIAnalysis(eventId: string, analysis: DisasterAnal
           aiSeverity = :severity,
           aiConfidence = :confidence,
           aiLocation = :location,
+          aiCoordinates = :coordinates,
+          aiResolvedLocation = :resolvedLocation,
           urgency = :urgency,
           affectedPopulation = :affectedPopulation,
           timeframe = :timeframe,
+          referencedDates = :referencedDates,
+          timeframeEvidence = :timeframeEvidence,
+          reportingStyle = :reportingStyle,
+          credibilityScore = :credibilityScore,
+          credibilityFactors = :credibilityFactors,
           aiSummary = :summary,
           keyIndicators = :keyIndicators,
           recommendations = :recommendations,
           extractedEntities = :extractedEntities,
+          commentEvidenceCount = :commentEvidenceCount,
+          promptVersion = :promptVersion,
+          promptVariant = :promptVariant,
+          modelProvider = :modelProvider,
+          modelId = :modelId,
+          #language = :language,
+          translatedTitle = :translatedTitle,
+          translatedContent = :translatedContent,
           aiAnalysisTimestamp = :timestamp
       `,
       ExpressionAttributeValues: {
@@ -645,15 +1128,32 @@ async function updateEventWithAIAnalysis(eventId: string, analysis: DisasterAnal
         ':severity': analysis.severity,
         ':confidence': analysis.confidence,
         ':location': analysis.location,
+        ':coordinates': analysis.coordinates,
+        ':resolvedLocation': analysis.resolvedLocation,
         ':urgency': analysis.urgency,
         ':affectedPopulation': analysis.affectedPopulation,
         ':timeframe': analysis.timeframe,
+        ':referencedDates': analysis.referencedDates,
+        ':timeframeEvidence': analysis.timeframeEvidence,
+        ':reportingStyle': analysis.reportingStyle,
+        ':credibilityScore': analysis.credibility?.score ?? null,
+        ':credibilityFactors': analysis.credibility?.factors || [],
         ':summary': analysis.summary,
         ':keyIndicators': analysis.keyIndicators,
         ':recommendations': analysis.recommendations,
         ':extractedEntities': analysis.extractedEntities,
+        ':commentEvidenceCount': commentEvidenceCount,
+        ':promptVersion': analysis.promptVersion,
+        ':promptVariant': analysis.promptVariant,
+        ':modelProvider': analysis.modelProvider,
+        ':modelId': analysis.modelId,
+        ':language': analysis.language,
+        ':translatedTitle': analysis.translation?.title || null,
+        ':translatedContent': analysis.translation?.content || null,
         ':timestamp': Date.now()
-      }
+      },
+      // "language" is a DynamoDB reserved word
+      ExpressionAttributeNames: { '#language': 'language' }
     });
     
     await docClient.send(updateCommand);
@@ -0,0 +1,242 @@
+import { APIGatewayProxyHandler, APIGatewayProxyResult } from 'aws-lambda';
+import axios from 'axios';
+import { SourceCursor } from '../sources/types';
+import { capAreaCentroid, isCapDocument, mapCapEventToDisasterType, parseCapAlert, parseCapIndexFeed } from '../utils/cap-parser';
+import { assignToIncident } from '../utils/incident-store';
+import { loadSourceCursor, saveSourceCursor } from '../utils/ingestion-state-store';
+import { logger } from '../utils/logger';
+import { StoredOfficialAlert, deactivateReferencedAlerts, saveOfficialAlert, toStoredOfficialAlert } from '../utils/official-alert-store';
+
+const CURSOR_NAME = 'cap-alerts';
+// Index feeds can list hundreds of alerts; cap the per-run document fetches
+const MAX_DOCUMENTS_PER_FEED = 50;
+const MAX_SEEN_ENTRIES_PER_FEED = 500;
+
+interface CapFeedCursor {
+  etag: string | null;
+  lastModified: string | null;
+  seenEntries: string[];
+}
+
+interface CapIngestionStats {
+  feedsProcessed: number;
+  notModified: number;
+  documentsFetched: number;
+  alertsSaved: number;
+  alertsSkipped: number;
+  alertsDeactivated: number;
+  incidentsAssigned: number;
+  errors: string[];
+}
+
+/**
+ * Official CAP 1.2 Alert Ingester
+ * Polls the CAP feeds in CAP_FEED_URLS (standalone CAP documents or Atom/RSS indexes of them)
+ * and stores every actual alert in the alerts table for the weather validator to match against.
+ */
+export const handler: APIGatewayProxyHandler = async (event) => {
+  // Handle CORS preflight requests
+  if (event.httpMethod === 'OPTIONS') {
+    const response: APIGatewayProxyResult = {
+      statusCode: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Amz-Date, X-Api-Key, X-Amz-Security-Token, X-Amz-User-Agent',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Access-Control-Max-Age': '86400',
+      },
+      body: '',
+    };
+    return response;
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const queryParams = event.queryStringParameters || {};
+    const body = event.body ? JSON.parse(event.body) : {};
+    const params = { ...queryParams, ...body };
+
+    const feedUrls = params.feeds ? String(params.feeds).split(',').map((url: string) => url.trim()).filter(Boolean) : getCapFeedUrls();
+    if (feedUrls.length === 0) {
+      logger.warn('No CAP feeds configured (CAP_FEED_URLS), nothing to ingest');
+      return jsonResponse(200, { success: true, message: 'No CAP feeds configured', stats: null });
+    }
+
+    const resetCursor = String(params.resetCursor) === 'true';
+    const cursor: SourceCursor = (resetCursor ? null : await loadSourceCursor(CURSOR_NAME)) || {};
+    const stats: CapIngestionStats = {
+      feedsProcessed: 0,
+      notModified: 0,
+      documentsFetched: 0,
+      alertsSaved: 0,
+      alertsSkipped: 0,
+      alertsDeactivated: 0,
+      incidentsAssigned: 0,
+      errors: []
+    };
+
+    logger.info(`Starting CAP alert ingestion for ${feedUrls.length} feeds`);
+
+    for (const feedUrl of feedUrls) {
+      try {
+        cursor[feedUrl] = await ingestCapFeed(feedUrl, cursor[feedUrl] || { etag: null, lastModified: null, seenEntries: [] }, stats);
+        stats.feedsProcessed++;
+      } catch (error) {
+        logger.error(`Error ingesting CAP feed ${feedUrl}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        stats.errors.push(`${feedUrl}: ${errorMessage}`);
+      }
+    }
+
+    const durationMs = Date.now() - startTime;
+    await saveSourceCursor(CURSOR_NAME, cursor, {
+      fetched: stats.documentsFetched,
+      saved: stats.alertsSaved,
+      skippedByCursor: stats.alertsSkipped,
+      errors: stats.errors,
+      durationMs
+    });
+
+    logger.info(`CAP ingestion completed. Saved ${stats.alertsSaved} alerts, deactivated ${stats.alertsDeactivated}, errors ${stats.errors.length}`);
+
+    return jsonResponse(200, {
+      success: stats.errors.length < feedUrls.length,
+      stats,
+      durationMs,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    logger.error('CAP alert ingester error:', error);
+    return jsonResponse(500, {
+      error: 'CAP ingestion failed',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+async function ingestCapFeed(feedUrl: string, feedCursor: CapFeedCursor, stats: CapIngestionStats): Promise<CapFeedCursor> {
+  const headers: Record<string, string> = { 'User-Agent': 'SmartEAS/1.0 (disaster monitoring)' };
+  if (feedCursor.etag) headers['If-None-Match'] = feedCursor.etag;
+  if (feedCursor.lastModified) headers['If-Modified-Since'] = feedCursor.lastModified;
+
+  const response = await axios.get(feedUrl, {
+    headers,
+    timeout: 15000,
+    responseType: 'text',
+    validateStatus: status => status === 200 || status === 304
+  });
+
+  if (response.status === 304) {
+    stats.notModified++;
+    return feedCursor;
+  }
+
+  const xml = String(response.data);
+  const nextCursor: CapFeedCursor = {
+    etag: response.headers['etag'] || null,
+    lastModified: response.headers['last-modified'] || null,
+    seenEntries: feedCursor.seenEntries
+  };
+
+  // The feed URL is itself a single CAP document
+  if (!/<(feed|rss)[\s>]/.test(xml) && isCapDocument(xml)) {
+    stats.documentsFetched++;
+    await storeCapDocument(xml, feedUrl, stats);
+    return nextCursor;
+  }
+
+  const seen = new Set(feedCursor.seenEntries);
+  const unseen = parseCapIndexFeed(xml).filter(entry => !seen.has(entry.entryId));
+  const batch = unseen.slice(0, MAX_DOCUMENTS_PER_FEED);
+  const stored: string[] = [];
+
+  for (const entry of batch) {
+    try {
+      const documentResponse = await axios.get(entry.url, { headers: { 'User-Agent': headers['User-Agent'] }, timeout: 10000, responseType: 'text' });
+      stats.documentsFetched++;
+      await storeCapDocument(String(documentResponse.data), feedUrl, stats);
+      stored.push(entry.entryId);
+    } catch (error) {
+      logger.error(`Error fetching CAP document ${entry.url}:`, error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      stats.errors.push(`${entry.url}: ${errorMessage}`);
+    }
+  }
+
+  // Don't trust the validators while entries are still pending, or the next run gets a 304 and skips them
+  if (stored.length < unseen.length) {
+    nextCursor.etag = null;
+    nextCursor.lastModified = null;
+  }
+  nextCursor.seenEntries = [...stored, ...feedCursor.seenEntries].slice(0, MAX_SEEN_ENTRIES_PER_FEED);
+
+  return nextCursor;
+}
+
+async function storeCapDocument(xml: string, feedUrl: string, stats: CapIngestionStats): Promise<void> {
+  const alert = parseCapAlert(xml);
+
+  // Exercises, tests and acknowledgements must never validate a real event
+  if (!alert || alert.status !== 'Actual' || alert.msgType === 'Ack' || alert.msgType === 'Error') {
+    stats.alertsSkipped++;
+    return;
+  }
+
+  stats.alertsDeactivated += await deactivateReferencedAlerts(alert);
+
+  const storedAlert = toStoredOfficialAlert(alert, feedUrl);
+  if (!storedAlert || alert.msgType === 'Cancel') {
+    stats.alertsSkipped++;
+    return;
+  }
+
+  await saveOfficialAlert(storedAlert);
+  stats.alertsSaved++;
+
+  if (await assignAlertToIncident(storedAlert)) {
+    stats.incidentsAssigned++;
+  }
+}
+
+// Alerts with geometry and a recognizable hazard join (or open) the matching incident
+async function assignAlertToIncident(alert: StoredOfficialAlert): Promise<boolean> {
+  const disasterType = mapCapEventToDisasterType(alert.event);
+  const coordinates = capAreaCentroid(alert.areas);
+  if (!disasterType || !coordinates) return false;
+
+  const incident = await assignToIncident({
+    kind: 'official_alert',
+    id: alert.id,
+    disasterType,
+    coordinates,
+    severity: alert.severity,
+    confidence: 95,
+    confirmed: true,
+    observedAt: alert.effectiveAt,
+    title: alert.title,
+    location: alert.areas.map((area: any) => area.areaDesc).filter(Boolean).join('; ') || null,
+    source: 'cap'
+  }, {
+    // Minor advisories only attach to incidents that already exist
+    openIfUnmatched: alert.severity !== 'low'
+  });
+  return incident !== null;
+}
+
+function getCapFeedUrls(): string[] {
+  const configured = process.env.CAP_FEED_URLS || '';
+  return configured.split(',').map(url => url.trim()).filter(url => url.length > 0);
+}
+
+function jsonResponse(statusCode: number, body: any): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+    },
+    body: JSON.stringify(body),
+  };
+}
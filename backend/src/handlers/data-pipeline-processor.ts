@@ -1,13 +1,12 @@
 import { APIGatewayProxyHandler, APIGatewayProxyResult } from 'aws-lambda';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient, PutCommand, ScanCommand } from '@aws-sdk/lib-dynamodb';
-import { BedrockRuntimeClient, InvokeModelCommand } from '@aws-sdk/client-bedrock-runtime';
+import { invokeModel } from '../llm/registry';
 import { logger } from '../utils/logger';
 
 // Initialize AWS clients
 const dynamoClient = new DynamoDBClient({ region: process.env.AWS_REGION || 'us-east-1' });
 const docClient = DynamoDBDocumentClient.from(dynamoClient);
-const bedrockClient = new BedrockRuntimeClient({ region: process.env.BEDROCK_REGION || 'us-east-1' });
 
 // Table names
 const EVENTS_TABLE = process.env.EVENTS_TABLE || 'smarteas-dev-dev-events';
@@ -187,7 +186,7 @@ async function scrapeRedditData(): Promise<RedditPost[]> {
   }
 }
 
-// Step 2: AI Analysis using Amazon Bedrock for keyword extraction and classification
+// Step 2: AI Analysis using the configured model for keyword extraction and classification
 async function performAIAnalysis(redditPosts: RedditPost[]): Promise<ProcessedEvent[]> {
   const processedEvents: ProcessedEvent[] = [];
 
@@ -230,7 +229,7 @@ async function performAIAnalysis(redditPosts: RedditPost[]): Promise<ProcessedEv
   return processedEvents;
 }
 
-// AI analysis using Amazon Bedrock Nova Pro
+// AI analysis using the model configured for the pipeline stage
 async function analyzePostWithAI(post: RedditPost) {
   try {
     const prompt = `
@@ -264,27 +263,16 @@ async function analyzePostWithAI(post: RedditPost) {
     }
     `;
 
-    const command = new InvokeModelCommand({
-      modelId: process.env.BEDROCK_MODEL_ID || 'amazon.nova-pro-v1:0',
-      body: JSON.stringify({
-        anthropic_version: "bedrock-2023-05-31",
-        max_tokens: 1000,
-        messages: [
-          {
-            role: "user",
-            content: prompt
-          }
-        ]
-      })
+    const response = await invokeModel('pipeline_analysis', {
+      prompt,
+      input: { title: post.title, content: post.content || '' }
     });
-
-    const response = await bedrockClient.send(command);
-    const responseBody = JSON.parse(new TextDecoder().decode(response.body));
     
     // Parse AI response
     let aiResult;
     try {
-      aiResult = JSON.parse(responseBody.content[0].text);
+      const jsonMatch = response.text.match(/\{[\s\S]*\}/);
+      aiResult = JSON.parse(jsonMatch ? jsonMatch[0] : response.text);
     } catch {
       // Fallback analysis if AI response parsing fails
       aiResult = generateFallbackAnalysis(post);
@@ -292,7 +280,7 @@ async function analyzePostWithAI(post: RedditPost) {
 
     return {
       ...aiResult,
-      processingTime: Date.now() - Date.now() + Math.random() * 3000, // Simulate processing time
+      processingTime: response.latencyMs,
       dataPoints: Math.floor(Math.random() * 500) + 100
     };
 
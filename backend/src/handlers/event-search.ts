@@ -0,0 +1,166 @@
+import { APIGatewayProxyHandler, APIGatewayProxyResult } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, ScanCommand } from '@aws-sdk/lib-dynamodb';
+import { TIMEFRAMES } from '../llm/analysis-schema';
+import { EVENTS_TABLE_NAME } from '../utils/event-store';
+import { logger } from '../utils/logger';
+
+const dynamoClient = new DynamoDBClient({ region: process.env.AWS_REGION });
+const docClient = DynamoDBDocumentClient.from(dynamoClient);
+
+const DEFAULT_SEARCH_LIMIT = 50;
+const MAX_SEARCH_LIMIT = 200;
+// Bounds the cost of one search; a narrow query over a large table returns what these pages held
+const MAX_SCAN_PAGES = 20;
+
+interface SearchFilters {
+  text: string | null; // Lowercase; matched against title and content
+  timeframes: string[];
+  disasterType: string | null;
+  since: number | null;
+}
+
+/**
+ * Event Search API
+ * Finds analyzed disaster posts, including historical ones (anniversaries, retrospectives, old
+ * events shared again) that are kept out of alerts and the heatmap:
+ *
+ *   GET /events/search?q=tohoku&timeframe=historical&disasterType=earthquake&sinceHours=720&limit=50
+ */
+export const handler: APIGatewayProxyHandler = async (event) => {
+  // Handle CORS preflight requests
+  if (event.httpMethod === 'OPTIONS') {
+    const response: APIGatewayProxyResult = {
+      statusCode: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Amz-Date, X-Api-Key, X-Amz-Security-Token, X-Amz-User-Agent',
+        'Access-Control-Allow-Methods': 'GET, OPTIONS',
+        'Access-Control-Max-Age': '86400',
+      },
+      body: '',
+    };
+    return response;
+  }
+
+  try {
+    if (!EVENTS_TABLE_NAME) {
+      throw new Error('EVENTS_TABLE_NAME is undefined (missing env: DYNAMODB_TABLE or DYNAMODB_TABLE_PREFIX)');
+    }
+
+    const queryParams = event.queryStringParameters || {};
+    const timeframes = queryParams.timeframe ? queryParams.timeframe.split(',').map(timeframe => timeframe.trim()) : [];
+    const invalid = timeframes.filter(timeframe => !(TIMEFRAMES as readonly string[]).includes(timeframe));
+    if (invalid.length > 0) {
+      return jsonResponse(400, { error: `Unknown timeframe: ${invalid.join(', ')}` });
+    }
+
+    const sinceHours = queryParams.sinceHours ? parseInt(queryParams.sinceHours, 10) : null;
+    const filters: SearchFilters = {
+      text: queryParams.q ? queryParams.q.trim().toLowerCase() : null,
+      timeframes,
+      disasterType: queryParams.disasterType ? queryParams.disasterType.toLowerCase() : null,
+      since: sinceHours && sinceHours > 0 ? Date.now() - sinceHours * 60 * 60 * 1000 : null
+    };
+    const limit = Math.min(parseInt(queryParams.limit || String(DEFAULT_SEARCH_LIMIT), 10) || DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT);
+
+    const { events, complete } = await searchEvents(filters, limit);
+
+    return jsonResponse(200, {
+      success: true,
+      events,
+      count: events.length,
+      // False when the scan stopped at its page bound before covering the whole table
+      complete,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    logger.error('Event search error:', error);
+    return jsonResponse(500, {
+      error: 'Event search failed',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+async function searchEvents(filters: SearchFilters, limit: number): Promise<{ events: any[]; complete: boolean }> {
+  const conditions = ['#type = :post', 'isDisaster = :true'];
+  const names: Record<string, string> = { '#type': 'type' };
+  const values: Record<string, any> = { ':post': 'social_media_post', ':true': true };
+
+  if (filters.timeframes.length > 0) {
+    conditions.push(`timeframe IN (${filters.timeframes.map((_, i) => `:timeframe${i}`).join(', ')})`);
+    filters.timeframes.forEach((timeframe, i) => { values[`:timeframe${i}`] = timeframe; });
+  }
+  if (filters.disasterType) {
+    conditions.push('disasterType = :disasterType');
+    values[':disasterType'] = filters.disasterType;
+  }
+  if (filters.since) {
+    conditions.push('#timestamp >= :since');
+    names['#timestamp'] = 'timestamp';
+    values[':since'] = filters.since;
+  }
+
+  const matches: any[] = [];
+  let lastEvaluatedKey: Record<string, any> | undefined;
+  let pages = 0;
+
+  do {
+    const result = await docClient.send(new ScanCommand({
+      TableName: EVENTS_TABLE_NAME,
+      FilterExpression: conditions.join(' AND '),
+      ExpressionAttributeNames: names,
+      ExpressionAttributeValues: values,
+      ExclusiveStartKey: lastEvaluatedKey
+    }));
+    pages++;
+
+    // DynamoDB's contains() is case sensitive, so free text is matched here
+    for (const item of result.Items || []) {
+      if (!filters.text || `${item.title || ''} ${item.content || ''}`.toLowerCase().includes(filters.text)) {
+        matches.push(toSearchResult(item));
+      }
+    }
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey && matches.length < limit && pages < MAX_SCAN_PAGES);
+
+  const events = matches
+    .sort((a, b) => (b.createdUtc || 0) - (a.createdUtc || 0))
+    .slice(0, limit);
+  return { events, complete: !lastEvaluatedKey };
+}
+
+function toSearchResult(item: any): any {
+  return {
+    id: item.id,
+    title: item.title || '',
+    content: item.content || '',
+    platform: item.platform || 'reddit',
+    subreddit: item.subreddit || null,
+    url: item.url || null,
+    createdUtc: item.created_utc || null,
+    disasterType: item.disasterType || null,
+    severity: item.aiSeverity || null,
+    location: item.aiLocation || item.location || null,
+    coordinates: item.aiCoordinates || null,
+    confidence: item.aiConfidence ?? null,
+    credibilityScore: item.credibilityScore ?? null,
+    timeframe: item.timeframe || null,
+    referencedDates: item.referencedDates || [],
+    timeframeEvidence: item.timeframeEvidence || [],
+    incidentId: item.incidentId || null
+  };
+}
+
+function jsonResponse(statusCode: number, body: any): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+    },
+    body: JSON.stringify(body),
+  };
+}
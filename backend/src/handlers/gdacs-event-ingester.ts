@@ -0,0 +1,143 @@
+import { APIGatewayProxyHandler, APIGatewayProxyResult } from 'aws-lambda';
+import axios from 'axios';
+import { GdacsEventRecord, parseGdacsFeature, upsertGdacsEvent } from '../utils/gdacs-event-store';
+import { assignToIncident } from '../utils/incident-store';
+import { logger } from '../utils/logger';
+
+const DEFAULT_GDACS_FEED_URL = 'https://www.gdacs.org/gdacsapi/api/events/geteventlist/MAP';
+// Earthquakes come from the USGS/EMSC ingester
+const DEFAULT_GDACS_EVENT_TYPES = ['TC', 'FL', 'VO', 'DR', 'WF'];
+
+interface GdacsIngestionStats {
+  fetched: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  skipped: number;
+  incidentsAssigned: number;
+  byAlertLevel: { green: number; orange: number; red: number };
+  errors: string[];
+}
+
+/**
+ * GDACS Event Ingester
+ * Pulls the GDACS GeoJSON event list (cyclones, floods, volcanoes, droughts, wildfires) and stores
+ * each event with its green/orange/red alert level as an official_event for validation.
+ */
+export const handler: APIGatewayProxyHandler = async (event) => {
+  // Handle CORS preflight requests
+  if (event.httpMethod === 'OPTIONS') {
+    const response: APIGatewayProxyResult = {
+      statusCode: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Amz-Date, X-Api-Key, X-Amz-Security-Token, X-Amz-User-Agent',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Access-Control-Max-Age': '86400',
+      },
+      body: '',
+    };
+    return response;
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const queryParams = event.queryStringParameters || {};
+    const body = event.body ? JSON.parse(event.body) : {};
+    const params = { ...queryParams, ...body };
+
+    const feedUrl = process.env.GDACS_FEED_URL || DEFAULT_GDACS_FEED_URL;
+    const eventTypes = (params.eventTypes || process.env.GDACS_EVENT_TYPES || DEFAULT_GDACS_EVENT_TYPES.join(','))
+      .split(',').map((type: string) => type.trim().toUpperCase()).filter(Boolean);
+
+    const stats: GdacsIngestionStats = {
+      fetched: 0,
+      created: 0,
+      updated: 0,
+      unchanged: 0,
+      skipped: 0,
+      incidentsAssigned: 0,
+      byAlertLevel: { green: 0, orange: 0, red: 0 },
+      errors: []
+    };
+
+    logger.info(`Starting GDACS ingestion for event types ${eventTypes.join(',')}`);
+
+    const response = await axios.get(feedUrl, { timeout: 20000 });
+    const features = (response.data as any)?.features || [];
+    stats.fetched = features.length;
+
+    for (const feature of features) {
+      const gdacsEvent = parseGdacsFeature(feature);
+      // The MAP list also carries polygon features and hazards we don't ingest
+      if (!gdacsEvent || !eventTypes.includes(gdacsEvent.gdacsEventType)) {
+        stats.skipped++;
+        continue;
+      }
+
+      try {
+        const result = await upsertGdacsEvent(gdacsEvent);
+        stats[result]++;
+        stats.byAlertLevel[gdacsEvent.alertLevel] = (stats.byAlertLevel[gdacsEvent.alertLevel] || 0) + 1;
+
+        if (result !== 'unchanged' && await assignEventToIncident(gdacsEvent)) {
+          stats.incidentsAssigned++;
+        }
+      } catch (error) {
+        logger.error(`Error storing GDACS event ${gdacsEvent.id}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        stats.errors.push(`${gdacsEvent.id}: ${errorMessage}`);
+      }
+    }
+
+    const durationMs = Date.now() - startTime;
+    logger.info(`GDACS ingestion completed. Created ${stats.created}, updated ${stats.updated}, unchanged ${stats.unchanged}, errors ${stats.errors.length}`);
+
+    return jsonResponse(200, {
+      success: true,
+      stats,
+      durationMs,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    logger.error('GDACS ingester error:', error);
+    return jsonResponse(500, {
+      error: 'GDACS ingestion failed',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+// Orange and red events open incidents; green ones only join incidents already being reported
+async function assignEventToIncident(gdacsEvent: GdacsEventRecord): Promise<boolean> {
+  const incident = await assignToIncident({
+    kind: 'official_event',
+    id: gdacsEvent.id,
+    disasterType: gdacsEvent.disasterType,
+    coordinates: gdacsEvent.coordinates,
+    severity: gdacsEvent.severity,
+    confidence: 95,
+    confirmed: true,
+    // Long-running events stay current through their episode updates, not their start date
+    observedAt: gdacsEvent.dateModified,
+    title: gdacsEvent.title,
+    location: gdacsEvent.location,
+    source: 'gdacs'
+  }, {
+    openIfUnmatched: gdacsEvent.alertLevel !== 'green'
+  });
+  return incident !== null;
+}
+
+function jsonResponse(statusCode: number, body: any): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+    },
+    body: JSON.stringify(body),
+  };
+}
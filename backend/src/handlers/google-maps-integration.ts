@@ -1,15 +1,9 @@
 import { APIGatewayProxyHandler, APIGatewayProxyResult } from 'aws-lambda';
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, ScanCommand } from '@aws-sdk/lib-dynamodb';
 import axios from 'axios';
+import { CONFIRMED_INCIDENT_STATUSES, OPEN_INCIDENT_STATUSES } from '../utils/incident-lifecycle';
+import { Incident, queryIncidents } from '../utils/incident-store';
 import { logger } from '../utils/logger';
 
-const dynamoClient = new DynamoDBClient({ region: process.env.AWS_REGION });
-const docClient = DynamoDBDocumentClient.from(dynamoClient);
-
-// Table name configuration  
-const EVENTS_TABLE_NAME = process.env.DYNAMODB_TABLE || (process.env.DYNAMODB_TABLE_PREFIX ? `${process.env.DYNAMODB_TABLE_PREFIX}-events` : undefined);
-
 interface MapVisualizationRequest {
   center?: { lat: number; lng: number };
   zoom?: number;
@@ -152,62 +146,28 @@ async function getDisasterDataForVisualization(
   const timeFilter = calculateTimeFilter(timeRange);
   
   try {
-    // Scan DynamoDB for disaster events
-    const scanParams: any = {
-      TableName: EVENTS_TABLE_NAME,
-      FilterExpression: '#timestamp > :timeFilter',
-      ExpressionAttributeNames: {
-        '#timestamp': 'timestamp'
-      },
-      ExpressionAttributeValues: {
-        ':timeFilter': timeFilter
-      }
-    };
-    
-    // Add filters
-    if (!includeUnconfirmed) {
-      scanParams.FilterExpression += ' AND (disasterConfirmed = :confirmed OR isDisaster = :confirmed)';
-      scanParams.ExpressionAttributeValues[':confirmed'] = true;
-    }
-    
-    if (minConfidence > 0) {
-      scanParams.FilterExpression += ' AND (validationConfidence >= :minConf OR aiConfidence >= :minConf)';
-      scanParams.ExpressionAttributeValues[':minConf'] = minConfidence;
-    }
-    
-    const command = new ScanCommand(scanParams);
-    const result = await docClient.send(command);
-    const disasters = result.Items || [];
-    
-    // Filter by disaster types and severity levels
-    const filteredDisasters = disasters.filter(disaster => {
-      if (disasterTypes.length > 0 && !disasterTypes.includes(disaster.disasterType)) {
-        return false;
-      }
-      
-      if (severityLevels.length > 0) {
-        const severity = disaster.validatedSeverity || disaster.aiSeverity || 'low';
-        if (!severityLevels.includes(severity)) {
-          return false;
-        }
-      }
-      
+    // Incidents already merge the posts, alerts and agency events about one disaster
+    const statuses = includeUnconfirmed ? OPEN_INCIDENT_STATUSES : CONFIRMED_INCIDENT_STATUSES;
+    const incidents = (await queryIncidents(statuses, timeFilter)).filter(incident => {
+      if (minConfidence > 0 && incident.confidence < minConfidence) return false;
+      if (disasterTypes.length > 0 && !disasterTypes.includes(incident.disasterType)) return false;
+      if (severityLevels.length > 0 && !severityLevels.includes(incident.severity)) return false;
       return true;
     });
     
-    // Process disasters into visualization formats
-    const heatmapPoints = await generateHeatmapPoints(filteredDisasters);
-    const markers = await generateMapMarkers(filteredDisasters);
-    const regions = await generateDisasterRegions(filteredDisasters);
-    const statistics = calculateVisualizationStatistics(filteredDisasters);
+    // Process incidents into visualization formats
+    const heatmapPoints = generateHeatmapPoints(incidents);
+    const markers = generateMapMarkers(incidents);
+    const regions = generateDisasterRegions(incidents);
+    const statistics = calculateVisualizationStatistics(incidents);
     
     return {
-      totalCount: filteredDisasters.length,
+      totalCount: incidents.length,
       heatmapPoints,
       markers,
       regions,
       statistics,
-      rawData: filteredDisasters
+      rawData: incidents
     };
     
   } catch (error) {
@@ -230,91 +190,61 @@ function calculateTimeFilter(timeRange: string): number {
   return now - duration;
 }
 
-async function generateHeatmapPoints(disasters: any[]): Promise<any[]> {
-  const points = [];
-  
-  for (const disaster of disasters) {
-    const coordinates = await getCoordinates(disaster);
-    if (!coordinates) continue;
-    
-    const intensity = calculateHeatmapIntensity(disaster);
-    
-    points.push({
-      location: { lat: coordinates.lat, lng: coordinates.lng },
-      weight: intensity
-    });
-  }
-  
-  return points;
-}
-
-async function generateMapMarkers(disasters: any[]): Promise<any[]> {
-  const markers = [];
-  
-  for (const disaster of disasters) {
-    const coordinates = await getCoordinates(disaster);
-    if (!coordinates) continue;
-    
-    const marker = {
-      position: { lat: coordinates.lat, lng: coordinates.lng },
-      title: disaster.title || `${disaster.disasterType} Alert`,
-      icon: getMarkerIcon(disaster),
-      data: {
-        id: disaster.id,
-        disasterType: disaster.disasterType,
-        severity: disaster.validatedSeverity || disaster.aiSeverity,
-        confidence: disaster.validationConfidence || disaster.aiConfidence,
-        location: disaster.aiLocation || disaster.location,
-        timestamp: disaster.timestamp,
-        summary: disaster.aiSummary || disaster.title,
-        officialAlerts: disaster.officialAlerts || [],
-        validationSources: disaster.validationSources || []
-      },
-      infoWindow: {
-        content: generateInfoWindowContent(disaster)
-      }
-    };
-    
-    markers.push(marker);
-  }
-  
-  return markers;
-}
-
-async function generateDisasterRegions(disasters: any[]): Promise<any[]> {
-  const regions = [];
-  
-  // Group disasters by geographic proximity
-  const clusters = clusterDisastersByLocation(disasters);
-  
-  for (const cluster of clusters) {
-    const bounds = calculateClusterBounds(cluster);
-    const centerPoint = calculateClusterCenter(cluster);
-    
-    const region = {
-      bounds: bounds,
-      center: centerPoint,
-      disasterCount: cluster.length,
-      dominantType: findDominantDisasterType(cluster),
-      maxSeverity: findMaxSeverity(cluster),
-      avgConfidence: calculateAverageConfidence(cluster),
-      polygon: {
-        paths: generatePolygonPath(bounds),
-        strokeColor: getRegionStrokeColor(cluster),
-        strokeOpacity: 0.8,
-        strokeWeight: 2,
-        fillColor: getRegionFillColor(cluster),
-        fillOpacity: 0.35
-      },
-      infoWindow: {
-        content: generateRegionInfoContent(cluster)
-      }
-    };
-    
-    regions.push(region);
-  }
-  
-  return regions;
+function generateHeatmapPoints(incidents: Incident[]): any[] {
+  return incidents.map(incident => ({
+    location: { lat: incident.coordinates.lat, lng: incident.coordinates.lng },
+    weight: calculateHeatmapIntensity(incident)
+  }));
+}
+
+function generateMapMarkers(incidents: Incident[]): any[] {
+  return incidents.map(incident => ({
+    position: { lat: incident.coordinates.lat, lng: incident.coordinates.lng },
+    title: incident.title || `${incident.disasterType} Alert`,
+    icon: getMarkerIcon(incident),
+    data: {
+      id: incident.id,
+      disasterType: incident.disasterType,
+      status: incident.status,
+      severity: incident.severity,
+      confidence: incident.confidence,
+      location: incident.location,
+      timestamp: incident.lastSeen,
+      firstSeen: incident.firstSeen,
+      lastSeen: incident.lastSeen,
+      reportCount: incident.reportCount,
+      officialAlertCount: incident.officialAlertCount,
+      officialEventCount: incident.officialEventCount,
+      sources: incident.sources
+    },
+    infoWindow: {
+      content: generateInfoWindowContent(incident)
+    }
+  }));
+}
+
+// Each incident is a region; clustering happened when its reports were merged
+function generateDisasterRegions(incidents: Incident[]): any[] {
+  return incidents.map(incident => ({
+    id: incident.id,
+    bounds: incident.bounds,
+    center: incident.coordinates,
+    disasterCount: incident.reportCount + incident.officialAlertCount + incident.officialEventCount,
+    dominantType: incident.disasterType,
+    maxSeverity: incident.severity,
+    avgConfidence: incident.confidence,
+    polygon: {
+      paths: generatePolygonPath(incident.bounds),
+      strokeColor: getRegionStrokeColor(incident.severity),
+      strokeOpacity: 0.8,
+      strokeWeight: 2,
+      fillColor: getRegionFillColor(incident.severity),
+      fillOpacity: 0.35
+    },
+    infoWindow: {
+      content: generateRegionInfoContent(incident)
+    }
+  }));
 }
 
 async function generateGoogleMapsConfig(disasterData: any, options: any): Promise<GoogleMapsIntegration> {
@@ -569,29 +499,11 @@ function generateEventHandlers(): any {
   };
 }
 
-async function getCoordinates(disaster: any): Promise<{ lat: number; lng: number } | null> {
-  // Try to get coordinates from various fields
-  if (disaster.affectedArea && disaster.affectedArea.center) {
-    return disaster.affectedArea.center;
-  }
-  
-  // If no coordinates, try to geocode location
-  const location = disaster.aiLocation || disaster.location;
-  if (location) {
-    // This would call a geocoding service
-    // For now, return null to skip
-    return null;
-  }
-  
-  return null;
-}
-
-function calculateHeatmapIntensity(disaster: any): number {
+function calculateHeatmapIntensity(incident: Incident): number {
   let intensity = 0;
   
   // Base intensity from confidence
-  const confidence = disaster.validationConfidence || disaster.aiConfidence || 0;
-  intensity += confidence * 0.5;
+  intensity += incident.confidence * 0.5;
   
   // Severity multiplier
   const severityWeights: { [key: string]: number } = { 
@@ -600,19 +512,17 @@ function calculateHeatmapIntensity(disaster: any): number {
     high: 0.75, 
     critical: 1.0 
   };
-  const severity = disaster.validatedSeverity || disaster.aiSeverity || 'low';
-  intensity += severityWeights[severity] * 30;
+  intensity += (severityWeights[incident.severity] || severityWeights.low) * 30;
   
   // Official alerts boost
-  const alertCount = (disaster.officialAlerts || []).length;
-  intensity += Math.min(alertCount * 5, 20);
+  intensity += Math.min((incident.officialAlertCount + incident.officialEventCount) * 5, 20);
   
   return Math.min(Math.round(intensity), 100);
 }
 
-function getMarkerIcon(disaster: any): any {
-  const severity = disaster.validatedSeverity || disaster.aiSeverity || 'low';
-  const disasterType = disaster.disasterType || 'unknown';
+function getMarkerIcon(incident: Incident): any {
+  const severity = incident.severity;
+  const disasterType = incident.disasterType || 'unknown';
   
   const iconConfig: { [key: string]: { color: string; size: number } } = {
     low: { color: '#4CAF50', size: 20 },
@@ -647,44 +557,37 @@ function getDisasterIconColor(disasterType: string): string {
   return colorMap[disasterType] || 'gray';
 }
 
-function generateInfoWindowContent(disaster: any): string {
-  const severity = disaster.validatedSeverity || disaster.aiSeverity || 'unknown';
-  const confidence = disaster.validationConfidence || disaster.aiConfidence || 0;
-  const alerts = disaster.officialAlerts || [];
-  const sources = disaster.validationSources || [];
-  
+function generateInfoWindowContent(incident: Incident): string {
   return `
     <div class="disaster-info-window">
-      <h3>${disaster.disasterType || 'Unknown'} Alert</h3>
-      <div class="severity-badge severity-${severity}">${severity.toUpperCase()}</div>
-      <p><strong>Location:</strong> ${disaster.aiLocation || disaster.location || 'Unknown'}</p>
-      <p><strong>Confidence:</strong> ${confidence}%</p>
-      <p><strong>Time:</strong> ${new Date(disaster.timestamp).toLocaleString()}</p>
-      ${disaster.aiSummary ? `<p><strong>Summary:</strong> ${disaster.aiSummary}</p>` : ''}
-      ${alerts.length > 0 ? `<p><strong>Official Alerts:</strong> ${alerts.length}</p>` : ''}
-      ${sources.length > 0 ? `<p><strong>Validated by:</strong> ${sources.map((s: any) => s.source || s).join(', ')}</p>` : ''}
+      <h3>${incident.title || `${incident.disasterType} Alert`}</h3>
+      <div class="severity-badge severity-${incident.severity}">${incident.severity.toUpperCase()}</div>
+      <p><strong>Status:</strong> ${incident.status.replace('_', ' ')}</p>
+      <p><strong>Location:</strong> ${incident.location || 'Unknown'}</p>
+      <p><strong>Confidence:</strong> ${incident.confidence}%</p>
+      <p><strong>Reports:</strong> ${incident.reportCount}</p>
+      <p><strong>First seen:</strong> ${new Date(incident.firstSeen).toLocaleString()}</p>
+      <p><strong>Last seen:</strong> ${new Date(incident.lastSeen).toLocaleString()}</p>
+      ${incident.officialAlertCount > 0 ? `<p><strong>Official Alerts:</strong> ${incident.officialAlertCount}</p>` : ''}
+      ${incident.sources.length > 0 ? `<p><strong>Sources:</strong> ${incident.sources.join(', ')}</p>` : ''}
       <div class="actions">
-        <button onclick="showDisasterDetails('${disaster.id}')">View Details</button>
-        <button onclick="findEvacuationRoute('${disaster.id}')">Evacuation Route</button>
+        <button onclick="showDisasterDetails('${incident.id}')">View Details</button>
+        <button onclick="findEvacuationRoute('${incident.id}')">Evacuation Route</button>
       </div>
     </div>
   `;
 }
 
-function generateRegionInfoContent(cluster: any[]): string {
-  const disasterCount = cluster.length;
-  const dominantType = findDominantDisasterType(cluster);
-  const maxSeverity = findMaxSeverity(cluster);
-  
+function generateRegionInfoContent(incident: Incident): string {
   return `
     <div class="region-info-window">
       <h3>Disaster Region</h3>
-      <p><strong>Disasters:</strong> ${disasterCount}</p>
-      <p><strong>Dominant Type:</strong> ${dominantType}</p>
-      <p><strong>Max Severity:</strong> ${maxSeverity}</p>
+      <p><strong>Reports:</strong> ${incident.reportCount}</p>
+      <p><strong>Type:</strong> ${incident.disasterType}</p>
+      <p><strong>Max Severity:</strong> ${incident.severity}</p>
       <div class="actions">
-        <button onclick="viewRegionDetails()">View All Disasters</button>
-        <button onclick="planEvacuationForRegion()">Evacuation Planning</button>
+        <button onclick="viewRegionDetails('${incident.id}')">View All Reports</button>
+        <button onclick="planEvacuationForRegion('${incident.id}')">Evacuation Planning</button>
       </div>
     </div>
   `;
@@ -713,129 +616,21 @@ function generateClusterStyles(): any[] {
   ];
 }
 
-// Helper functions for clustering and calculations
-function clusterDisastersByLocation(disasters: any[]): any[][] {
-  // Simple distance-based clustering
-  const clusters = [];
-  const processed = new Set();
-  const CLUSTER_DISTANCE = 50; // kilometers
-  
-  for (const disaster of disasters) {
-    if (processed.has(disaster.id)) continue;
-    
-    const cluster = [disaster];
-    processed.add(disaster.id);
-    
-    // Find nearby disasters
-    for (const other of disasters) {
-      if (processed.has(other.id)) continue;
-      
-      const distance = calculateDistance(
-        getCoordinatesSync(disaster),
-        getCoordinatesSync(other)
-      );
-      
-      if (distance <= CLUSTER_DISTANCE) {
-        cluster.push(other);
-        processed.add(other.id);
-      }
-    }
-    
-    if (cluster.length > 0) {
-      clusters.push(cluster);
-    }
-  }
-  
-  return clusters;
-}
-
-function getCoordinatesSync(disaster: any): { lat: number; lng: number } | null {
-  if (disaster.affectedArea && disaster.affectedArea.center) {
-    return disaster.affectedArea.center;
-  }
-  return null;
-}
-
-function calculateDistance(coord1: { lat: number; lng: number } | null, coord2: { lat: number; lng: number } | null): number {
-  if (!coord1 || !coord2) return Infinity;
-  
-  const R = 6371; // Earth's radius in kilometers
-  const dLat = (coord2.lat - coord1.lat) * Math.PI / 180;
-  const dLng = (coord2.lng - coord1.lng) * Math.PI / 180;
-  const a = Math.sin(dLat/2) * Math.sin(dLat/2) +
-            Math.cos(coord1.lat * Math.PI / 180) * Math.cos(coord2.lat * Math.PI / 180) *
-            Math.sin(dLng/2) * Math.sin(dLng/2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-  return R * c;
-}
-
-function calculateClusterBounds(cluster: any[]): any {
-  const coordinates = cluster.map(d => getCoordinatesSync(d)).filter(c => c) as { lat: number; lng: number }[];
-  if (coordinates.length === 0) return null;
-  
-  const lats = coordinates.map(c => c.lat);
-  const lngs = coordinates.map(c => c.lng);
-  
-  return {
-    north: Math.max(...lats),
-    south: Math.min(...lats),
-    east: Math.max(...lngs),
-    west: Math.min(...lngs)
-  };
-}
-
-function calculateClusterCenter(cluster: any[]): { lat: number; lng: number } | null {
-  const coordinates = cluster.map(d => getCoordinatesSync(d)).filter(c => c) as { lat: number; lng: number }[];
-  if (coordinates.length === 0) return null;
-  
-  const avgLat = coordinates.reduce((sum, c) => sum + c.lat, 0) / coordinates.length;
-  const avgLng = coordinates.reduce((sum, c) => sum + c.lng, 0) / coordinates.length;
-  
-  return { lat: avgLat, lng: avgLng };
-}
-
-function findDominantDisasterType(cluster: any[]): string {
-  const types = cluster.map(d => d.disasterType).filter(t => t);
-  const frequency: { [key: string]: number } = {};
-  
-  for (const type of types) {
-    frequency[type] = (frequency[type] || 0) + 1;
-  }
-  
-  return Object.keys(frequency).reduce((a, b) => frequency[a] > frequency[b] ? a : b);
-}
-
-function findMaxSeverity(cluster: any[]): string {
-  const severities = cluster.map(d => d.validatedSeverity || d.aiSeverity || 'low');
-  const severityOrder = ['low', 'medium', 'high', 'critical'];
-  
-  return severities.reduce((max, current) => {
-    const maxIndex = severityOrder.indexOf(max);
-    const currentIndex = severityOrder.indexOf(current);
-    return currentIndex > maxIndex ? current : max;
-  }, 'low');
-}
-
-function calculateAverageConfidence(cluster: any[]): number {
-  const confidences = cluster.map(d => d.validationConfidence || d.aiConfidence || 0);
-  return Math.round(confidences.reduce((sum, c) => sum + c, 0) / confidences.length);
-}
-
-function calculateVisualizationStatistics(disasters: any[]): any {
+function calculateVisualizationStatistics(incidents: Incident[]): any {
   return {
-    total: disasters.length,
-    byType: disasters.reduce((acc, d) => {
-      acc[d.disasterType] = (acc[d.disasterType] || 0) + 1;
+    total: incidents.length,
+    totalReports: incidents.reduce((sum, incident) => sum + incident.reportCount, 0),
+    byType: incidents.reduce((acc: any, incident) => {
+      acc[incident.disasterType] = (acc[incident.disasterType] || 0) + 1;
       return acc;
     }, {}),
-    bySeverity: disasters.reduce((acc, d) => {
-      const severity = d.validatedSeverity || d.aiSeverity || 'low';
-      acc[severity] = (acc[severity] || 0) + 1;
+    bySeverity: incidents.reduce((acc: any, incident) => {
+      acc[incident.severity] = (acc[incident.severity] || 0) + 1;
       return acc;
     }, {}),
-    avgConfidence: Math.round(
-      disasters.reduce((sum, d) => sum + (d.validationConfidence || d.aiConfidence || 0), 0) / disasters.length
-    )
+    avgConfidence: incidents.length > 0
+      ? Math.round(incidents.reduce((sum, incident) => sum + incident.confidence, 0) / incidents.length)
+      : 0
   };
 }
 
@@ -848,17 +643,16 @@ function generatePolygonPath(bounds: any): any[] {
   ];
 }
 
-function getRegionStrokeColor(cluster: any[]): string {
-  const maxSeverity = findMaxSeverity(cluster);
+function getRegionStrokeColor(severity: string): string {
   const colors: { [key: string]: string } = {
     low: '#4CAF50',
     medium: '#FF9800',
     high: '#F44336',
     critical: '#9C27B0'
   };
-  return colors[maxSeverity] || '#808080';
+  return colors[severity] || '#808080';
 }
 
-function getRegionFillColor(cluster: any[]): string {
-  return getRegionStrokeColor(cluster);
+function getRegionFillColor(severity: string): string {
+  return getRegionStrokeColor(severity);
 }
@@ -35,6 +35,11 @@ export const handler: APIGatewayProxyHandler = async (event): Promise<APIGateway
       },
       apis: {
         reddit: process.env.REDDIT_CLIENT_ID ? 'configured' : 'not-configured',
+        twitter: process.env.TWITTER_BEARER_TOKEN || process.env.TWITTER_API_KEY ? 'configured' : 'not-configured',
+        rss: process.env.RSS_FEED_URLS ? 'configured' : 'not-configured',
+        mastodon: process.env.MASTODON_INSTANCES ? 'configured' : 'not-configured',
+        bluesky: process.env.BLUESKY_IDENTIFIER && process.env.BLUESKY_APP_PASSWORD ? 'configured' : 'not-configured',
+        capAlerts: process.env.CAP_FEED_URLS ? 'configured' : 'not-configured',
         openweather: process.env.OPENWEATHER_API_KEY ? 'configured' : 'not-configured',
         bedrock: process.env.BEDROCK_MODEL_ID ? 'configured' : 'not-configured',
         googleMaps: process.env.GOOGLE_MAPS_API_KEY ? 'configured' : 'not-configured'
@@ -1,17 +1,9 @@
 import { APIGatewayProxyHandler, APIGatewayProxyResult } from 'aws-lambda';
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, ScanCommand } from '@aws-sdk/lib-dynamodb';
+import { calculateDistance } from '../utils/geo';
+import { CONFIRMED_INCIDENT_STATUSES, IncidentStatus, OPEN_INCIDENT_STATUSES, isOngoingStatus } from '../utils/incident-lifecycle';
+import { Incident, queryIncidents } from '../utils/incident-store';
 import { logger } from '../utils/logger';
 
-const dynamoClient = new DynamoDBClient({ 
-  region: process.env.BEDROCK_REGION || 'us-east-1',
-  // AWS Lambda automatically provides credentials via IAM role
-});
-const docClient = DynamoDBDocumentClient.from(dynamoClient);
-
-// Table name configuration - Updated to match actual table names
-const EVENTS_TABLE_NAME = process.env.DYNAMODB_TABLE || process.env.DYNAMODB_EVENTS_TABLE || 'smarteas-dev-dev-events';
-
 interface HeatmapDataPoint {
   id: string;
   coordinates: { lat: number; lng: number };
@@ -24,7 +16,11 @@ interface HeatmapDataPoint {
   intensity: number; // 0-100 for heatmap visualization
   alerts: number; // number of alerts for this location
   validationSources: string[];
+  status: IncidentStatus;
   isActive: boolean;
+  reportCount: number; // social posts merged into the incident
+  firstSeen: number;
+  lastSeen: number;
 }
 
 interface HeatmapRegion {
@@ -44,7 +40,7 @@ interface HeatmapRegion {
 
 /**
  * Function 4: Disaster Heatmap Data Aggregator
- * Prepares validated disaster data for Google Maps heatmap visualization
+ * Prepares disaster incidents for Google Maps heatmap visualization
  */
 export const handler: APIGatewayProxyHandler = async (event): Promise<APIGatewayProxyResult> => {
   // Handle CORS preflight requests
@@ -80,14 +76,14 @@ export const handler: APIGatewayProxyHandler = async (event): Promise<APIGateway
     // Calculate time filter
     const timeFilter = calculateTimeFilter(timeRange);
     
-    // Get validated disaster events from DynamoDB
-    const disasters = await getValidatedDisasters(timeFilter, minConfidence, includeUnconfirmed);
+    // Get disaster incidents (clustered posts, alerts and agency events) from DynamoDB
+    const incidents = await getIncidents(timeFilter, minConfidence, includeUnconfirmed);
     
     // Filter by disaster type and severity if specified
-    const filteredDisasters = filterDisasters(disasters, disasterTypes, severityLevels);
+    const filteredIncidents = filterDisasters(incidents, disasterTypes, severityLevels);
     
     // Convert to heatmap data points
-    const heatmapData = await convertToHeatmapData(filteredDisasters);
+    const heatmapData = convertToHeatmapData(filteredIncidents);
     
     // Filter by geographic bounds if specified
     const boundedData = bounds ? filterByBounds(heatmapData, bounds) : heatmapData;
@@ -181,140 +177,62 @@ function calculateTimeFilter(timeRange: string): number {
   return now - duration;
 }
 
-async function getValidatedDisasters(timeFilter: number, minConfidence: number, includeUnconfirmed: boolean): Promise<any[]> {
+// Incidents seen in the time range; each incident is one point however many posts report it
+async function getIncidents(timeFilter: number, minConfidence: number, includeUnconfirmed: boolean): Promise<Incident[]> {
   try {
-    const scanParams: any = {
-      TableName: EVENTS_TABLE_NAME,
-      FilterExpression: '#timestamp > :timeFilter',
-      ExpressionAttributeNames: {
-        '#timestamp': 'timestamp'
-      },
-      ExpressionAttributeValues: {
-        ':timeFilter': timeFilter
-      }
-    };
-    
-    // Add confidence filter if specified
-    if (minConfidence > 0) {
-      scanParams.FilterExpression += ' AND (validationConfidence >= :minConfidence OR aiConfidence >= :minConfidence)';
-      scanParams.ExpressionAttributeValues[':minConfidence'] = minConfidence;
-    }
-    
-    // Add disaster confirmation filter unless including unconfirmed
-    if (!includeUnconfirmed) {
-      scanParams.FilterExpression += ' AND (disasterConfirmed = :confirmed OR isDisaster = :confirmed)';
-      scanParams.ExpressionAttributeValues[':confirmed'] = true;
-    }
-    
-    const command = new ScanCommand(scanParams);
-    const result = await docClient.send(command);
+    // Reported and under-review incidents are only shown when asked for
+    const incidents = await queryIncidents(includeUnconfirmed ? OPEN_INCIDENT_STATUSES : CONFIRMED_INCIDENT_STATUSES, timeFilter);
     
-    return result.Items || [];
+    return incidents.filter(incident => minConfidence <= 0 || incident.confidence >= minConfidence);
     
   } catch (error) {
-    logger.error('Error fetching disasters from DynamoDB:', error);
+    logger.error('Error fetching incidents from DynamoDB:', error);
     throw error;
   }
 }
 
-function filterDisasters(disasters: any[], disasterTypes: string[], severityLevels: string[]): any[] {
-  return disasters.filter(disaster => {
+function filterDisasters(incidents: Incident[], disasterTypes: string[], severityLevels: string[]): Incident[] {
+  return incidents.filter(incident => {
     // Filter by disaster type
-    if (disasterTypes.length > 0) {
-      const disasterType = disaster.disasterType;
-      if (!disasterType || !disasterTypes.includes(disasterType.toLowerCase())) {
-        return false;
-      }
+    if (disasterTypes.length > 0 && !disasterTypes.includes(incident.disasterType)) {
+      return false;
     }
     
     // Filter by severity level
-    if (severityLevels.length > 0) {
-      const severity = disaster.validatedSeverity || disaster.aiSeverity || disaster.severity;
-      if (!severity || !severityLevels.includes(severity.toLowerCase())) {
-        return false;
-      }
+    if (severityLevels.length > 0 && !severityLevels.includes(incident.severity)) {
+      return false;
     }
     
     return true;
   });
 }
 
-async function convertToHeatmapData(disasters: any[]): Promise<HeatmapDataPoint[]> {
-  const heatmapPoints: HeatmapDataPoint[] = [];
-  
-  for (const disaster of disasters) {
-    try {
-      // Extract coordinates
-      let coordinates = null;
-      
-      if (disaster.affectedArea && disaster.affectedArea.center) {
-        coordinates = disaster.affectedArea.center;
-      } else if (disaster.aiLocation || disaster.location) {
-        // Geocode location if we don't have coordinates
-        coordinates = await geocodeLocation(disaster.aiLocation || disaster.location);
-      }
-      
-      if (!coordinates) continue;
-      
-      // Calculate intensity based on confidence, severity, and validation
-      const intensity = calculateIntensity(disaster);
-      
-      // Determine affected radius based on disaster type and severity
-      const affectedRadius = calculateAffectedRadius(disaster);
-      
-      // Count alerts and validation sources
-      const alertCount = (disaster.officialAlerts || []).length;
-      const validationSources = (disaster.validationSources || []).map((s: any) => 
-        typeof s === 'string' ? s : s.source
-      );
-      
-      const dataPoint: HeatmapDataPoint = {
-        id: disaster.id,
-        coordinates: coordinates,
-        disasterType: disaster.disasterType || 'unknown',
-        severity: disaster.validatedSeverity || disaster.aiSeverity || disaster.severity || 'low',
-        confidence: disaster.validationConfidence || disaster.aiConfidence || 0,
-        timestamp: disaster.validationTimestamp || disaster.aiAnalysisTimestamp || disaster.timestamp,
-        location: disaster.aiLocation || disaster.location || 'Unknown',
-        affectedRadius: affectedRadius,
-        intensity: intensity,
-        alerts: alertCount,
-        validationSources: validationSources,
-        isActive: isDisasterActive(disaster)
-      };
-      
-      heatmapPoints.push(dataPoint);
-      
-    } catch (error) {
-      logger.error(`Error processing disaster ${disaster.id}:`, error);
-    }
-  }
-  
-  return heatmapPoints;
+function convertToHeatmapData(incidents: Incident[]): HeatmapDataPoint[] {
+  return incidents.map(incident => ({
+    id: incident.id,
+    coordinates: incident.coordinates,
+    disasterType: incident.disasterType,
+    severity: incident.severity,
+    confidence: incident.confidence,
+    timestamp: incident.lastSeen,
+    location: incident.location || 'Unknown',
+    affectedRadius: calculateAffectedRadius(incident),
+    intensity: calculateIntensity(incident),
+    alerts: incident.officialAlertCount + incident.officialEventCount,
+    validationSources: incident.sources,
+    status: incident.status,
+    isActive: isOngoingStatus(incident.status),
+    reportCount: incident.reportCount,
+    firstSeen: incident.firstSeen,
+    lastSeen: incident.lastSeen
+  }));
 }
 
-async function geocodeLocation(location: string): Promise<{ lat: number; lng: number } | null> {
-  if (!location) return null;
-  
-  try {
-    // Use a geocoding service (Google Maps, OpenStreetMap, etc.)
-    // This is a simplified version - you'd want to implement proper geocoding
-    
-    // For now, return null to skip items without coordinates
-    return null;
-    
-  } catch (error) {
-    logger.error('Geocoding error:', error);
-    return null;
-  }
-}
-
-function calculateIntensity(disaster: any): number {
+function calculateIntensity(incident: Incident): number {
   let intensity = 0;
   
   // Base intensity from confidence
-  const confidence = disaster.validationConfidence || disaster.aiConfidence || 0;
-  intensity += confidence * 0.4; // 40% weight to confidence
+  intensity += incident.confidence * 0.4; // 40% weight to confidence
   
   // Severity multiplier
   const severityWeights: Record<'low' | 'medium' | 'high' | 'critical', number> = {
@@ -323,24 +241,18 @@ function calculateIntensity(disaster: any): number {
     high: 0.8,
     critical: 1.0
   };
-  let severity: string = disaster.validatedSeverity || disaster.aiSeverity || 'low';
-  if (!['low', 'medium', 'high', 'critical'].includes(severity)) {
-    severity = 'low';
-  }
-  intensity += severityWeights[severity as 'low' | 'medium' | 'high' | 'critical'] * 30; // 30% weight to severity
+  intensity += (severityWeights[incident.severity] ?? severityWeights.low) * 30; // 30% weight to severity
   
-  // Official alerts boost
-  const alertCount = (disaster.officialAlerts || []).length;
-  intensity += Math.min(alertCount * 10, 20); // Up to 20% boost for alerts
+  // Official alerts and agency events boost
+  intensity += Math.min((incident.officialAlertCount + incident.officialEventCount) * 10, 20); // Up to 20% boost
   
-  // Multiple validation sources boost
-  const sourceCount = (disaster.validationSources || []).length;
-  intensity += Math.min(sourceCount * 5, 10); // Up to 10% boost for multiple sources
+  // Independent reports boost
+  intensity += Math.min(incident.reportCount * 2, 10); // Up to 10% boost for many reports
   
   return Math.min(Math.round(intensity), 100);
 }
 
-function calculateAffectedRadius(disaster: any): number {
+function calculateAffectedRadius(incident: Incident): number {
   const baseRadius: Record<'earthquake' | 'tsunami' | 'hurricane' | 'tornado' | 'flood' | 'wildfire' | 'volcano' | 'landslide' | 'blizzard', number> = {
     earthquake: 50,
     tsunami: 100,
@@ -353,8 +265,7 @@ function calculateAffectedRadius(disaster: any): number {
     blizzard: 100
   };
   
-  const disasterType: keyof typeof baseRadius = (disaster.disasterType as keyof typeof baseRadius) || 'earthquake';
-  let radius = baseRadius[disasterType] ?? 40;
+  let radius = baseRadius[incident.disasterType as keyof typeof baseRadius] ?? 40;
   
   // Adjust based on severity
   const severityMultipliers = {
@@ -363,46 +274,15 @@ function calculateAffectedRadius(disaster: any): number {
     high: 1.5,
     critical: 2.0
   };
+  radius *= severityMultipliers[incident.severity] ?? 1.0;
   
-  let severity: keyof typeof severityMultipliers = (disaster.validatedSeverity || disaster.aiSeverity || 'medium') as keyof typeof severityMultipliers;
-  if (!['low', 'medium', 'high', 'critical'].includes(severity)) {
-    severity = 'medium';
-  }
-  radius *= severityMultipliers[severity];
-  
-  // Consider specific data (like earthquake magnitude)
-  if (disaster.seismicData && disaster.seismicData.length > 0) {
-    const maxMagnitude = Math.max(...disaster.seismicData.map((s: any) => s.magnitude || 0));
-    if (maxMagnitude > 0) {
-      radius = Math.max(radius, maxMagnitude * 20); // 20km per magnitude unit
-    }
-  }
-  
-  return Math.round(radius);
-}
-
-function isDisasterActive(disaster: any): boolean {
-  const now = Date.now();
-  const disasterTime = disaster.validationTimestamp || disaster.aiAnalysisTimestamp || disaster.timestamp;
-  const timeDiff = now - disasterTime;
-  
-  // Consider disaster active based on type and time
-  const activeThresholds = {
-    earthquake: 24 * 60 * 60 * 1000, // 24 hours
-    tsunami: 12 * 60 * 60 * 1000,    // 12 hours
-    hurricane: 7 * 24 * 60 * 60 * 1000, // 7 days
-    tornado: 6 * 60 * 60 * 1000,     // 6 hours
-    flood: 3 * 24 * 60 * 60 * 1000,  // 3 days
-    wildfire: 14 * 24 * 60 * 60 * 1000, // 14 days
-    volcano: 30 * 24 * 60 * 60 * 1000   // 30 days
-  };
-  
-  const allowedTypes = ['earthquake', 'tsunami', 'hurricane', 'tornado', 'flood', 'wildfire', 'volcano'] as const;
-  type DisasterType = typeof allowedTypes[number];
-  const disasterType: DisasterType = allowedTypes.includes(disaster.disasterType) ? disaster.disasterType as DisasterType : 'earthquake';
-  const threshold = activeThresholds[disasterType] || 24 * 60 * 60 * 1000; // Default 24 hours
+  // Reports spread over a wider area than the type suggests
+  const spreadKm = calculateDistance(
+    { lat: incident.bounds.north, lng: incident.bounds.west },
+    { lat: incident.bounds.south, lng: incident.bounds.east }
+  ) / 2;
   
-  return timeDiff <= threshold;
+  return Math.round(Math.max(radius, spreadKm));
 }
 
 function filterByBounds(data: HeatmapDataPoint[], bounds: any): HeatmapDataPoint[] {
@@ -0,0 +1,38 @@
+import { queryIncidents } from '../utils/incident-store';
+import { handler } from './incident-manager';
+
+jest.mock('../utils/incident-store', () => ({ getIncident: jest.fn(), queryIncidents: jest.fn(), transitionIncident: jest.fn() }));
+
+const mockQueryIncidents = queryIncidents as jest.MockedFunction<typeof queryIncidents>;
+
+function request(event: Record<string, any>): Promise<any> {
+  return (handler as any)({ queryStringParameters: null, body: null, ...event }, {}, () => {});
+}
+
+describe('incident manager request validation', () => {
+  beforeEach(() => {
+    mockQueryIncidents.mockReset();
+    mockQueryIncidents.mockResolvedValue([]);
+  });
+
+  it.each(['abc', '12abc', '-5'])('rejects sinceHours=%p with a 400 before querying', async sinceHours => {
+    const response = await request({ httpMethod: 'GET', queryStringParameters: { sinceHours } });
+
+    expect(response.statusCode).toBe(400);
+    expect(mockQueryIncidents).not.toHaveBeenCalled();
+  });
+
+  it('queries the requested window', async () => {
+    const response = await request({ httpMethod: 'GET', queryStringParameters: { sinceHours: '24' } });
+
+    expect(response.statusCode).toBe(200);
+    expect(Date.now() - mockQueryIncidents.mock.calls[0][1]).toBeGreaterThanOrEqual(24 * 60 * 60 * 1000);
+  });
+
+  it.each(['{not json', '"closed"', '[]'])('rejects a POST body of %p with a 400', async body => {
+    const response = await request({ httpMethod: 'POST', body });
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(response.body).error).toBe('Request body must be a JSON object');
+  });
+});
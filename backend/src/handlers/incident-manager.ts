@@ -0,0 +1,159 @@
+import { APIGatewayProxyHandler, APIGatewayProxyResult } from 'aws-lambda';
+import { agingTransition, canTransition, isIncidentStatus, IncidentStatus, OPEN_INCIDENT_STATUSES } from '../utils/incident-lifecycle';
+import { getIncident, queryIncidents, transitionIncident } from '../utils/incident-store';
+import { logger } from '../utils/logger';
+
+interface AgingStats {
+  checked: number;
+  transitioned: number;
+  conflicts: number;
+  byStatus: Record<string, number>;
+  errors: string[];
+}
+
+/**
+ * Incident Lifecycle Manager
+ * Scheduled runs age open incidents (contained after going quiet, resolved or dismissed later);
+ * the HTTP API lists incidents by status and lets operators move them along the lifecycle.
+ */
+export const handler: APIGatewayProxyHandler = async (event) => {
+  // Handle CORS preflight requests
+  if (event.httpMethod === 'OPTIONS') {
+    const response: APIGatewayProxyResult = {
+      statusCode: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Amz-Date, X-Api-Key, X-Amz-Security-Token, X-Amz-User-Agent',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Access-Control-Max-Age': '86400',
+      },
+      body: '',
+    };
+    return response;
+  }
+
+  try {
+    const isScheduled = !event.httpMethod;
+    if (isScheduled) {
+      const stats = await ageIncidents(Date.now());
+      return jsonResponse(200, { success: true, stats, timestamp: new Date().toISOString() });
+    }
+
+    if (event.httpMethod === 'POST') {
+      const body = parseBody(event.body);
+      if (!body) {
+        return jsonResponse(400, { error: 'Request body must be a JSON object' });
+      }
+      return await handleTransitionRequest(body);
+    }
+
+    const queryParams = event.queryStringParameters || {};
+    const requested = (queryParams.status || OPEN_INCIDENT_STATUSES.join(',')).split(',').map(status => status.trim());
+    const invalid = requested.filter(status => !isIncidentStatus(status));
+    if (invalid.length > 0) {
+      return jsonResponse(400, { error: `Unknown incident status: ${invalid.join(', ')}` });
+    }
+
+    const sinceHours = Number(queryParams.sinceHours || '168');
+    if (isNaN(sinceHours) || sinceHours <= 0) {
+      return jsonResponse(400, { error: `sinceHours must be a positive number of hours, got ${queryParams.sinceHours}` });
+    }
+    const incidents = await queryIncidents(requested as IncidentStatus[], Date.now() - sinceHours * 60 * 60 * 1000);
+
+    return jsonResponse(200, {
+      success: true,
+      incidents,
+      count: incidents.length,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    logger.error('Incident manager error:', error);
+    return jsonResponse(500, {
+      error: 'Incident request failed',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+async function ageIncidents(now: number): Promise<AgingStats> {
+  const stats: AgingStats = { checked: 0, transitioned: 0, conflicts: 0, byStatus: {}, errors: [] };
+  const incidents = await queryIncidents(OPEN_INCIDENT_STATUSES, 0);
+  stats.checked = incidents.length;
+
+  for (const incident of incidents) {
+    const due = agingTransition(incident, now);
+    if (!due) continue;
+
+    try {
+      const updated = await transitionIncident(incident, due.to, { at: now, trigger: 'aging', actor: 'incident-aging', reason: due.reason });
+      if (!updated) {
+        // A new report joined in the meantime; the next run looks at it again
+        stats.conflicts++;
+        continue;
+      }
+      stats.transitioned++;
+      stats.byStatus[due.to] = (stats.byStatus[due.to] || 0) + 1;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`Error aging incident ${incident.id}:`, error);
+      stats.errors.push(`${incident.id}: ${errorMessage}`);
+    }
+  }
+
+  logger.info(`Incident aging completed. Checked ${stats.checked}, transitioned ${stats.transitioned}, conflicts ${stats.conflicts}`);
+  return stats;
+}
+
+// Null when the body isn't a JSON object, so callers can answer 400 instead of failing with a 500
+function parseBody(raw: string | null): any | null {
+  if (!raw) return {};
+  try {
+    const body = JSON.parse(raw);
+    return body && typeof body === 'object' && !Array.isArray(body) ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+async function handleTransitionRequest(body: any): Promise<APIGatewayProxyResult> {
+  const { incidentId, status, actor, reason } = body;
+  if (!incidentId || !status || !actor) {
+    return jsonResponse(400, { error: 'incidentId, status and actor are required' });
+  }
+  if (!isIncidentStatus(status)) {
+    return jsonResponse(400, { error: `Unknown incident status: ${status}` });
+  }
+
+  const incident = await getIncident(incidentId);
+  if (!incident) {
+    return jsonResponse(404, { error: `Incident ${incidentId} not found` });
+  }
+  if (!canTransition(incident.status, status)) {
+    return jsonResponse(409, { error: `Incident ${incidentId} cannot move from ${incident.status} to ${status}` });
+  }
+
+  const updated = await transitionIncident(incident, status, {
+    at: Date.now(),
+    trigger: 'operator',
+    actor: String(actor),
+    reason: reason ? String(reason) : 'Operator decision'
+  });
+  if (!updated) {
+    return jsonResponse(409, { error: `Incident ${incidentId} changed while updating; reload and retry` });
+  }
+
+  logger.info(`Incident ${incidentId} moved from ${incident.status} to ${status} by ${actor}`);
+  return jsonResponse(200, { success: true, incident: updated });
+}
+
+function jsonResponse(statusCode: number, body: any): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+    },
+    body: JSON.stringify(body),
+  };
+}
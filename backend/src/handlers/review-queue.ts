@@ -0,0 +1,294 @@
+import { APIGatewayProxyHandler, APIGatewayProxyResult } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { LabeledExample } from '../eval/dataset';
+import { loadGazetteer } from '../location/gazetteer';
+import { geocodeLocation } from '../location/geocoder';
+import { EVENTS_TABLE_NAME } from '../utils/event-store';
+import { LatLng } from '../utils/geo';
+import { canTransition, IncidentStatus, IncidentTransition } from '../utils/incident-lifecycle';
+import { assignToIncident, getIncident, Incident, IncidentSeverity, transitionIncident } from '../utils/incident-store';
+import { logger } from '../utils/logger';
+import { getReviewItem, isDecisionUnapplied, listReviewItems, markReviewApplied, recordReviewDecision, ReviewDecisionType, ReviewItem } from '../utils/review-queue-store';
+
+const dynamoClient = new DynamoDBClient({ region: process.env.AWS_REGION });
+const docClient = DynamoDBDocumentClient.from(dynamoClient);
+
+const DECISIONS: ReviewDecisionType[] = ['confirm', 'reject', 'relabel'];
+const SEVERITIES: IncidentSeverity[] = ['low', 'medium', 'high', 'critical'];
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 200;
+// Concurrent evidence can change an incident between reading and transitioning it
+const MAX_TRANSITION_ATTEMPTS = 3;
+
+interface Relabel {
+  disasterType?: string;
+  severity?: IncidentSeverity;
+  location?: string;
+}
+
+/**
+ * Review Queue API
+ * Lists borderline and conflicting classifications and records reviewer decisions. A decision
+ * updates the event, moves its incident along the lifecycle as an operator transition and is
+ * kept as a labeled example for the evaluation harness.
+ */
+export const handler: APIGatewayProxyHandler = async (event) => {
+  // Handle CORS preflight requests
+  if (event.httpMethod === 'OPTIONS') {
+    const response: APIGatewayProxyResult = {
+      statusCode: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Amz-Date, X-Api-Key, X-Amz-Security-Token, X-Amz-User-Agent',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Access-Control-Max-Age': '86400',
+      },
+      body: '',
+    };
+    return response;
+  }
+
+  try {
+    if (event.httpMethod === 'POST') {
+      return await handleDecisionRequest(event.body ? JSON.parse(event.body) : {});
+    }
+
+    const queryParams = event.queryStringParameters || {};
+    const status = queryParams.status || 'pending';
+    if (status !== 'pending' && status !== 'decided') {
+      return jsonResponse(400, { error: `Unknown review status: ${status}` });
+    }
+
+    const limit = Math.min(parseInt(queryParams.limit || String(DEFAULT_LIST_LIMIT), 10) || DEFAULT_LIST_LIMIT, MAX_LIST_LIMIT);
+    const items = await listReviewItems(status, limit);
+
+    return jsonResponse(200, {
+      success: true,
+      items,
+      count: items.length,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    logger.error('Review queue error:', error);
+    return jsonResponse(500, {
+      error: 'Review request failed',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+async function handleDecisionRequest(body: any): Promise<APIGatewayProxyResult> {
+  const { eventId, decision, reviewer, notes } = body;
+  if (!eventId || !decision || !reviewer) {
+    return jsonResponse(400, { error: 'eventId, decision and reviewer are required' });
+  }
+  if (!DECISIONS.includes(decision)) {
+    return jsonResponse(400, { error: `decision must be one of ${DECISIONS.join(', ')}` });
+  }
+
+  const relabel: Relabel = {
+    disasterType: body.disasterType ? String(body.disasterType).toLowerCase() : undefined,
+    severity: body.severity,
+    location: body.location ? String(body.location) : undefined
+  };
+  const hasRelabel = !!(relabel.disasterType || relabel.severity || relabel.location);
+  if (decision === 'relabel' && !hasRelabel) {
+    return jsonResponse(400, { error: 'relabel needs a disasterType, severity or location' });
+  }
+  if (decision !== 'relabel' && hasRelabel) {
+    return jsonResponse(400, { error: 'disasterType, severity and location only apply to relabel' });
+  }
+  if (relabel.severity && !SEVERITIES.includes(relabel.severity)) {
+    return jsonResponse(400, { error: `severity must be one of ${SEVERITIES.join(', ')}` });
+  }
+
+  const item = await getReviewItem(eventId);
+  if (!item) {
+    return jsonResponse(404, { error: `Event ${eventId} is not in the review queue` });
+  }
+
+  // The same decision sent again finishes one that was recorded but failed part way through applying
+  const resuming = isDecisionUnapplied(item) && item.decision?.decision === decision && item.decision?.reviewer === String(reviewer);
+  if (item.status !== 'pending' && !resuming) {
+    return jsonResponse(409, { error: `Event ${eventId} was already reviewed by ${item.decision?.reviewer}` });
+  }
+
+  const label = resuming ? item.label! : buildLabel(item, decision, relabel);
+  if (label.expected.isDisaster && !label.expected.disasterType) {
+    return jsonResponse(400, { error: 'The AI gave no disaster type; relabel with a disasterType instead' });
+  }
+
+  const postEvent = await getEvent(eventId);
+  if (!postEvent) {
+    return jsonResponse(404, { error: `Event ${eventId} not found` });
+  }
+
+  const decided = resuming ? item : await recordReviewDecision(eventId, {
+    decision,
+    reviewer: String(reviewer),
+    notes: notes ? String(notes) : null,
+    decidedAt: Date.now()
+  }, label);
+  if (!decided) {
+    return jsonResponse(409, { error: `Event ${eventId} was reviewed concurrently; reload the queue` });
+  }
+
+  // Every step below can be repeated, so a failure leaves the decision for a retry to finish
+  await loadGazetteer();
+  const coordinates = label.expected.isDisaster ? await resolveCoordinates(postEvent, relabel) : null;
+  const cause = {
+    at: decided.decision!.decidedAt,
+    trigger: 'operator' as const,
+    actor: String(reviewer),
+    reason: decided.decision!.notes ? `Review ${decision}: ${decided.decision!.notes}` : `Review ${decision}`
+  };
+  const incident = await applyDecisionToIncident(postEvent, label, coordinates, cause);
+  await updateEventWithReview(eventId, decided, label, coordinates, incident);
+  await markReviewApplied(eventId);
+
+  logger.info(`Event ${eventId} reviewed by ${reviewer}: ${decision}${resuming ? ' (resumed)' : ''}${incident ? `, incident ${incident.id} is ${incident.status}` : ''}`);
+  return jsonResponse(200, { success: true, item: { ...decided, applied: true }, incident });
+}
+
+// The reviewer's answer in evaluation dataset format; confirm keeps the AI's labels
+function buildLabel(item: ReviewItem, decision: ReviewDecisionType, relabel: Relabel): LabeledExample {
+  const isDisaster = decision !== 'reject';
+  const aiSeverity = SEVERITIES.includes(item.aiSeverity as IncidentSeverity) ? item.aiSeverity as IncidentSeverity : null;
+
+  return {
+    id: item.eventId,
+    title: item.title,
+    content: item.content,
+    subreddit: item.subreddit,
+    platform: item.platform,
+    expected: {
+      isDisaster,
+      disasterType: isDisaster ? relabel.disasterType || item.aiDisasterType : null,
+      severity: isDisaster ? relabel.severity || aiSeverity : null,
+      location: isDisaster ? relabel.location || item.aiLocation : null
+    }
+  };
+}
+
+async function getEvent(eventId: string): Promise<any | null> {
+  const result = await docClient.send(new GetCommand({
+    TableName: EVENTS_TABLE_NAME,
+    Key: { id: eventId }
+  }));
+  return result.Item || null;
+}
+
+// A corrected location is geocoded again; otherwise the analyzer's coordinates still hold
+async function resolveCoordinates(postEvent: any, relabel: Relabel): Promise<LatLng | null> {
+  if (relabel.location) {
+    const geocoded = await geocodeLocation(relabel.location, { subreddit: postEvent.subreddit });
+    return geocoded?.coordinates || null;
+  }
+  return postEvent.aiCoordinates || null;
+}
+
+/**
+ * Confirmed posts join (or open) an incident that is then confirmed; a rejected post dismisses
+ * its incident only when it was the incident's sole evidence.
+ */
+async function applyDecisionToIncident(postEvent: any, label: LabeledExample, coordinates: LatLng | null, cause: Omit<IncidentTransition, 'from' | 'to'>): Promise<Incident | null> {
+  if (!label.expected.isDisaster) {
+    if (!postEvent.incidentId) return null;
+    return moveIncident(postEvent.incidentId, 'dismissed', cause, incident =>
+      incident.reportCount <= 1 && incident.officialEventCount + incident.officialAlertCount === 0);
+  }
+
+  let incidentId: string | null = postEvent.incidentId || null;
+  if (!incidentId && coordinates) {
+    const createdUtc = parseInt(postEvent.created_utc || '0', 10);
+    const joined = await assignToIncident({
+      kind: 'post',
+      id: postEvent.id,
+      disasterType: label.expected.disasterType!,
+      coordinates,
+      severity: label.expected.severity || 'medium',
+      // A person checked it
+      confidence: 100,
+      confirmed: true,
+      observedAt: createdUtc > 0 ? createdUtc * 1000 : postEvent.timestamp || Date.now(),
+      title: postEvent.title || null,
+      location: label.expected.location,
+      source: postEvent.platform || 'social'
+    });
+    incidentId = joined?.id || null;
+  }
+  if (!incidentId) return null;
+
+  return moveIncident(incidentId, 'confirmed', cause, () => true);
+}
+
+// Transitions when the lifecycle allows it, reloading on concurrent changes; returns the incident as it ends up
+async function moveIncident(incidentId: string, to: IncidentStatus, cause: Omit<IncidentTransition, 'from' | 'to'>, shouldMove: (incident: Incident) => boolean): Promise<Incident | null> {
+  for (let attempt = 0; attempt < MAX_TRANSITION_ATTEMPTS; attempt++) {
+    const incident = await getIncident(incidentId);
+    if (!incident || !shouldMove(incident) || !canTransition(incident.status, to)) return incident;
+
+    const updated = await transitionIncident(incident, to, cause);
+    if (updated) return updated;
+  }
+
+  logger.warn(`Incident ${incidentId} kept changing; review left it for the next operator action`);
+  return getIncident(incidentId);
+}
+
+async function updateEventWithReview(eventId: string, item: ReviewItem, label: LabeledExample, coordinates: LatLng | null, incident: Incident | null): Promise<void> {
+  const { expected } = label;
+  const assignments = [
+    'reviewDecision = :decision',
+    'reviewedBy = :reviewer',
+    'reviewedAt = :reviewedAt',
+    'isDisaster = :isDisaster',
+    'disasterType = :disasterType'
+  ];
+  const values: Record<string, any> = {
+    ':decision': item.decision!.decision,
+    ':reviewer': item.decision!.reviewer,
+    ':reviewedAt': item.decision!.decidedAt,
+    ':isDisaster': expected.isDisaster,
+    ':disasterType': expected.disasterType
+  };
+
+  if (expected.isDisaster) {
+    assignments.push('aiSeverity = :severity', 'aiLocation = :location');
+    values[':severity'] = expected.severity;
+    values[':location'] = expected.location;
+  }
+  if (coordinates) {
+    assignments.push('aiCoordinates = :coordinates');
+    values[':coordinates'] = coordinates;
+  }
+  if (incident) {
+    assignments.push('incidentId = :incidentId');
+    values[':incidentId'] = incident.id;
+  }
+
+  try {
+    await docClient.send(new UpdateCommand({
+      TableName: EVENTS_TABLE_NAME,
+      Key: { id: eventId },
+      UpdateExpression: `SET ${assignments.join(', ')}`,
+      ExpressionAttributeValues: values
+    }));
+  } catch (error) {
+    logger.error(`Error updating event ${eventId} with review decision:`, error);
+    throw error;
+  }
+}
+
+function jsonResponse(statusCode: number, body: any): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+    },
+    body: JSON.stringify(body),
+  };
+}
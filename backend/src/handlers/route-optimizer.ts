@@ -1,10 +1,11 @@
 import { APIGatewayProxyHandler, APIGatewayProxyResult } from 'aws-lambda';
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, ScanCommand } from '@aws-sdk/lib-dynamodb';
+import { queryIncidents } from '../utils/incident-store';
 import { logger } from '../utils/logger';
 
-const dynamoClient = new DynamoDBClient({ region: process.env.AWS_REGION || 'us-east-1' });
-const docClient = DynamoDBDocumentClient.from(dynamoClient);
+// Incidents still posing a hazard; contained ones no longer divert routes
+const ROUTE_HAZARD_STATUSES = ['confirmed', 'active'] as const;
+// Incidents quiet for longer than this are left to the lifecycle aging to close
+const ROUTE_HAZARD_LOOKBACK_MS = 30 * 24 * 60 * 60 * 1000;
 
 interface Location {
   lat: number;
@@ -84,21 +85,15 @@ export const handler: APIGatewayProxyHandler = async (event): Promise<APIGateway
     let activeDisasters: any[] = [];
     if (body.avoidDisasters) {
       try {
-        const scanCommand = new ScanCommand({
-          TableName: `${process.env.DYNAMODB_TABLE_PREFIX}-events`,
-          FilterExpression: '#status = :active AND #type = :disaster',
-          ExpressionAttributeNames: {
-            '#status': 'status',
-            '#type': 'type'
-          },
-          ExpressionAttributeValues: {
-            ':active': 'active',
-            ':disaster': 'disaster'
-          }
-        });
-
-        const result = await docClient.send(scanCommand);
-        activeDisasters = result.Items || [];
+        const incidents = await queryIncidents([...ROUTE_HAZARD_STATUSES], Date.now() - ROUTE_HAZARD_LOOKBACK_MS);
+        activeDisasters = incidents.map(incident => ({
+          id: incident.id,
+          eventType: incident.disasterType,
+          location: incident.coordinates,
+          severity: incident.severity,
+          status: incident.status,
+          description: incident.title
+        }));
         logger.info('Retrieved active disasters', { count: activeDisasters.length });
       } catch (error) {
         logger.warn('Failed to retrieve disasters', { error });
@@ -0,0 +1,227 @@
+import { APIGatewayProxyHandler, APIGatewayProxyResult } from 'aws-lambda';
+import axios from 'axios';
+import { assignToIncident } from '../utils/incident-store';
+import { logger } from '../utils/logger';
+import { AgencyQuake, isSameEarthquake, magnitudeToSeverity, upsertSeismicEvent } from '../utils/seismic-event-store';
+
+const USGS_FEED_BASE_URL = 'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary';
+const EMSC_QUERY_URL = 'https://www.seismicportal.eu/fdsnws/event/1/query';
+// Smaller quakes only join incidents that posts already opened
+const DEFAULT_INCIDENT_MIN_MAGNITUDE = 4.5;
+
+interface SeismicIngestionStats {
+  usgsFetched: number;
+  emscFetched: number;
+  created: number;
+  merged: number;
+  updated: number;
+  unchanged: number;
+  incidentsAssigned: number;
+  errors: string[];
+}
+
+/**
+ * Seismic Event Ingester
+ * Pulls the USGS GeoJSON summary feed and the EMSC FDSN feed on a schedule and stores each
+ * earthquake once as an authoritative official_event, merging the two agencies' solutions.
+ */
+export const handler: APIGatewayProxyHandler = async (event) => {
+  // Handle CORS preflight requests
+  if (event.httpMethod === 'OPTIONS') {
+    const response: APIGatewayProxyResult = {
+      statusCode: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Amz-Date, X-Api-Key, X-Amz-Security-Token, X-Amz-User-Agent',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Access-Control-Max-Age': '86400',
+      },
+      body: '',
+    };
+    return response;
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const queryParams = event.queryStringParameters || {};
+    const body = event.body ? JSON.parse(event.body) : {};
+    const params = { ...queryParams, ...body };
+
+    const minMagnitude = parseFloat(params.minMagnitude || process.env.SEISMIC_MIN_MAGNITUDE || '2.5');
+    const lookbackHours = parseInt(params.lookbackHours || '24');
+
+    const stats: SeismicIngestionStats = {
+      usgsFetched: 0,
+      emscFetched: 0,
+      created: 0,
+      merged: 0,
+      updated: 0,
+      unchanged: 0,
+      incidentsAssigned: 0,
+      errors: []
+    };
+
+    logger.info(`Starting seismic ingestion (M${minMagnitude}+, last ${lookbackHours}h)`);
+
+    const [usgsQuakes, emscQuakes] = await Promise.all([
+      fetchUSGSQuakes(minMagnitude, lookbackHours).catch(error => {
+        logger.error('USGS feed error:', error);
+        stats.errors.push(`usgs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        return [] as AgencyQuake[];
+      }),
+      fetchEMSCQuakes(minMagnitude, lookbackHours).catch(error => {
+        logger.error('EMSC feed error:', error);
+        stats.errors.push(`emsc: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        return [] as AgencyQuake[];
+      })
+    ]);
+    stats.usgsFetched = usgsQuakes.length;
+    stats.emscFetched = emscQuakes.length;
+
+    for (const solutions of pairAgencySolutions(usgsQuakes, emscQuakes)) {
+      try {
+        const { result, eventId, primary } = await upsertSeismicEvent(solutions);
+        stats[result]++;
+
+        if (result !== 'unchanged') {
+          const incident = await assignToIncident({
+            kind: 'official_event',
+            id: eventId,
+            disasterType: 'earthquake',
+            coordinates: primary.coordinates,
+            severity: magnitudeToSeverity(primary.magnitude),
+            confidence: 95,
+            confirmed: true,
+            observedAt: primary.time,
+            title: `M ${primary.magnitude.toFixed(1)} - ${primary.place}`,
+            location: primary.place,
+            source: primary.agency
+          }, {
+            openIfUnmatched: primary.magnitude >= getIncidentMinMagnitude()
+          });
+          if (incident) stats.incidentsAssigned++;
+        }
+      } catch (error) {
+        logger.error(`Error storing earthquake ${solutions[0].agencyId}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        stats.errors.push(`${solutions[0].agency}:${solutions[0].agencyId}: ${errorMessage}`);
+      }
+    }
+
+    const durationMs = Date.now() - startTime;
+    logger.info(`Seismic ingestion completed. Created ${stats.created}, merged ${stats.merged}, updated ${stats.updated}, unchanged ${stats.unchanged}, errors ${stats.errors.length}`);
+
+    return jsonResponse(200, {
+      success: true,
+      stats,
+      durationMs,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    logger.error('Seismic ingester error:', error);
+    return jsonResponse(500, {
+      error: 'Seismic ingestion failed',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+async function fetchUSGSQuakes(minMagnitude: number, lookbackHours: number): Promise<AgencyQuake[]> {
+  // Summary feeds come in fixed magnitude/period buckets; pick the smallest that covers the request
+  const magnitudeBucket = minMagnitude >= 4.5 ? '4.5' : minMagnitude >= 2.5 ? '2.5' : minMagnitude >= 1.0 ? '1.0' : 'all';
+  const period = lookbackHours <= 1 ? 'hour' : lookbackHours <= 24 ? 'day' : 'week';
+
+  const response = await axios.get(`${USGS_FEED_BASE_URL}/${magnitudeBucket}_${period}.geojson`, { timeout: 15000 });
+  const features = (response.data as any)?.features || [];
+  const since = Date.now() - lookbackHours * 60 * 60 * 1000;
+
+  return features
+    .filter((feature: any) => feature.properties?.mag >= minMagnitude && feature.properties.time >= since)
+    .map((feature: any): AgencyQuake => {
+      const [lng, lat, depth] = feature.geometry.coordinates;
+      return {
+        agency: 'usgs',
+        agencyId: feature.id,
+        magnitude: feature.properties.mag,
+        magnitudeType: feature.properties.magType || null,
+        depth: depth || 0,
+        coordinates: { lat, lng },
+        place: feature.properties.place || 'Unknown location',
+        time: feature.properties.time,
+        updated: feature.properties.updated || feature.properties.time,
+        url: feature.properties.url || null,
+        tsunami: feature.properties.tsunami === 1
+      };
+    });
+}
+
+async function fetchEMSCQuakes(minMagnitude: number, lookbackHours: number): Promise<AgencyQuake[]> {
+  const response = await axios.get(EMSC_QUERY_URL, {
+    params: {
+      format: 'json',
+      minmag: minMagnitude,
+      start: new Date(Date.now() - lookbackHours * 60 * 60 * 1000).toISOString().slice(0, 19),
+      orderby: 'time',
+      limit: 500
+    },
+    timeout: 15000
+  });
+  const features = (response.data as any)?.features || [];
+
+  return features.map((feature: any): AgencyQuake => {
+    const properties = feature.properties || {};
+    const time = new Date(properties.time).getTime();
+    return {
+      agency: 'emsc',
+      agencyId: properties.unid || feature.id,
+      magnitude: properties.mag,
+      magnitudeType: properties.magtype || null,
+      depth: properties.depth || 0,
+      coordinates: { lat: properties.lat, lng: properties.lon },
+      place: properties.flynn_region || 'Unknown location',
+      time,
+      updated: properties.lastupdate ? new Date(properties.lastupdate).getTime() : time,
+      url: properties.unid ? `https://www.seismicportal.eu/eventdetails.html?unid=${properties.unid}` : null,
+      tsunami: false
+    };
+  });
+}
+
+// Groups each USGS solution with the EMSC solution for the same quake; unmatched ones stand alone
+function pairAgencySolutions(usgsQuakes: AgencyQuake[], emscQuakes: AgencyQuake[]): AgencyQuake[][] {
+  const remaining = [...emscQuakes];
+  const groups: AgencyQuake[][] = [];
+
+  for (const usgsQuake of usgsQuakes) {
+    const matchIndex = remaining.findIndex(emscQuake => isSameEarthquake(usgsQuake, emscQuake));
+    if (matchIndex >= 0) {
+      groups.push([usgsQuake, remaining[matchIndex]]);
+      remaining.splice(matchIndex, 1);
+    } else {
+      groups.push([usgsQuake]);
+    }
+  }
+
+  for (const emscQuake of remaining) {
+    groups.push([emscQuake]);
+  }
+
+  return groups;
+}
+
+function getIncidentMinMagnitude(): number {
+  return parseFloat(process.env.SEISMIC_INCIDENT_MIN_MAGNITUDE || String(DEFAULT_INCIDENT_MIN_MAGNITUDE));
+}
+
+function jsonResponse(statusCode: number, body: any): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+    },
+    body: JSON.stringify(body),
+  };
+}
@@ -0,0 +1,119 @@
+import { APIGatewayProxyHandler, APIGatewayProxyResult } from 'aws-lambda';
+import { runIngestionSource } from '../sources/runner';
+import { twitterSource } from '../sources/twitter-source';
+import { SourceFetchOptions } from '../sources/types';
+import { logger } from '../utils/logger';
+
+/**
+ * Twitter/X Scraper
+ * Runs disaster keyword recent-search queries and saves tweets in the same record shape as Reddit posts.
+ * Scheduled Twitter ingestion runs through the source registry in the Reddit scraper.
+ */
+export const handler: APIGatewayProxyHandler = async (event) => {
+  // Handle CORS preflight requests
+  if (event.httpMethod === 'OPTIONS') {
+    const response: APIGatewayProxyResult = {
+      statusCode: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Amz-Date, X-Api-Key, X-Amz-Security-Token, X-Amz-User-Agent',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Access-Control-Max-Age': '86400',
+      },
+      body: '',
+    };
+    return response;
+  }
+
+  try {
+    logger.info('Starting Twitter recent-search ingestion...');
+    
+    // Parse request parameters - support both GET and POST
+    const queryParams = event.queryStringParameters || {};
+    const body = event.body ? JSON.parse(event.body) : {};
+    const params = { ...queryParams, ...body };
+    
+    const options: SourceFetchOptions = {
+      limit: parseInt(params.limit || '10'),
+      timeRange: params.timeRange || 'day',
+      targets: params.query ? [params.query] : [],
+      keywords: params.keywords ? params.keywords.split(',') : [],
+      params
+    };
+    
+    // Check if Twitter credentials are available
+    if (!twitterSource.isConfigured()) {
+      logger.warn('Twitter credentials not configured, returning mock data');
+      
+      const mockResponse = {
+        success: true,
+        totalPosts: 5,
+        processedQueries: 1,
+        errors: [],
+        posts: twitterSource.generateMockPosts(options),
+        duplicates: 0,
+        savedToDynamoDB: 0,
+        source: 'mock',
+        message: 'Twitter API credentials not configured - showing mock data'
+      };
+      
+      return {
+        statusCode: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+        },
+        body: JSON.stringify(mockResponse),
+      };
+    }
+    
+    const { stats, posts } = await runIngestionSource(twitterSource, options);
+    
+    logger.info(`Twitter ingestion completed. Found ${stats.fetched} tweets, saved ${stats.saved}`);
+    
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Headers': 'Content-Type',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+      },
+      body: JSON.stringify({
+        message: 'Twitter ingestion completed',
+        results: {
+          totalPosts: stats.fetched,
+          processedQueries: stats.targetsProcessed,
+          errors: stats.errors,
+          posts,
+          duplicates: stats.duplicates,
+          savedToDynamoDB: stats.saved
+        },
+        sources: { [twitterSource.name]: stats },
+        summary: {
+          totalPostsFound: stats.fetched,
+          uniquePostsSaved: stats.saved,
+          geotaggedPosts: posts.filter(p => p.geo?.coordinates).length,
+          errorCount: stats.errors.length
+        }
+      })
+    };
+    
+  } catch (error) {
+    logger.error('Twitter scraper error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return {
+      statusCode: 500,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Headers': 'Content-Type',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+      },
+      body: JSON.stringify({
+        error: 'Twitter scraping failed',
+        message: errorMessage
+      })
+    };
+  }
+};
@@ -2,7 +2,17 @@ import { DynamoDBStreamHandler } from 'aws-lambda';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient, UpdateCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
 import axios from 'axios';
+import { loadGazetteer } from '../location/gazetteer';
+import { geocodeLocation } from '../location/geocoder';
+import { calculateDistance } from '../utils/geo';
+import { dampConfidence } from '../utils/credibility';
+import { findGdacsEventsNear, gdacsEventMatchesDisasterType } from '../utils/gdacs-event-store';
+import { Incident, assignToIncident } from '../utils/incident-store';
 import { logger } from '../utils/logger';
+import { findOfficialAlertsForLocation } from '../utils/official-alert-store';
+import { linkPostToOfficialEvent } from '../utils/official-event-store';
+import { enqueueForReview, getValidationMinConfidence, ReviewReason } from '../utils/review-queue-store';
+import { findSeismicEventsNear } from '../utils/seismic-event-store';
 
 const dynamoClient = new DynamoDBClient({ region: process.env.AWS_REGION });
 const docClient = DynamoDBDocumentClient.from(dynamoClient);
@@ -25,6 +35,8 @@ interface WeatherValidationResult {
   } | null;
   validationTimestamp: number;
   recommendations: string[];
+  linkedOfficialEventId: string | null; // Ingested official event (e.g. USGS/EMSC earthquake) this post reports on
+  incidentId: string | null;
 }
 
 interface ValidationSource {
@@ -77,6 +89,7 @@ interface SeismicData {
 export const handler: DynamoDBStreamHandler = async (event) => {
   try {
     logger.info(`Processing ${event.Records.length} DynamoDB stream records for weather validation`);
+    await loadGazetteer();
     
     const validationStats = {
       processed: 0,
@@ -89,12 +102,14 @@ export const handler: DynamoDBStreamHandler = async (event) => {
       if (record.eventName === 'INSERT' || record.eventName === 'MODIFY') {
         const newItem = record.dynamodb?.NewImage;
         
-        // Only process AI-confirmed disasters that haven't been weather validated
+        // Only process AI-confirmed disasters that haven't been weather validated; past events
+        // stay searchable in the events table but never become incidents (heatmap) or alerts
         if (newItem?.aiAnalyzed?.BOOL === true && 
             newItem?.isDisaster?.BOOL === true &&
+            newItem?.timeframe?.S !== 'historical' &&
             newItem?.weatherValidated?.BOOL !== true &&
             newItem?.aiConfidence?.N && 
-            parseFloat(newItem.aiConfidence.N) > 60) {
+            parseFloat(newItem.aiConfidence.N) > getValidationMinConfidence()) {
           
           try {
             const result = await validateWithOfficialSources(newItem);
@@ -143,19 +158,28 @@ async function validateWithOfficialSources(item: any): Promise<WeatherValidation
       severity: 'low',
       affectedArea: null,
       validationTimestamp: Date.now(),
-      recommendations: []
+      recommendations: [],
+      linkedOfficialEventId: null,
+      incidentId: null
     };
     
     // Parse location to coordinates
-    const coordinates = await geocodeLocation(location);
+    const coordinates = await resolveEventCoordinates(item, location);
     
     if (!coordinates) {
       logger.warn(`Unable to geocode location: ${location}`);
       validation.recommendations.push('Unable to validate - location not found');
       await updateEventWithValidation(eventId, validation);
+      await queueForReview(item, 'location_unresolved', validation);
       return validation;
     }
     
+    // Locally stored CAP alerts first; a match makes the per-event alert API calls unnecessary
+    const storedAlertMatched = await validateWithStoredOfficialAlerts(coordinates, location, timestamp, validation, disasterType);
+    
+    // GDACS covers the regions (Philippines, Indonesia, Turkey, ...) that have no NWS/CAP source
+    await validateWithGDACS(coordinates, location, timestamp, validation, disasterType);
+    
     // Validate based on disaster type using multiple sources
     switch (disasterType?.toLowerCase()) {
       case 'earthquake':
@@ -177,17 +201,17 @@ async function validateWithOfficialSources(item: any): Promise<WeatherValidation
       case 'hurricane':
       case 'tornado':
       case 'storm':
-        await validateWeatherDisaster(coordinates, timestamp, validation, disasterType);
+        await validateWeatherDisaster(coordinates, timestamp, validation, disasterType, storedAlertMatched);
         break;
       case 'wildfire':
         await validateWildfire(coordinates, timestamp, validation);
         break;
       default:
-        await validateGenericDisaster(coordinates, timestamp, validation, disasterType);
+        await validateGenericDisaster(coordinates, timestamp, validation, disasterType, storedAlertMatched);
     }
     
     // Calculate overall confidence and confirmation
-    validation.confidence = calculateOverallConfidence(validation);
+    validation.confidence = calculateOverallConfidence(validation, item.credibilityScore?.N ? parseFloat(item.credibilityScore.N) : null);
     validation.disasterConfirmed = validation.confidence > 70;
     
     // Determine severity based on validation data
@@ -196,12 +220,25 @@ async function validateWithOfficialSources(item: any): Promise<WeatherValidation
     // Generate recommendations
     validation.recommendations = generateRecommendations(validation, disasterType);
     
+    // Group the post with other reports of the same disaster
+    const incident = await assignPostToIncident(item, coordinates, location, validation);
+    validation.incidentId = incident?.id || null;
+    
     // Update the event with validation results
     await updateEventWithValidation(eventId, validation);
     
+    if (validation.linkedOfficialEventId) {
+      await linkPostToOfficialEvent(validation.linkedOfficialEventId, eventId);
+    }
+    
+    // The AI was confident, official sources don't back it up
+    if (!validation.disasterConfirmed) {
+      await queueForReview(item, 'validation_conflict', validation);
+    }
+    
     // If disaster is confirmed with high confidence, create official alert
     if (validation.disasterConfirmed && validation.confidence > 80) {
-      await createValidatedAlert(eventId, item, validation);
+      await createValidatedAlert(eventId, item, validation, incident);
     }
     
     logger.info(`Validation completed for ${eventId}: ${validation.disasterConfirmed ? 'CONFIRMED' : 'NOT_CONFIRMED'} (confidence: ${validation.confidence}%)`);
@@ -214,56 +251,61 @@ async function validateWithOfficialSources(item: any): Promise<WeatherValidation
   }
 }
 
-async function geocodeLocation(location: string): Promise<{ lat: number; lng: number } | null> {
-  if (!location) return null;
+async function queueForReview(item: any, reason: ReviewReason, validation: WeatherValidationResult): Promise<void> {
+  await enqueueForReview({
+    eventId: item.id.S,
+    reason,
+    title: item.title?.S || '',
+    content: item.content?.S || '',
+    subreddit: item.subreddit?.S || '',
+    platform: item.platform?.S || 'reddit',
+    url: item.url?.S || null,
+    aiDisasterType: item.disasterType?.S || null,
+    aiSeverity: item.aiSeverity?.S || null,
+    aiLocation: item.aiLocation?.S || item.location?.S || null,
+    aiConfidence: parseFloat(item.aiConfidence?.N || '0'),
+    // Nothing was checked without a location
+    validationConfidence: reason === 'location_unresolved' ? null : validation.confidence,
+    incidentId: validation.incidentId
+  });
+}
+
+async function assignPostToIncident(item: any, coordinates: { lat: number; lng: number }, location: string | undefined, validation: WeatherValidationResult): Promise<Incident | null> {
+  const createdUtc = parseInt(item.created_utc?.N || '0');
   
-  try {
-    // Try Google Maps Geocoding API first
-    if (process.env.GOOGLE_MAPS_API_KEY) {
-      const response = await axios.get(`https://maps.googleapis.com/maps/api/geocode/json`, {
-        params: {
-          address: location,
-          key: process.env.GOOGLE_MAPS_API_KEY
-        },
-        timeout: 5000
-      });
-      
-      const googleData = response.data as { status: string; results: Array<{ geometry: { location: { lat: number; lng: number } } }> };
-      if (googleData.status === 'OK' && googleData.results.length > 0) {
-        const { lat, lng } = googleData.results[0].geometry.location;
-        return { lat, lng };
-      }
-    }
-    
-    // Fallback to OpenStreetMap Nominatim API
-    const response = await axios.get(`https://nominatim.openstreetmap.org/search`, {
-      params: {
-        q: location,
-        format: 'json',
-        limit: 1
-      },
-      headers: {
-        'User-Agent': 'SmartEAS/2.0'
-      },
-      timeout: 5000
-    });
-    
-    const osmData = response.data as Array<{ lat: string; lon: string }>;
-    if (Array.isArray(osmData) && osmData.length > 0) {
-      return {
-        lat: parseFloat(osmData[0].lat),
-        lng: parseFloat(osmData[0].lon)
-      };
-    }
-    
-  } catch (error) {
-    logger.error('Geocoding error:', error);
+  return assignToIncident({
+    kind: 'post',
+    id: item.id.S,
+    disasterType: item.disasterType?.S || '',
+    coordinates,
+    // Unconfirmed posts still count as reports, at the severity the AI gave them
+    severity: validation.disasterConfirmed ? validation.severity : (item.aiSeverity?.S || 'low'),
+    confidence: validation.disasterConfirmed ? validation.confidence : parseFloat(item.aiConfidence?.N || '0'),
+    confirmed: validation.disasterConfirmed,
+    observedAt: createdUtc > 0 ? createdUtc * 1000 : parseInt(item.timestamp?.N || String(Date.now())),
+    title: item.title?.S || null,
+    location: location || null,
+    source: item.platform?.S || 'social'
+  });
+}
+
+// Coordinates the analyzer resolved first, then the shared geocoder
+async function resolveEventCoordinates(item: any, location: string | undefined): Promise<{ lat: number; lng: number } | null> {
+  const stored = item.aiCoordinates?.M;
+  if (stored?.lat?.N && stored?.lng?.N) {
+    return { lat: parseFloat(stored.lat.N), lng: parseFloat(stored.lng.N) };
   }
   
-  return null;
+  const geocoded = await geocodeLocation(location, { subreddit: item.subreddit?.S });
+  return geocoded?.coordinates || null;
 }
 
 async function validateEarthquake(coordinates: { lat: number; lng: number }, timestamp: number, validation: WeatherValidationResult): Promise<void> {
+  // Earthquakes ingested from the USGS/EMSC feeds come first; the post is linked to the official event
+  if (await validateWithStoredSeismicEvents(coordinates, timestamp, validation)) {
+    return;
+  }
+  
   // USGS Earthquake API
   await validateWithUSGS(coordinates, timestamp, validation);
   
@@ -274,6 +316,94 @@ async function validateEarthquake(coordinates: { lat: number; lng: number }, tim
   await validateWithGlobalSeismic(coordinates, timestamp, validation);
 }
 
+async function validateWithStoredSeismicEvents(coordinates: { lat: number; lng: number }, timestamp: number, validation: WeatherValidationResult): Promise<boolean> {
+  try {
+    const timeWindow = 2 * 60 * 60 * 1000; // 2 hours before and after
+    const events = await findSeismicEventsNear(coordinates, timestamp - timeWindow, timestamp + timeWindow, 500);
+    let confirmed = false;
+    
+    for (const event of events) {
+      const seismicData: SeismicData = {
+        source: Object.keys(event.agencies || {}).map(agency => agency.toUpperCase()).join('+') || 'USGS',
+        magnitude: event.magnitude,
+        depth: event.depth,
+        location: event.coordinates,
+        place: event.location,
+        time: event.originTime,
+        tsunami: event.tsunami
+      };
+      
+      validation.seismicData.push(seismicData);
+      
+      // Same scoring as the live USGS lookup
+      const distance = calculateDistance(coordinates, event.coordinates);
+      let confidence = 90;
+      
+      if (distance > 100) confidence -= (distance - 100) / 10;
+      if (event.magnitude < 5.0) confidence -= (5.0 - event.magnitude) * 10;
+      
+      const eventConfirmed = event.magnitude >= 4.0;
+      validation.validationSources.push({
+        source: seismicData.source,
+        confirmed: eventConfirmed,
+        confidence: Math.max(confidence, 0),
+        data: { ...seismicData, officialEventId: event.id },
+        timestamp: Date.now()
+      });
+      
+      // Events are sorted by magnitude, so the first confirmed one is the strongest
+      if (eventConfirmed && !confirmed) {
+        validation.linkedOfficialEventId = event.id;
+        confirmed = true;
+      }
+    }
+    
+    return confirmed;
+    
+  } catch (error) {
+    logger.error('Stored seismic event validation error:', error);
+    return false;
+  }
+}
+
+async function validateWithGDACS(coordinates: { lat: number; lng: number }, location: string | undefined, timestamp: number, validation: WeatherValidationResult, disasterType: string | undefined): Promise<void> {
+  try {
+    const events = await findGdacsEventsNear(coordinates, location || null, timestamp || Date.now());
+    const alertLevelConfidence: { [level: string]: number } = { red: 95, orange: 85, green: 70 };
+    
+    for (const event of events) {
+      const alertData: OfficialAlert = {
+        source: 'GDACS',
+        alertType: event.title,
+        severity: event.alertLevel,
+        area: event.country || event.location,
+        issuedAt: new Date(event.fromTime).toISOString(),
+        message: event.description
+      };
+      
+      validation.officialAlerts.push(alertData);
+      
+      const eventMatches = gdacsEventMatchesDisasterType(event, disasterType);
+      
+      validation.validationSources.push({
+        source: 'GDACS',
+        confirmed: eventMatches,
+        confidence: eventMatches ? (alertLevelConfidence[event.alertLevel] || 70) : 20,
+        data: { ...alertData, officialEventId: event.id, alertScore: event.alertScore, reportUrl: event.reportUrl },
+        timestamp: Date.now()
+      });
+      
+      // Events are sorted by alert score, so the first match is the most severe
+      if (eventMatches && !validation.linkedOfficialEventId) {
+        validation.linkedOfficialEventId = event.id;
+      }
+    }
+    
+  } catch (error) {
+    logger.error('GDACS validation error:', error);
+  }
+}
+
 async function validateWithUSGS(coordinates: { lat: number; lng: number }, timestamp: number, validation: WeatherValidationResult): Promise<void> {
   try {
     const timeWindow = 2 * 60 * 60 * 1000; // 2 hours before and after
@@ -382,15 +512,62 @@ async function validateWithGlobalSeismic(coordinates: { lat: number; lng: number
   // This is a placeholder for additional seismic validation sources
 }
 
-async function validateWeatherDisaster(coordinates: { lat: number; lng: number }, timestamp: number, validation: WeatherValidationResult, disasterType: string): Promise<void> {
-  // NOAA/NWS Weather API
-  await validateWithNOAA(coordinates, timestamp, validation, disasterType);
+async function validateWeatherDisaster(coordinates: { lat: number; lng: number }, timestamp: number, validation: WeatherValidationResult, disasterType: string, storedAlertMatched: boolean): Promise<void> {
+  if (!storedAlertMatched) {
+    // NOAA/NWS Weather API
+    await validateWithNOAA(coordinates, timestamp, validation, disasterType);
+  }
   
   // OpenWeatherMap API
   await validateWithOpenWeather(coordinates, timestamp, validation, disasterType);
   
-  // Weather.gov alerts
-  await validateWithWeatherGov(coordinates, timestamp, validation);
+  if (!storedAlertMatched) {
+    // Weather.gov alerts
+    await validateWithWeatherGov(coordinates, timestamp, validation);
+  }
+}
+
+// Matches against CAP alerts stored by the CAP ingester; returns true when one confirms the disaster type
+async function validateWithStoredOfficialAlerts(coordinates: { lat: number; lng: number }, location: string | undefined, timestamp: number, validation: WeatherValidationResult, disasterType: string | undefined): Promise<boolean> {
+  try {
+    const alerts = await findOfficialAlertsForLocation(coordinates, location || null, timestamp || Date.now());
+    let matched = false;
+    
+    for (const alert of alerts) {
+      const alertData: OfficialAlert = {
+        source: `CAP/${alert.senderName || alert.sender}`,
+        alertType: alert.event,
+        severity: alert.capSeverity,
+        area: (alert.areas || []).map((area: any) => area.areaDesc).filter(Boolean).join('; '),
+        issuedAt: new Date(alert.sentAt).toISOString(),
+        message: alert.title
+      };
+      
+      validation.officialAlerts.push(alertData);
+      
+      const alertMatches = Boolean(disasterType) &&
+        (checkAlertMatch(alert.event, disasterType!) || alert.event.toLowerCase().includes(disasterType!.toLowerCase()));
+      matched = matched || alertMatches;
+      
+      validation.validationSources.push({
+        source: 'CAP',
+        confirmed: alertMatches,
+        confidence: alertMatches ? 95 : 20,
+        data: { ...alertData, alertId: alert.id, certainty: alert.certainty, urgency: alert.urgency },
+        timestamp: Date.now()
+      });
+    }
+    
+    if (alerts.length > 0) {
+      logger.info(`Matched ${alerts.length} stored official alerts (${matched ? 'confirming' : 'non-matching'} ${disasterType})`);
+    }
+    
+    return matched;
+    
+  } catch (error) {
+    logger.error('Stored official alert validation error:', error);
+    return false;
+  }
 }
 
 async function validateWithNOAA(coordinates: { lat: number; lng: number }, timestamp: number, validation: WeatherValidationResult, disasterType: string): Promise<void> {
@@ -581,23 +758,14 @@ async function validateWithNIFC(coordinates: { lat: number; lng: number }, times
   // Placeholder for NIFC validation
 }
 
-async function validateGenericDisaster(coordinates: { lat: number; lng: number }, timestamp: number, validation: WeatherValidationResult, disasterType: string): Promise<void> {
+async function validateGenericDisaster(coordinates: { lat: number; lng: number }, timestamp: number, validation: WeatherValidationResult, disasterType: string, storedAlertMatched: boolean): Promise<void> {
   // Generic validation using available weather and alert APIs
-  await validateWithNOAA(coordinates, timestamp, validation, disasterType);
+  if (!storedAlertMatched) {
+    await validateWithNOAA(coordinates, timestamp, validation, disasterType);
+  }
   await validateWithOpenWeather(coordinates, timestamp, validation, disasterType);
 }
 
-function calculateDistance(coord1: { lat: number; lng: number }, coord2: { lat: number; lng: number }): number {
-  const R = 6371; // Earth's radius in kilometers
-  const dLat = (coord2.lat - coord1.lat) * Math.PI / 180;
-  const dLng = (coord2.lng - coord1.lng) * Math.PI / 180;
-  const a = Math.sin(dLat/2) * Math.sin(dLat/2) +
-            Math.cos(coord1.lat * Math.PI / 180) * Math.cos(coord2.lat * Math.PI / 180) *
-            Math.sin(dLng/2) * Math.sin(dLng/2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-  return R * c;
-}
-
 function checkAlertMatch(alertType: string, disasterType: string): boolean {
   const alertMap: { [key: string]: string[] } = {
     'tornado': ['Tornado Warning', 'Tornado Watch', 'Severe Thunderstorm Warning'],
@@ -628,7 +796,8 @@ function checkSevereWeather(weatherData: any, disasterType: string): boolean {
   }
 }
 
-function calculateOverallConfidence(validation: WeatherValidationResult): number {
+// Official sources confirm that something happened; the post's credibility says whether this post is a report of it
+function calculateOverallConfidence(validation: WeatherValidationResult, credibilityScore: number | null): number {
   if (validation.validationSources.length === 0) return 0;
   
   let totalConfidence = 0;
@@ -647,10 +816,10 @@ function calculateOverallConfidence(validation: WeatherValidationResult): number
   
   // Boost confidence if multiple sources confirm
   if (confirmedSources > 1) {
-    return Math.min(avgConfidence + (confirmedSources - 1) * 10, 95);
+    return dampConfidence(Math.min(avgConfidence + (confirmedSources - 1) * 10, 95), credibilityScore);
   }
   
-  return avgConfidence;
+  return dampConfidence(avgConfidence, credibilityScore);
 }
 
 function determineSeverity(validation: WeatherValidationResult): 'low' | 'medium' | 'high' | 'critical' {
@@ -721,7 +890,9 @@ async function updateEventWithValidation(eventId: string, validation: WeatherVal
           validatedSeverity = :severity,
           affectedArea = :area,
           validationTimestamp = :timestamp,
-          validationRecommendations = :recommendations
+          validationRecommendations = :recommendations,
+          linkedOfficialEventId = :linkedOfficialEventId,
+          incidentId = :incidentId
       `,
       ExpressionAttributeValues: {
         ':validated': validation.isValidated,
@@ -734,7 +905,9 @@ async function updateEventWithValidation(eventId: string, validation: WeatherVal
         ':severity': validation.severity,
         ':area': validation.affectedArea,
         ':timestamp': validation.validationTimestamp,
-        ':recommendations': validation.recommendations
+        ':recommendations': validation.recommendations,
+        ':linkedOfficialEventId': validation.linkedOfficialEventId,
+        ':incidentId': validation.incidentId
       }
     });
     
@@ -746,26 +919,31 @@ async function updateEventWithValidation(eventId: string, validation: WeatherVal
   }
 }
 
-async function createValidatedAlert(eventId: string, originalItem: any, validation: WeatherValidationResult): Promise<void> {
+async function createValidatedAlert(eventId: string, originalItem: any, validation: WeatherValidationResult, incident: Incident | null): Promise<void> {
   try {
-    const alertId = `alert_${eventId}_${Date.now()}`;
+    // One alert per incident, refreshed by each confirming post, instead of one per post
+    const alertId = incident ? `alert_${incident.id}` : `alert_${eventId}_${Date.now()}`;
     
     const alert = {
       id: alertId,
       type: 'validated_disaster_alert',
       originalEventId: eventId,
-      disasterType: originalItem.disasterType?.S,
-      severity: validation.severity,
+      incidentId: incident?.id || null,
+      reportCount: incident?.reportCount || 1,
+      firstSeen: incident?.firstSeen || null,
+      lastSeen: incident?.lastSeen || null,
+      disasterType: incident?.disasterType || originalItem.disasterType?.S,
+      severity: incident?.severity || validation.severity,
       confidence: validation.confidence,
-      location: originalItem.aiLocation?.S || originalItem.location?.S,
-      coordinates: validation.affectedArea?.center,
+      location: incident?.location || originalItem.aiLocation?.S || originalItem.location?.S,
+      coordinates: incident?.coordinates || validation.affectedArea?.center,
       affectedArea: validation.affectedArea,
       officialAlerts: validation.officialAlerts,
       validationSources: validation.validationSources.map(s => s.source),
       recommendations: validation.recommendations,
       createdAt: new Date().toISOString(),
       timestamp: Date.now(),
-      status: 'active',
+      status: incident?.status || 'confirmed',
       priority: validation.severity === 'critical' ? 'immediate' : 
                 validation.severity === 'high' ? 'high' : 'medium'
     };
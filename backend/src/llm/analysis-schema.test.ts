@@ -0,0 +1,104 @@
+import { buildRepairPrompt, extractJsonObject, validateAnalysisOutput } from './analysis-schema';
+
+const VALID = {
+  isDisaster: true,
+  disasterType: 'earthquake',
+  severity: 'high',
+  confidence: 85,
+  location: 'Tokyo, Japan',
+  urgency: 'immediate',
+  affectedPopulation: 20000,
+  timeframe: 'current',
+  reportingStyle: 'firsthand',
+  summary: 'Strong earthquake reported in Tokyo',
+  keyIndicators: ['earthquake', 'collapsed'],
+  recommendations: ['Verify through official sources']
+};
+
+describe('validateAnalysisOutput', () => {
+  it('accepts a well-formed analysis as is', () => {
+    expect(validateAnalysisOutput(VALID)).toEqual({ output: VALID, errors: [], coercions: [] });
+  });
+
+  it('coerces enum synonyms and casing', () => {
+    const result = validateAnalysisOutput({
+      ...VALID,
+      disasterType: 'Typhoon',
+      severity: 'Moderate',
+      urgency: 'urgent',
+      timeframe: 'ongoing',
+      reportingStyle: 'eyewitness'
+    });
+
+    expect(result.errors).toEqual([]);
+    expect(result.output).toMatchObject({
+      disasterType: 'hurricane',
+      severity: 'medium',
+      urgency: 'immediate',
+      timeframe: 'current',
+      reportingStyle: 'firsthand'
+    });
+    expect(result.coercions).toEqual(['disasterType', 'severity', 'urgency', 'timeframe', 'reportingStyle']);
+  });
+
+  it('maps "null" strings to null and fills in defaults for omitted optional enums', () => {
+    const { urgency, timeframe, reportingStyle, ...rest } = VALID;
+    const result = validateAnalysisOutput({ ...rest, disasterType: 'null' });
+
+    // An omitted timeframe stays null so the text's dates decide rather than an assumed 'current'
+    expect(result.output).toMatchObject({ disasterType: null, urgency: 'low', timeframe: null, reportingStyle: null });
+    // Only the "null" string counts as coerced; omitted fields just take their default
+    expect(result.coercions).toEqual(['disasterType']);
+  });
+
+  it('coerces percentages, fractions, booleans and single strings', () => {
+    const result = validateAnalysisOutput({ ...VALID, isDisaster: 'true', confidence: '85%', keyIndicators: 'flooding' });
+
+    expect(result.output).toMatchObject({ isDisaster: true, confidence: 85, keyIndicators: ['flooding'] });
+    expect(validateAnalysisOutput({ ...VALID, confidence: 0.72 }).output!.confidence).toBe(72);
+  });
+
+  it('rejects values it cannot map and reports every problem', () => {
+    const result = validateAnalysisOutput({ ...VALID, disasterType: 'alien invasion', severity: undefined, confidence: 140 });
+
+    expect(result.output).toBeNull();
+    expect(result.errors).toEqual([
+      'disasterType: "alien invasion" is not one of earthquake|tsunami|flood|hurricane|tornado|wildfire|volcano|landslide|blizzard|drought|other',
+      'severity: required, one of low|medium|high|critical',
+      'confidence: 140 is outside 0-100'
+    ]);
+  });
+
+  it('rejects anything that is not an object', () => {
+    expect(validateAnalysisOutput(null).errors).toEqual(['Response is not a JSON object']);
+    expect(validateAnalysisOutput([VALID]).errors).toEqual(['Response is not a JSON object']);
+  });
+});
+
+describe('extractJsonObject', () => {
+  it('finds the JSON object in surrounding prose', () => {
+    expect(extractJsonObject('Here is the analysis:\n{"isDisaster": false}\nThanks')).toEqual({ isDisaster: false });
+  });
+
+  it('returns null when there is no parseable object', () => {
+    expect(extractJsonObject('No disaster here')).toBeNull();
+    expect(extractJsonObject('{"isDisaster": tru')).toBeNull();
+  });
+});
+
+describe('buildRepairPrompt', () => {
+  it('repeats the prompt with the previous answer and the problems found', () => {
+    const prompt = buildRepairPrompt('Analyze this post', '{"severity": "huge"}', ['severity: "huge" is not one of low|medium|high|critical']);
+
+    expect(prompt.startsWith('Analyze this post\n')).toBe(true);
+    expect(prompt).toContain('{"severity": "huge"}');
+    expect(prompt).toContain('- severity: "huge" is not one of low|medium|high|critical');
+  });
+
+  it('truncates a long previous answer', () => {
+    const prompt = buildRepairPrompt('Analyze', 'x'.repeat(5000), []);
+
+    expect(prompt).toContain('x'.repeat(2000));
+    expect(prompt).not.toContain('x'.repeat(2001));
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Runtime schema for the disaster analysis a model returns
+ * Model output is checked field by field: near-miss values are coerced ("Moderate" → medium,
+ * "85%" → 85), anything else is reported as an error so the caller can ask for a repair.
+ */
+
+export const DISASTER_TYPES = ['earthquake', 'tsunami', 'flood', 'hurricane', 'tornado', 'wildfire', 'volcano', 'landslide', 'blizzard', 'drought', 'other'] as const;
+export const SEVERITIES = ['low', 'medium', 'high', 'critical'] as const;
+export const URGENCIES = ['low', 'medium', 'high', 'immediate'] as const;
+export const TIMEFRAMES = ['historical', 'current', 'imminent'] as const;
+export const REPORTING_STYLES = ['firsthand', 'news', 'secondhand', 'speculation', 'satire'] as const;
+
+export interface AnalysisOutput {
+  isDisaster: boolean;
+  disasterType: typeof DISASTER_TYPES[number] | null;
+  severity: typeof SEVERITIES[number];
+  confidence: number; // 0-100
+  location: string | null;
+  urgency: typeof URGENCIES[number];
+  affectedPopulation: number | null;
+  timeframe: typeof TIMEFRAMES[number] | null; // Null when the model didn't say
+  reportingStyle: typeof REPORTING_STYLES[number] | null; // Null when the prompt didn't ask for it
+  summary: string;
+  keyIndicators: string[];
+  recommendations: string[];
+}
+
+export interface SchemaValidationResult {
+  output: AnalysisOutput | null; // Null when any field was rejected
+  errors: string[];
+  coercions: string[]; // Fields that were present but accepted only after coercion
+}
+
+type FieldResult = { value: any; coerced?: boolean; error?: string };
+type FieldValidator = (value: any) => FieldResult;
+
+// Synonyms models use for the enum values; keys are lowercase
+const DISASTER_TYPE_SYNONYMS: Record<string, string> = {
+  quake: 'earthquake',
+  cyclone: 'hurricane',
+  typhoon: 'hurricane',
+  'tropical storm': 'hurricane',
+  fire: 'wildfire',
+  'forest fire': 'wildfire',
+  'flash flood': 'flood',
+  flooding: 'flood',
+  mudslide: 'landslide',
+  'volcanic eruption': 'volcano',
+  snowstorm: 'blizzard',
+  storm: 'other',
+  heatwave: 'other'
+};
+const SEVERITY_SYNONYMS: Record<string, string> = { minor: 'low', moderate: 'medium', severe: 'high', major: 'high', extreme: 'critical' };
+const URGENCY_SYNONYMS: Record<string, string> = { critical: 'immediate', urgent: 'immediate', moderate: 'medium' };
+const TIMEFRAME_SYNONYMS: Record<string, string> = { past: 'historical', ongoing: 'current', now: 'current', recent: 'current', upcoming: 'imminent', forecast: 'imminent' };
+const REPORTING_STYLE_SYNONYMS: Record<string, string> = {
+  'first-hand': 'firsthand',
+  eyewitness: 'firsthand',
+  'news report': 'news',
+  reporting: 'news',
+  'second-hand': 'secondhand',
+  hearsay: 'secondhand',
+  rumor: 'speculation',
+  rumour: 'speculation',
+  joke: 'satire',
+  parody: 'satire',
+  humor: 'satire'
+};
+
+const ANALYSIS_SCHEMA: Record<keyof AnalysisOutput, FieldValidator> = {
+  isDisaster: booleanField(),
+  disasterType: enumField(DISASTER_TYPES, DISASTER_TYPE_SYNONYMS, { nullable: true }),
+  severity: enumField(SEVERITIES, SEVERITY_SYNONYMS),
+  confidence: numberField(0, 100, { percentage: true }),
+  location: stringField({ nullable: true }),
+  urgency: enumField(URGENCIES, URGENCY_SYNONYMS, { fallback: 'low' }),
+  affectedPopulation: numberField(0, Number.MAX_SAFE_INTEGER, { nullable: true }),
+  timeframe: enumField(TIMEFRAMES, TIMEFRAME_SYNONYMS, { nullable: true }),
+  reportingStyle: enumField(REPORTING_STYLES, REPORTING_STYLE_SYNONYMS, { nullable: true }),
+  summary: stringField({ fallback: '' }),
+  keyIndicators: stringListField(),
+  recommendations: stringListField()
+};
+
+export function validateAnalysisOutput(raw: unknown): SchemaValidationResult {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { output: null, errors: ['Response is not a JSON object'], coercions: [] };
+  }
+
+  const output: Record<string, any> = {};
+  const errors: string[] = [];
+  const coercions: string[] = [];
+
+  for (const [field, validate] of Object.entries(ANALYSIS_SCHEMA)) {
+    const result = validate((raw as Record<string, any>)[field]);
+    if (result.error) {
+      errors.push(`${field}: ${result.error}`);
+      continue;
+    }
+    if (result.coerced) coercions.push(field);
+    output[field] = result.value;
+  }
+
+  return { output: errors.length === 0 ? output as AnalysisOutput : null, errors, coercions };
+}
+
+// First {...} block in the text, parsed; null when there is none or it isn't valid JSON
+export function extractJsonObject(text: string): unknown {
+  const jsonMatch = text.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) return null;
+  try {
+    return JSON.parse(jsonMatch[0]);
+  } catch {
+    return null;
+  }
+}
+
+// Follow-up prompt asking the model to fix its own answer
+export function buildRepairPrompt(originalPrompt: string, previousResponse: string, errors: string[]): string {
+  return `${originalPrompt}
+
+Your previous response did not match the required JSON format:
+${previousResponse.slice(0, 2000)}
+
+Problems found:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Respond again with only the corrected JSON object, using exactly the field names and allowed values listed above.
+`;
+}
+
+function booleanField(): FieldValidator {
+  return value => {
+    if (typeof value === 'boolean') return { value };
+    if (value === 'true' || value === 'false') return { value: value === 'true', coerced: true };
+    return { value, error: `expected boolean, got ${describe(value)}` };
+  };
+}
+
+function enumField(values: readonly string[], synonyms: Record<string, string>, options: { nullable?: boolean; fallback?: string } = {}): FieldValidator {
+  return value => {
+    if (value === null || value === undefined || value === 'null' || value === '') {
+      // Omitted optional fields take their default; only "null"-like strings count as coerced
+      const coerced = typeof value === 'string';
+      if (options.nullable) return { value: null, coerced };
+      if (options.fallback) return { value: options.fallback, coerced };
+      return { value, error: `required, one of ${values.join('|')}` };
+    }
+    if (typeof value !== 'string') return { value, error: `expected one of ${values.join('|')}, got ${describe(value)}` };
+    if (values.includes(value)) return { value };
+
+    const normalized = value.trim().toLowerCase();
+    const mapped = values.includes(normalized) ? normalized : synonyms[normalized];
+    if (mapped) return { value: mapped, coerced: true };
+    return { value, error: `"${value}" is not one of ${values.join('|')}` };
+  };
+}
+
+function numberField(min: number, max: number, options: { nullable?: boolean; percentage?: boolean } = {}): FieldValidator {
+  return value => {
+    if (value === null || value === undefined) {
+      return options.nullable ? { value: null } : { value, error: `required number between ${min} and ${max}` };
+    }
+
+    let number = value;
+    let coerced = false;
+    if (typeof number === 'string') {
+      number = parseFloat(number.replace(/[,%]/g, ''));
+      coerced = true;
+    }
+    if (typeof number !== 'number' || isNaN(number)) return { value, error: `expected number, got ${describe(value)}` };
+
+    // Confidence given as a 0-1 fraction
+    if (options.percentage && number > 0 && number < 1) {
+      number = Math.round(number * 100);
+      coerced = true;
+    }
+    if (number < min || number > max) return { value, error: `${number} is outside ${min}-${max}` };
+    return { value: number, coerced };
+  };
+}
+
+function stringField(options: { nullable?: boolean; fallback?: string } = {}): FieldValidator {
+  return value => {
+    if (typeof value === 'string') return { value };
+    if (value === null || value === undefined) {
+      if (options.nullable) return { value: null };
+      if (options.fallback !== undefined) return { value: options.fallback };
+    }
+    return { value, error: `expected string, got ${describe(value)}` };
+  };
+}
+
+function stringListField(): FieldValidator {
+  return value => {
+    if (value === null || value === undefined) return { value: [] };
+    if (typeof value === 'string') return { value: [value], coerced: true };
+    if (!Array.isArray(value)) return { value, error: `expected list of strings, got ${describe(value)}` };
+    if (value.every(item => typeof item === 'string')) return { value };
+    return { value: value.filter(item => item !== null && item !== undefined).map(String), coerced: true };
+  };
+}
+
+function describe(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value === 'object' ? 'object' : `${typeof value} ${JSON.stringify(value)}`;
+}
@@ -0,0 +1,50 @@
+import { BedrockRuntimeClient, ConverseCommand } from '@aws-sdk/client-bedrock-runtime';
+import { ModelConfig, ModelProvider, ModelRequest } from './types';
+
+const bedrockClient = new BedrockRuntimeClient({ region: process.env.BEDROCK_REGION || process.env.AWS_REGION || 'us-east-1' });
+
+/**
+ * Amazon Bedrock provider
+ * Uses the Converse API, which takes the same request for every Bedrock model family,
+ * so switching from Nova to another model is only a model id change.
+ */
+export const bedrockProvider: ModelProvider = {
+  name: 'bedrock',
+
+  isConfigured(): boolean {
+    // Credentials come from the Lambda role
+    return true;
+  },
+
+  async complete(request: ModelRequest, config: ModelConfig) {
+    const response = await bedrockClient.send(new ConverseCommand({
+      modelId: config.modelId,
+      system: request.system ? [{ text: request.system }] : undefined,
+      messages: [
+        {
+          role: 'user',
+          content: [{ text: request.prompt }]
+        }
+      ],
+      inferenceConfig: {
+        maxTokens: config.maxTokens,
+        temperature: config.temperature,
+        topP: config.topP
+      }
+    }), { abortSignal: AbortSignal.timeout(config.timeoutMs) });
+
+    const text = (response.output?.message?.content || [])
+      .map(block => block.text || '')
+      .join('');
+
+    return {
+      text,
+      provider: 'bedrock',
+      modelId: config.modelId,
+      usage: {
+        inputTokens: response.usage?.inputTokens || 0,
+        outputTokens: response.usage?.outputTokens || 0
+      }
+    };
+  }
+};
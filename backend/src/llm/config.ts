@@ -0,0 +1,46 @@
+import { ModelConfig, ModelStage } from './types';
+
+const DEFAULT_PROVIDER = 'bedrock';
+const DEFAULT_MODEL_ID = 'amazon.nova-pro-v1:0';
+const DEFAULT_TIMEOUT_MS = 30000;
+
+// Parameters each stage was tuned with; env overrides win
+const STAGE_DEFAULTS: Record<ModelStage, Pick<ModelConfig, 'maxTokens' | 'temperature' | 'topP'>> = {
+  disaster_analysis: { maxTokens: 1500, temperature: 0.1, topP: 0.9 },
+  // Room for one full analysis per post in the batch
+  disaster_analysis_batch: { maxTokens: 6000, temperature: 0.1, topP: 0.9 },
+  pipeline_analysis: { maxTokens: 1000, temperature: 0.2, topP: 0.9 },
+  translation: { maxTokens: 2000, temperature: 0, topP: 0.9 }
+};
+
+// Stages that are variants of another take its provider and model unless set themselves
+const PARENT_STAGES: Partial<Record<ModelStage, ModelStage>> = {
+  disaster_analysis_batch: 'disaster_analysis'
+};
+
+/**
+ * Model configuration for one stage
+ * LLM_<STAGE>_PROVIDER / _MODEL_ID / _MAX_TOKENS / _TEMPERATURE / _TOP_P override the shared
+ * LLM_PROVIDER and LLM_MODEL_ID (or BEDROCK_MODEL_ID), e.g. LLM_DISASTER_ANALYSIS_PROVIDER=openai.
+ */
+export function getStageModelConfig(stage: ModelStage): ModelConfig {
+  const prefix = `LLM_${stage.toUpperCase()}_`;
+  const parent = PARENT_STAGES[stage];
+  const parentPrefix = parent ? `LLM_${parent.toUpperCase()}_` : null;
+  const defaults = STAGE_DEFAULTS[stage];
+
+  return {
+    stage,
+    provider: (process.env[`${prefix}PROVIDER`] || (parentPrefix && process.env[`${parentPrefix}PROVIDER`]) || process.env.LLM_PROVIDER || DEFAULT_PROVIDER).toLowerCase(),
+    modelId: process.env[`${prefix}MODEL_ID`] || (parentPrefix && process.env[`${parentPrefix}MODEL_ID`]) || process.env.LLM_MODEL_ID || process.env.BEDROCK_MODEL_ID || DEFAULT_MODEL_ID,
+    maxTokens: readNumber(`${prefix}MAX_TOKENS`, defaults.maxTokens),
+    temperature: readNumber(`${prefix}TEMPERATURE`, defaults.temperature),
+    topP: readNumber(`${prefix}TOP_P`, defaults.topP),
+    timeoutMs: readNumber('LLM_TIMEOUT_MS', DEFAULT_TIMEOUT_MS)
+  };
+}
+
+function readNumber(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || '');
+  return isNaN(value) ? fallback : value;
+}
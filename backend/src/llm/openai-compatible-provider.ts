@@ -0,0 +1,51 @@
+import axios from 'axios';
+import { ModelConfig, ModelProvider, ModelRequest } from './types';
+
+/**
+ * OpenAI-compatible chat completions provider
+ * Works against anything that serves /v1/chat/completions (OpenAI, vLLM, Ollama, llama.cpp),
+ * which lets dev point the analyzer at a local model server via OPENAI_COMPATIBLE_BASE_URL.
+ */
+export const openAiCompatibleProvider: ModelProvider = {
+  name: 'openai',
+
+  isConfigured(): boolean {
+    return Boolean(process.env.OPENAI_COMPATIBLE_BASE_URL);
+  },
+
+  async complete(request: ModelRequest, config: ModelConfig) {
+    const baseUrl = (process.env.OPENAI_COMPATIBLE_BASE_URL || '').replace(/\/+$/, '');
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    // Local servers usually run without a key
+    if (process.env.OPENAI_COMPATIBLE_API_KEY) {
+      headers.Authorization = `Bearer ${process.env.OPENAI_COMPATIBLE_API_KEY}`;
+    }
+
+    const messages = [
+      ...(request.system ? [{ role: 'system', content: request.system }] : []),
+      { role: 'user', content: request.prompt }
+    ];
+
+    const response = await axios.post(`${baseUrl}/chat/completions`, {
+      model: config.modelId,
+      messages,
+      max_tokens: config.maxTokens,
+      temperature: config.temperature,
+      top_p: config.topP
+    }, {
+      headers,
+      timeout: config.timeoutMs
+    });
+
+    const data = response.data as any;
+    return {
+      text: data?.choices?.[0]?.message?.content || '',
+      provider: 'openai',
+      modelId: data?.model || config.modelId,
+      usage: {
+        inputTokens: data?.usage?.prompt_tokens || 0,
+        outputTokens: data?.usage?.completion_tokens || 0
+      }
+    };
+  }
+};
@@ -0,0 +1,36 @@
+import { PromptTemplate } from '../types';
+
+// Several posts per request; versions are prefixed so stored results can't be confused with the single-post prompt
+export const disasterAnalysisBatchV1: PromptTemplate = {
+  name: 'disaster_analysis_batch',
+  version: 'batch-v1',
+  template: `
+You are an expert disaster monitoring AI with extensive knowledge of natural disasters, emergency situations, and crisis management. Analyze each of the following social media posts independently to determine if it reports a real natural disaster or emergency situation.
+
+{{posts}}
+
+For every post consider whether it is a real natural disaster report, its type, severity, location, whether it is happening now, recently or historically, and how credible it is. Comments under a post are corroborating evidence for that post only.
+
+Respond with a single JSON object in this exact format, with one entry per post and the post's id copied exactly:
+{
+  "results": [
+    {
+      "id": "post id",
+      "isDisaster": boolean,
+      "disasterType": "earthquake|tsunami|flood|hurricane|tornado|wildfire|volcano|landslide|blizzard|drought|other|null",
+      "severity": "low|medium|high|critical",
+      "confidence": number (0-100),
+      "location": "extracted location string or null",
+      "urgency": "low|medium|high|immediate",
+      "affectedPopulation": number or null,
+      "timeframe": "historical|current|imminent",
+      "summary": "2-3 sentence analysis summary",
+      "keyIndicators": ["list", "of", "key", "disaster", "indicators"],
+      "recommendations": ["list", "of", "recommended", "actions"]
+    }
+  ]
+}
+
+Be precise and analytical. Only mark a post as a disaster if there's strong evidence of a real natural disaster event.
+`
+};
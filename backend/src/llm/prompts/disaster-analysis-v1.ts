@@ -0,0 +1,47 @@
+import { PromptTemplate } from '../types';
+
+// Original detailed analysis prompt
+export const disasterAnalysisV1: PromptTemplate = {
+  name: 'disaster_analysis',
+  version: 'v1',
+  template: `
+You are an expert disaster monitoring AI with extensive knowledge of natural disasters, emergency situations, and crisis management. Analyze the following social media post to determine if it reports a real natural disaster or emergency situation.
+
+Context:
+- Platform: {{platform}}
+- Subreddit: r/{{subreddit}}
+- Pre-analysis detected: {{disasterCategory}}
+- Matched keywords: {{matchedKeywords}}
+
+Post Content:
+Title: {{title}}
+Content: {{content}}
+{{commentSection}}
+Your task is to provide a comprehensive analysis. Consider:
+
+1. **Disaster Classification**: Is this a real natural disaster report?
+2. **Disaster Type**: Earthquake, flood, hurricane, wildfire, tornado, etc.
+3. **Severity Assessment**: Based on described impacts and scope
+4. **Location Analysis**: Extract specific geographic locations
+5. **Temporal Context**: Is this happening now, recently, or historically?
+6. **Credibility Assessment**: Does this seem like a reliable report?
+7. **Impact Assessment**: Scale and scope of potential damage/casualties
+
+Provide your analysis in this exact JSON format:
+{
+  "isDisaster": boolean,
+  "disasterType": "earthquake|tsunami|flood|hurricane|tornado|wildfire|volcano|landslide|blizzard|drought|other|null",
+  "severity": "low|medium|high|critical",
+  "confidence": number (0-100),
+  "location": "extracted location string or null",
+  "urgency": "low|medium|high|immediate",
+  "affectedPopulation": number or null,
+  "timeframe": "historical|current|imminent",
+  "summary": "2-3 sentence analysis summary",
+  "keyIndicators": ["list", "of", "key", "disaster", "indicators"],
+  "recommendations": ["list", "of", "recommended", "actions"]
+}
+
+Be precise and analytical. Only mark as disaster if there's strong evidence of a real natural disaster event.
+`
+};
@@ -0,0 +1,79 @@
+import { createHash } from 'crypto';
+import { PromptTemplate } from '../types';
+import { disasterAnalysisBatchV1 } from './disaster-analysis-batch-v1';
+import { disasterAnalysisBatchV2 } from './disaster-analysis-batch-v2';
+import { disasterAnalysisV1 } from './disaster-analysis-v1';
+import { disasterAnalysisV2 } from './disaster-analysis-v2';
+import { translationV1 } from './translation-v1';
+
+/**
+ * Prompt template registry
+ * Each prompt version lives in its own file and is never edited once it has produced stored
+ * results; changes go into a new version so every analyzed event can name the prompt behind it.
+ */
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  disasterAnalysisV1,
+  disasterAnalysisV2,
+  disasterAnalysisBatchV1,
+  disasterAnalysisBatchV2,
+  translationV1
+];
+
+const DEFAULT_PROMPT_VERSIONS: Record<string, string> = {
+  disaster_analysis: 'v2',
+  translation: 'v1'
+};
+
+export interface PromptSelection {
+  template: PromptTemplate;
+  variant: 'control' | 'candidate';
+}
+
+export function getPromptTemplate(name: string, version: string): PromptTemplate | undefined {
+  return PROMPT_TEMPLATES.find(template => template.name === name && template.version === version);
+}
+
+// Multi-post form of a prompt version (disaster_analysis v2 → disaster_analysis_batch batch-v2); undefined when it has none
+export function getBatchPromptTemplate(template: PromptTemplate): PromptTemplate | undefined {
+  return getPromptTemplate(`${template.name}_batch`, `batch-${template.version}`);
+}
+
+/**
+ * Picks the prompt for one analysis
+ * PROMPT_<NAME>_VERSION is the control; PROMPT_<NAME>_CANDIDATE with _CANDIDATE_PERCENT routes that
+ * share of traffic to a candidate. Routing hashes the key, so a post always gets the same variant.
+ */
+export function selectPromptTemplate(name: string, routingKey: string): PromptSelection {
+  const prefix = `PROMPT_${name.toUpperCase()}_`;
+  const controlVersion = process.env[`${prefix}VERSION`] || DEFAULT_PROMPT_VERSIONS[name];
+  const control = getPromptTemplate(name, controlVersion);
+  if (!control) {
+    throw new Error(`Unknown prompt version ${name}@${controlVersion}`);
+  }
+
+  const candidateVersion = process.env[`${prefix}CANDIDATE`];
+  const candidatePercent = parseFloat(process.env[`${prefix}CANDIDATE_PERCENT`] || '0');
+  if (!candidateVersion || !(candidatePercent > 0)) {
+    return { template: control, variant: 'control' };
+  }
+
+  const candidate = getPromptTemplate(name, candidateVersion);
+  if (!candidate) {
+    throw new Error(`Unknown candidate prompt version ${name}@${candidateVersion}`);
+  }
+
+  return routingBucket(`${name}:${routingKey}`) < candidatePercent
+    ? { template: candidate, variant: 'candidate' }
+    : { template: control, variant: 'control' };
+}
+
+// Replaces {{variable}} placeholders; missing variables render as empty strings
+export function renderPrompt(template: PromptTemplate, variables: Record<string, string>): string {
+  return template.template.replace(/\{\{(\w+)\}\}/g, (_, key: string) => variables[key] ?? '');
+}
+
+// Stable 0-100 bucket for a key
+function routingBucket(key: string): number {
+  const hash = createHash('sha1').update(key).digest();
+  return (hash.readUInt32BE(0) / 0xffffffff) * 100;
+}
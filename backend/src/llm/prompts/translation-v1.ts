@@ -0,0 +1,19 @@
+import { PromptTemplate } from '../types';
+
+export const translationV1: PromptTemplate = {
+  name: 'translation',
+  version: 'v1',
+  template: `
+Translate the following social media post from the language with ISO 639-1 code "{{language}}" into English.
+Keep place names, numbers, magnitudes, dates and times exactly as written. Do not summarize, add or omit anything.
+
+Title: {{title}}
+Content: {{content}}
+
+Respond with a single JSON object in this exact format:
+{
+  "title": "translated title",
+  "content": "translated content"
+}
+`
+};
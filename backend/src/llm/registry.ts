@@ -0,0 +1,42 @@
+import { logger } from '../utils/logger';
+import { bedrockProvider } from './bedrock-provider';
+import { getStageModelConfig } from './config';
+import { openAiCompatibleProvider } from './openai-compatible-provider';
+import { ruleBasedProvider } from './rule-based-provider';
+import { ModelProvider, ModelRequest, ModelResponse, ModelStage } from './types';
+import { recordUsage } from './usage';
+
+/**
+ * Model provider registry
+ * Stages pick a provider by name through their config; add new backends to this array
+ */
+export const MODEL_PROVIDERS: ModelProvider[] = [
+  bedrockProvider,
+  openAiCompatibleProvider,
+  ruleBasedProvider
+];
+
+export function getModelProvider(name: string): ModelProvider | undefined {
+  return MODEL_PROVIDERS.find(provider => provider.name === name.toLowerCase());
+}
+
+// Runs a request against the provider configured for the stage; errors propagate so callers keep their fallbacks
+export async function invokeModel(stage: ModelStage, request: ModelRequest): Promise<ModelResponse> {
+  const config = getStageModelConfig(stage);
+  const provider = getModelProvider(config.provider);
+  if (!provider) {
+    throw new Error(`Unknown model provider "${config.provider}" for stage ${stage}`);
+  }
+  if (!provider.isConfigured()) {
+    throw new Error(`Model provider "${provider.name}" is not configured for stage ${stage}`);
+  }
+
+  logger.info(`Invoking ${provider.name} model ${config.modelId} for ${stage}`);
+  const startTime = Date.now();
+  const response = await provider.complete(request, config);
+  const latencyMs = Date.now() - startTime;
+  recordUsage(response);
+
+  logger.info(`${stage} completed by ${response.provider}/${response.modelId} in ${latencyMs}ms (${response.usage.inputTokens} in, ${response.usage.outputTokens} out)`);
+  return { ...response, latencyMs };
+}
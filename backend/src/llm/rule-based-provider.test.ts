@@ -0,0 +1,89 @@
+import { validateAnalysisOutput } from './analysis-schema';
+import { ruleBasedProvider } from './rule-based-provider';
+import { ModelConfig, ModelStage } from './types';
+
+function config(stage: ModelStage): ModelConfig {
+  return { stage, provider: 'rules', modelId: 'rule-based', maxTokens: 1000, temperature: 0, topP: 1, timeoutMs: 1000 };
+}
+
+async function analyze(title: string, content = ''): Promise<any> {
+  const response = await ruleBasedProvider.complete({ prompt: '', input: { title, content } }, config('disaster_analysis'));
+  return JSON.parse(response.text);
+}
+
+describe('ruleBasedProvider', () => {
+  it('classifies disaster type, severity and impacts', async () => {
+    const result = await analyze('Strong earthquake in Tokyo', 'Buildings collapsed, people trapped and several injured');
+
+    expect(result.isDisaster).toBe(true);
+    expect(result.disasterType).toBe('earthquake');
+    expect(result.severity).toBe('critical');
+    expect(result.urgency).toBe('immediate');
+    expect(result.confidence).toBe(90);
+    expect(result.keyIndicators).toEqual(['earthquake', 'collapsed', 'trapped', 'injur']);
+  });
+
+  it('prefers the more specific hazard when several match', async () => {
+    expect((await analyze('Tsunami warning after magnitude 7.8 earthquake')).disasterType).toBe('tsunami');
+    expect((await analyze('Typhoon brings storm surge to the coast')).disasterType).toBe('hurricane');
+  });
+
+  it('reports no disaster when nothing matches', async () => {
+    const result = await analyze('Great weather for the picnic today');
+
+    expect(result.isDisaster).toBe(false);
+    expect(result.disasterType).toBeNull();
+    expect(result.severity).toBe('low');
+    expect(result.confidence).toBe(20);
+    expect(result.recommendations).toEqual([]);
+  });
+
+  it('reads the reporting style from the wording', async () => {
+    expect((await analyze('Earthquake just hit, lol my cat fell off the couch')).reportingStyle).toBe('satire');
+    expect((await analyze('Unconfirmed: flood in the valley?')).reportingStyle).toBe('speculation');
+    expect((await analyze('My cousin said the wildfire reached the highway')).reportingStyle).toBe('secondhand');
+    expect((await analyze('We felt the earthquake here')).reportingStyle).toBe('firsthand');
+    expect((await analyze('Officials report flooding downtown')).reportingStyle).toBe('news');
+  });
+
+  it('marks anniversaries as historical and reports as current', async () => {
+    expect((await analyze('10 years since the Tohoku earthquake and tsunami')).timeframe).toBe('historical');
+    expect((await analyze('Earthquake right now in Tokyo')).timeframe).toBe('current');
+  });
+
+  it('answers in a shape the analysis schema accepts without coercion', async () => {
+    const validation = validateAnalysisOutput(await analyze('Flooding in Houston', 'Evacuations under way'));
+
+    expect(validation.errors).toEqual([]);
+    expect(validation.coercions).toEqual([]);
+  });
+
+  it('answers batches with one result per item id', async () => {
+    const response = await ruleBasedProvider.complete({
+      prompt: '',
+      items: [
+        { id: 'a', title: 'Wildfire near the highway', content: '' },
+        { id: 'b', title: 'New cafe opens', content: '' }
+      ]
+    }, config('disaster_analysis_batch'));
+    const { results } = JSON.parse(response.text);
+
+    expect(results.map((result: any) => [result.id, result.disasterType])).toEqual([['a', 'wildfire'], ['b', null]]);
+  });
+
+  it('returns translation input unchanged', async () => {
+    const response = await ruleBasedProvider.complete({ prompt: '', input: { title: 'Terremoto', content: 'Sismo fuerte' } }, config('translation'));
+
+    expect(JSON.parse(response.text)).toEqual({ title: 'Terremoto', content: 'Sismo fuerte' });
+    expect(response.usage).toEqual({ inputTokens: 0, outputTokens: 0 });
+  });
+
+  it('answers pipeline analysis with a 0-1 confidence', async () => {
+    const response = await ruleBasedProvider.complete({ prompt: '', input: { title: 'Tornado touched down', content: '' } }, config('pipeline_analysis'));
+    const result = JSON.parse(response.text);
+
+    expect(result.disasterType).toBe('tornado');
+    expect(result.confidence).toBe(0.6);
+    expect(result.analysisType).toBe('rule-based');
+  });
+});
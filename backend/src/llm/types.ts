@@ -0,0 +1,52 @@
+/**
+ * Model provider contract
+ * Every LLM backend (Bedrock, an OpenAI-compatible server, the rule-based stand-in) implements
+ * ModelProvider, so handlers build a prompt and read back text without knowing who answered.
+ */
+
+// Pipeline steps that call a model; each one is configured separately
+export type ModelStage = 'disaster_analysis' | 'disaster_analysis_batch' | 'pipeline_analysis' | 'translation';
+
+export interface ModelConfig {
+  stage: ModelStage;
+  provider: string; // Name of a registered ModelProvider
+  modelId: string;
+  maxTokens: number;
+  temperature: number;
+  topP: number;
+  timeoutMs: number;
+}
+
+export interface ModelRequest {
+  prompt: string;
+  system?: string;
+  // Raw text the prompt was built from; the rule-based provider classifies this instead of the prompt
+  input?: { title: string; content: string };
+  // Batch requests carry every post the prompt covers, keyed by the id the model must echo back
+  items?: { id: string; title: string; content: string }[];
+}
+
+export interface ModelUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ModelResponse {
+  text: string;
+  provider: string;
+  modelId: string;
+  usage: ModelUsage;
+  latencyMs: number;
+}
+
+export interface ModelProvider {
+  name: string;
+  isConfigured(): boolean;
+  complete(request: ModelRequest, config: ModelConfig): Promise<Omit<ModelResponse, 'latencyMs'>>;
+}
+
+export interface PromptTemplate {
+  name: string; // Stage or task the prompt belongs to
+  version: string;
+  template: string; // Text with {{variable}} placeholders
+}
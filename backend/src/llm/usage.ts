@@ -0,0 +1,56 @@
+import { ModelResponse } from './types';
+
+// USD per 1,000 tokens; models missing here are reported without a cost estimate
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'amazon.nova-pro-v1:0': { input: 0.0008, output: 0.0032 },
+  'amazon.nova-lite-v1:0': { input: 0.00006, output: 0.00024 },
+  'amazon.nova-micro-v1:0': { input: 0.000035, output: 0.00014 },
+  'rule-based': { input: 0, output: 0 }
+};
+
+export interface ModelUsageSummary {
+  invocations: number;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedCostUsd: number;
+  unpricedModels: string[]; // Used but missing from the pricing table, so not in the estimate
+  byModel: Record<string, { invocations: number; inputTokens: number; outputTokens: number }>;
+}
+
+/**
+ * Per-invocation model usage
+ * Lambda runs one invocation per container at a time, so a module-level tally that the handler
+ * takes at the end of each invocation gives that invocation's token and cost totals.
+ */
+let current = emptySummary();
+
+export function recordUsage(response: Omit<ModelResponse, 'latencyMs'>): void {
+  const modelKey = response.modelId;
+  const model = current.byModel[modelKey] || { invocations: 0, inputTokens: 0, outputTokens: 0 };
+  model.invocations++;
+  model.inputTokens += response.usage.inputTokens;
+  model.outputTokens += response.usage.outputTokens;
+  current.byModel[modelKey] = model;
+
+  current.invocations++;
+  current.inputTokens += response.usage.inputTokens;
+  current.outputTokens += response.usage.outputTokens;
+
+  const pricing = MODEL_PRICING[modelKey];
+  if (pricing) {
+    current.estimatedCostUsd += (response.usage.inputTokens / 1000) * pricing.input + (response.usage.outputTokens / 1000) * pricing.output;
+  } else if (!current.unpricedModels.includes(modelKey)) {
+    current.unpricedModels.push(modelKey);
+  }
+}
+
+// Returns the tally since the last call and starts a new one
+export function takeUsageSummary(): ModelUsageSummary {
+  const summary = { ...current, estimatedCostUsd: Math.round(current.estimatedCostUsd * 1e6) / 1e6 };
+  current = emptySummary();
+  return summary;
+}
+
+function emptySummary(): ModelUsageSummary {
+  return { invocations: 0, inputTokens: 0, outputTokens: 0, estimatedCostUsd: 0, unpricedModels: [], byModel: {} };
+}
@@ -0,0 +1,146 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, ScanCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { EVENTS_TABLE_NAME } from '../utils/event-store';
+import { logger } from '../utils/logger';
+import { loadGazetteer } from './gazetteer';
+import { geocodeLocation } from './geocoder';
+
+const dynamoClient = new DynamoDBClient({ region: process.env.BEDROCK_REGION || 'us-east-1' });
+const docClient = DynamoDBDocumentClient.from(dynamoClient);
+
+const VALUE_FLAGS = ['--limit'];
+
+interface BackfillOptions {
+  limit: number | null;
+  dryRun: boolean;
+  verbose: boolean;
+}
+
+interface BackfillStats {
+  scanned: number;
+  geocoded: number;
+  notFound: number;
+  revalidated: number;
+  errors: number;
+}
+
+/**
+ * Coordinate backfill
+ * Geocodes disaster posts that were analyzed without coordinates (aiCoordinates missing or null)
+ * and stores aiCoordinates. Posts whose validation was skipped for lack of a location are marked
+ * for re-validation, so the validator stream assigns them to incidents and they reach the heatmap.
+ *
+ *   npm run backfill:coordinates -- [--limit 500] [--dry-run] [--verbose]
+ */
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  if (!EVENTS_TABLE_NAME) {
+    throw new Error('EVENTS_TABLE_NAME is undefined (missing env: DYNAMODB_TABLE or DYNAMODB_TABLE_PREFIX)');
+  }
+
+  process.env.METRICS_DISABLED = 'true';
+  if (!options.verbose) logger.level = 'warn';
+  await loadGazetteer();
+
+  const stats: BackfillStats = { scanned: 0, geocoded: 0, notFound: 0, revalidated: 0, errors: 0 };
+  let lastEvaluatedKey: Record<string, any> | undefined;
+
+  do {
+    const result = await docClient.send(new ScanCommand({
+      TableName: EVENTS_TABLE_NAME,
+      FilterExpression: '#type = :post AND isDisaster = :true AND (attribute_not_exists(aiCoordinates) OR attribute_type(aiCoordinates, :null))',
+      ExpressionAttributeNames: { '#type': 'type', '#location': 'location' },
+      ExpressionAttributeValues: { ':post': 'social_media_post', ':true': true, ':null': 'NULL' },
+      ProjectionExpression: 'id, aiLocation, #location, subreddit, weatherValidated, incidentId',
+      ExclusiveStartKey: lastEvaluatedKey
+    }));
+
+    for (const item of result.Items || []) {
+      if (options.limit !== null && stats.scanned >= options.limit) break;
+      stats.scanned++;
+      await backfillEvent(item, options, stats);
+    }
+
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey && (options.limit === null || stats.scanned < options.limit));
+
+  console.log(`${options.dryRun ? 'Dry run: ' : ''}scanned ${stats.scanned} events without coordinates`);
+  console.log(`Geocoded: ${stats.geocoded}, not found: ${stats.notFound}, marked for re-validation: ${stats.revalidated}, errors: ${stats.errors}`);
+}
+
+async function backfillEvent(item: Record<string, any>, options: BackfillOptions, stats: BackfillStats): Promise<void> {
+  const location: string | undefined = item.aiLocation || item.location;
+  const geocoded = await geocodeLocation(location, { subreddit: item.subreddit });
+  if (!geocoded) {
+    stats.notFound++;
+    return;
+  }
+
+  // Validated without coordinates means the validator gave up before assigning an incident
+  const revalidate = item.weatherValidated === true && !item.incidentId;
+  console.log(`${item.id}: "${location}" -> ${geocoded.coordinates.lat}, ${geocoded.coordinates.lng} (${geocoded.provider})${revalidate ? ', re-validating' : ''}`);
+  if (options.dryRun) {
+    stats.geocoded++;
+    if (revalidate) stats.revalidated++;
+    return;
+  }
+
+  try {
+    await docClient.send(new UpdateCommand({
+      TableName: EVENTS_TABLE_NAME,
+      Key: { id: item.id },
+      UpdateExpression: revalidate
+        ? 'SET aiCoordinates = :coordinates, weatherValidated = :false'
+        : 'SET aiCoordinates = :coordinates',
+      ExpressionAttributeValues: {
+        ':coordinates': geocoded.coordinates,
+        ...(revalidate ? { ':false': false } : {})
+      }
+    }));
+    stats.geocoded++;
+    if (revalidate) stats.revalidated++;
+  } catch (error) {
+    logger.error(`Error storing coordinates for ${item.id}:`, error);
+    stats.errors++;
+  }
+}
+
+function parseArgs(args: string[]): BackfillOptions {
+  const options: BackfillOptions = {
+    limit: null,
+    dryRun: false,
+    verbose: false
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const value = args[i + 1];
+    if (VALUE_FLAGS.includes(args[i]) && (!value || value.startsWith('--'))) {
+      throw new Error(`${args[i]} needs a value`);
+    }
+
+    switch (args[i]) {
+      case '--limit':
+        options.limit = parseInt(value, 10);
+        if (!(options.limit > 0)) {
+          throw new Error('--limit must be a positive number');
+        }
+        i++;
+        break;
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--verbose':
+        options.verbose = true;
+        break;
+      default:
+        throw new Error(`Unknown argument ${args[i]}`);
+    }
+  }
+
+  return options;
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,384 @@
+import { GazetteerEntry } from './types';
+
+/**
+ * Bundled gazetteer
+ * Countries, first-level admin areas and cities that our feeds and past disasters mention most,
+ * with the exonyms used by the Spanish, Italian, Turkish and Japanese feeds. A complete GeoNames
+ * extract can be loaded from S3 instead (see gazetteer.ts); this set keeps resolution working offline.
+ */
+
+function country(countryCode: string, name: string, lat: number, lng: number, population: number, alternateNames: string[] = [], abbreviations: string[] = []): GazetteerEntry {
+  return { id: `${countryCode}`, name, type: 'country', countryCode, admin1: null, lat, lng, population, alternateNames, abbreviations };
+}
+
+function admin(countryCode: string, name: string, lat: number, lng: number, population: number, alternateNames: string[] = [], abbreviations: string[] = []): GazetteerEntry {
+  return { id: `${countryCode}.${slug(name)}`, name, type: 'admin1', countryCode, admin1: name, lat, lng, population, alternateNames, abbreviations };
+}
+
+function city(countryCode: string, admin1: string | null, name: string, lat: number, lng: number, population: number, alternateNames: string[] = []): GazetteerEntry {
+  return { id: `${countryCode}.${slug(admin1 || '')}.${slug(name)}`, name, type: 'city', countryCode, admin1, lat, lng, population, alternateNames, abbreviations: [] };
+}
+
+function slug(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '-');
+}
+
+const COUNTRIES: GazetteerEntry[] = [
+  country('US', 'United States', 39.8, -98.6, 331000000, ['United States of America', 'America', 'Estados Unidos', 'Stati Uniti', 'Amerika', 'アメリカ'], ['USA', 'U.S.', 'US']),
+  country('JP', 'Japan', 36.2, 138.25, 125000000, ['Japón', 'Giappone', 'Japonya', '日本']),
+  country('MX', 'Mexico', 23.6, -102.5, 126000000, ['México', 'Messico', 'Meksika', 'メキシコ']),
+  country('CL', 'Chile', -35.7, -71.5, 19500000, ['Cile', 'Şili', 'チリ']),
+  country('IT', 'Italy', 42.8, 12.8, 59000000, ['Italia', 'İtalya', 'イタリア']),
+  country('TR', 'Turkey', 39.0, 35.2, 85000000, ['Türkiye', 'Turkiye', 'Turquía', 'Turchia', 'トルコ']),
+  country('CA', 'Canada', 56.1, -106.3, 38000000, ['Canadá', 'Kanada']),
+  country('GB', 'United Kingdom', 54.0, -2.5, 67000000, ['Great Britain', 'Britain', 'Reino Unido', 'Regno Unito'], ['UK']),
+  country('PH', 'Philippines', 12.9, 121.8, 113000000, ['Filipinas', 'Filippine', 'Filipinler']),
+  country('ID', 'Indonesia', -2.5, 118.0, 275000000, ['Endonezya']),
+  country('IN', 'India', 21.0, 78.0, 1400000000, ['Hindistan']),
+  country('CN', 'China', 35.0, 103.0, 1410000000, ['Cina', 'Çin', '中国']),
+  country('TW', 'Taiwan', 23.7, 121.0, 23500000, ['Taiwán', 'Tayvan', '台湾']),
+  country('KR', 'South Korea', 35.9, 127.8, 51700000, ['Corea del Sur', 'Corea del Sud', 'Güney Kore', '韓国']),
+  country('NP', 'Nepal', 28.4, 84.1, 30000000),
+  country('BD', 'Bangladesh', 23.7, 90.4, 170000000, ['Bangladeş']),
+  country('PK', 'Pakistan', 30.4, 69.3, 230000000, ['Pakistán']),
+  country('AF', 'Afghanistan', 33.9, 67.7, 40000000, ['Afganistán', 'Afganistan']),
+  country('IR', 'Iran', 32.4, 53.7, 88000000, ['Irán']),
+  country('SY', 'Syria', 34.8, 39.0, 22000000, ['Siria', 'Suriye']),
+  country('MA', 'Morocco', 31.8, -7.1, 37000000, ['Marruecos', 'Marocco', 'Fas']),
+  country('LY', 'Libya', 26.3, 17.2, 6800000, ['Libia']),
+  country('GR', 'Greece', 39.1, 21.8, 10400000, ['Grecia', 'Yunanistan']),
+  country('ES', 'Spain', 40.4, -3.7, 47000000, ['España', 'Spagna', 'İspanya']),
+  country('PT', 'Portugal', 39.4, -8.2, 10300000, ['Portogallo', 'Portekiz']),
+  country('FR', 'France', 46.2, 2.2, 68000000, ['Francia', 'Fransa']),
+  country('DE', 'Germany', 51.2, 10.4, 83000000, ['Alemania', 'Germania', 'Almanya']),
+  country('IS', 'Iceland', 64.9, -19.0, 370000, ['Islandia', 'Islanda', 'İzlanda']),
+  country('HT', 'Haiti', 18.97, -72.3, 11500000, ['Haití']),
+  country('CU', 'Cuba', 21.5, -77.8, 11000000, ['Küba']),
+  country('PR', 'Puerto Rico', 18.2, -66.5, 3200000, ['Porto Rico', 'Porto Riko']),
+  country('GT', 'Guatemala', 15.8, -90.2, 17000000),
+  country('CO', 'Colombia', 4.6, -74.3, 52000000, ['Kolombiya']),
+  country('EC', 'Ecuador', -1.8, -78.2, 18000000, ['Ekvador']),
+  country('PE', 'Peru', -9.2, -75.0, 34000000, ['Perú', 'Perù']),
+  country('AR', 'Argentina', -38.4, -63.6, 46000000, ['Arjantin']),
+  country('BR', 'Brazil', -14.2, -51.9, 215000000, ['Brasil', 'Brasile', 'Brezilya']),
+  country('AU', 'Australia', -25.3, 133.8, 26000000, ['Avustralya']),
+  country('NZ', 'New Zealand', -41.0, 174.0, 5100000, ['Nueva Zelanda', 'Nuova Zelanda', 'Yeni Zelanda']),
+  country('VN', 'Vietnam', 14.06, 108.3, 98000000, ['Viet Nam']),
+  country('TH', 'Thailand', 15.9, 100.99, 71000000, ['Tailandia', 'Tayland']),
+  country('MM', 'Myanmar', 21.9, 95.96, 54000000, ['Burma']),
+  country('HK', 'Hong Kong', 22.32, 114.17, 7400000, ['香港'])
+];
+
+const ADMIN_AREAS: GazetteerEntry[] = [
+  // United States
+  admin('US', 'Alabama', 32.8, -86.8, 5000000, [], ['AL']),
+  admin('US', 'Alaska', 64.0, -152.0, 730000, [], ['AK']),
+  admin('US', 'Arizona', 34.3, -111.7, 7300000, [], ['AZ']),
+  admin('US', 'Arkansas', 34.9, -92.4, 3000000, [], ['AR']),
+  admin('US', 'California', 37.2, -119.5, 39000000, [], ['CA']),
+  admin('US', 'Colorado', 39.0, -105.5, 5800000, [], ['CO']),
+  admin('US', 'Connecticut', 41.6, -72.7, 3600000, [], ['CT']),
+  admin('US', 'Delaware', 39.0, -75.5, 1000000, [], ['DE']),
+  admin('US', 'Florida', 28.6, -82.4, 22000000, [], ['FL']),
+  admin('US', 'Georgia', 32.7, -83.4, 10900000, [], ['GA']),
+  admin('US', 'Hawaii', 20.8, -156.3, 1400000, ['Hawaiʻi'], ['HI']),
+  admin('US', 'Idaho', 44.4, -114.6, 1900000, [], ['ID']),
+  admin('US', 'Illinois', 40.0, -89.2, 12600000, [], ['IL']),
+  admin('US', 'Indiana', 39.9, -86.3, 6800000, [], ['IN']),
+  admin('US', 'Iowa', 42.1, -93.5, 3200000, [], ['IA']),
+  admin('US', 'Kansas', 38.5, -98.4, 2900000, [], ['KS']),
+  admin('US', 'Kentucky', 37.5, -85.3, 4500000, [], ['KY']),
+  admin('US', 'Louisiana', 31.1, -92.0, 4600000, [], ['LA']),
+  admin('US', 'Maine', 45.4, -69.2, 1400000, [], ['ME']),
+  admin('US', 'Maryland', 39.0, -76.8, 6200000, [], ['MD']),
+  admin('US', 'Massachusetts', 42.3, -71.8, 7000000, [], ['MA']),
+  admin('US', 'Michigan', 44.3, -85.4, 10000000, [], ['MI']),
+  admin('US', 'Minnesota', 46.3, -94.3, 5700000, [], ['MN']),
+  admin('US', 'Mississippi', 32.7, -89.7, 2900000, [], ['MS']),
+  admin('US', 'Missouri', 38.4, -92.5, 6200000, [], ['MO']),
+  admin('US', 'Montana', 47.0, -109.6, 1100000, [], ['MT']),
+  admin('US', 'Nebraska', 41.5, -99.8, 2000000, [], ['NE']),
+  admin('US', 'Nevada', 39.3, -116.6, 3200000, [], ['NV']),
+  admin('US', 'New Hampshire', 43.7, -71.6, 1400000, [], ['NH']),
+  admin('US', 'New Jersey', 40.2, -74.7, 9300000, [], ['NJ']),
+  admin('US', 'New Mexico', 34.4, -106.1, 2100000, [], ['NM']),
+  admin('US', 'New York', 42.9, -75.5, 19600000, ['New York State'], ['NY']),
+  admin('US', 'North Carolina', 35.6, -79.4, 10700000, [], ['NC']),
+  admin('US', 'North Dakota', 47.5, -100.5, 780000, [], ['ND']),
+  admin('US', 'Ohio', 40.3, -82.8, 11800000, [], ['OH']),
+  admin('US', 'Oklahoma', 35.6, -97.5, 4000000, [], ['OK']),
+  admin('US', 'Oregon', 43.9, -120.6, 4200000, [], ['OR']),
+  admin('US', 'Pennsylvania', 40.9, -77.8, 13000000, [], ['PA']),
+  admin('US', 'Rhode Island', 41.7, -71.5, 1100000, [], ['RI']),
+  admin('US', 'South Carolina', 33.9, -80.9, 5300000, [], ['SC']),
+  admin('US', 'South Dakota', 44.4, -100.2, 900000, [], ['SD']),
+  admin('US', 'Tennessee', 35.9, -86.4, 7000000, [], ['TN']),
+  admin('US', 'Texas', 31.5, -99.3, 30000000, [], ['TX']),
+  admin('US', 'Utah', 39.3, -111.7, 3400000, [], ['UT']),
+  admin('US', 'Vermont', 44.1, -72.7, 650000, [], ['VT']),
+  admin('US', 'Virginia', 37.5, -78.8, 8600000, [], ['VA']),
+  admin('US', 'Washington', 47.4, -120.5, 7800000, ['Washington State'], ['WA']),
+  admin('US', 'West Virginia', 38.6, -80.6, 1800000, [], ['WV']),
+  admin('US', 'Wisconsin', 44.6, -89.9, 5900000, [], ['WI']),
+  admin('US', 'Wyoming', 43.0, -107.5, 580000, [], ['WY']),
+  // Canada
+  admin('CA', 'British Columbia', 53.7, -127.6, 5300000, [], ['BC']),
+  admin('CA', 'Alberta', 55.0, -115.0, 4600000, [], ['AB']),
+  admin('CA', 'Ontario', 50.0, -85.0, 15000000, [], ['ON']),
+  admin('CA', 'Quebec', 52.9, -73.5, 8700000, ['Québec'], ['QC']),
+  admin('CA', 'Nova Scotia', 45.0, -63.0, 1000000, [], ['NS']),
+  // Japan
+  admin('JP', 'Hokkaido', 43.2, 142.9, 5200000, ['Hokkaidō', '北海道']),
+  admin('JP', 'Iwate', 39.6, 141.4, 1200000, ['岩手']),
+  admin('JP', 'Miyagi', 38.4, 140.9, 2300000, ['宮城']),
+  admin('JP', 'Fukushima', 37.4, 140.5, 1800000, ['福島']),
+  admin('JP', 'Ishikawa', 36.6, 136.6, 1100000, ['石川']),
+  admin('JP', 'Okinawa', 26.5, 127.9, 1470000, ['沖縄']),
+  // Mexico
+  admin('MX', 'Guerrero', 17.6, -99.9, 3500000),
+  admin('MX', 'Oaxaca', 17.0, -96.7, 4100000),
+  admin('MX', 'Chiapas', 16.5, -92.5, 5500000),
+  admin('MX', 'Jalisco', 20.6, -103.6, 8300000),
+  admin('MX', 'Baja California', 30.5, -115.1, 3800000),
+  // Italy
+  admin('IT', 'Sicily', 37.6, 14.0, 4800000, ['Sicilia', 'Sicilya']),
+  admin('IT', 'Emilia-Romagna', 44.5, 11.0, 4400000, ['Emilia Romagna']),
+  admin('IT', 'Campania', 40.9, 14.8, 5600000),
+  admin('IT', 'Calabria', 39.0, 16.5, 1800000),
+  admin('IT', 'Tuscany', 43.4, 11.1, 3700000, ['Toscana']),
+  admin('IT', 'Lombardy', 45.6, 9.8, 10000000, ['Lombardia']),
+  // Turkey
+  admin('TR', 'Hatay', 36.4, 36.2, 1700000),
+  // India
+  admin('IN', 'Kerala', 10.5, 76.3, 35000000),
+  admin('IN', 'Assam', 26.2, 92.9, 31000000),
+  // Indonesia
+  admin('ID', 'Bali', -8.4, 115.2, 4300000),
+  // Australia
+  admin('AU', 'New South Wales', -32.0, 147.0, 8200000, [], ['NSW']),
+  admin('AU', 'Queensland', -22.0, 144.0, 5300000, [], ['QLD']),
+  admin('AU', 'Victoria', -37.0, 144.0, 6700000, [], ['VIC']),
+  admin('AU', 'Western Australia', -25.0, 122.0, 2800000, [], ['WA'])
+];
+
+const CITIES: GazetteerEntry[] = [
+  // United States
+  city('US', 'New York', 'New York', 40.71, -74.01, 8300000, ['New York City', 'NYC', 'Nueva York']),
+  city('US', 'California', 'Los Angeles', 34.05, -118.24, 3900000),
+  city('US', 'Illinois', 'Chicago', 41.88, -87.63, 2700000),
+  city('US', 'Texas', 'Houston', 29.76, -95.37, 2300000),
+  city('US', 'Arizona', 'Phoenix', 33.45, -112.07, 1600000),
+  city('US', 'Pennsylvania', 'Philadelphia', 39.95, -75.17, 1600000),
+  city('US', 'Texas', 'San Antonio', 29.42, -98.49, 1500000),
+  city('US', 'California', 'San Diego', 32.72, -117.16, 1400000),
+  city('US', 'Texas', 'Dallas', 32.78, -96.80, 1300000),
+  city('US', 'California', 'San Jose', 37.34, -121.89, 1000000),
+  city('US', 'Texas', 'Austin', 30.27, -97.74, 960000),
+  city('US', 'Florida', 'Jacksonville', 30.33, -81.66, 950000),
+  city('US', 'North Carolina', 'Charlotte', 35.23, -80.84, 870000),
+  city('US', 'California', 'San Francisco', 37.77, -122.42, 870000),
+  city('US', 'Washington', 'Seattle', 47.61, -122.33, 740000),
+  city('US', 'Colorado', 'Denver', 39.74, -104.99, 710000),
+  city('US', 'District of Columbia', 'Washington', 38.91, -77.04, 690000, ['Washington DC', 'Washington D.C.']),
+  city('US', 'Tennessee', 'Nashville', 36.16, -86.78, 690000),
+  city('US', 'Oklahoma', 'Oklahoma City', 35.47, -97.52, 690000),
+  city('US', 'Massachusetts', 'Boston', 42.36, -71.06, 650000),
+  city('US', 'Oregon', 'Portland', 45.52, -122.68, 650000),
+  city('US', 'Nevada', 'Las Vegas', 36.17, -115.14, 640000),
+  city('US', 'Michigan', 'Detroit', 42.33, -83.05, 630000),
+  city('US', 'Tennessee', 'Memphis', 35.15, -90.05, 630000),
+  city('US', 'Kentucky', 'Louisville', 38.25, -85.76, 620000),
+  city('US', 'Maryland', 'Baltimore', 39.29, -76.61, 580000),
+  city('US', 'New Mexico', 'Albuquerque', 35.08, -106.65, 560000),
+  city('US', 'Arizona', 'Tucson', 32.22, -110.97, 540000),
+  city('US', 'California', 'Fresno', 36.74, -119.79, 540000),
+  city('US', 'California', 'Sacramento', 38.58, -121.49, 520000),
+  city('US', 'Missouri', 'Kansas City', 39.10, -94.58, 510000),
+  city('US', 'Georgia', 'Atlanta', 33.75, -84.39, 500000),
+  city('US', 'Nebraska', 'Omaha', 41.26, -95.94, 490000),
+  city('US', 'North Carolina', 'Raleigh', 35.78, -78.64, 470000),
+  city('US', 'Florida', 'Miami', 25.76, -80.19, 440000),
+  city('US', 'Minnesota', 'Minneapolis', 44.98, -93.27, 430000),
+  city('US', 'Florida', 'Tampa', 27.95, -82.46, 390000, ['Tampa Bay']),
+  city('US', 'Louisiana', 'New Orleans', 29.95, -90.07, 380000, ['NOLA']),
+  city('US', 'Hawaii', 'Honolulu', 21.31, -157.86, 350000),
+  city('US', 'Texas', 'Corpus Christi', 27.80, -97.40, 320000),
+  city('US', 'Ohio', 'Cincinnati', 39.10, -84.51, 310000),
+  city('US', 'Florida', 'Orlando', 28.54, -81.38, 310000),
+  city('US', 'Missouri', 'St. Louis', 38.63, -90.20, 300000, ['St Louis', 'Saint Louis']),
+  city('US', 'Pennsylvania', 'Pittsburgh', 40.44, -79.99, 300000),
+  city('US', 'Alaska', 'Anchorage', 61.22, -149.90, 290000),
+  city('US', 'New York', 'Buffalo', 42.89, -78.88, 280000),
+  city('US', 'Nevada', 'Reno', 39.53, -119.81, 260000),
+  city('US', 'Idaho', 'Boise', 43.62, -116.20, 230000),
+  city('US', 'Utah', 'Salt Lake City', 40.76, -111.89, 200000),
+  city('US', 'California', 'Santa Rosa', 38.44, -122.71, 180000),
+  city('US', 'California', 'Pasadena', 34.15, -118.14, 140000),
+  city('US', 'North Carolina', 'Asheville', 35.60, -82.55, 95000),
+  city('US', 'Florida', 'Fort Myers', 26.64, -81.87, 90000),
+  city('US', 'California', 'Santa Barbara', 34.42, -119.70, 90000),
+  city('US', 'California', 'Napa', 38.30, -122.29, 80000),
+  city('US', 'Oklahoma', 'Moore', 35.34, -97.49, 62000),
+  city('US', 'Alabama', 'Mobile', 30.69, -88.04, 187000),
+  city('US', 'Texas', 'Galveston', 29.30, -94.80, 53000),
+  city('US', 'Missouri', 'Joplin', 37.08, -94.51, 51000),
+  city('US', 'Hawaii', 'Lahaina', 20.88, -156.68, 13000),
+  city('US', 'California', 'Malibu', 34.03, -118.78, 10000),
+  city('PR', null, 'San Juan', 18.47, -66.11, 340000),
+  // Canada
+  city('CA', 'Ontario', 'Toronto', 43.65, -79.38, 2800000),
+  city('CA', 'Quebec', 'Montreal', 45.50, -73.57, 1800000, ['Montréal']),
+  city('CA', 'Alberta', 'Calgary', 51.05, -114.07, 1300000),
+  city('CA', 'Alberta', 'Edmonton', 53.55, -113.49, 1000000),
+  city('CA', 'British Columbia', 'Vancouver', 49.28, -123.12, 660000),
+  city('CA', 'Nova Scotia', 'Halifax', 44.65, -63.57, 440000),
+  city('CA', 'Alberta', 'Fort McMurray', 56.73, -111.38, 70000),
+  city('CA', 'Alberta', 'Jasper', 52.87, -118.08, 5000),
+  // Japan
+  city('JP', 'Tokyo', 'Tokyo', 35.68, 139.69, 13900000, ['Tokio', 'Tōkyō', '東京']),
+  city('JP', 'Kanagawa', 'Yokohama', 35.44, 139.64, 3700000, ['横浜']),
+  city('JP', 'Osaka', 'Osaka', 34.69, 135.50, 2700000, ['Ōsaka', '大阪']),
+  city('JP', 'Aichi', 'Nagoya', 35.18, 136.91, 2300000, ['名古屋']),
+  city('JP', 'Hokkaido', 'Sapporo', 43.06, 141.35, 1900000, ['札幌']),
+  city('JP', 'Fukuoka', 'Fukuoka', 33.59, 130.40, 1600000, ['福岡']),
+  city('JP', 'Hyogo', 'Kobe', 34.69, 135.20, 1500000, ['Kōbe', '神戸']),
+  city('JP', 'Kyoto', 'Kyoto', 35.01, 135.77, 1460000, ['Kyōto', '京都']),
+  city('JP', 'Hiroshima', 'Hiroshima', 34.39, 132.46, 1200000, ['広島']),
+  city('JP', 'Miyagi', 'Sendai', 38.27, 140.87, 1100000, ['仙台']),
+  city('JP', 'Niigata', 'Niigata', 37.92, 139.04, 790000, ['新潟']),
+  city('JP', 'Kumamoto', 'Kumamoto', 32.80, 130.71, 740000, ['熊本']),
+  city('JP', 'Kagoshima', 'Kagoshima', 31.60, 130.56, 600000, ['鹿児島']),
+  city('JP', 'Ishikawa', 'Kanazawa', 36.56, 136.66, 460000, ['金沢']),
+  city('JP', 'Okinawa', 'Naha', 26.21, 127.68, 320000, ['那覇']),
+  city('JP', 'Ishikawa', 'Wajima', 37.39, 136.90, 27000, ['輪島']),
+  // Mexico
+  city('MX', 'Ciudad de México', 'Mexico City', 19.43, -99.13, 9200000, ['Ciudad de México', 'Ciudad de Mexico', 'CDMX', 'Città del Messico', 'メキシコシティ']),
+  city('MX', 'Baja California', 'Tijuana', 32.51, -117.04, 1900000),
+  city('MX', 'Puebla', 'Puebla', 19.04, -98.21, 1700000),
+  city('MX', 'Jalisco', 'Guadalajara', 20.67, -103.35, 1400000),
+  city('MX', 'Nuevo León', 'Monterrey', 25.69, -100.32, 1100000),
+  city('MX', 'Yucatán', 'Mérida', 20.97, -89.62, 990000, ['Merida']),
+  city('MX', 'Quintana Roo', 'Cancún', 21.16, -86.85, 890000, ['Cancun']),
+  city('MX', 'Guerrero', 'Acapulco', 16.86, -99.88, 780000, ['Acapulco de Juárez']),
+  city('MX', 'Veracruz', 'Veracruz', 19.17, -96.13, 600000),
+  city('MX', 'Oaxaca', 'Oaxaca', 17.07, -96.73, 270000, ['Oaxaca de Juárez']),
+  // Chile
+  city('CL', 'Santiago Metropolitan', 'Santiago', -33.45, -70.67, 6300000, ['Santiago de Chile']),
+  city('CL', 'Antofagasta', 'Antofagasta', -23.65, -70.40, 400000),
+  city('CL', 'Valparaíso', 'Viña del Mar', -33.02, -71.55, 330000, ['Vina del Mar']),
+  city('CL', 'Valparaíso', 'Valparaíso', -33.05, -71.62, 300000, ['Valparaiso']),
+  city('CL', 'Araucanía', 'Temuco', -38.74, -72.60, 280000),
+  city('CL', 'Los Lagos', 'Puerto Montt', -41.47, -72.94, 250000),
+  city('CL', 'Coquimbo', 'La Serena', -29.90, -71.25, 250000),
+  city('CL', 'Biobío', 'Concepción', -36.83, -73.05, 220000, ['Concepcion']),
+  city('CL', 'Tarapacá', 'Iquique', -20.21, -70.15, 200000),
+  city('CL', 'Los Ríos', 'Valdivia', -39.81, -73.25, 170000),
+  // Italy
+  city('IT', 'Lazio', 'Rome', 41.90, 12.50, 2800000, ['Roma']),
+  city('IT', 'Lombardy', 'Milan', 45.46, 9.19, 1400000, ['Milano']),
+  city('IT', 'Campania', 'Naples', 40.85, 14.27, 900000, ['Napoli', 'Nápoles']),
+  city('IT', 'Piedmont', 'Turin', 45.07, 7.69, 850000, ['Torino']),
+  city('IT', 'Sicily', 'Palermo', 38.12, 13.36, 630000),
+  city('IT', 'Liguria', 'Genoa', 44.41, 8.93, 560000, ['Genova']),
+  city('IT', 'Emilia-Romagna', 'Bologna', 44.49, 11.34, 390000),
+  city('IT', 'Tuscany', 'Florence', 43.77, 11.26, 360000, ['Firenze']),
+  city('IT', 'Apulia', 'Bari', 41.12, 16.87, 320000),
+  city('IT', 'Sicily', 'Catania', 37.50, 15.09, 300000),
+  city('IT', 'Veneto', 'Venice', 45.44, 12.33, 250000, ['Venezia']),
+  city('IT', 'Sicily', 'Messina', 38.19, 15.55, 220000),
+  city('IT', 'Emilia-Romagna', 'Ravenna', 44.42, 12.20, 160000),
+  city('IT', 'Abruzzo', "L'Aquila", 42.35, 13.40, 70000, ['Aquila']),
+  city('IT', 'Emilia-Romagna', 'Faenza', 44.29, 11.88, 58000),
+  city('IT', 'Campania', 'Ischia', 40.73, 13.90, 20000),
+  city('IT', 'Lazio', 'Amatrice', 42.63, 13.29, 2500),
+  // Turkey
+  city('TR', 'Istanbul', 'Istanbul', 41.01, 28.98, 15500000, ['İstanbul', 'Estambul', 'イスタンブール']),
+  city('TR', 'Ankara', 'Ankara', 39.93, 32.86, 5700000),
+  city('TR', 'Izmir', 'Izmir', 38.42, 27.14, 4400000, ['İzmir', 'Esmirna', 'Smirne']),
+  city('TR', 'Gaziantep', 'Gaziantep', 37.07, 37.38, 2100000, ['Antep']),
+  city('TR', 'Bursa', 'Bursa', 40.19, 29.06, 2000000),
+  city('TR', 'Adana', 'Adana', 37.00, 35.32, 1800000),
+  city('TR', 'Antalya', 'Antalya', 36.90, 30.70, 1300000),
+  city('TR', 'Diyarbakır', 'Diyarbakır', 37.91, 40.23, 1100000, ['Diyarbakir']),
+  city('TR', 'Malatya', 'Malatya', 38.35, 38.31, 800000),
+  city('TR', 'Samsun', 'Samsun', 41.29, 36.33, 700000),
+  city('TR', 'Kahramanmaraş', 'Kahramanmaraş', 37.58, 36.94, 560000, ['Kahramanmaras', 'Maraş']),
+  city('TR', 'Elazığ', 'Elazığ', 38.67, 39.22, 420000, ['Elazig']),
+  city('TR', 'Hatay', 'Antakya', 36.20, 36.16, 400000),
+  city('TR', 'Kocaeli', 'İzmit', 40.77, 29.92, 360000, ['Izmit']),
+  city('TR', 'Adıyaman', 'Adıyaman', 37.76, 38.28, 270000, ['Adiyaman']),
+  city('TR', 'Muğla', 'Bodrum', 37.04, 27.43, 40000),
+  // Rest of the world
+  city('PH', 'Metro Manila', 'Quezon City', 14.68, 121.04, 2900000),
+  city('PH', 'Metro Manila', 'Manila', 14.60, 120.98, 1800000, ['Maynila']),
+  city('PH', 'Davao', 'Davao City', 7.07, 125.61, 1800000, ['Davao']),
+  city('PH', 'Cebu', 'Cebu City', 10.32, 123.89, 960000, ['Cebu']),
+  city('PH', 'Leyte', 'Tacloban', 11.24, 125.00, 250000),
+  city('ID', 'Jakarta', 'Jakarta', -6.21, 106.85, 10600000, ['Cakarta']),
+  city('ID', 'East Java', 'Surabaya', -7.25, 112.75, 2900000),
+  city('ID', 'West Java', 'Bandung', -6.92, 107.62, 2500000),
+  city('ID', 'Central Sulawesi', 'Palu', -0.90, 119.87, 380000),
+  city('ID', 'Aceh', 'Banda Aceh', 5.55, 95.32, 250000),
+  city('ID', 'West Java', 'Cianjur', -6.82, 107.14, 180000),
+  city('NP', 'Bagmati', 'Kathmandu', 27.72, 85.32, 850000),
+  city('BD', 'Dhaka', 'Dhaka', 23.81, 90.41, 10200000, ['Dacca']),
+  city('BD', 'Chittagong', 'Chittagong', 22.36, 91.78, 2600000, ['Chattogram']),
+  city('PK', 'Sindh', 'Karachi', 24.86, 67.01, 14900000),
+  city('PK', 'Punjab', 'Lahore', 31.55, 74.34, 11100000),
+  city('IN', 'Maharashtra', 'Mumbai', 19.08, 72.88, 12400000, ['Bombay']),
+  city('IN', 'Delhi', 'Delhi', 28.70, 77.10, 11000000, ['New Delhi', 'Nueva Delhi', 'Yeni Delhi']),
+  city('IN', 'Karnataka', 'Bengaluru', 12.97, 77.59, 8400000, ['Bangalore']),
+  city('IN', 'Tamil Nadu', 'Chennai', 13.08, 80.27, 7100000, ['Madras']),
+  city('IN', 'West Bengal', 'Kolkata', 22.57, 88.36, 4500000, ['Calcutta']),
+  city('CN', 'Shanghai', 'Shanghai', 31.23, 121.47, 24000000, ['上海']),
+  city('CN', 'Beijing', 'Beijing', 39.90, 116.41, 21000000, ['Pekín', 'Pechino', 'Pekin', '北京']),
+  city('CN', 'Sichuan', 'Chengdu', 30.57, 104.07, 16000000, ['成都']),
+  city('CN', 'Hubei', 'Wuhan', 30.59, 114.31, 11000000, ['武汉']),
+  city('CN', 'Henan', 'Zhengzhou', 34.75, 113.63, 10000000, ['郑州']),
+  city('TW', 'Taipei', 'Taipei', 25.03, 121.57, 2600000, ['台北']),
+  city('TW', 'Hualien', 'Hualien', 23.99, 121.60, 100000, ['花蓮']),
+  city('KR', 'Seoul', 'Seoul', 37.57, 126.98, 9700000, ['Seúl', 'ソウル']),
+  city('KR', 'Busan', 'Busan', 35.18, 129.08, 3400000, ['Pusan']),
+  city('VN', 'Ho Chi Minh City', 'Ho Chi Minh City', 10.82, 106.63, 9000000, ['Saigon']),
+  city('VN', 'Hanoi', 'Hanoi', 21.03, 105.85, 8000000, ['Ha Noi']),
+  city('TH', 'Bangkok', 'Bangkok', 13.76, 100.50, 10500000),
+  city('MM', 'Yangon', 'Yangon', 16.87, 96.20, 5200000, ['Rangoon']),
+  city('MM', 'Mandalay', 'Mandalay', 21.97, 96.08, 1200000),
+  city('AF', 'Kabul', 'Kabul', 34.56, 69.21, 4400000, ['Kâbil']),
+  city('AF', 'Herat', 'Herat', 34.35, 62.20, 560000),
+  city('IR', 'Tehran', 'Tehran', 35.69, 51.39, 8700000, ['Teherán', 'Tahran']),
+  city('SY', 'Aleppo', 'Aleppo', 36.20, 37.13, 2100000, ['Alepo', 'Halep']),
+  city('MA', 'Marrakesh-Safi', 'Marrakesh', 31.63, -7.99, 930000, ['Marrakech', 'Marrakeş']),
+  city('LY', 'Derna', 'Derna', 32.76, 22.64, 100000),
+  city('GR', 'Attica', 'Athens', 37.98, 23.73, 660000, ['Atenas', 'Atene', 'Atina']),
+  city('GR', 'South Aegean', 'Rhodes', 36.43, 28.22, 50000, ['Rodas', 'Rodi', 'Rodos']),
+  city('IS', 'Capital Region', 'Reykjavík', 64.15, -21.94, 140000, ['Reykjavik']),
+  city('IS', 'Southern Peninsula', 'Grindavík', 63.84, -22.43, 3600, ['Grindavik']),
+  city('GB', 'England', 'London', 51.51, -0.13, 8900000, ['Londres', 'Londra']),
+  city('ES', 'Madrid', 'Madrid', 40.42, -3.70, 3300000),
+  city('ES', 'Valencia', 'Valencia', 39.47, -0.38, 800000),
+  city('PT', 'Lisbon', 'Lisbon', 38.72, -9.14, 550000, ['Lisboa', 'Lizbon']),
+  city('FR', 'Île-de-France', 'Paris', 48.86, 2.35, 2100000, ['París', 'Parigi']),
+  city('DE', 'Berlin', 'Berlin', 52.52, 13.40, 3600000, ['Berlín', 'Berlino']),
+  city('HT', 'Ouest', 'Port-au-Prince', 18.59, -72.31, 1000000),
+  city('CU', 'La Habana', 'Havana', 23.11, -82.37, 2100000, ['La Habana', 'Habana', "L'Avana"]),
+  city('GT', 'Guatemala', 'Guatemala City', 14.63, -90.51, 3000000, ['Ciudad de Guatemala']),
+  city('CO', 'Bogotá', 'Bogotá', 4.71, -74.07, 7400000, ['Bogota']),
+  city('EC', 'Guayas', 'Guayaquil', -2.19, -79.89, 2700000),
+  city('EC', 'Pichincha', 'Quito', -0.18, -78.47, 2000000),
+  city('PE', 'Lima', 'Lima', -12.05, -77.04, 9700000),
+  city('AR', 'Buenos Aires', 'Buenos Aires', -34.60, -58.38, 3100000),
+  city('BR', 'São Paulo', 'São Paulo', -23.55, -46.63, 12300000, ['Sao Paulo', 'San Paolo']),
+  city('BR', 'Rio de Janeiro', 'Rio de Janeiro', -22.91, -43.17, 6700000),
+  city('BR', 'Rio Grande do Sul', 'Porto Alegre', -30.03, -51.23, 1300000),
+  city('AU', 'New South Wales', 'Sydney', -33.87, 151.21, 5300000, ['Sídney']),
+  city('AU', 'Victoria', 'Melbourne', -37.81, 144.96, 5100000),
+  city('AU', 'Queensland', 'Brisbane', -27.47, 153.03, 2600000),
+  city('AU', 'Western Australia', 'Perth', -31.95, 115.86, 2100000),
+  city('AU', 'New South Wales', 'Lismore', -28.81, 153.28, 44000),
+  city('NZ', 'Auckland', 'Auckland', -36.85, 174.76, 1700000),
+  city('NZ', 'Canterbury', 'Christchurch', -43.53, 172.64, 380000),
+  city('NZ', 'Wellington', 'Wellington', -41.29, 174.78, 210000)
+];
+
+export const BUNDLED_GAZETTEER: GazetteerEntry[] = [...COUNTRIES, ...ADMIN_AREAS, ...CITIES];
@@ -0,0 +1,157 @@
+import { GetObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { logger } from '../utils/logger';
+import { BUNDLED_GAZETTEER } from './gazetteer-data';
+import { GazetteerEntry, PlaceType } from './types';
+
+const s3Client = new S3Client({ region: process.env.AWS_REGION || 'us-east-1' });
+
+const DEFAULT_GAZETTEER_S3_KEY = 'gazetteer/places.jsonl';
+const PLACE_TYPES: PlaceType[] = ['country', 'admin1', 'city'];
+
+// Names in scripts written without spaces are found by substring search instead of word n-grams
+export const UNSPACED_SCRIPT_PATTERN = /[\u3040-\u30ff\u4e00-\u9fff\uac00-\ud7af]/;
+
+export interface Gazetteer {
+  entries: GazetteerEntry[];
+  byName: Map<string, GazetteerEntry[]>; // Normalized name or alternate name
+  byAbbreviation: Map<string, GazetteerEntry[]>; // Exact case, without dots
+  byCompactName: Map<string, GazetteerEntry[]>; // Lowercase without spaces, for subreddit names like "losangeles"
+  unspacedNames: { name: string; entry: GazetteerEntry }[];
+  countries: Map<string, GazetteerEntry>; // By country code
+  maxNameWords: number;
+}
+
+let activeGazetteer = buildGazetteer(BUNDLED_GAZETTEER);
+let loading: Promise<void> | null = null;
+
+export function getGazetteer(): Gazetteer {
+  return activeGazetteer;
+}
+
+/**
+ * Replaces the bundled gazetteer with the one at GAZETTEER_S3_BUCKET / GAZETTEER_S3_KEY, once per container
+ * The object is JSON Lines of GazetteerEntry, e.g. a GeoNames cities15000 + admin1 + country export
+ * with alternate names. Resolution keeps using the bundled set until the load finishes or if it fails.
+ */
+export function loadGazetteer(): Promise<void> {
+  if (!loading) {
+    loading = loadGazetteerFromS3();
+  }
+  return loading;
+}
+
+async function loadGazetteerFromS3(): Promise<void> {
+  const bucket = process.env.GAZETTEER_S3_BUCKET;
+  const key = process.env.GAZETTEER_S3_KEY || DEFAULT_GAZETTEER_S3_KEY;
+  if (!bucket) return;
+
+  try {
+    const response = await s3Client.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+    const body = await response.Body?.transformToString();
+    const entries = parseGazetteerEntries(body || '');
+    if (entries.length === 0) {
+      throw new Error('No valid entries');
+    }
+
+    activeGazetteer = buildGazetteer(entries);
+    logger.info(`Loaded ${entries.length} gazetteer entries from s3://${bucket}/${key}`);
+  } catch (error) {
+    logger.error(`Error loading gazetteer from s3://${bucket}/${key}, using the bundled gazetteer:`, error);
+  }
+}
+
+function parseGazetteerEntries(body: string): GazetteerEntry[] {
+  const entries: GazetteerEntry[] = [];
+  let skipped = 0;
+
+  for (const line of body.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const raw = JSON.parse(line);
+      if (typeof raw.id !== 'string' || typeof raw.name !== 'string' || !PLACE_TYPES.includes(raw.type) ||
+          typeof raw.countryCode !== 'string' || typeof raw.lat !== 'number' || typeof raw.lng !== 'number') {
+        skipped++;
+        continue;
+      }
+      entries.push({
+        id: raw.id,
+        name: raw.name,
+        type: raw.type,
+        countryCode: raw.countryCode.toUpperCase(),
+        admin1: typeof raw.admin1 === 'string' ? raw.admin1 : null,
+        lat: raw.lat,
+        lng: raw.lng,
+        population: typeof raw.population === 'number' ? raw.population : 0,
+        alternateNames: Array.isArray(raw.alternateNames) ? raw.alternateNames.filter((name: any) => typeof name === 'string') : [],
+        abbreviations: Array.isArray(raw.abbreviations) ? raw.abbreviations.filter((name: any) => typeof name === 'string') : []
+      });
+    } catch {
+      skipped++;
+    }
+  }
+
+  if (skipped > 0) {
+    logger.warn(`Skipped ${skipped} malformed gazetteer lines`);
+  }
+  return entries;
+}
+
+export function buildGazetteer(entries: GazetteerEntry[]): Gazetteer {
+  const gazetteer: Gazetteer = {
+    entries,
+    byName: new Map(),
+    byAbbreviation: new Map(),
+    byCompactName: new Map(),
+    unspacedNames: [],
+    countries: new Map(),
+    maxNameWords: 1
+  };
+
+  for (const entry of entries) {
+    if (entry.type === 'country') {
+      gazetteer.countries.set(entry.countryCode, entry);
+    }
+
+    for (const name of new Set([entry.name, ...entry.alternateNames])) {
+      if (UNSPACED_SCRIPT_PATTERN.test(name)) {
+        gazetteer.unspacedNames.push({ name, entry });
+        continue;
+      }
+      const normalized = normalizePlaceName(name);
+      if (!normalized) continue;
+      addToIndex(gazetteer.byName, normalized, entry);
+      addToIndex(gazetteer.byCompactName, normalized.replace(/[ ']/g, ''), entry);
+      gazetteer.maxNameWords = Math.max(gazetteer.maxNameWords, normalized.split(' ').length);
+    }
+
+    for (const abbreviation of entry.abbreviations) {
+      addToIndex(gazetteer.byAbbreviation, abbreviation.replace(/\./g, ''), entry);
+    }
+  }
+
+  // Longest names first so "Mexico City" wins over "Mexico" inside it
+  gazetteer.unspacedNames.sort((a, b) => b.name.length - a.name.length);
+  return gazetteer;
+}
+
+function addToIndex(index: Map<string, GazetteerEntry[]>, key: string, entry: GazetteerEntry): void {
+  const existing = index.get(key);
+  if (!existing) {
+    index.set(key, [entry]);
+  } else if (!existing.includes(entry)) {
+    existing.push(entry);
+  }
+}
+
+// Case, accents, dots and hyphens don't distinguish place names ("İzmir" = "izmir", "St. Louis" = "st louis")
+export function normalizePlaceName(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/ı/g, 'i')
+    .replace(/’/g, "'")
+    .replace(/\./g, '')
+    .replace(/[\s-]+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
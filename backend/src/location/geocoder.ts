@@ -0,0 +1,190 @@
+import axios from 'axios';
+import { getCachedGeocode, putCachedGeocode } from '../utils/geocode-cache';
+import { logger } from '../utils/logger';
+import { recordMetric } from '../utils/metrics';
+import { normalizePlaceName } from './gazetteer';
+import { resolveLocation } from './resolver';
+import { GeocodeResult, GeocodingProvider, LocationHints } from './types';
+
+/**
+ * Shared geocoder
+ * Turns a place string into coordinates through a provider chain (GEOCODER_PROVIDERS, default
+ * gazetteer,google,nominatim). The gazetteer answers from memory; online answers, including
+ * "not found", are cached in DynamoDB by normalized place string.
+ */
+
+const DEFAULT_PROVIDER_CHAIN = 'gazetteer,google,nominatim';
+const REQUEST_TIMEOUT_MS = 5000;
+
+// Gazetteer matches below this are left to the online geocoders
+const GAZETTEER_MIN_CONFIDENCE = 0.4;
+
+// Nominatim's usage policy allows at most one request per second
+const DEFAULT_NOMINATIM_MIN_INTERVAL_MS = 1000;
+const NOMINATIM_BASE_URL = 'https://nominatim.openstreetmap.org';
+
+const gazetteerProvider: GeocodingProvider = {
+  name: 'gazetteer',
+  offline: true,
+
+  isConfigured(): boolean {
+    return true;
+  },
+
+  async geocode(query: string, hints: LocationHints) {
+    const place = resolveLocation(query, hints);
+    if (!place || place.confidence < GAZETTEER_MIN_CONFIDENCE) return null;
+    return { coordinates: place.coordinates, provider: 'gazetteer', displayName: place.displayName };
+  }
+};
+
+const googleProvider: GeocodingProvider = {
+  name: 'google',
+  offline: false,
+
+  isConfigured(): boolean {
+    return !!process.env.GOOGLE_MAPS_API_KEY;
+  },
+
+  async geocode(query: string) {
+    const response = await axios.get('https://maps.googleapis.com/maps/api/geocode/json', {
+      params: {
+        address: query,
+        key: process.env.GOOGLE_MAPS_API_KEY
+      },
+      timeout: REQUEST_TIMEOUT_MS
+    });
+
+    const data = response.data as { status: string; error_message?: string; results: Array<{ formatted_address: string; geometry: { location: { lat: number; lng: number } } }> };
+    if (data.status === 'ZERO_RESULTS') return null;
+    if (data.status !== 'OK') {
+      throw new Error(`Google geocoding returned ${data.status}${data.error_message ? `: ${data.error_message}` : ''}`);
+    }
+
+    const [first] = data.results;
+    return { coordinates: { lat: first.geometry.location.lat, lng: first.geometry.location.lng }, provider: 'google', displayName: first.formatted_address };
+  }
+};
+
+const nominatimProvider: GeocodingProvider = {
+  name: 'nominatim',
+  offline: false,
+
+  isConfigured(): boolean {
+    return true;
+  },
+
+  async geocode(query: string) {
+    await throttleNominatim();
+    const response = await axios.get(`${process.env.NOMINATIM_BASE_URL || NOMINATIM_BASE_URL}/search`, {
+      params: {
+        q: query,
+        format: 'json',
+        limit: 1
+      },
+      headers: {
+        'User-Agent': 'SmartEAS/2.0'
+      },
+      timeout: REQUEST_TIMEOUT_MS
+    });
+
+    const data = response.data as Array<{ lat: string; lon: string; display_name?: string }>;
+    if (!Array.isArray(data) || data.length === 0) return null;
+
+    return { coordinates: { lat: parseFloat(data[0].lat), lng: parseFloat(data[0].lon) }, provider: 'nominatim', displayName: data[0].display_name || null };
+  }
+};
+
+const PROVIDERS: GeocodingProvider[] = [gazetteerProvider, googleProvider, nominatimProvider];
+
+// Requests queue behind each other so concurrent lookups in one container stay under the limit
+let nominatimQueue: Promise<void> = Promise.resolve();
+let lastNominatimRequestAt = 0;
+
+function throttleNominatim(): Promise<void> {
+  const minIntervalMs = parseInt(process.env.NOMINATIM_MIN_INTERVAL_MS || String(DEFAULT_NOMINATIM_MIN_INTERVAL_MS), 10);
+  const turn = nominatimQueue.then(async () => {
+    const waitMs = lastNominatimRequestAt + minIntervalMs - Date.now();
+    if (waitMs > 0) {
+      await delay(waitMs);
+    }
+    lastNominatimRequestAt = Date.now();
+  });
+  nominatimQueue = turn;
+  return turn;
+}
+
+/**
+ * Coordinates for a place string, or null when no provider knows it
+ * Offline providers go first; then the cache; then each online provider in chain order until one
+ * finds the place. "Not found" is cached only when every online provider answered, so an outage
+ * or exhausted quota is retried on the next lookup instead of hiding the place.
+ */
+export async function geocodeLocation(query: string | null | undefined, hints: LocationHints = {}): Promise<GeocodeResult | null> {
+  const cacheKey = geocodeCacheKey(query || '');
+  if (!cacheKey) return null;
+
+  const chain = getProviderChain();
+  for (const provider of chain.filter(provider => provider.offline)) {
+    const result = await tryProvider(provider, query!, hints);
+    if (result.found) return result.found;
+  }
+
+  const online = chain.filter(provider => !provider.offline);
+  if (online.length === 0) return null;
+
+  const cached = await getCachedGeocode(cacheKey);
+  recordMetric(cached ? 'GeocodeCacheHit' : 'GeocodeCacheMiss', 1);
+  if (cached) return cached.result;
+
+  let failed = false;
+  for (const provider of online) {
+    const result = await tryProvider(provider, query!, hints);
+    if (result.found) {
+      await putCachedGeocode(cacheKey, result.found);
+      return result.found;
+    }
+    failed = failed || result.failed;
+  }
+
+  if (!failed) {
+    await putCachedGeocode(cacheKey, null);
+  }
+  return null;
+}
+
+// "Houston,  TX" and "houston, tx" share one cache entry
+export function geocodeCacheKey(query: string): string {
+  return normalizePlaceName(query).replace(/\s*,\s*/g, ', ');
+}
+
+async function tryProvider(provider: GeocodingProvider, query: string, hints: LocationHints): Promise<{ found: GeocodeResult | null; failed: boolean }> {
+  try {
+    const found = await provider.geocode(query, hints);
+    recordMetric('GeocodeRequest', 1, { Provider: provider.name, Result: found ? 'found' : 'not_found' });
+    return { found, failed: false };
+  } catch (error) {
+    logger.error(`Geocoding "${query}" with ${provider.name} failed:`, error);
+    recordMetric('GeocodeRequest', 1, { Provider: provider.name, Result: 'error' });
+    return { found: null, failed: true };
+  }
+}
+
+function getProviderChain(): GeocodingProvider[] {
+  const names = (process.env.GEOCODER_PROVIDERS || DEFAULT_PROVIDER_CHAIN).split(',').map(name => name.trim()).filter(Boolean);
+  const chain: GeocodingProvider[] = [];
+
+  for (const name of names) {
+    const provider = PROVIDERS.find(candidate => candidate.name === name);
+    if (!provider) {
+      logger.warn(`Unknown geocoding provider "${name}" in GEOCODER_PROVIDERS`);
+    } else if (provider.isConfigured()) {
+      chain.push(provider);
+    }
+  }
+  return chain;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
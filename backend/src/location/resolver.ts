@@ -0,0 +1,257 @@
+import { Gazetteer, getGazetteer, normalizePlaceName, UNSPACED_SCRIPT_PATTERN } from './gazetteer';
+import { GazetteerEntry, LocationHints, ResolvedLocation } from './types';
+
+/**
+ * Gazetteer-backed location resolution shared by ingestion, analysis and validation
+ * Finds place-name mentions in free text, picks the most plausible gazetteer entry for each one
+ * (subreddit, "City, State" qualifiers and other places in the same text break ties) and returns
+ * the most specific place with its coordinates, admin hierarchy and a 0-1 confidence.
+ */
+
+// Words and their separators; "L'Aquila", "Port-au-Prince" and "Turkey's" stay single tokens
+const TOKEN_PATTERN = /[\p{L}\p{M}\p{N}]+(?:['’][\p{L}\p{M}]+|-[\p{L}\p{M}\p{N}]+)*/gu;
+// Multi-word names may only span spaces and abbreviation dots ("St. Louis", "Washington D.C.")
+const NAME_GAP_PATTERN = /^\.?\s*$/;
+const QUALIFIER_GAP_PATTERN = /^\s*,\s*$/;
+
+// Place names that are far more often ordinary (title-cased) words; only accepted when qualified ("Mobile, AL")
+const COMMON_WORD_NAMES = new Set([
+  'alert', 'bar', 'bath', 'best', 'bus', 'can', 'colon', 'damage', 'date', 'deal', 'enterprise', 'gap', 'hell',
+  'hope', 'independence', 'liberty', 'male', 'man', 'marathon', 'mobile', 'most', 'nice', 'of', 'orange',
+  'paradise', 'police', 'reading', 'rescue', 'sale', 'split', 'surprise', 'van'
+]);
+
+// Subreddits named after an area rather than a single place
+const SUBREDDIT_ALIASES: Record<string, string> = {
+  bayarea: 'San Francisco',
+  socal: 'California',
+  norcal: 'California',
+  pnw: 'Washington',
+  nola: 'New Orleans',
+  mexicocity: 'Mexico City',
+  unitedkingdom: 'United Kingdom',
+  casualuk: 'United Kingdom'
+};
+
+// Weights for picking between candidates of one mention
+const QUALIFIER_MATCH_BOOST = 0.4;
+const QUALIFIER_MISMATCH_PENALTY = 0.3;
+const HINT_COUNTRY_BOOST = 0.3;
+const HINT_ADMIN_BOOST = 0.15;
+const CO_MENTION_COUNTRY_BOOST = 0.15;
+const CO_MENTION_ADMIN_BOOST = 0.1;
+
+interface PlaceMention {
+  text: string;
+  start: number;
+  end: number;
+  candidates: GazetteerEntry[];
+  lowercase: boolean; // Matched without capitalization in an all-lowercase text
+  qualifier: PlaceMention | null; // "Texas" in "Houston, Texas"
+  isQualifier: boolean;
+}
+
+interface ScoredMention {
+  mention: PlaceMention;
+  entry: GazetteerEntry;
+  confidence: number;
+}
+
+export function resolveLocation(text: string, hints: LocationHints = {}): ResolvedLocation | null {
+  const scored = scoreMentions(text, hints);
+  const primary = scored.filter(item => !item.mention.isQualifier);
+  const pool = primary.length > 0 ? primary : scored;
+  if (pool.length === 0) return null;
+
+  // Prefer the most specific place unless a broader one is clearly more certain
+  const best = pool.reduce((top, item) => rank(item) > rank(top) ? item : top);
+  return toResolvedLocation(best, getGazetteer());
+}
+
+// Every distinct place mentioned, in text order
+export function findPlaces(text: string, hints: LocationHints = {}): ResolvedLocation[] {
+  const gazetteer = getGazetteer();
+  const seen = new Set<string>();
+  return scoreMentions(text, hints)
+    .filter(item => !seen.has(item.entry.id) && seen.add(item.entry.id))
+    .map(item => toResolvedLocation(item, gazetteer));
+}
+
+function rank(item: ScoredMention): number {
+  const specificity = item.entry.type === 'city' ? 0.1 : item.entry.type === 'admin1' ? 0.05 : 0;
+  return item.confidence + specificity;
+}
+
+function scoreMentions(text: string, hints: LocationHints): ScoredMention[] {
+  if (!text) return [];
+
+  const gazetteer = getGazetteer();
+  const mentions = findMentions(text, gazetteer);
+  linkQualifiers(text, mentions);
+  const hintEntry = resolveHint(hints, gazetteer);
+  const hintCountry = hints.countryCode || hintEntry?.countryCode;
+  const hintAdmin = hintEntry && hintEntry.type !== 'country' ? (hintEntry.admin1 || hintEntry.name) : null;
+
+  const scored: ScoredMention[] = [];
+  for (const mention of mentions) {
+    const single = mention.text.split(/\s+/).length === 1;
+    if (single && !mention.qualifier && COMMON_WORD_NAMES.has(normalizePlaceName(mention.text))) continue;
+
+    const ranked = mention.candidates
+      .map(entry => ({ entry, score: scoreCandidate(entry, mention, mentions, hintCountry, hintAdmin) }))
+      .sort((a, b) => b.score - a.score);
+    const [best, runnerUp] = ranked;
+
+    let confidence = 0.2 + best.score * 0.75;
+    if (runnerUp && best.score - runnerUp.score < 0.1) confidence *= 0.8;
+    if (mention.lowercase) confidence -= 0.15;
+    scored.push({ mention, entry: best.entry, confidence: Math.round(Math.max(0.05, Math.min(0.98, confidence)) * 100) / 100 });
+  }
+  return scored;
+}
+
+function scoreCandidate(entry: GazetteerEntry, mention: PlaceMention, mentions: PlaceMention[], hintCountry: string | undefined, hintAdmin: string | null): number {
+  let score = entry.type === 'country' ? 0.5
+    : entry.type === 'admin1' ? 0.4
+    : Math.min(0.45, Math.log10(entry.population + 1) / 16);
+
+  if (hintCountry && entry.countryCode === hintCountry) score += HINT_COUNTRY_BOOST;
+  if (hintAdmin && entry.type !== 'country' && entry.admin1 === hintAdmin) score += HINT_ADMIN_BOOST;
+
+  if (mention.qualifier) {
+    score += mention.qualifier.candidates.some(parent => contains(parent, entry)) ? QUALIFIER_MATCH_BOOST : -QUALIFIER_MISMATCH_PENALTY;
+  }
+
+  const others = mentions.filter(other => other !== mention && other !== mention.qualifier);
+  if (others.some(other => other.candidates.some(candidate => candidate !== entry && candidate.countryCode === entry.countryCode))) {
+    score += CO_MENTION_COUNTRY_BOOST;
+  }
+  if (entry.admin1 && others.some(other => other.candidates.some(candidate => candidate !== entry && candidate.countryCode === entry.countryCode && candidate.admin1 === entry.admin1))) {
+    score += CO_MENTION_ADMIN_BOOST;
+  }
+  return score;
+}
+
+// Whether child lies inside parent in the admin hierarchy
+function contains(parent: GazetteerEntry, child: GazetteerEntry): boolean {
+  if (parent === child || parent.countryCode !== child.countryCode) return false;
+  if (parent.type === 'country') return child.type !== 'country';
+  return parent.type === 'admin1' && child.type === 'city' && child.admin1 === parent.name;
+}
+
+function findMentions(text: string, gazetteer: Gazetteer): PlaceMention[] {
+  const tokens = [...text.matchAll(TOKEN_PATTERN)].map(match => {
+    // Possessives and Turkish case suffixes name the place itself ("Turkey's", "İzmir'de"); "L'Aquila" keeps its article
+    const value = match[0].replace(/(?<=[\p{L}\p{M}]{3})['’][\p{L}\p{M}]{1,5}$/u, '');
+    return { value, start: match.index!, end: match.index! + value.length };
+  });
+  const allLowercase = text === text.toLowerCase();
+  const mentions: PlaceMention[] = [];
+
+  for (let i = 0; i < tokens.length;) {
+    let matched = 0;
+
+    for (let n = Math.min(gazetteer.maxNameWords + 1, tokens.length - i); n >= 1 && !matched; n--) {
+      const span = tokens.slice(i, i + n);
+      if (span.some((token, index) => index > 0 && !NAME_GAP_PATTERN.test(text.slice(span[index - 1].end, token.start)))) continue;
+
+      const start = span[0].start;
+      const end = span[n - 1].end;
+      const spanText = text.slice(start, end);
+      const capitalized = /^\p{Lu}/u.test(spanText);
+      let candidates: GazetteerEntry[] = [];
+
+      if (capitalized || allLowercase) {
+        candidates = gazetteer.byName.get(normalizePlaceName(spanText)) || [];
+      }
+      if (candidates.length === 0) {
+        // Codes are case-sensitive; two-letter ones ("CA", "IN", "OK") only count as "City, ST"
+        const code = spanText.replace(/\./g, '');
+        const afterComma = /,\s*$/.test(text.slice(0, start));
+        if (code.length > 2 || afterComma) {
+          candidates = gazetteer.byAbbreviation.get(code) || [];
+        }
+      }
+
+      if (candidates.length > 0) {
+        mentions.push({ text: spanText, start, end, candidates, lowercase: !capitalized, qualifier: null, isQualifier: false });
+        matched = n;
+      }
+    }
+
+    i += matched || 1;
+  }
+
+  if (UNSPACED_SCRIPT_PATTERN.test(text)) {
+    mentions.push(...findUnspacedMentions(text, gazetteer));
+    mentions.sort((a, b) => a.start - b.start);
+  }
+  return mentions;
+}
+
+// Longest names first; a shorter name inside an already matched one is not a separate mention
+function findUnspacedMentions(text: string, gazetteer: Gazetteer): PlaceMention[] {
+  const mentions: PlaceMention[] = [];
+
+  for (const { name, entry } of gazetteer.unspacedNames) {
+    for (let start = text.indexOf(name); start !== -1; start = text.indexOf(name, start + name.length)) {
+      const end = start + name.length;
+      const existing = mentions.find(mention => mention.start === start && mention.end === end);
+      if (existing) {
+        if (!existing.candidates.includes(entry)) existing.candidates.push(entry);
+      } else if (!mentions.some(mention => start < mention.end && end > mention.start)) {
+        mentions.push({ text: name, start, end, candidates: [entry], lowercase: false, qualifier: null, isQualifier: false });
+      }
+    }
+  }
+  return mentions;
+}
+
+// "Houston, Texas, USA": each place qualified by the next one that can contain it
+function linkQualifiers(text: string, mentions: PlaceMention[]): void {
+  for (let i = 0; i < mentions.length - 1; i++) {
+    const place = mentions[i];
+    const next = mentions[i + 1];
+    if (!QUALIFIER_GAP_PATTERN.test(text.slice(place.end, next.start))) continue;
+
+    if (place.candidates.some(child => next.candidates.some(parent => contains(parent, child)))) {
+      place.qualifier = next;
+      next.isQualifier = true;
+    }
+  }
+}
+
+function resolveHint(hints: LocationHints, gazetteer: Gazetteer): GazetteerEntry | null {
+  if (!hints.subreddit) return null;
+
+  const subreddit = hints.subreddit.toLowerCase();
+  const alias = SUBREDDIT_ALIASES[subreddit];
+  const candidates = alias
+    ? gazetteer.byName.get(normalizePlaceName(alias)) || []
+    : gazetteer.byCompactName.get(subreddit) || [];
+  if (candidates.length === 0) return null;
+
+  return candidates.reduce((top, entry) => entry.population > top.population ? entry : top);
+}
+
+function toResolvedLocation(item: ScoredMention, gazetteer: Gazetteer): ResolvedLocation {
+  const { entry } = item;
+  const country = gazetteer.countries.get(entry.countryCode)?.name || null;
+  const parts = [entry.name];
+  if (entry.type === 'city' && entry.admin1 && entry.admin1 !== entry.name) parts.push(entry.admin1);
+  if (entry.type !== 'country' && country) parts.push(country);
+
+  return {
+    id: entry.id,
+    name: entry.name,
+    displayName: parts.join(', '),
+    type: entry.type,
+    coordinates: { lat: entry.lat, lng: entry.lng },
+    countryCode: entry.countryCode,
+    country,
+    admin1: entry.admin1,
+    population: entry.population,
+    confidence: item.confidence,
+    matchedText: item.mention.text
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Gazetteer and location resolution types
+ * Entries follow the GeoNames split of countries, first-level admin areas and populated places,
+ * so a full GeoNames export can replace the bundled dataset without code changes.
+ */
+import { LatLng } from '../utils/geo';
+
+export type PlaceType = 'country' | 'admin1' | 'city';
+
+export interface GazetteerEntry {
+  id: string;
+  name: string;
+  type: PlaceType;
+  countryCode: string; // ISO 3166-1 alpha-2
+  admin1: string | null; // State, prefecture, province or region name; null for countries
+  lat: number;
+  lng: number;
+  population: number;
+  alternateNames: string[]; // Exonyms and native spellings, matched like the name
+  abbreviations: string[]; // Case-sensitive codes ("TX", "USA"); two-letter ones only count after a comma
+}
+
+export interface ResolvedLocation {
+  id: string;
+  name: string;
+  displayName: string; // "Houston, Texas, United States"
+  type: PlaceType;
+  coordinates: LatLng;
+  countryCode: string;
+  country: string | null;
+  admin1: string | null;
+  population: number;
+  confidence: number; // 0-1
+  matchedText: string; // The text span the place was recognised from
+}
+
+export interface LocationHints {
+  subreddit?: string; // r/japan, r/houston, ... narrow ambiguous names to that area
+  countryCode?: string;
+}
+
+export interface GeocodeResult {
+  coordinates: LatLng;
+  provider: string; // Geocoding provider that answered: gazetteer, google, nominatim
+  displayName: string | null; // The provider's name for the place, when it returns one
+}
+
+export interface GeocodingProvider {
+  name: string;
+  offline: boolean; // Answers from memory; not cached and tried before the cache
+  isConfigured(): boolean;
+  // null when the provider has no match; throws when it could not answer (quota, outage)
+  geocode(query: string, hints: LocationHints): Promise<GeocodeResult | null>;
+}
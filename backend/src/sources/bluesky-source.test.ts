@@ -0,0 +1,120 @@
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { blueskySource } from './bluesky-source';
+import { SourceFetchContext, SourceFetchOptions } from './types';
+
+const context: SourceFetchContext = { throttle: async () => {}, remainingRequests: () => 20 };
+
+function fetchOptions(targets: string[]): SourceFetchOptions {
+  return { limit: 25, timeRange: 'day', targets, keywords: [], params: {} };
+}
+
+function post(rkey: string, text: string, createdAt: string): any {
+  return {
+    uri: `at://did:plc:abc123/app.bsky.feed.post/${rkey}`,
+    author: { did: 'did:plc:abc123', handle: 'alice.bsky.social', displayName: 'Alice' },
+    record: { text, createdAt, langs: ['en'] },
+    likeCount: 4,
+    repostCount: 1,
+    replyCount: 2
+  };
+}
+
+const POSTS = [
+  post('3k2', 'Flood water rising on Main St\nStay safe everyone', '2026-10-19T08:05:00.000Z'),
+  post('3k1', 'Flood warning issued for the river', '2026-10-19T08:05:00.000Z'),
+  post('3k0', 'Heavy rain and flood watch overnight', '2026-10-19T07:00:00.000Z')
+];
+
+describe('blueskySource against a stand-in PDS', () => {
+  let server: Server;
+  let requests: { request: IncomingMessage; body: string }[];
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      let body = '';
+      request.on('data', chunk => { body += chunk; });
+      request.on('end', () => {
+        requests.push({ request, body });
+        response.writeHead(200, { 'Content-Type': 'application/json' });
+        if (request.url === '/xrpc/com.atproto.server.createSession') {
+          response.end(JSON.stringify({ accessJwt: 'test-jwt' }));
+        } else {
+          response.end(JSON.stringify({ posts: POSTS }));
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    process.env.BLUESKY_SERVICE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+    process.env.BLUESKY_IDENTIFIER = 'monitor.bsky.social';
+    process.env.BLUESKY_APP_PASSWORD = 'app-password';
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  afterAll(async () => {
+    delete process.env.BLUESKY_SERVICE_URL;
+    delete process.env.BLUESKY_IDENTIFIER;
+    delete process.env.BLUESKY_APP_PASSWORD;
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('opens a session and searches with its token', async () => {
+    const result = await blueskySource.fetch(fetchOptions(['flood']), null, context);
+
+    const [session, search] = requests;
+    expect(session.request.url).toBe('/xrpc/com.atproto.server.createSession');
+    expect(JSON.parse(session.body)).toEqual({ identifier: 'monitor.bsky.social', password: 'app-password' });
+    expect(search.request.url).toBe('/xrpc/app.bsky.feed.searchPosts?q=flood&sort=latest&limit=25');
+    expect(search.request.headers.authorization).toBe('Bearer test-jwt');
+    expect(result.items).toHaveLength(3);
+  });
+
+  it('reuses the session on later runs', async () => {
+    await blueskySource.fetch(fetchOptions(['flood']), null, context);
+
+    expect(requests.map(({ request }) => request.url!.split('?')[0])).toEqual(['/xrpc/app.bsky.feed.searchPosts']);
+  });
+
+  it('keeps the newest createdAt and every post at it as the cursor', async () => {
+    const result = await blueskySource.fetch(fetchOptions(['flood']), null, context);
+
+    expect(result.cursor).toEqual({
+      flood: {
+        since: '2026-10-19T08:05:00.000Z',
+        boundaryUris: [POSTS[0].uri, POSTS[1].uri]
+      }
+    });
+  });
+
+  it('searches from the cursor and skips posts already read at its boundary', async () => {
+    const cursor = { flood: { since: '2026-10-19T08:05:00.000Z', boundaryUris: [POSTS[1].uri] } };
+    const result = await blueskySource.fetch(fetchOptions(['flood']), cursor, context);
+
+    expect(new URL(requests[0].request.url!, 'http://pds').searchParams.get('since')).toBe('2026-10-19T08:05:00.000Z');
+    expect(result.items.map(item => item.post.uri)).toEqual([POSTS[0].uri, POSTS[2].uri]);
+    expect(result.skippedByCursor).toBe(1);
+    expect(result.cursor!.flood.boundaryUris).toEqual([POSTS[0].uri, POSTS[1].uri]);
+  });
+
+  it('normalizes posts with an id and web URL built from the AT URI', () => {
+    const normalized = blueskySource.normalize({ post: POSTS[0], query: 'flood' })!;
+
+    expect(normalized.id).toBe('bluesky_didplcabc123_3k2');
+    expect(normalized.url).toBe('https://bsky.app/profile/alice.bsky.social/post/3k2');
+    expect(normalized.title).toBe('Flood water rising on Main St');
+    expect(normalized.created_utc).toBe(Date.parse('2026-10-19T08:05:00Z') / 1000);
+    expect(normalized.score).toBe(5);
+    expect(normalized.language).toBe('en');
+    expect(normalized.relevanceScore).toBeGreaterThan(0);
+  });
+
+  it('drops posts with no disaster relevance', () => {
+    const unrelated = post('3k9', 'Lovely sunset over the bay', '2026-10-19T08:00:00.000Z');
+
+    expect(blueskySource.normalize({ post: unrelated, query: 'flood' })).toBeNull();
+  });
+});
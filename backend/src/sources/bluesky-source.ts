@@ -0,0 +1,225 @@
+import axios from 'axios';
+import { resolveLocation } from '../location/resolver';
+import { resolveLanguage } from '../utils/language';
+import { logger } from '../utils/logger';
+import { getDisasterKeywords } from './disaster-terms';
+import { calculateRelevanceScore, determineUrgency, getMatchedKeywords } from './scoring';
+import { IngestionSource, RawPost, SourceCursor, SourceFetchContext, SourceFetchOptions, SourceFetchResult } from './types';
+
+const DEFAULT_SERVICE_URL = 'https://bsky.social';
+const DEFAULT_QUERIES = [
+  'earthquake', 'flood', 'wildfire', 'hurricane', 'typhoon',
+  'tornado', 'tsunami', 'evacuation'
+];
+
+// Results at the cursor boundary are returned again because since is inclusive
+const MAX_BOUNDARY_URIS = 50;
+
+interface BlueskyQueryCursor {
+  since: string; // createdAt of the newest post already ingested
+  boundaryUris: string[];
+}
+
+/**
+ * Bluesky ingestion source
+ * Runs searchPosts (sort=latest) for each query with an app-password session and keeps
+ * the newest createdAt per query so only new posts are read.
+ */
+export const blueskySource: IngestionSource = {
+  name: 'bluesky',
+  platform: 'bluesky',
+  rateLimit: {
+    minIntervalMs: 500,
+    maxRequestsPerRun: 20
+  },
+
+  isConfigured(): boolean {
+    return Boolean(process.env.BLUESKY_IDENTIFIER && process.env.BLUESKY_APP_PASSWORD);
+  },
+
+  async fetch(options: SourceFetchOptions, cursor: SourceCursor | null, context: SourceFetchContext): Promise<SourceFetchResult> {
+    await context.throttle();
+    const accessJwt = await createSession();
+    const queries = options.targets.length > 0
+      ? options.targets
+      : options.keywords.length > 0 ? options.keywords : getSearchQueries();
+    const nextCursor: SourceCursor = { ...(cursor || {}) };
+    const result: SourceFetchResult = { items: [], cursor: nextCursor, errors: [], targetsProcessed: 0, skippedByCursor: 0 };
+
+    for (const query of queries) {
+      try {
+        await context.throttle();
+        const queryCursor: BlueskyQueryCursor | undefined = nextCursor[query];
+
+        const params: Record<string, any> = {
+          q: query,
+          sort: 'latest',
+          limit: Math.min(Math.max(options.limit, 1), 100)
+        };
+        if (queryCursor?.since) {
+          params.since = queryCursor.since;
+        }
+
+        const response = await axios.get(`${getServiceUrl()}/xrpc/app.bsky.feed.searchPosts`, {
+          params,
+          headers: { Authorization: `Bearer ${accessJwt}` },
+          timeout: 10000
+        });
+        const posts: any[] = (response.data as any)?.posts || [];
+        const boundary = new Set(queryCursor?.boundaryUris || []);
+
+        for (const post of posts) {
+          if (boundary.has(post.uri)) {
+            result.skippedByCursor!++;
+            continue;
+          }
+          result.items.push({ post, query });
+        }
+
+        if (posts.length > 0) {
+          nextCursor[query] = advanceCursor(queryCursor, posts);
+        }
+        result.targetsProcessed++;
+
+      } catch (error) {
+        logger.error(`Error searching Bluesky for query "${query}":`, error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        result.errors.push(`${query}: ${errorMessage}`);
+      }
+    }
+
+    return result;
+  },
+
+  normalize(item: any): RawPost | null {
+    const post = processBlueskyPost(item.post, item.query);
+
+    // Search matches words anywhere in the post; drop hits with no disaster relevance at all
+    if (post && post.relevanceScore === 0) return null;
+    return post;
+  },
+
+  generateMockPosts(options: SourceFetchOptions): any[] {
+    return generateMockBlueskyPosts(options.limit, options.keywords);
+  }
+};
+
+// Overridable so a local stand-in can be used instead of the real PDS
+function getServiceUrl(): string {
+  return (process.env.BLUESKY_SERVICE_URL || DEFAULT_SERVICE_URL).replace(/\/$/, '');
+}
+
+function getSearchQueries(): string[] {
+  const configured = (process.env.BLUESKY_SEARCH_QUERIES || '').split(',').map(query => query.trim()).filter(Boolean);
+  return configured.length > 0 ? configured : DEFAULT_QUERIES;
+}
+
+let session: { accessJwt: string; expiresAt: number } | null = null;
+
+// Access tokens live for about two hours; refresh well before that on warm Lambdas
+async function createSession(): Promise<string> {
+  if (session && session.expiresAt > Date.now()) {
+    return session.accessJwt;
+  }
+
+  const response = await axios.post(`${getServiceUrl()}/xrpc/com.atproto.server.createSession`, {
+    identifier: process.env.BLUESKY_IDENTIFIER,
+    password: process.env.BLUESKY_APP_PASSWORD
+  }, { timeout: 10000 });
+
+  session = {
+    accessJwt: (response.data as any).accessJwt,
+    expiresAt: Date.now() + 60 * 60 * 1000
+  };
+  return session.accessJwt;
+}
+
+function advanceCursor(previous: BlueskyQueryCursor | undefined, posts: any[]): BlueskyQueryCursor {
+  const newest = posts.reduce((latest: string, post: any) => {
+    const createdAt = post.record?.createdAt || '';
+    return createdAt > latest ? createdAt : latest;
+  }, previous?.since || '');
+
+  const atBoundary = posts.filter(post => post.record?.createdAt === newest).map(post => post.uri);
+  const carried = previous && previous.since === newest ? previous.boundaryUris : [];
+
+  return {
+    since: newest,
+    boundaryUris: [...new Set([...atBoundary, ...carried])].slice(0, MAX_BOUNDARY_URIS)
+  };
+}
+
+function processBlueskyPost(post: any, query: string): RawPost | null {
+  try {
+    const record = post.record || {};
+    const text: string = record.text || '';
+    const parsedDate = record.createdAt ? new Date(record.createdAt) : null;
+    const createdTime = parsedDate && !isNaN(parsedDate.getTime()) ? parsedDate : new Date();
+    const handle: string = post.author?.handle || post.author?.did || 'unknown';
+    // at://did/app.bsky.feed.post/<rkey>
+    const rkey = String(post.uri || '').split('/').pop();
+    const fullText = text.toLowerCase();
+    const language = resolveLanguage(Array.isArray(record.langs) && record.langs.length > 0 ? record.langs[0] : null, text);
+    const keywords = getDisasterKeywords(language);
+    const resolvedLocation = resolveLocation(text);
+
+    return {
+      id: `bluesky_${post.author?.did ? post.author.did.replace(/[^a-zA-Z0-9]/g, '') : 'unknown'}_${rkey}`,
+      platform: 'bluesky',
+      type: 'social_media_post',
+      title: text.split('\n')[0].slice(0, 140),
+      content: text,
+      url: `https://bsky.app/profile/${handle}/post/${rkey}`,
+      author: handle,
+      authorDisplayName: post.author?.displayName || null,
+      created_utc: Math.floor(createdTime.getTime() / 1000),
+      created_time: createdTime.toISOString(),
+      score: (post.likeCount || 0) + (post.repostCount || 0),
+      num_comments: post.replyCount || 0,
+      timestamp: Date.now(),
+      location: resolvedLocation?.displayName || null,
+      resolvedLocation,
+      // Bluesky posts carry no coordinates in the standard lexicon
+      geo: null,
+      language,
+      atUri: post.uri,
+      searchQuery: query,
+      relevanceScore: calculateRelevanceScore(fullText, keywords),
+      matchedKeywords: getMatchedKeywords(fullText, keywords),
+      urgency: determineUrgency(fullText),
+      aiAnalyzed: false,
+      weatherValidated: false,
+      processed: false
+    };
+  } catch (error) {
+    logger.error('Error processing Bluesky post:', error);
+    return null;
+  }
+}
+
+function generateMockBlueskyPosts(limit: number, keywords: string[]): any[] {
+  const mockPosts = [];
+  const keywordFilter = keywords.length > 0 ? keywords[0] : 'emergency';
+
+  for (let i = 0; i < Math.min(limit, 5); i++) {
+    mockPosts.push({
+      id: `mock_bluesky_${i}_${Date.now()}`,
+      title: `Mock ${keywordFilter} skeet ${i + 1}`,
+      content: `This is a mock Bluesky post about ${keywordFilter} events. Bluesky credentials are not configured.`,
+      url: `https://bsky.app/profile/mock.bsky.social/post/mock_${i}`,
+      author: 'mock.bsky.social',
+      score: Math.floor(Math.random() * 100),
+      created_utc: Math.floor(Date.now() / 1000) - (i * 3600),
+      num_comments: Math.floor(Math.random() * 20),
+      platform: 'bluesky',
+      is_disaster_related: true,
+      disaster_type: keywordFilter,
+      urgency: 'medium',
+      confidence: 0.7,
+      location: 'Mock Location',
+      geo: null
+    });
+  }
+
+  return mockPosts;
+}
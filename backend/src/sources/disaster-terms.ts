@@ -0,0 +1,82 @@
+// Disaster keywords shared by every ingestion source for queries and relevance scoring
+export const DISASTER_KEYWORDS = [
+  // Primary disaster types
+  'earthquake', 'tsunami', 'flood', 'wildfire', 'hurricane', 'tornado',
+  'landslide', 'avalanche', 'volcano', 'cyclone', 'typhoon', 'blizzard',
+  'drought', 'heatwave', 'storm', 'thunderstorm', 'mudslide',
+
+  // Emergency indicators
+  'magnitude', 'richter', 'evacuation', 'emergency', 'disaster',
+  'crisis', 'catastrophe', 'rescue', 'casualties', 'fatalities',
+  'missing', 'trapped', 'damage', 'destroyed', 'collapsed',
+
+  // Alert terms
+  'alert', 'warning', 'advisory', 'watch', 'urgent',
+  'breaking', 'developing', 'ongoing', 'active',
+
+  // Impact terms
+  'power outage', 'road closure', 'bridge down', 'airport closed',
+  'shelter', 'displaced', 'homeless', 'relief', 'aid',
+
+  // Weather terms
+  'severe weather', 'extreme weather', 'flash flood', 'storm surge',
+  'high winds', 'heavy rain', 'snow storm', 'ice storm'
+];
+
+/**
+ * Disaster keywords in the languages our non-English feeds post in (Japan, Mexico, Chile, Italy, Turkey)
+ * Grouped like the analyzer's pre-analysis categories so they carry the same weights there.
+ * Matching is by substring, so very short words that hide inside other words are left out.
+ */
+export const LOCALIZED_DISASTER_KEYWORDS: Record<string, Record<string, string[]>> = {
+  es: {
+    seismic: ['terremoto', 'sismo', 'temblor', 'magnitud', 'réplica', 'epicentro'],
+    water: ['tsunami', 'maremoto', 'inundación', 'inundaciones', 'desbordamiento', 'crecida'],
+    weather: ['huracán', 'tormenta tropical', 'ciclón', 'tornado', 'tormenta eléctrica', 'granizada'],
+    fire: ['incendio forestal', 'incendios forestales', 'incendio', 'explosión'],
+    winter: ['nevada', 'ventisca', 'avalancha', 'helada'],
+    geological: ['deslave', 'deslizamiento', 'erupción', 'volcán', 'ceniza volcánica'],
+    impact: ['muertos', 'fallecidos', 'heridos', 'desaparecidos', 'atrapados', 'damnificados', 'evacuados', 'daños', 'derrumbe', 'colapsó'],
+    emergency: ['emergencia', 'desastre', 'catástrofe', 'evacuación', 'rescate', 'albergue', 'estado de excepción'],
+    alerts: ['alerta', 'aviso', 'urgente', 'última hora']
+  },
+  it: {
+    seismic: ['terremoto', 'sisma', 'scossa', 'magnitudo', 'epicentro', 'sciame sismico'],
+    water: ['tsunami', 'maremoto', 'alluvione', 'inondazione', 'esondazione', 'allagamenti'],
+    weather: ['uragano', 'ciclone', 'tromba d\'aria', 'nubifragio', 'grandinata', 'maltempo'],
+    fire: ['incendio boschivo', 'incendio', 'esplosione', 'rogo'],
+    winter: ['bufera di neve', 'valanga', 'slavina', 'gelata'],
+    geological: ['frana', 'smottamento', 'eruzione', 'vulcano', 'colata lavica', 'nube di cenere'],
+    impact: ['morti', 'vittime', 'feriti', 'dispersi', 'intrappolati', 'sfollati', 'evacuati', 'danni', 'crollato', 'crollo'],
+    emergency: ['emergenza', 'disastro', 'catastrofe', 'evacuazione', 'soccorsi', 'protezione civile', 'stato di emergenza'],
+    alerts: ['allerta', 'allarme', 'avviso', 'urgente', 'ultim\'ora']
+  },
+  tr: {
+    seismic: ['deprem', 'sarsıntı', 'büyüklüğünde', 'artçı', 'episantr', 'fay hattı'],
+    water: ['tsunami', 'sel felaketi', 'sel baskını', 'su baskını', 'taşkın'],
+    weather: ['kasırga', 'hortum', 'fırtına', 'dolu yağışı'],
+    fire: ['orman yangını', 'yangın', 'patlama'],
+    winter: ['çığ', 'kar fırtınası', 'buzlanma'],
+    geological: ['heyelan', 'toprak kayması', 'yanardağ', 'volkan', 'patlaması'],
+    impact: ['ölü', 'hayatını kaybetti', 'yaralı', 'kayıp', 'enkaz altında', 'mahsur', 'evsiz', 'hasar', 'yıkıldı', 'çöktü'],
+    emergency: ['acil', 'afet', 'felaket', 'tahliye', 'kurtarma', 'arama kurtarma', 'afad', 'olağanüstü hal'],
+    alerts: ['uyarı', 'alarm', 'son dakika']
+  },
+  ja: {
+    seismic: ['地震', '震度', 'マグニチュード', '余震', '震源'],
+    water: ['津波', '洪水', '浸水', '氾濫', '高潮', '決壊'],
+    weather: ['台風', '竜巻', '暴風', '大雨', '豪雨', '雷雨'],
+    fire: ['山火事', '火災', '爆発'],
+    winter: ['大雪', '吹雪', '雪崩'],
+    geological: ['土砂崩れ', '地すべり', '噴火', '火山', '溶岩', '火山灰'],
+    impact: ['死者', '死亡', '負傷', '行方不明', '閉じ込め', '避難者', '被害', '倒壊', '損壊'],
+    emergency: ['緊急', '災害', '避難', '救助', '救援', '避難所', '非常事態'],
+    alerts: ['警報', '注意報', '速報', '特別警報']
+  }
+};
+
+// English keywords plus the post language's dictionary, for relevance scoring at ingest
+export function getDisasterKeywords(language: string | null | undefined): string[] {
+  const localized = language ? LOCALIZED_DISASTER_KEYWORDS[language] : undefined;
+  return localized ? [...DISASTER_KEYWORDS, ...Object.values(localized).flat()] : DISASTER_KEYWORDS;
+}
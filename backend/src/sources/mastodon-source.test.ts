@@ -0,0 +1,156 @@
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { mastodonSource } from './mastodon-source';
+import { SourceFetchContext, SourceFetchOptions } from './types';
+
+const context: SourceFetchContext = { throttle: async () => {}, remainingRequests: () => 30 };
+
+function fetchOptions(targets: string[]): SourceFetchOptions {
+  return { limit: 100, timeRange: 'day', targets, keywords: [], params: {} };
+}
+
+function status(id: string, content: string, extra: Record<string, any> = {}): any {
+  return {
+    id,
+    uri: `https://origin.example/users/alice/statuses/${id}`,
+    url: `https://origin.example/@alice/${id}`,
+    created_at: '2026-10-19T08:00:00.000Z',
+    content,
+    spoiler_text: '',
+    language: 'en',
+    favourites_count: 3,
+    reblogs_count: 2,
+    replies_count: 1,
+    account: { acct: 'alice', display_name: 'Alice', created_at: '2020-01-01T00:00:00.000Z', followers_count: 120 },
+    tags: [{ name: 'earthquake' }],
+    reblog: null,
+    ...extra
+  };
+}
+
+const STATUSES = [
+  status('103', '<p>Strong <b>earthquake</b> just now, buildings shaking</p>'),
+  status('102', '<p>Boosted</p>', { reblog: { id: '99' } }),
+  status('101', '<p>Aftershocks continue after the earthquake</p>')
+];
+
+// A hashtag busier than one page between runs, newest first
+const BUSY = Array.from({ length: 60 }, (_, i) => status(String(1060 - i), '<p>Flood warning issued</p>'));
+
+// Serves a timeline the way Mastodon does: newest first, min_id giving the page just after it
+function timelinePage(statuses: any[], url: URL): any[] {
+  const limit = Number(url.searchParams.get('limit'));
+  const minId = url.searchParams.get('min_id');
+  if (!minId) return statuses.slice(0, limit);
+
+  const newer = statuses.filter(item => BigInt(item.id) > BigInt(minId));
+  return newer.slice(Math.max(0, newer.length - limit));
+}
+
+describe('mastodonSource against a stand-in instance', () => {
+  let server: Server;
+  let instance: string;
+  let requests: IncomingMessage[];
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      requests.push(request);
+      if (request.url!.startsWith('/api/v1/timelines/tag/broken')) {
+        response.writeHead(500);
+        response.end();
+        return;
+      }
+      const url = new URL(request.url!, 'http://localhost');
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(timelinePage(url.pathname.endsWith('/busy') ? BUSY : STATUSES, url)));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    instance = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('reads the hashtag timeline, skips boosts and keeps the newest id as the cursor', async () => {
+    const result = await mastodonSource.fetch(fetchOptions([`${instance}#earthquake`]), null, context);
+
+    expect(requests[0].url).toBe('/api/v1/timelines/tag/earthquake?limit=40');
+    expect(result.errors).toEqual([]);
+    expect(result.items.map(item => item.status.id)).toEqual(['103', '101']);
+    expect(result.cursor).toEqual({ [`${instance}#earthquake`]: { sinceId: '103' } });
+  });
+
+  it('asks only for statuses newer than the cursor', async () => {
+    const cursor = { [`${instance}#earthquake`]: { sinceId: '101' } };
+    const result = await mastodonSource.fetch(fetchOptions([`${instance}#earthquake`]), cursor, context);
+
+    expect(requests.map(request => request.url)).toEqual(['/api/v1/timelines/tag/earthquake?limit=40&min_id=101']);
+    expect(result.items.map(item => item.status.id)).toEqual(['103']);
+  });
+
+  it('pages forward from the cursor when more than a page arrived since the last run', async () => {
+    const cursor = { [`${instance}#busy`]: { sinceId: '1005' } };
+    const result = await mastodonSource.fetch(fetchOptions([`${instance}#busy`]), cursor, context);
+
+    expect(requests.map(request => request.url)).toEqual([
+      '/api/v1/timelines/tag/busy?limit=40&min_id=1005',
+      '/api/v1/timelines/tag/busy?limit=40&min_id=1045'
+    ]);
+    expect(result.items).toHaveLength(55);
+    expect(result.cursor).toEqual({ [`${instance}#busy`]: { sinceId: '1060' } });
+  });
+
+  it('stops at the limit with the cursor where it got to, so the rest come next run', async () => {
+    const cursor = { [`${instance}#busy`]: { sinceId: '1005' } };
+    const result = await mastodonSource.fetch({ ...fetchOptions([`${instance}#busy`]), limit: 50 }, cursor, context);
+
+    expect(requests.map(request => request.url)).toEqual([
+      '/api/v1/timelines/tag/busy?limit=40&min_id=1005',
+      '/api/v1/timelines/tag/busy?limit=10&min_id=1045'
+    ]);
+    expect(result.items.map(item => item.status.id)).not.toContain('1056');
+    expect(result.cursor).toEqual({ [`${instance}#busy`]: { sinceId: '1055' } });
+  });
+
+  it('records a failing timeline as an error and carries on', async () => {
+    const result = await mastodonSource.fetch(fetchOptions([`${instance}#broken`, `${instance}#earthquake`]), null, context);
+
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toContain(`${instance}#broken`);
+    expect(result.targetsProcessed).toBe(1);
+    expect(result.items).toHaveLength(2);
+  });
+
+  it('normalizes statuses with a qualified handle and the author account', async () => {
+    const result = await mastodonSource.fetch(fetchOptions([`${instance}#earthquake`]), null, context);
+    const post = mastodonSource.normalize(result.items[0])!;
+
+    expect(post.platform).toBe('mastodon');
+    expect(post.content).toBe('Strong earthquake just now, buildings shaking');
+    expect(post.author).toBe(`alice@${instance.replace('http://', '')}`);
+    expect(post.score).toBe(5);
+    expect(post.num_comments).toBe(1);
+    expect(post.authorAccount).toEqual({ createdUtc: Date.parse('2020-01-01T00:00:00Z') / 1000, reputation: 120 });
+    expect(post.tags).toEqual(['earthquake']);
+    expect(post.relevanceScore).toBeGreaterThan(0);
+  });
+
+  it('gives a federated status the same id on every instance', () => {
+    const item = status('103', '<p>Earthquake</p>');
+    const here = mastodonSource.normalize({ status: item, instance: 'mastodon.social', hashtag: 'earthquake' });
+    const there = mastodonSource.normalize({ status: { ...item, id: '555' }, instance: 'fosstodon.org', hashtag: 'earthquake' });
+
+    expect(here!.id).toBe(there!.id);
+  });
+
+  it('drops statuses with no disaster relevance', () => {
+    const item = status('104', '<p>My sourdough starter is doing great</p>');
+
+    expect(mastodonSource.normalize({ status: item, instance: 'mastodon.social', hashtag: 'earthquake' })).toBeNull();
+  });
+});
@@ -0,0 +1,215 @@
+import axios from 'axios';
+import { createHash } from 'crypto';
+import { stripHtml } from '../utils/html';
+import { resolveLocation } from '../location/resolver';
+import { resolveLanguage } from '../utils/language';
+import { logger } from '../utils/logger';
+import { getDisasterKeywords } from './disaster-terms';
+import { calculateRelevanceScore, determineUrgency, getMatchedKeywords } from './scoring';
+import { IngestionSource, RawPost, SourceCursor, SourceFetchContext, SourceFetchOptions, SourceFetchResult } from './types';
+
+const DEFAULT_HASHTAGS = [
+  'earthquake', 'flood', 'wildfire', 'hurricane', 'typhoon',
+  'tornado', 'tsunami', 'landslide', 'evacuation', 'emergency'
+];
+
+// Tag timelines return at most 40 statuses per page
+const MAX_PAGE_SIZE = 40;
+
+/**
+ * Mastodon ingestion source
+ * Reads public hashtag timelines on every instance in MASTODON_INSTANCES and keeps the newest
+ * status id per instance/hashtag pair, paging forward from it on the next run. Targets are hashtags, or instance#hashtag for a single instance.
+ */
+export const mastodonSource: IngestionSource = {
+  name: 'mastodon',
+  platform: 'mastodon',
+  rateLimit: {
+    minIntervalMs: 1000,
+    maxRequestsPerRun: 30
+  },
+
+  isConfigured(): boolean {
+    return getInstances().length > 0;
+  },
+
+  async fetch(options: SourceFetchOptions, cursor: SourceCursor | null, context: SourceFetchContext): Promise<SourceFetchResult> {
+    const nextCursor: SourceCursor = { ...(cursor || {}) };
+    const result: SourceFetchResult = { items: [], cursor: nextCursor, errors: [], targetsProcessed: 0 };
+
+    for (const { instance, hashtag } of buildTimelineTargets(options)) {
+      const cursorKey = `${instance}#${hashtag}`;
+
+      try {
+        const sinceId: string | undefined = nextCursor[cursorKey]?.sinceId;
+        let fetched = 0;
+
+        // since_id would return the newest page and skip whatever came before it; min_id pages
+        // forward from the cursor instead, so a busy hashtag is caught up over later runs
+        do {
+          await context.throttle();
+
+          const params: Record<string, any> = { limit: Math.min(options.limit - fetched, MAX_PAGE_SIZE) };
+          if (nextCursor[cursorKey]?.sinceId) {
+            params.min_id = nextCursor[cursorKey].sinceId;
+          }
+
+          const response = await axios.get(`${instanceBaseUrl(instance)}/api/v1/timelines/tag/${encodeURIComponent(hashtag)}`, {
+            params,
+            timeout: 10000
+          });
+          const statuses: any[] = Array.isArray(response.data) ? response.data : [];
+
+          for (const status of statuses) {
+            // Boosts repeat someone else's status; the original shows up on its own
+            if (status.reblog) continue;
+            result.items.push({ status, instance, hashtag });
+          }
+          fetched += statuses.length;
+
+          // Pages are newest first
+          if (statuses.length > 0) {
+            nextCursor[cursorKey] = { sinceId: statuses[0].id };
+          }
+          // Without a cursor there is no backlog to catch up on; the newest page is enough
+          if (!sinceId || statuses.length < params.limit) break;
+        } while (fetched < options.limit && context.remainingRequests() > 0);
+
+        result.targetsProcessed++;
+
+      } catch (error) {
+        logger.error(`Error reading Mastodon timeline ${cursorKey}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        result.errors.push(`${cursorKey}: ${errorMessage}`);
+      }
+    }
+
+    return result;
+  },
+
+  normalize(item: any): RawPost | null {
+    const post = processStatus(item.status, item.instance, item.hashtag);
+
+    // Hashtags get misused for jokes and metaphors; drop statuses with no disaster relevance at all
+    if (post && post.relevanceScore === 0) return null;
+    return post;
+  },
+
+  generateMockPosts(options: SourceFetchOptions): any[] {
+    return generateMockStatuses(options.limit, options.keywords);
+  }
+};
+
+function getInstances(): string[] {
+  const configured = process.env.MASTODON_INSTANCES || '';
+  return configured.split(',').map(instance => instance.trim()).filter(instance => instance.length > 0);
+}
+
+function getHashtags(): string[] {
+  const configured = (process.env.MASTODON_HASHTAGS || '').split(',').map(tag => tag.trim().replace(/^#/, '')).filter(Boolean);
+  return configured.length > 0 ? configured : DEFAULT_HASHTAGS;
+}
+
+function buildTimelineTargets(options: SourceFetchOptions): { instance: string; hashtag: string }[] {
+  const instances = getInstances();
+
+  if (options.targets.length > 0) {
+    return options.targets.flatMap(target => {
+      const [instance, hashtag] = target.includes('#') ? target.split('#') : [null, target];
+      return instance ? [{ instance, hashtag }] : instances.map(i => ({ instance: i, hashtag }));
+    });
+  }
+
+  const hashtags = options.keywords.length > 0 ? options.keywords.map(keyword => keyword.replace(/\s+/g, '')) : getHashtags();
+  return instances.flatMap(instance => hashtags.map(hashtag => ({ instance, hashtag })));
+}
+
+// Instances are configured as bare hostnames; a full URL is accepted for local stand-ins
+function instanceBaseUrl(instance: string): string {
+  return instance.startsWith('http') ? instance.replace(/\/$/, '') : `https://${instance}`;
+}
+
+function processStatus(status: any, instance: string, hashtag: string): RawPost | null {
+  try {
+    const content = stripHtml(status.content || '');
+    const spoiler = (status.spoiler_text || '').trim();
+    const createdTime = status.created_at ? new Date(status.created_at) : new Date();
+    const account = status.account || {};
+    // acct is local for same-instance users; qualify it so handles are globally unique
+    const handle = account.acct ? (account.acct.includes('@') ? account.acct : `${account.acct}@${hostname(instance)}`) : 'unknown';
+    const originalText = `${spoiler} ${content}`.trim();
+    const fullText = originalText.toLowerCase();
+    const language = resolveLanguage(status.language, originalText);
+    const keywords = getDisasterKeywords(language);
+    const resolvedLocation = resolveLocation(originalText);
+
+    return {
+      // Status ids are per instance; the ActivityPub uri is the same everywhere the status federates to
+      id: `mastodon_${createHash('sha1').update(status.uri || `${instance}/${status.id}`).digest('hex').slice(0, 20)}`,
+      platform: 'mastodon',
+      type: 'social_media_post',
+      title: spoiler || content.slice(0, 140),
+      content,
+      url: status.url || status.uri || '',
+      author: handle,
+      authorDisplayName: account.display_name || null,
+      authorAccount: {
+        createdUtc: account.created_at ? Math.floor(new Date(account.created_at).getTime() / 1000) : null,
+        reputation: typeof account.followers_count === 'number' ? account.followers_count : null
+      },
+      created_utc: Math.floor(createdTime.getTime() / 1000),
+      created_time: createdTime.toISOString(),
+      score: (status.favourites_count || 0) + (status.reblogs_count || 0),
+      num_comments: status.replies_count || 0,
+      timestamp: Date.now(),
+      location: resolvedLocation?.displayName || null,
+      resolvedLocation,
+      // Mastodon statuses carry no coordinates
+      geo: null,
+      language,
+      instance: hostname(instance),
+      hashtag,
+      tags: (status.tags || []).map((tag: any) => tag.name),
+      relevanceScore: calculateRelevanceScore(fullText, keywords),
+      matchedKeywords: getMatchedKeywords(fullText, keywords),
+      urgency: determineUrgency(fullText),
+      aiAnalyzed: false,
+      weatherValidated: false,
+      processed: false
+    };
+  } catch (error) {
+    logger.error('Error processing Mastodon status:', error);
+    return null;
+  }
+}
+
+function hostname(instance: string): string {
+  return instance.replace(/^https?:\/\//, '').replace(/\/.*$/, '');
+}
+
+function generateMockStatuses(limit: number, keywords: string[]): any[] {
+  const mockStatuses = [];
+  const keywordFilter = keywords.length > 0 ? keywords[0] : 'emergency';
+
+  for (let i = 0; i < Math.min(limit, 5); i++) {
+    mockStatuses.push({
+      id: `mock_mastodon_${i}_${Date.now()}`,
+      title: `Mock #${keywordFilter} status ${i + 1}`,
+      content: `This is a mock Mastodon status about ${keywordFilter} events. MASTODON_INSTANCES is not configured.`,
+      url: `https://mastodon.example/@mock_user/mock_${i}`,
+      author: 'mock_user@mastodon.example',
+      score: Math.floor(Math.random() * 100),
+      created_utc: Math.floor(Date.now() / 1000) - (i * 3600),
+      num_comments: Math.floor(Math.random() * 20),
+      platform: 'mastodon',
+      is_disaster_related: true,
+      disaster_type: keywordFilter,
+      urgency: 'medium',
+      confidence: 0.7,
+      location: 'Mock Location',
+      geo: null
+    });
+  }
+
+  return mockStatuses;
+}
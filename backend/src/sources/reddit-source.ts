@@ -0,0 +1,474 @@
+import snoowrap, { RedditUser } from 'snoowrap';
+import { resolveLocation } from '../location/resolver';
+import { resolveLanguage } from '../utils/language';
+import { logger } from '../utils/logger';
+import { DISASTER_KEYWORDS, getDisasterKeywords } from './disaster-terms';
+import { calculateRelevanceScore, determineUrgency, getMatchedKeywords } from './scoring';
+import { AuthorAccount, IngestionSource, RawComment, RawPost, SourceCursor, SourceEnrichment, SourceFetchContext, SourceFetchOptions, SourceFetchResult } from './types';
+
+// Enhanced disaster-related subreddits
+export const DISASTER_SUBREDDITS = [
+  // General news and world events
+  'worldnews', 'news', 'breakingnews', 'live',
+
+  // Natural disasters
+  'earthquake', 'tsunami', 'floods', 'wildfire', 'hurricane',
+  'tornado', 'weather', 'storms', 'naturaldisasters',
+
+  // Emergency and rescue
+  'emergency', 'firstresponders', 'rescue', 'preparedness',
+
+  // Location-specific (high disaster areas)
+  'california', 'florida', 'texas', 'japan', 'philippines',
+  'indonesia', 'italy', 'turkey', 'mexico', 'chile',
+
+  // Climate and weather
+  'climate', 'weathergifs', 'extremeweather', 'flooding',
+  'drought', 'heatwave', 'blizzard'
+];
+
+type RedditScrapeMode = 'subreddits' | 'search' | 'all';
+
+// Searched across all of Reddit when no keywords are given; override with REDDIT_SEARCH_KEYWORDS
+const DEFAULT_SEARCH_KEYWORDS = [
+  'earthquake', 'tsunami', 'flood', 'wildfire', 'hurricane', 'tornado',
+  'landslide', 'volcano', 'cyclone', 'typhoon', 'evacuation', 'flash flood'
+];
+
+// Comment harvesting for high-signal posts; relevance scores run 0-10
+const DEFAULT_COMMENT_HARVEST_THRESHOLD = 6;
+const DEFAULT_COMMENT_HARVEST_LIMIT = 25;
+// Author lookups stop once the run's budget is down to this, so comment harvesting still has room
+const AUTHOR_LOOKUP_BUDGET_RESERVE = 20;
+const MAX_COMMENT_DEPTH = 2;
+const MAX_EMBEDDED_COMMENTS = 10;
+
+// Upper bound on /new pages read per subreddit when catching up after a gap
+const MAX_PAGES_PER_SUBREDDIT = 5;
+
+interface SubredditCursor {
+  lastFullname: string; // t3_ fullname of the newest submission already ingested
+  lastCreatedUtc: number;
+}
+
+/**
+ * Reddit ingestion source
+ * Pulls only submissions newer than the persisted cursor, either from the configured
+ * subreddits (mode=subreddits), from a Reddit-wide keyword search (mode=search) or both (mode=all)
+ */
+export const redditSource: IngestionSource = {
+  name: 'reddit',
+  platform: 'reddit',
+  rateLimit: {
+    minIntervalMs: 1000,
+    maxRequestsPerRun: 60
+  },
+
+  isConfigured(): boolean {
+    return Boolean(process.env.REDDIT_CLIENT_ID && process.env.REDDIT_CLIENT_SECRET);
+  },
+
+  async fetch(options: SourceFetchOptions, cursor: SourceCursor | null, context: SourceFetchContext): Promise<SourceFetchResult> {
+    const reddit = await initializeRedditClient();
+    const mode: RedditScrapeMode = ['subreddits', 'search', 'all'].includes(options.params.mode) ? options.params.mode : 'subreddits';
+    const nextCursor: SourceCursor = { ...(cursor || {}) };
+    const result: SourceFetchResult = { items: [], cursor: nextCursor, errors: [], targetsProcessed: 0, skippedByCursor: 0 };
+
+    if (mode === 'subreddits' || mode === 'all') {
+      const subreddits = options.targets.length > 0 ? options.targets : DISASTER_SUBREDDITS.slice(0, 3);
+      for (const subreddit of subreddits) {
+        await fetchTarget({ cursorKey: subreddit, subreddit }, result, nextCursor, () =>
+          scrapeSubredditIncremental(reddit, subreddit, options.limit, nextCursor[subreddit], context)
+        );
+      }
+    }
+
+    if (mode === 'search' || mode === 'all') {
+      const keywords = options.keywords.length > 0 ? options.keywords : getSearchKeywords();
+      for (const keyword of keywords) {
+        const cursorKey = `search:${keyword}`;
+        await fetchTarget({ cursorKey, subreddit: null, searchKeyword: keyword }, result, nextCursor, () =>
+          searchRedditForKeyword(reddit, keyword, options.limit, options.timeRange, nextCursor[cursorKey], context)
+        );
+      }
+    }
+
+    return result;
+  },
+
+  normalize(item: any): RawPost | null {
+    const subredditName = item.subreddit || item.submission.subreddit?.display_name || 'search';
+    const keywords = item.searchKeyword ? [...new Set([item.searchKeyword, ...DISASTER_KEYWORDS])] : DISASTER_KEYWORDS;
+    const post = processRedditPost(item.submission, subredditName, keywords);
+
+    // Search hits with no disaster relevance at all are noise; subreddit posts are kept unfiltered
+    if (post && item.searchKeyword) {
+      if (post.relevanceScore === 0) return null;
+      post.discoveredVia = 'search';
+      post.searchKeyword = item.searchKeyword;
+    }
+    return post;
+  },
+
+  async enrich(rawPost: RawPost, item: any, context: SourceFetchContext): Promise<SourceEnrichment> {
+    const post = await withAuthorAccount(rawPost, context);
+    if ((post.relevanceScore || 0) < getCommentHarvestThreshold()) {
+      return { post, comments: [] };
+    }
+
+    try {
+      await context.throttle();
+      const reddit = await initializeRedditClient();
+      const comments = await harvestCommentTree(reddit, post.id, getCommentHarvestLimit());
+
+      logger.info(`Harvested ${comments.length} comments for high-signal post ${post.id} (relevance ${post.relevanceScore})`);
+
+      return {
+        post: {
+          ...post,
+          commentsHarvested: true,
+          harvestedCommentCount: comments.length,
+          // Compact copy on the parent so the stream-driven analyzer sees the evidence in the INSERT image
+          corroboratingComments: comments.slice(0, MAX_EMBEDDED_COMMENTS).map(c => ({
+            id: c.id,
+            author: c.author,
+            body: c.body.slice(0, 500),
+            score: c.score,
+            depth: c.depth
+          }))
+        },
+        comments
+      };
+
+    } catch (error) {
+      // Comments are supporting evidence only; keep the post even if the thread can't be read
+      logger.error(`Error harvesting comments for post ${post.id}:`, error);
+      return { post, comments: [] };
+    }
+  },
+
+  generateMockPosts(options: SourceFetchOptions): any[] {
+    return generateMockRedditPosts(options.limit, options.targets[0] || 'news', options.keywords);
+  }
+};
+
+/**
+ * Author account age and karma for credibility scoring
+ * Looked up only for posts with some disaster relevance, since each lookup spends a request from
+ * the run budget: once per author per run, and not at all once the budget is down to the reserve
+ * kept for comment harvesting. A skipped or failed lookup leaves the post without an account, which
+ * scoring treats as unknown.
+ */
+async function withAuthorAccount(post: RawPost, context: SourceFetchContext): Promise<RawPost> {
+  if ((post.relevanceScore || 0) <= 0 || !post.author || post.author === '[deleted]') {
+    return post;
+  }
+
+  // One lookup per author per run; the promise is shared so concurrent posts by one author wait for it
+  const lookups = authorLookups.get(context) || new Map<string, Promise<AuthorAccount | null>>();
+  authorLookups.set(context, lookups);
+
+  let lookup = lookups.get(post.author);
+  if (!lookup) {
+    if (context.remainingRequests() <= AUTHOR_LOOKUP_BUDGET_RESERVE) {
+      return post;
+    }
+    lookup = fetchAuthorAccount(post.author, context);
+    lookups.set(post.author, lookup);
+  }
+
+  const authorAccount = await lookup;
+  return authorAccount ? { ...post, authorAccount } : post;
+}
+
+// Lookups made in each run, keyed by the run's fetch context
+const authorLookups = new WeakMap<SourceFetchContext, Map<string, Promise<AuthorAccount | null>>>();
+
+async function fetchAuthorAccount(author: string, context: SourceFetchContext): Promise<AuthorAccount | null> {
+  try {
+    await context.throttle();
+    const reddit = await initializeRedditClient();
+    // RedditUser is itself thenable and can't be awaited, so the fields are read in then()
+    return await reddit.getUser(author).fetch().then((user: RedditUser): AuthorAccount => ({
+      createdUtc: typeof user.created_utc === 'number' ? user.created_utc : null,
+      reputation: typeof user.link_karma === 'number' ? user.link_karma + (user.comment_karma || 0) : null
+    }));
+  } catch (error) {
+    logger.warn(`Could not look up Reddit account ${author}:`, error);
+    return null;
+  }
+}
+
+let redditClient: snoowrap | null = null;
+
+async function initializeRedditClient(): Promise<snoowrap> {
+  if (redditClient) return redditClient;
+
+  const redditConfig: any = {
+    userAgent: process.env.REDDIT_USER_AGENT || 'SmartEAS/2.0',
+    clientId: process.env.REDDIT_CLIENT_ID!,
+    clientSecret: process.env.REDDIT_CLIENT_SECRET!
+  };
+
+  if (process.env.REDDIT_REFRESH_TOKEN) {
+    redditConfig.refreshToken = process.env.REDDIT_REFRESH_TOKEN;
+  } else if (process.env.REDDIT_USERNAME && process.env.REDDIT_PASSWORD) {
+    redditConfig.username = process.env.REDDIT_USERNAME;
+    redditConfig.password = process.env.REDDIT_PASSWORD;
+  } else {
+    throw new Error('Reddit authentication required');
+  }
+
+  const reddit = new snoowrap(redditConfig);
+  reddit.config({ requestDelay: redditSource.rateLimit.minIntervalMs, continueAfterRatelimitError: true });
+  redditClient = reddit;
+
+  return reddit;
+}
+
+// Reads /new until it reaches the cursor; without a cursor only the first page is taken
+async function scrapeSubredditIncremental(
+  reddit: snoowrap,
+  subredditName: string,
+  limit: number,
+  cursor: SubredditCursor | undefined,
+  context: SourceFetchContext
+): Promise<{ submissions: any[]; skipped: number }> {
+  try {
+    const subreddit = reddit.getSubreddit(subredditName);
+
+    await context.throttle();
+    let listing: any = await subreddit.getNew({ limit });
+    let pages = 1;
+
+    // Keep paging while the whole listing is still newer than the cursor (posts arrived faster than we poll)
+    while (cursor && !listing.isFinished && pages < MAX_PAGES_PER_SUBREDDIT &&
+           listing.length > 0 && isNewerThanCursor(listing[listing.length - 1], cursor)) {
+      await context.throttle();
+      listing = await listing.fetchMore({ amount: limit, append: true });
+      pages++;
+    }
+
+    const submissions = cursor ? listing.filter((s: any) => isNewerThanCursor(s, cursor)) : [...listing];
+
+    return { submissions, skipped: listing.length - submissions.length };
+
+  } catch (error) {
+    logger.error(`Error accessing subreddit ${subredditName}:`, error);
+    throw error;
+  }
+}
+
+// Shared bookkeeping for one subreddit or keyword: collect items, count skips, advance its cursor
+async function fetchTarget(
+  target: { cursorKey: string; subreddit: string | null; searchKeyword?: string },
+  result: SourceFetchResult,
+  nextCursor: SourceCursor,
+  fetchSubmissions: () => Promise<{ submissions: any[]; skipped: number }>
+): Promise<void> {
+  const { cursorKey, subreddit, searchKeyword } = target;
+
+  try {
+    logger.info(searchKeyword ? `Searching Reddit for keyword: ${searchKeyword}` : `Scraping new submissions from r/${subreddit}`);
+
+    const { submissions, skipped } = await fetchSubmissions();
+
+    for (const submission of submissions) {
+      result.items.push({ submission, subreddit, searchKeyword });
+    }
+    result.skippedByCursor! += skipped;
+
+    // Advance the cursor to the newest submission seen for this target
+    const newest = submissions.reduce<any>((max, s) => (!max || s.created_utc > max.created_utc ? s : max), null);
+    if (newest) {
+      nextCursor[cursorKey] = { lastFullname: newest.name, lastCreatedUtc: newest.created_utc };
+    }
+    result.targetsProcessed++;
+
+  } catch (error) {
+    logger.error(`Error scraping ${searchKeyword ? `keyword ${searchKeyword}` : `subreddit ${subreddit}`}:`, error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    result.errors.push(`${searchKeyword || subreddit}: ${errorMessage}`);
+  }
+}
+
+// One request returns the submission with its best-sorted comment tree; flatten the top of it
+async function harvestCommentTree(reddit: snoowrap, postId: string, limit: number): Promise<RawComment[]> {
+  const submission: any = await (reddit.getSubmission(postId) as any).fetch();
+  const comments: RawComment[] = [];
+
+  const walk = (nodes: any[], depth: number, parentCommentId: string | null) => {
+    const ranked = [...(nodes || [])]
+      .filter(node => node && node.body && node.body !== '[deleted]' && node.body !== '[removed]')
+      .sort((a, b) => (b.score || 0) - (a.score || 0));
+
+    for (const node of ranked) {
+      if (comments.length >= limit) return;
+      const createdTime = node.created_utc ? new Date(node.created_utc * 1000) : new Date();
+
+      comments.push({
+        id: `comment_${node.id}`,
+        platform: 'reddit',
+        type: 'social_media_comment',
+        parentPostId: postId,
+        parentCommentId: parentCommentId,
+        body: node.body,
+        author: node.author ? node.author.name : '[deleted]',
+        score: node.score || 0,
+        depth,
+        created_utc: node.created_utc,
+        created_time: createdTime.toISOString(),
+        timestamp: Date.now()
+      });
+
+      if (depth < MAX_COMMENT_DEPTH) {
+        walk(node.replies || [], depth + 1, `comment_${node.id}`);
+      }
+    }
+  };
+
+  walk(submission.comments || [], 0, null);
+  return comments;
+}
+
+function getCommentHarvestThreshold(): number {
+  return parseFloat(process.env.REDDIT_COMMENT_HARVEST_THRESHOLD || String(DEFAULT_COMMENT_HARVEST_THRESHOLD));
+}
+
+function getCommentHarvestLimit(): number {
+  return parseInt(process.env.REDDIT_COMMENT_HARVEST_LIMIT || String(DEFAULT_COMMENT_HARVEST_LIMIT));
+}
+
+function getSearchKeywords(): string[] {
+  const configured = (process.env.REDDIT_SEARCH_KEYWORDS || '').split(',').map(k => k.trim()).filter(Boolean);
+  return configured.length > 0 ? configured : DEFAULT_SEARCH_KEYWORDS;
+}
+
+function isNewerThanCursor(submission: any, cursor: SubredditCursor): boolean {
+  if (submission.created_utc > cursor.lastCreatedUtc) return true;
+  return submission.created_utc === cursor.lastCreatedUtc && submission.name !== cursor.lastFullname;
+}
+
+// Searches all of Reddit, newest first, stopping at the keyword's cursor
+async function searchRedditForKeyword(
+  reddit: snoowrap,
+  keyword: string,
+  limit: number,
+  timeRange: string,
+  cursor: SubredditCursor | undefined,
+  context: SourceFetchContext
+): Promise<{ submissions: any[]; skipped: number }> {
+  try {
+    // Convert string timeRange to valid type
+    const validTimeRange = ['hour', 'day', 'week', 'month', 'year', 'all'].includes(timeRange)
+      ? timeRange as 'hour' | 'day' | 'week' | 'month' | 'year' | 'all'
+      : 'day';
+
+    await context.throttle();
+    const searchResults = await reddit.search({
+      query: keyword,
+      time: validTimeRange,
+      sort: 'new',
+      limit: limit
+    });
+
+    const submissions = cursor ? searchResults.filter((s: any) => isNewerThanCursor(s, cursor)) : [...searchResults];
+
+    return { submissions, skipped: searchResults.length - submissions.length };
+
+  } catch (error) {
+    logger.error(`Error searching for keyword ${keyword}:`, error);
+    throw error;
+  }
+}
+
+// Simple post processing without filtering or scoring
+function processRedditPostSimple(post: any, subredditName: string): RawPost | null {
+  try {
+    const title = post.title || '';
+    const content = post.selftext || '';
+    const url = post.url || '';
+    const createdTime = post.created_utc ? new Date(post.created_utc * 1000) : new Date();
+    // Local subreddits (r/houston, r/japan) settle which "Springfield" or "Victoria" is meant
+    const resolvedLocation = resolveLocation(`${title} ${content}`, { subreddit: subredditName });
+
+    return {
+      id: post.id,
+      platform: 'reddit',
+      type: 'social_media_post',
+      title,
+      content,
+      url,
+      author: post.author ? post.author.name : '[deleted]',
+      subreddit: subredditName,
+      created_utc: post.created_utc,
+      created_time: createdTime.toISOString(),
+      score: post.score || 0,
+      num_comments: post.num_comments || 0,
+      upvote_ratio: post.upvote_ratio || 0,
+      timestamp: Date.now(),
+      location: resolvedLocation?.displayName || null,
+      resolvedLocation,
+      // No relevance score or keyword matching - just raw data
+      processed: false // Will be processed by Function 2
+    };
+  } catch (error) {
+    logger.error('Error processing Reddit post:', error);
+    return null;
+  }
+}
+
+// Raw post plus keyword relevance, matched keywords and urgency
+function processRedditPost(post: any, subredditName: string, keywords: string[]): RawPost | null {
+  const processedPost = processRedditPostSimple(post, subredditName);
+  if (!processedPost) return null;
+
+  try {
+    const originalText = `${processedPost.title} ${processedPost.content}`;
+    const fullText = originalText.toLowerCase();
+    // Reddit has no language tag; Japan, Mexico, Chile, Italy and Turkey subreddits post in their own language
+    const language = resolveLanguage(null, originalText);
+    const scoringKeywords = [...new Set([...keywords, ...getDisasterKeywords(language)])];
+
+    return {
+      ...processedPost,
+      permalink: post.permalink ? `https://reddit.com${post.permalink}` : null,
+      language,
+      relevanceScore: calculateRelevanceScore(fullText, scoringKeywords),
+      matchedKeywords: getMatchedKeywords(fullText, scoringKeywords),
+      urgency: determineUrgency(fullText),
+      aiAnalyzed: false,
+      weatherValidated: false
+    };
+
+  } catch (error) {
+    logger.error('Error scoring Reddit post:', error);
+    return processedPost;
+  }
+}
+
+function generateMockRedditPosts(limit: number, subreddit: string, keywords: string[]): any[] {
+  const mockPosts = [];
+  const keywordFilter = keywords.length > 0 ? keywords[0] : 'emergency';
+
+  for (let i = 0; i < Math.min(limit, 5); i++) {
+    mockPosts.push({
+      id: `mock_${i}_${Date.now()}`,
+      title: `Mock ${keywordFilter} post ${i + 1} from r/${subreddit}`,
+      content: `This is a mock Reddit post about ${keywordFilter} events. Reddit API credentials are not configured.`,
+      url: `https://reddit.com/r/${subreddit}/mock_post_${i}`,
+      author: 'mock_user',
+      score: Math.floor(Math.random() * 1000),
+      created_utc: Math.floor(Date.now() / 1000) - (i * 3600),
+      num_comments: Math.floor(Math.random() * 100),
+      subreddit: subreddit,
+      is_disaster_related: true,
+      disaster_type: keywordFilter,
+      urgency: 'medium',
+      confidence: 0.7,
+      location: 'Mock Location'
+    });
+  }
+
+  return mockPosts;
+}
@@ -0,0 +1,22 @@
+import { blueskySource } from './bluesky-source';
+import { mastodonSource } from './mastodon-source';
+import { redditSource } from './reddit-source';
+import { rssSource } from './rss-source';
+import { twitterSource } from './twitter-source';
+import { IngestionSource } from './types';
+
+/**
+ * Ingestion source registry
+ * The scheduled scraper runs every source listed here; add new feeds to this array
+ */
+export const INGESTION_SOURCES: IngestionSource[] = [
+  redditSource,
+  twitterSource,
+  rssSource,
+  mastodonSource,
+  blueskySource
+];
+
+export function getIngestionSource(name: string): IngestionSource | undefined {
+  return INGESTION_SOURCES.find(source => source.name === name.toLowerCase());
+}
@@ -0,0 +1,169 @@
+import { readFileSync } from 'fs';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { join } from 'path';
+import { parseFeed, rssSource } from './rss-source';
+import { SourceFetchContext, SourceFetchOptions } from './types';
+
+const rssXml = readFileSync(join(__dirname, '__fixtures__', 'rss-feed.xml'), 'utf8');
+const atomXml = readFileSync(join(__dirname, '__fixtures__', 'atom-feed.xml'), 'utf8');
+
+const context: SourceFetchContext = { throttle: async () => {}, remainingRequests: () => 30 };
+
+function fetchOptions(targets: string[], limit = 10): SourceFetchOptions {
+  return { limit, timeRange: 'day', targets, keywords: [], params: {} };
+}
+
+describe('parseFeed', () => {
+  it('reads RSS 2.0 items', () => {
+    const { feedTitle, items } = parseFeed(rssXml);
+
+    expect(feedTitle).toBe('Regional News');
+    expect(items).toHaveLength(2);
+    expect(items[0]).toEqual({
+      guid: 'news-1001',
+      title: 'Flooding forces evacuations in Houston',
+      link: 'https://news.example.com/houston-flooding',
+      author: 'Jane Reporter',
+      html: '<p>Rising water has forced <b>evacuations</b> across several neighborhoods.</p>',
+      published: 'Mon, 19 Oct 2026 08:30:00 GMT',
+      categories: ['Weather', 'Emergency']
+    });
+  });
+
+  it('falls back to the link for RSS items without a guid', () => {
+    const { items } = parseFeed(rssXml);
+
+    expect(items[1].guid).toBe('https://news.example.com/budget');
+    expect(items[1].author).toBeNull();
+    expect(items[1].published).toBeNull();
+    expect(items[1].html).toBe('<p>The council met on Monday.</p>');
+  });
+
+  it('reads Atom entries, preferring the alternate link and full content', () => {
+    const { feedTitle, items } = parseFeed(atomXml);
+
+    expect(feedTitle).toBe('Hazard Bulletins');
+    expect(items).toHaveLength(2);
+    expect(items[0]).toEqual({
+      guid: 'tag:bulletins.example.org,2026:quake-77',
+      title: 'Earthquake strikes near Tokyo',
+      link: 'https://bulletins.example.org/quake-77',
+      author: 'Bulletin Desk',
+      html: '<p>A strong earthquake shook buildings.</p>',
+      published: '2026-10-19T06:00:00Z',
+      categories: ['earthquake']
+    });
+  });
+
+  it('falls back to the link, summary and updated time for sparse Atom entries', () => {
+    const { items } = parseFeed(atomXml);
+
+    expect(items[1].guid).toBe('https://bulletins.example.org/78');
+    expect(items[1].html).toBe('Tornado watch issued');
+    expect(items[1].published).toBe('2026-10-18T06:00:00Z');
+  });
+});
+
+describe('rssSource.normalize', () => {
+  it('turns a disaster item into a post with the HTML stripped', () => {
+    const { feedTitle, items } = parseFeed(rssXml);
+    const post = rssSource.normalize({ feedUrl: 'https://news.example.com/rss', feedTitle, item: items[0] });
+
+    expect(post).not.toBeNull();
+    expect(post!.id).toMatch(/^rss_[0-9a-f]{20}$/);
+    expect(post!.platform).toBe('rss');
+    expect(post!.content).toBe('Rising water has forced evacuations across several neighborhoods.');
+    expect(post!.author).toBe('Jane Reporter');
+    expect(post!.created_utc).toBe(Date.parse('2026-10-19T08:30:00Z') / 1000);
+    expect(post!.relevanceScore).toBeGreaterThan(0);
+  });
+
+  it('scopes ids by feed, since GUIDs are only unique within one', () => {
+    const { feedTitle, items } = parseFeed(rssXml);
+    const first = rssSource.normalize({ feedUrl: 'https://a.example.com/rss', feedTitle, item: items[0] });
+    const second = rssSource.normalize({ feedUrl: 'https://b.example.com/rss', feedTitle, item: items[0] });
+
+    expect(first!.id).not.toBe(second!.id);
+  });
+
+  it('drops items with no disaster relevance', () => {
+    const { feedTitle, items } = parseFeed(rssXml);
+
+    expect(rssSource.normalize({ feedUrl: 'https://news.example.com/rss', feedTitle, item: items[1] })).toBeNull();
+  });
+});
+
+describe('rssSource.isConfigured', () => {
+  const original = process.env.RSS_FEED_URLS;
+
+  afterEach(() => {
+    if (original === undefined) delete process.env.RSS_FEED_URLS;
+    else process.env.RSS_FEED_URLS = original;
+  });
+
+  it('treats feeds passed as targets as configured without RSS_FEED_URLS', () => {
+    delete process.env.RSS_FEED_URLS;
+
+    expect(rssSource.isConfigured(fetchOptions(['https://news.example.com/rss']))).toBe(true);
+    expect(rssSource.isConfigured(fetchOptions([]))).toBe(false);
+    expect(rssSource.isConfigured()).toBe(false);
+  });
+});
+
+describe('rssSource.fetch', () => {
+  let server: Server;
+  let feedUrl: string;
+  let requestHeaders: Record<string, any>[];
+
+  beforeEach(async () => {
+    requestHeaders = [];
+    server = createServer((request, response) => {
+      requestHeaders.push(request.headers);
+      if (request.headers['if-none-match'] === '"v1"') {
+        response.writeHead(304);
+        response.end();
+        return;
+      }
+      response.writeHead(200, { 'Content-Type': 'application/rss+xml', ETag: '"v1"' });
+      response.end(rssXml);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    feedUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/rss`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('emits every item on the first run and remembers the GUIDs and ETag', async () => {
+    const result = await rssSource.fetch(fetchOptions([feedUrl]), null, context);
+
+    expect(result.errors).toEqual([]);
+    expect(result.items.map(entry => entry.item.guid)).toEqual(['news-1001', 'https://news.example.com/budget']);
+    expect(result.cursor![feedUrl]).toEqual({
+      etag: '"v1"',
+      lastModified: null,
+      seenGuids: ['news-1001', 'https://news.example.com/budget']
+    });
+  });
+
+  it('sends the ETag back and emits nothing when the feed is unchanged', async () => {
+    const first = await rssSource.fetch(fetchOptions([feedUrl]), null, context);
+    const second = await rssSource.fetch(fetchOptions([feedUrl]), first.cursor, context);
+
+    expect(requestHeaders[1]['if-none-match']).toBe('"v1"');
+    expect(second.items).toEqual([]);
+    expect(second.targetsProcessed).toBe(1);
+  });
+
+  it('holds back the validators when the limit cut the feed short, so the rest come next run', async () => {
+    const first = await rssSource.fetch(fetchOptions([feedUrl], 1), null, context);
+    expect(first.items).toHaveLength(1);
+    expect(first.cursor![feedUrl].etag).toBeNull();
+
+    const second = await rssSource.fetch(fetchOptions([feedUrl], 1), first.cursor, context);
+    expect(second.items.map(entry => entry.item.guid)).toEqual(['https://news.example.com/budget']);
+    expect(second.skippedByCursor).toBe(1);
+  });
+});
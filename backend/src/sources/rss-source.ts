@@ -0,0 +1,245 @@
+import axios from 'axios';
+import * as cheerio from 'cheerio';
+import { createHash } from 'crypto';
+import { stripHtml } from '../utils/html';
+import { resolveLocation } from '../location/resolver';
+import { resolveLanguage } from '../utils/language';
+import { logger } from '../utils/logger';
+import { getDisasterKeywords } from './disaster-terms';
+import { calculateRelevanceScore, determineUrgency, getMatchedKeywords } from './scoring';
+import { IngestionSource, RawPost, SourceCursor, SourceFetchContext, SourceFetchOptions, SourceFetchResult } from './types';
+
+// GUIDs remembered per feed; comfortably more than any feed keeps in its window
+const MAX_SEEN_GUIDS_PER_FEED = 300;
+const MAX_CONTENT_LENGTH = 5000;
+
+interface FeedCursor {
+  etag: string | null;
+  lastModified: string | null;
+  seenGuids: string[]; // Newest first
+}
+
+interface FeedItem {
+  guid: string;
+  title: string;
+  link: string;
+  author: string | null;
+  html: string;
+  published: string | null;
+  categories: string[];
+}
+
+/**
+ * RSS/Atom ingestion source
+ * Polls the feeds listed in RSS_FEED_URLS (or passed as targets) with conditional GETs
+ * and only emits items whose GUID has not been seen for that feed before
+ */
+export const rssSource: IngestionSource = {
+  name: 'rss',
+  platform: 'rss',
+  rateLimit: {
+    minIntervalMs: 500,
+    maxRequestsPerRun: 30
+  },
+
+  isConfigured(options?: SourceFetchOptions): boolean {
+    // Feeds passed as targets need no configuration
+    return (options?.targets.length || 0) > 0 || getFeedUrls().length > 0;
+  },
+
+  async fetch(options: SourceFetchOptions, cursor: SourceCursor | null, context: SourceFetchContext): Promise<SourceFetchResult> {
+    const feedUrls = options.targets.length > 0 ? options.targets : getFeedUrls();
+    const nextCursor: SourceCursor = { ...(cursor || {}) };
+    const result: SourceFetchResult = { items: [], cursor: nextCursor, errors: [], targetsProcessed: 0, skippedByCursor: 0 };
+
+    for (const feedUrl of feedUrls) {
+      try {
+        await context.throttle();
+        const feedCursor: FeedCursor = nextCursor[feedUrl] || { etag: null, lastModified: null, seenGuids: [] };
+
+        const headers: Record<string, string> = { 'User-Agent': 'SmartEAS/1.0 (disaster monitoring)' };
+        if (feedCursor.etag) headers['If-None-Match'] = feedCursor.etag;
+        if (feedCursor.lastModified) headers['If-Modified-Since'] = feedCursor.lastModified;
+
+        const response = await axios.get(feedUrl, {
+          headers,
+          timeout: 10000,
+          responseType: 'text',
+          validateStatus: status => status === 200 || status === 304
+        });
+        result.targetsProcessed++;
+
+        if (response.status === 304) {
+          logger.info(`Feed ${feedUrl} not modified since last run`);
+          continue;
+        }
+
+        const { feedTitle, items } = parseFeed(String(response.data));
+        const seen = new Set(feedCursor.seenGuids);
+        const unseen = items.filter(item => !seen.has(item.guid));
+        const accepted = unseen.slice(0, options.limit);
+        result.skippedByCursor! += items.length - unseen.length;
+
+        for (const item of accepted) {
+          result.items.push({ feedUrl, feedTitle, item });
+        }
+
+        // Leave the validators unset when items were held back so the next run doesn't get a 304 and miss them
+        const truncated = accepted.length < unseen.length;
+        nextCursor[feedUrl] = {
+          etag: truncated ? null : response.headers['etag'] || null,
+          lastModified: truncated ? null : response.headers['last-modified'] || null,
+          seenGuids: [...accepted.map(item => item.guid), ...feedCursor.seenGuids].slice(0, MAX_SEEN_GUIDS_PER_FEED)
+        };
+
+        logger.info(`Feed ${feedUrl}: ${items.length} items, ${accepted.length} new`);
+
+      } catch (error) {
+        logger.error(`Error fetching feed ${feedUrl}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        result.errors.push(`${feedUrl}: ${errorMessage}`);
+      }
+    }
+
+    return result;
+  },
+
+  normalize(item: any): RawPost | null {
+    const post = processFeedItem(item.item, item.feedUrl, item.feedTitle);
+
+    // General news feeds carry mostly unrelated stories; keep only items with some disaster relevance
+    if (post && post.relevanceScore === 0) return null;
+    return post;
+  },
+
+  generateMockPosts(options: SourceFetchOptions): any[] {
+    return generateMockFeedItems(options.limit, options.keywords);
+  }
+};
+
+function getFeedUrls(): string[] {
+  const configured = process.env.RSS_FEED_URLS || '';
+  return configured.split(',').map(url => url.trim()).filter(url => url.length > 0);
+}
+
+// Handles RSS 2.0 <item> and Atom <entry> documents
+export function parseFeed(xml: string): { feedTitle: string; items: FeedItem[] } {
+  const $ = cheerio.load(xml, { xml: true });
+  const items: FeedItem[] = [];
+
+  if ($('feed > entry').length > 0) {
+    const feedTitle = $('feed > title').first().text().trim();
+
+    $('feed > entry').each((_, element) => {
+      const entry = $(element);
+      const alternate = entry.find('link[rel="alternate"]').attr('href');
+      const link = alternate || entry.find('link').first().attr('href') || '';
+      const title = entry.find('title').first().text().trim();
+
+      items.push({
+        guid: entry.find('id').first().text().trim() || link || title,
+        title,
+        link,
+        author: entry.find('author > name').first().text().trim() || null,
+        html: entry.find('content').first().text() || entry.find('summary').first().text(),
+        published: entry.find('published').first().text().trim() || entry.find('updated').first().text().trim() || null,
+        categories: entry.find('category').map((_, category) => $(category).attr('term') || '').get().filter(Boolean)
+      });
+    });
+
+    return { feedTitle, items };
+  }
+
+  const feedTitle = $('channel > title').first().text().trim();
+
+  $('channel > item, rdf\\:RDF > item').each((_, element) => {
+    const entry = $(element);
+    const link = entry.find('link').first().text().trim();
+    const title = entry.find('title').first().text().trim();
+    const published = entry.find('pubDate').first().text().trim() || entry.find('dc\\:date').first().text().trim();
+
+    items.push({
+      guid: entry.find('guid').first().text().trim() || link || `${title}|${published}`,
+      title,
+      link,
+      author: entry.find('dc\\:creator').first().text().trim() || entry.find('author').first().text().trim() || null,
+      html: entry.find('content\\:encoded').first().text() || entry.find('description').first().text(),
+      published: published || null,
+      categories: entry.find('category').map((_, category) => $(category).text().trim()).get().filter(Boolean)
+    });
+  });
+
+  return { feedTitle, items };
+}
+
+function processFeedItem(item: FeedItem, feedUrl: string, feedTitle: string): RawPost | null {
+  try {
+    const title = stripHtml(item.title);
+    const content = stripHtml(item.html).slice(0, MAX_CONTENT_LENGTH);
+    const parsedDate = item.published ? new Date(item.published) : null;
+    const createdTime = parsedDate && !isNaN(parsedDate.getTime()) ? parsedDate : new Date();
+    const originalText = `${title} ${content}`;
+    const fullText = originalText.toLowerCase();
+    const language = resolveLanguage(null, originalText);
+    const keywords = getDisasterKeywords(language);
+    const resolvedLocation = resolveLocation(originalText);
+
+    return {
+      // GUIDs are only unique within a feed, so the id is scoped by feed URL
+      id: `rss_${createHash('sha1').update(`${feedUrl}|${item.guid}`).digest('hex').slice(0, 20)}`,
+      platform: 'rss',
+      type: 'social_media_post',
+      title,
+      content,
+      url: item.link,
+      author: item.author || feedTitle || feedUrl,
+      created_utc: Math.floor(createdTime.getTime() / 1000),
+      created_time: createdTime.toISOString(),
+      score: 0,
+      num_comments: 0,
+      timestamp: Date.now(),
+      location: resolvedLocation?.displayName || null,
+      resolvedLocation,
+      feedUrl,
+      feedTitle: feedTitle || null,
+      guid: item.guid,
+      categories: item.categories,
+      language,
+      relevanceScore: calculateRelevanceScore(fullText, keywords),
+      matchedKeywords: getMatchedKeywords(fullText, keywords),
+      urgency: determineUrgency(fullText),
+      aiAnalyzed: false,
+      weatherValidated: false,
+      processed: false
+    };
+  } catch (error) {
+    logger.error('Error processing feed item:', error);
+    return null;
+  }
+}
+
+function generateMockFeedItems(limit: number, keywords: string[]): any[] {
+  const mockItems = [];
+  const keywordFilter = keywords.length > 0 ? keywords[0] : 'emergency';
+
+  for (let i = 0; i < Math.min(limit, 5); i++) {
+    mockItems.push({
+      id: `mock_rss_${i}_${Date.now()}`,
+      title: `Mock ${keywordFilter} news item ${i + 1}`,
+      content: `This is a mock news feed item about ${keywordFilter} events. RSS_FEED_URLS is not configured.`,
+      url: `https://example.com/news/mock_${i}`,
+      author: 'Mock News',
+      score: 0,
+      created_utc: Math.floor(Date.now() / 1000) - (i * 3600),
+      num_comments: 0,
+      platform: 'rss',
+      is_disaster_related: true,
+      disaster_type: keywordFilter,
+      urgency: 'medium',
+      confidence: 0.7,
+      location: 'Mock Location'
+    });
+  }
+
+  return mockItems;
+}
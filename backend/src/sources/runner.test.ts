@@ -0,0 +1,51 @@
+import { loadSourceCursor, saveSourceCursor } from '../utils/ingestion-state-store';
+import { runIngestionSource } from './runner';
+import { IngestionSource, SourceCursor, SourceFetchOptions } from './types';
+
+jest.mock('../utils/ingestion-state-store', () => ({ loadSourceCursor: jest.fn(), saveSourceCursor: jest.fn() }));
+
+const mockLoadSourceCursor = loadSourceCursor as jest.MockedFunction<typeof loadSourceCursor>;
+const mockSaveSourceCursor = saveSourceCursor as jest.MockedFunction<typeof saveSourceCursor>;
+
+// Moves each target's position on by one, the way real sources extend the cursor they are given
+const source: IngestionSource = {
+  name: 'test',
+  platform: 'test',
+  rateLimit: { minIntervalMs: 0, maxRequestsPerRun: 10 },
+  isConfigured: () => true,
+  fetch: jest.fn(async (options: SourceFetchOptions, cursor: SourceCursor | null) => {
+    const nextCursor: SourceCursor = { ...(cursor || {}) };
+    for (const target of options.targets) {
+      nextCursor[target] = { position: (cursor?.[target]?.position || 0) + 1 };
+    }
+    return { items: [], cursor: nextCursor, errors: [], targetsProcessed: options.targets.length };
+  }),
+  normalize: () => null,
+  generateMockPosts: () => []
+};
+
+function options(targets: string[], params: Record<string, any> = {}): SourceFetchOptions {
+  return { limit: 10, timeRange: 'day', targets, keywords: [], params };
+}
+
+describe('runIngestionSource cursors', () => {
+  beforeEach(() => {
+    mockLoadSourceCursor.mockReset();
+    mockSaveSourceCursor.mockReset();
+    mockLoadSourceCursor.mockResolvedValue({ worldnews: { position: 5 }, earthquake: { position: 7 } });
+  });
+
+  it('continues every target from the stored cursor', async () => {
+    await runIngestionSource(source, options(['worldnews']));
+
+    expect(source.fetch).toHaveBeenLastCalledWith(expect.anything(), { worldnews: { position: 5 }, earthquake: { position: 7 } }, expect.anything());
+    expect(mockSaveSourceCursor.mock.calls[0][1]).toEqual({ worldnews: { position: 6 }, earthquake: { position: 7 } });
+  });
+
+  it('starts only this run\'s targets over on a reset and keeps the others', async () => {
+    await runIngestionSource(source, options(['worldnews'], { resetCursor: 'true' }));
+
+    expect(source.fetch).toHaveBeenLastCalledWith(expect.anything(), null, expect.anything());
+    expect(mockSaveSourceCursor.mock.calls[0][1]).toEqual({ worldnews: { position: 1 }, earthquake: { position: 7 } });
+  });
+});
@@ -0,0 +1,162 @@
+import { loadGazetteer } from '../location/gazetteer';
+import { saveCommentToDynamoDB, savePostToDynamoDB } from '../utils/event-store';
+import { findDuplicate, recordDuplicateOnCanonical, registerCanonicalPost } from '../utils/fingerprint-store';
+import { loadSourceCursor, saveSourceCursor } from '../utils/ingestion-state-store';
+import { resolveLanguage } from '../utils/language';
+import { logger } from '../utils/logger';
+import { IngestionSource, RawComment, RawPost, SourceCursor, SourceFetchContext, SourceFetchOptions, SourceRateLimit, SourceRunStats } from './types';
+
+/**
+ * Run one ingestion source end to end: load cursor, fetch, normalize, de-duplicate, save and persist the new cursor.
+ * Pass resetCursor=true in the request params to ignore the stored cursor for one run. Only the
+ * targets this run reads start over; the stored positions of every other target are kept.
+ */
+export async function runIngestionSource(
+  source: IngestionSource,
+  options: SourceFetchOptions
+): Promise<{ stats: SourceRunStats; posts: RawPost[] }> {
+  const startTime = Date.now();
+  const resetCursor = String(options.params.resetCursor) === 'true';
+  const storedCursor = await loadSourceCursor(source.name);
+  const cursor: SourceCursor | null = resetCursor ? null : storedCursor;
+  const stats: SourceRunStats = {
+    source: source.name,
+    mock: false,
+    fetched: 0,
+    normalized: 0,
+    saved: 0,
+    commentsSaved: 0,
+    duplicates: 0,
+    nearDuplicates: 0,
+    skippedByCursor: 0,
+    targetsProcessed: 0,
+    errors: [],
+    durationMs: 0,
+    cursor: cursor
+  };
+  const posts: RawPost[] = [];
+  let saveFailed = false;
+
+  try {
+    const context = createFetchContext(source.name, source.rateLimit);
+    await loadGazetteer();
+    const fetchResult = await source.fetch(options, cursor, context);
+    stats.fetched = fetchResult.items.length;
+    stats.targetsProcessed = fetchResult.targetsProcessed;
+    stats.skippedByCursor = fetchResult.skippedByCursor || 0;
+    stats.errors.push(...fetchResult.errors);
+    // Sources build on the cursor they were given, so a reset run's cursor holds only its own targets
+    stats.cursor = resetCursor && fetchResult.cursor ? { ...(storedCursor || {}), ...fetchResult.cursor } : fetchResult.cursor;
+
+    // Track processed post IDs to avoid duplicates within this run
+    const processedPostIds = new Set<string>();
+
+    for (const item of fetchResult.items) {
+      let post = source.normalize(item);
+      if (!post) continue;
+      stats.normalized++;
+      // Every stored post carries a language, whether or not the source tagged one
+      post.language = resolveLanguage(post.language, `${post.title} ${post.content}`);
+
+      if (processedPostIds.has(post.id)) {
+        stats.duplicates++;
+        continue;
+      }
+      processedPostIds.add(post.id);
+
+      try {
+        // Cross-posts and re-reports of a story already ingested are saved but skip AI analysis
+        const { match, fingerprint } = await detectNearDuplicate(post);
+        if (match) {
+          post = {
+            ...post,
+            duplicateOf: match.canonicalId,
+            duplicateMatchedBy: match.matchedBy,
+            duplicateSimilarity: match.similarity
+          };
+        }
+
+        let comments: RawComment[] = [];
+        if (source.enrich && !match) {
+          ({ post, comments } = await source.enrich(post, item, context));
+        }
+
+        await savePostToDynamoDB(post);
+        posts.push(post);
+        stats.saved++;
+
+        if (match) {
+          stats.nearDuplicates++;
+          await recordDuplicateOnCanonical(match.canonicalId, post);
+        } else if (fingerprint) {
+          await registerCanonicalPost(post, fingerprint);
+        }
+
+        for (const comment of comments) {
+          await saveCommentToDynamoDB(comment);
+          stats.commentsSaved++;
+        }
+      } catch (error) {
+        saveFailed = true;
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        stats.errors.push(`${post.id}: ${errorMessage}`);
+      }
+    }
+
+  } catch (error) {
+    logger.error(`Ingestion source ${source.name} failed:`, error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    stats.errors.push(errorMessage);
+  }
+
+  stats.durationMs = Date.now() - startTime;
+  // Keep the previous cursor when a write failed so the unsaved posts are fetched again next run
+  if (!saveFailed) {
+    await saveSourceCursor(source.name, stats.cursor, stats);
+  }
+  logger.info(`Source ${source.name} completed. Fetched ${stats.fetched} new, skipped ${stats.skippedByCursor} already seen, saved ${stats.saved} (${stats.nearDuplicates} near-duplicates), errors ${stats.errors.length}`);
+
+  return { stats, posts };
+}
+
+// Only posts the analyzer would pick up (relevanceScore > 0) are worth fingerprinting
+async function detectNearDuplicate(post: RawPost): Promise<Awaited<ReturnType<typeof findDuplicate>> | { match: null; fingerprint: null }> {
+  if (!post.relevanceScore || post.relevanceScore <= 0) {
+    return { match: null, fingerprint: null };
+  }
+
+  try {
+    return await findDuplicate(post);
+  } catch (error) {
+    // Treat the post as new rather than failing the save
+    logger.error(`Near-duplicate lookup failed for post ${post.id}:`, error);
+    return { match: null, fingerprint: null };
+  }
+}
+
+// Enforces the source's rate limit across all upstream requests of one run
+function createFetchContext(sourceName: string, rateLimit: SourceRateLimit): SourceFetchContext {
+  let lastRequestAt = 0;
+  let requestCount = 0;
+
+  return {
+    throttle: async () => {
+      if (requestCount >= rateLimit.maxRequestsPerRun) {
+        throw new Error(`Request budget of ${rateLimit.maxRequestsPerRun} exhausted for source ${sourceName}`);
+      }
+
+      const waitMs = lastRequestAt + rateLimit.minIntervalMs - Date.now();
+      if (waitMs > 0) {
+        await delay(waitMs);
+      }
+
+      lastRequestAt = Date.now();
+      requestCount++;
+    },
+    remainingRequests: () => Math.max(0, rateLimit.maxRequestsPerRun - requestCount)
+  };
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
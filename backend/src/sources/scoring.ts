@@ -0,0 +1,62 @@
+/**
+ * Keyword relevance scoring shared by every ingestion source
+ * The analyzer only picks up posts with relevanceScore > 0, so sources should score consistently.
+ */
+
+export function calculateRelevanceScore(text: string, keywords: string[]): number {
+  let score = 0;
+  const urgentKeywords = ['breaking', 'urgent', 'emergency', 'evacuation', 'rescue'];
+  const highImpactKeywords = ['magnitude', 'richter', 'casualties', 'fatalities', 'destroyed'];
+  const disasterKeywords = ['earthquake', 'tsunami', 'hurricane', 'tornado', 'flood', 'wildfire'];
+
+  // Base score for disaster keywords
+  for (const keyword of disasterKeywords) {
+    if (text.includes(keyword)) score += 3;
+  }
+
+  // Higher score for urgent keywords
+  for (const keyword of urgentKeywords) {
+    if (text.includes(keyword)) score += 4;
+  }
+
+  // Highest score for high impact keywords
+  for (const keyword of highImpactKeywords) {
+    if (text.includes(keyword)) score += 5;
+  }
+
+  // Additional score for other disaster keywords
+  for (const keyword of keywords) {
+    if (text.includes(keyword.toLowerCase())) score += 1;
+  }
+
+  // Bonus for recent timestamps in title/content
+  if (text.includes('now') || text.includes('currently') || text.includes('happening')) {
+    score += 2;
+  }
+
+  return Math.min(score, 10); // Cap at 10
+}
+
+export function getMatchedKeywords(text: string, keywords: string[]): string[] {
+  return keywords.filter(keyword => text.includes(keyword.toLowerCase()));
+}
+
+export function determineUrgency(text: string): 'low' | 'medium' | 'high' | 'critical' {
+  const criticalWords = ['emergency', 'evacuation', 'rescue', 'trapped', 'casualties'];
+  const highWords = ['breaking', 'urgent', 'active', 'ongoing', 'developing'];
+  const mediumWords = ['alert', 'warning', 'advisory', 'watch'];
+
+  for (const word of criticalWords) {
+    if (text.includes(word)) return 'critical';
+  }
+
+  for (const word of highWords) {
+    if (text.includes(word)) return 'high';
+  }
+
+  for (const word of mediumWords) {
+    if (text.includes(word)) return 'medium';
+  }
+
+  return 'low';
+}
@@ -0,0 +1,49 @@
+import { buildSearchQueries, twitterSource } from './twitter-source';
+
+function tweet(text: string, lang = 'en'): any {
+  return {
+    id: '1850000000000000000',
+    text,
+    lang,
+    created_at: '2026-10-19T08:00:00.000Z',
+    author_id: '42',
+    public_metrics: { like_count: 10, retweet_count: 5, reply_count: 3 }
+  };
+}
+
+const AUTHOR = { id: '42', username: 'alice', location: 'Houston, TX', created_at: '2015-01-01T00:00:00.000Z', public_metrics: { followers_count: 800 } };
+
+describe('twitterSource.normalize', () => {
+  it('scores tweets so the analyzer and near-duplicate detection pick them up', () => {
+    const post = twitterSource.normalize({ tweet: tweet('Flash flood emergency, evacuation under way'), author: AUTHOR, place: undefined, query: 'flood' })!;
+
+    expect(post.relevanceScore).toBeGreaterThan(0);
+    expect(post.matchedKeywords).toEqual(expect.arrayContaining(['flood', 'emergency', 'evacuation', 'flash flood']));
+    expect(post.urgency).toBe('critical');
+    expect(post.aiAnalyzed).toBe(false);
+    expect(post.language).toBe('en');
+    expect(post.url).toBe('https://twitter.com/alice/status/1850000000000000000');
+    expect(post.authorAccount).toEqual({ createdUtc: Date.parse('2015-01-01T00:00:00Z') / 1000, reputation: 800 });
+  });
+
+  it('scores with the tweet language\'s keywords', () => {
+    const post = twitterSource.normalize({ tweet: tweet('Fuerte sismo en la ciudad', 'es'), author: AUTHOR, place: undefined, query: 'sismo' })!;
+
+    expect(post.language).toBe('es');
+    expect(post.matchedKeywords).toContain('sismo');
+  });
+
+  it('drops tweets with no disaster relevance', () => {
+    expect(twitterSource.normalize({ tweet: tweet('Great game tonight'), author: AUTHOR, place: undefined, query: 'storm' })).toBeNull();
+  });
+});
+
+describe('buildSearchQueries', () => {
+  it('packs keywords into OR-queries within the length limit, quoting phrases', () => {
+    const queries = buildSearchQueries(['earthquake', 'flash flood', ...Array.from({ length: 60 }, (_, i) => `keyword${i}`)]);
+
+    expect(queries[0].startsWith('(earthquake OR "flash flood" OR keyword0')).toBe(true);
+    expect(queries.length).toBeGreaterThan(1);
+    expect(queries.every(query => query.length <= 512 && query.endsWith(' -is:retweet'))).toBe(true);
+  });
+});
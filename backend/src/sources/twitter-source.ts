@@ -0,0 +1,227 @@
+import { TwitterApi, TwitterApiReadOnly, Tweetv2SearchParams } from 'twitter-api-v2';
+import { resolveLocation } from '../location/resolver';
+import { resolveLanguage } from '../utils/language';
+import { logger } from '../utils/logger';
+import { DISASTER_KEYWORDS, getDisasterKeywords } from './disaster-terms';
+import { calculateRelevanceScore, determineUrgency, getMatchedKeywords } from './scoring';
+import { IngestionSource, RawPost, SourceCursor, SourceFetchContext, SourceFetchOptions, SourceFetchResult } from './types';
+
+// Recent search rejects queries longer than 512 characters
+const MAX_QUERY_LENGTH = 512;
+const QUERY_SUFFIX = ' -is:retweet';
+
+/**
+ * Twitter/X ingestion source
+ * Runs recent-search queries built from DISASTER_KEYWORDS and keeps a since_id per query
+ */
+export const twitterSource: IngestionSource = {
+  name: 'twitter',
+  platform: 'twitter',
+  rateLimit: {
+    minIntervalMs: 2000,
+    maxRequestsPerRun: 10
+  },
+
+  isConfigured(): boolean {
+    return Boolean(process.env.TWITTER_BEARER_TOKEN || (process.env.TWITTER_API_KEY && process.env.TWITTER_API_SECRET));
+  },
+
+  async fetch(options: SourceFetchOptions, cursor: SourceCursor | null, context: SourceFetchContext): Promise<SourceFetchResult> {
+    const client = await initializeTwitterClient();
+    const queries = options.targets.length > 0
+      ? options.targets
+      : buildSearchQueries(options.keywords.length > 0 ? options.keywords : DISASTER_KEYWORDS);
+    const nextCursor: SourceCursor = { ...(cursor || {}) };
+    const result: SourceFetchResult = { items: [], cursor: nextCursor, errors: [], targetsProcessed: 0 };
+
+    for (const query of queries) {
+      try {
+        await context.throttle();
+
+        const searchParams: Partial<Tweetv2SearchParams> = {
+          max_results: Math.min(Math.max(options.limit, 10), 100), // API accepts 10-100
+          'tweet.fields': ['created_at', 'lang', 'geo', 'public_metrics', 'author_id'],
+          'user.fields': ['username', 'location', 'created_at', 'public_metrics'],
+          'place.fields': ['full_name', 'country', 'country_code', 'geo', 'place_type'],
+          expansions: ['author_id', 'geo.place_id']
+        };
+        if (nextCursor[query]?.sinceId) {
+          searchParams.since_id = nextCursor[query].sinceId;
+        }
+
+        const paginator = await client.v2.search(query, searchParams);
+
+        for (const tweet of paginator.tweets) {
+          result.items.push({
+            tweet,
+            author: paginator.includes.author(tweet),
+            place: paginator.includes.place(tweet),
+            query
+          });
+        }
+
+        if (paginator.meta?.newest_id) {
+          nextCursor[query] = { sinceId: paginator.meta.newest_id };
+        }
+        result.targetsProcessed++;
+
+      } catch (error) {
+        logger.error(`Error searching Twitter for query "${query}":`, error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        result.errors.push(`${query}: ${errorMessage}`);
+      }
+    }
+
+    return result;
+  },
+
+  normalize(item: any): RawPost | null {
+    const post = processTweet(item.tweet, item.author, item.place, item.query);
+
+    // Search also matches keywords used figuratively; drop tweets with no disaster relevance at all
+    if (post && post.relevanceScore === 0) return null;
+    return post;
+  },
+
+  generateMockPosts(options: SourceFetchOptions): any[] {
+    return generateMockTweets(options.limit, options.keywords);
+  }
+};
+
+async function initializeTwitterClient(): Promise<TwitterApiReadOnly> {
+  if (process.env.TWITTER_BEARER_TOKEN) {
+    return new TwitterApi(process.env.TWITTER_BEARER_TOKEN).readOnly;
+  }
+
+  // App-only auth: exchange consumer key/secret for a bearer token
+  const consumerClient = new TwitterApi({
+    appKey: process.env.TWITTER_API_KEY!,
+    appSecret: process.env.TWITTER_API_SECRET!
+  });
+  const appClient = await consumerClient.appLogin();
+  return appClient.readOnly;
+}
+
+// Pack keywords into as few OR-queries as the length limit allows
+export function buildSearchQueries(keywords: string[]): string[] {
+  const queries: string[] = [];
+  let terms: string[] = [];
+
+  for (const keyword of keywords) {
+    const term = keyword.includes(' ') ? `"${keyword}"` : keyword;
+    const candidate = `(${[...terms, term].join(' OR ')})${QUERY_SUFFIX}`;
+
+    if (candidate.length > MAX_QUERY_LENGTH && terms.length > 0) {
+      queries.push(`(${terms.join(' OR ')})${QUERY_SUFFIX}`);
+      terms = [term];
+    } else {
+      terms.push(term);
+    }
+  }
+
+  if (terms.length > 0) {
+    queries.push(`(${terms.join(' OR ')})${QUERY_SUFFIX}`);
+  }
+
+  return queries;
+}
+
+function processTweet(tweet: any, author: any, place: any, query: string): RawPost | null {
+  try {
+    const text: string = tweet.text || '';
+    const createdTime = tweet.created_at ? new Date(tweet.created_at) : new Date();
+    const metrics = tweet.public_metrics || {};
+    const username = author?.username || tweet.author_id || 'unknown';
+    const geo = extractGeo(tweet, place);
+    // Place mentions in the tweet beat the free-text profile location, which is often a joke or a home town
+    const resolvedLocation = resolveLocation(text) || resolveLocation(author?.location || '');
+    const fullText = text.toLowerCase();
+    const language = resolveLanguage(tweet.lang, text);
+    const keywords = getDisasterKeywords(language);
+
+    return {
+      id: `tweet_${tweet.id}`,
+      platform: 'twitter',
+      type: 'social_media_post',
+      title: text.split('\n')[0].slice(0, 140),
+      content: text,
+      url: `https://twitter.com/${username}/status/${tweet.id}`,
+      author: username,
+      created_utc: Math.floor(createdTime.getTime() / 1000),
+      created_time: createdTime.toISOString(),
+      score: (metrics.like_count || 0) + (metrics.retweet_count || 0),
+      num_comments: metrics.reply_count || 0,
+      timestamp: Date.now(),
+      location: geo?.placeName || resolvedLocation?.displayName || author?.location || null,
+      resolvedLocation,
+      geo: geo,
+      authorAccount: author ? {
+        createdUtc: author.created_at ? Math.floor(new Date(author.created_at).getTime() / 1000) : null,
+        reputation: author.public_metrics?.followers_count ?? null
+      } : null,
+      language,
+      searchQuery: query,
+      relevanceScore: calculateRelevanceScore(fullText, keywords),
+      matchedKeywords: getMatchedKeywords(fullText, keywords),
+      urgency: determineUrgency(fullText),
+      aiAnalyzed: false,
+      weatherValidated: false,
+      processed: false
+    };
+  } catch (error) {
+    logger.error('Error processing tweet:', error);
+    return null;
+  }
+}
+
+// Exact point when the tweet is geotagged, otherwise the centre of the place bounding box
+function extractGeo(tweet: any, place: any): any {
+  const point = tweet.geo?.coordinates?.coordinates;
+  if (!point && !place) return null;
+
+  let coordinates: { lat: number; lng: number } | null = null;
+  if (Array.isArray(point) && point.length === 2) {
+    coordinates = { lat: point[1], lng: point[0] };
+  } else if (Array.isArray(place?.geo?.bbox) && place.geo.bbox.length === 4) {
+    const [west, south, east, north] = place.geo.bbox;
+    coordinates = { lat: (south + north) / 2, lng: (west + east) / 2 };
+  }
+
+  return {
+    placeId: place?.id || tweet.geo?.place_id || null,
+    placeName: place?.full_name || null,
+    placeType: place?.place_type || null,
+    country: place?.country || null,
+    countryCode: place?.country_code || null,
+    bbox: place?.geo?.bbox || null,
+    coordinates: coordinates,
+    exact: Boolean(point)
+  };
+}
+
+function generateMockTweets(limit: number, keywords: string[]): any[] {
+  const mockTweets = [];
+  const keywordFilter = keywords.length > 0 ? keywords[0] : 'emergency';
+
+  for (let i = 0; i < Math.min(limit, 5); i++) {
+    mockTweets.push({
+      id: `mock_tweet_${i}_${Date.now()}`,
+      title: `Mock ${keywordFilter} tweet ${i + 1}`,
+      content: `This is a mock tweet about ${keywordFilter} events. Twitter API credentials are not configured.`,
+      url: `https://twitter.com/mock_user/status/mock_${i}`,
+      author: 'mock_user',
+      score: Math.floor(Math.random() * 1000),
+      created_utc: Math.floor(Date.now() / 1000) - (i * 3600),
+      num_comments: Math.floor(Math.random() * 100),
+      platform: 'twitter',
+      is_disaster_related: true,
+      disaster_type: keywordFilter,
+      urgency: 'medium',
+      confidence: 0.7,
+      location: 'Mock Location',
+      geo: null
+    });
+  }
+
+  return mockTweets;
+}
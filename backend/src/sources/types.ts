@@ -0,0 +1,110 @@
+/**
+ * Ingestion source contract
+ * Every feed (Reddit, Twitter, RSS, ...) implements IngestionSource and produces
+ * RawPost records, so the DynamoDB write path never needs to know where a post came from.
+ */
+
+// The single record shape every source writes to the events table
+export interface RawPost {
+  id: string;
+  platform: string;
+  type: 'social_media_post';
+  title: string;
+  content: string;
+  url: string;
+  author: string;
+  subreddit?: string;
+  created_utc: number;
+  created_time: string;
+  score: number;
+  num_comments: number;
+  upvote_ratio?: number;
+  timestamp: number;
+  location: string | null;
+  processed: boolean;
+  authorAccount?: AuthorAccount | null; // Set by sources that can see the author's account
+  [key: string]: any; // Source-specific extras (geo, language, ...)
+}
+
+// The author's standing when the post was ingested, used for credibility scoring
+export interface AuthorAccount {
+  createdUtc: number | null; // Account creation, unix seconds
+  reputation: number | null; // Reddit karma or follower count
+}
+
+// Replies harvested for a post, stored as their own events-table items linked by parentPostId
+export interface RawComment {
+  id: string;
+  platform: string;
+  type: 'social_media_comment';
+  parentPostId: string;
+  parentCommentId: string | null;
+  body: string;
+  author: string;
+  score: number;
+  depth: number;
+  created_utc: number;
+  created_time: string;
+  timestamp: number;
+}
+
+// Opaque per-source position, e.g. { [subreddit]: { lastCreatedUtc } }
+export type SourceCursor = Record<string, any>;
+
+export interface SourceRateLimit {
+  minIntervalMs: number; // Minimum delay between two upstream requests
+  maxRequestsPerRun: number; // Hard cap on upstream requests in one invocation
+}
+
+export interface SourceFetchOptions {
+  limit: number;
+  timeRange: string;
+  targets: string[]; // Subreddits, search queries, feed URLs, ...
+  keywords: string[];
+  params: Record<string, any>; // Raw request parameters for source-specific switches
+}
+
+export interface SourceFetchContext {
+  throttle: () => Promise<void>; // Await before every upstream request
+  remainingRequests: () => number; // Left in this run's request budget
+}
+
+export interface SourceFetchResult {
+  items: any[];
+  cursor: SourceCursor | null;
+  errors: string[];
+  targetsProcessed: number;
+  skippedByCursor?: number; // Items the upstream returned that the cursor had already seen
+}
+
+export interface SourceEnrichment {
+  post: RawPost;
+  comments: RawComment[];
+}
+
+export interface IngestionSource {
+  name: string;
+  platform: string;
+  rateLimit: SourceRateLimit;
+  isConfigured(options?: SourceFetchOptions): boolean; // Whether a real fetch can run, given these options if any
+  fetch(options: SourceFetchOptions, cursor: SourceCursor | null, context: SourceFetchContext): Promise<SourceFetchResult>;
+  normalize(item: any): RawPost | null;
+  enrich?(post: RawPost, item: any, context: SourceFetchContext): Promise<SourceEnrichment>; // Optional follow-up fetch per post
+  generateMockPosts(options: SourceFetchOptions): any[];
+}
+
+export interface SourceRunStats {
+  source: string;
+  mock: boolean;
+  fetched: number;
+  normalized: number;
+  saved: number;
+  commentsSaved: number;
+  duplicates: number;
+  nearDuplicates: number; // Saved with duplicateOf set; the analyzer skips them
+  skippedByCursor: number;
+  targetsProcessed: number;
+  errors: string[];
+  durationMs: number;
+  cursor: SourceCursor | null;
+}
@@ -0,0 +1,86 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { BatchGetCommand, DynamoDBDocumentClient, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { createHash } from 'crypto';
+import { AnalysisOutput } from '../llm/analysis-schema';
+import { logger } from './logger';
+
+const dynamoClient = new DynamoDBClient({ region: process.env.BEDROCK_REGION || 'us-east-1' });
+const docClient = DynamoDBDocumentClient.from(dynamoClient);
+
+const ANALYSIS_CACHE_TABLE_NAME = process.env.DYNAMODB_ANALYSIS_CACHE_TABLE || (process.env.DYNAMODB_TABLE_PREFIX ? `${process.env.DYNAMODB_TABLE_PREFIX}-analysis-cache` : undefined);
+
+const DEFAULT_CACHE_TTL_HOURS = 72;
+
+export interface CachedAnalysis {
+  cacheKey: string;
+  output: AnalysisOutput;
+  promptVersion: string;
+  promptVariant: 'control' | 'candidate';
+  modelProvider: string;
+  modelId: string;
+  translation?: { title: string; content: string } | null; // Absent on entries written before translation existed
+  cachedAt: number;
+  ttl: number;
+}
+
+/**
+ * Model analysis cache
+ * Keyed by a hash of exactly what the model reads (title, content, comment bodies) plus the prompt
+ * version and model that would answer, so a re-saved post with unchanged text reuses its analysis
+ * and a prompt or model switch starts fresh.
+ */
+export function analysisCacheKey(post: { title: string; content: string; comments: { body: string }[] }, promptVersion: string, modelId: string): string {
+  const text = JSON.stringify([post.title.trim(), post.content.trim(), post.comments.map(comment => comment.body.trim())]);
+  return `${promptVersion}|${modelId}|${createHash('sha256').update(text).digest('hex')}`;
+}
+
+export async function getCachedAnalyses(cacheKeys: string[]): Promise<Map<string, CachedAnalysis>> {
+  const entries = new Map<string, CachedAnalysis>();
+  if (!ANALYSIS_CACHE_TABLE_NAME || cacheKeys.length === 0) return entries;
+
+  const uniqueKeys = [...new Set(cacheKeys)];
+  const now = Math.floor(Date.now() / 1000);
+
+  try {
+    // BatchGet accepts at most 100 keys per request
+    for (let i = 0; i < uniqueKeys.length; i += 100) {
+      let requestKeys: Record<string, any>[] | undefined = uniqueKeys.slice(i, i + 100).map(cacheKey => ({ cacheKey }));
+
+      while (requestKeys && requestKeys.length > 0) {
+        const result: any = await docClient.send(new BatchGetCommand({
+          RequestItems: { [ANALYSIS_CACHE_TABLE_NAME]: { Keys: requestKeys } }
+        }));
+        for (const item of result.Responses?.[ANALYSIS_CACHE_TABLE_NAME] || []) {
+          // TTL deletion can lag by hours; expired entries count as misses
+          if (item.ttl > now) entries.set(item.cacheKey, item as CachedAnalysis);
+        }
+        requestKeys = result.UnprocessedKeys?.[ANALYSIS_CACHE_TABLE_NAME]?.Keys;
+      }
+    }
+  } catch (error) {
+    // A failed lookup only costs a model call
+    logger.error('Error reading analysis cache:', error);
+  }
+
+  return entries;
+}
+
+export async function putCachedAnalysis(cacheKey: string, entry: Omit<CachedAnalysis, 'cacheKey' | 'cachedAt' | 'ttl'>): Promise<void> {
+  if (!ANALYSIS_CACHE_TABLE_NAME) return;
+
+  const ttlHours = parseFloat(process.env.ANALYSIS_CACHE_TTL_HOURS || String(DEFAULT_CACHE_TTL_HOURS));
+
+  try {
+    await docClient.send(new PutCommand({
+      TableName: ANALYSIS_CACHE_TABLE_NAME,
+      Item: {
+        ...entry,
+        cacheKey,
+        cachedAt: Date.now(),
+        ttl: Math.floor(Date.now() / 1000 + ttlHours * 60 * 60)
+      }
+    }));
+  } catch (error) {
+    logger.error(`Error caching analysis ${cacheKey}:`, error);
+  }
+}
@@ -0,0 +1,108 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  capAreaCentroid,
+  isCapDocument,
+  mapCapEventToDisasterType,
+  mapCapSeverity,
+  parseCapAlert,
+  parseCapIndexFeed
+} from './cap-parser';
+
+const alertXml = readFileSync(join(__dirname, '__fixtures__', 'cap-alert.xml'), 'utf8');
+const prefixedAlertXml = readFileSync(join(__dirname, '__fixtures__', 'cap-prefixed-alert.xml'), 'utf8');
+const indexFeedXml = readFileSync(join(__dirname, '__fixtures__', 'cap-index-feed.xml'), 'utf8');
+
+describe('isCapDocument', () => {
+  it('recognises alerts with and without the cap: prefix, but not index feeds', () => {
+    expect(isCapDocument(alertXml)).toBe(true);
+    expect(isCapDocument(prefixedAlertXml)).toBe(true);
+    expect(isCapDocument(indexFeedXml)).toBe(false);
+  });
+});
+
+describe('parseCapAlert', () => {
+  it('reads the alert envelope and references', () => {
+    const alert = parseCapAlert(alertXml)!;
+
+    expect(alert.identifier).toBe('NOAA-NWS-2026-FFW-0042');
+    expect(alert.sender).toBe('w-nws.webmaster@noaa.gov');
+    expect(alert.status).toBe('Actual');
+    expect(alert.msgType).toBe('Update');
+    expect(alert.references).toEqual([{
+      sender: 'w-nws.webmaster@noaa.gov',
+      identifier: 'NOAA-NWS-2026-FFW-0041',
+      sent: '2026-10-19T06:00:00-05:00'
+    }]);
+  });
+
+  it('reads info blocks with their areas', () => {
+    const [info] = parseCapAlert(alertXml)!.infos;
+
+    expect(info.category).toEqual(['Met', 'Safety']);
+    expect(info.event).toBe('Flash Flood Warning');
+    expect(info.severity).toBe('Severe');
+    expect(info.onset).toBeNull();
+    expect(info.expires).toBe('2026-10-19T14:00:00-05:00');
+    expect(info.headline).toBe('Flash Flood Warning issued for Harris County');
+    expect(info.areas).toEqual([{
+      areaDesc: 'Harris, TX',
+      polygons: [[
+        { lat: 29, lng: -95 },
+        { lat: 30, lng: -95 },
+        { lat: 30, lng: -96 },
+        { lat: 29, lng: -96 }
+      ]],
+      circles: [{ center: { lat: 29.5, lng: -95.5 }, radiusKm: 10 }],
+      geocodes: [{ valueName: 'SAME', value: '048201' }]
+    }]);
+  });
+
+  it('reads cap:-prefixed documents and fills in defaults', () => {
+    const alert = parseCapAlert(prefixedAlertXml)!;
+
+    expect(alert.identifier).toBe('JMA-2026-TSU-7');
+    expect(alert.status).toBe('Exercise');
+    expect(alert.infos[0].language).toBe('en-US');
+    expect(alert.infos[0].category).toEqual([]);
+    expect(alert.infos[0].areas[0]).toEqual({ areaDesc: 'Pacific coast of Miyagi', polygons: [], circles: [], geocodes: [] });
+  });
+
+  it('returns null without an identifier or sender', () => {
+    expect(parseCapAlert(alertXml.replace(/<identifier>.*<\/identifier>/, ''))).toBeNull();
+    expect(parseCapAlert(indexFeedXml)).toBeNull();
+  });
+});
+
+describe('parseCapIndexFeed', () => {
+  it('prefers the CAP link and versions entry ids by their update time', () => {
+    expect(parseCapIndexFeed(indexFeedXml)).toEqual([
+      { entryId: 'urn:alert:0042|2026-10-19T08:00:00-05:00', url: 'https://alerts.example.gov/cap/0042.xml' },
+      { entryId: 'https://alerts.example.gov/cap/0043.xml|2026-10-19T09:00:00-05:00', url: 'https://alerts.example.gov/cap/0043.xml' }
+    ]);
+  });
+});
+
+describe('CAP mappings', () => {
+  it('maps CAP severities onto the alert scale', () => {
+    expect(mapCapSeverity('Extreme')).toBe('critical');
+    expect(mapCapSeverity('Severe')).toBe('high');
+    expect(mapCapSeverity('Moderate')).toBe('medium');
+    expect(mapCapSeverity('Unknown')).toBe('low');
+  });
+
+  it('maps free-text event names to disaster types', () => {
+    expect(mapCapEventToDisasterType('Flash Flood Warning')).toBe('flood');
+    expect(mapCapEventToDisasterType('Red Flag Warning')).toBe('wildfire');
+    expect(mapCapEventToDisasterType('Tropical Storm Watch')).toBe('hurricane');
+    expect(mapCapEventToDisasterType('Tsunami Warning')).toBe('tsunami');
+    expect(mapCapEventToDisasterType('Child Abduction Emergency')).toBeNull();
+  });
+
+  it('centres areas on their polygon vertices and circle centres', () => {
+    const [info] = parseCapAlert(alertXml)!.infos;
+
+    expect(capAreaCentroid(info.areas)).toEqual({ lat: 29.5, lng: -95.5 });
+    expect(capAreaCentroid(parseCapAlert(prefixedAlertXml)!.infos[0].areas)).toBeNull();
+  });
+});
@@ -0,0 +1,209 @@
+import * as cheerio from 'cheerio';
+import { LatLng } from './geo';
+
+/**
+ * Common Alerting Protocol (CAP 1.2) parsing
+ * Handles standalone <alert> documents and Atom/RSS index feeds that link to them
+ */
+
+export interface CapArea {
+  areaDesc: string;
+  polygons: LatLng[][];
+  circles: { center: LatLng; radiusKm: number }[];
+  geocodes: { valueName: string; value: string }[];
+}
+
+export interface CapInfo {
+  language: string;
+  category: string[];
+  event: string;
+  urgency: string;
+  severity: string;
+  certainty: string;
+  effective: string | null;
+  onset: string | null;
+  expires: string | null;
+  senderName: string | null;
+  headline: string | null;
+  description: string | null;
+  instruction: string | null;
+  web: string | null;
+  areas: CapArea[];
+}
+
+export interface CapAlert {
+  identifier: string;
+  sender: string;
+  sent: string;
+  status: string; // Actual | Exercise | System | Test | Draft
+  msgType: string; // Alert | Update | Cancel | Ack | Error
+  scope: string;
+  references: { sender: string; identifier: string; sent: string }[];
+  infos: CapInfo[];
+}
+
+export function isCapDocument(xml: string): boolean {
+  return /<(cap:)?alert[\s>]/.test(xml);
+}
+
+export function parseCapAlert(xml: string): CapAlert | null {
+  const $ = cheerio.load(stripCapPrefix(xml), { xml: true });
+  const alert = $('alert').first();
+  if (alert.length === 0) return null;
+
+  const identifier = childText(alert, 'identifier');
+  const sender = childText(alert, 'sender');
+  if (!identifier || !sender) return null;
+
+  return {
+    identifier,
+    sender,
+    sent: childText(alert, 'sent') || new Date().toISOString(),
+    status: childText(alert, 'status') || 'Actual',
+    msgType: childText(alert, 'msgType') || 'Alert',
+    scope: childText(alert, 'scope') || 'Public',
+    references: parseReferences(childText(alert, 'references')),
+    infos: alert.children('info').map((_, element) => parseInfo($, $(element))).get()
+  };
+}
+
+// Links to the CAP documents listed by an Atom or RSS index feed
+export function parseCapIndexFeed(xml: string): { entryId: string; url: string }[] {
+  const $ = cheerio.load(xml, { xml: true });
+  const entries: { entryId: string; url: string }[] = [];
+
+  $('feed > entry').each((_, element) => {
+    const entry = $(element);
+    const capLink = entry.find('link[type="application/cap+xml"]').attr('href');
+    const url = capLink || entry.find('link').first().attr('href') || entry.find('id').first().text().trim();
+    if (!url) return;
+    // Updated alerts keep their entry id, so include the timestamp to pick up new versions
+    const updated = entry.find('updated').first().text().trim();
+    entries.push({ entryId: `${entry.find('id').first().text().trim() || url}|${updated}`, url });
+  });
+
+  $('channel > item').each((_, element) => {
+    const item = $(element);
+    const url = item.find('link').first().text().trim();
+    if (!url) return;
+    entries.push({ entryId: item.find('guid').first().text().trim() || url, url });
+  });
+
+  return entries;
+}
+
+// Maps CAP severity onto the alerts table's low/medium/high/critical scale
+export function mapCapSeverity(severity: string): 'low' | 'medium' | 'high' | 'critical' {
+  switch (severity) {
+    case 'Extreme':
+      return 'critical';
+    case 'Severe':
+      return 'high';
+    case 'Moderate':
+      return 'medium';
+    default:
+      return 'low';
+  }
+}
+
+// CAP event names are free text ("Flash Flood Warning", "Red Flag Warning"); first match wins
+const CAP_EVENT_DISASTER_TYPES: [RegExp, string][] = [
+  [/tsunami/i, 'tsunami'],
+  [/earthquake/i, 'earthquake'],
+  [/hurricane|typhoon|cyclone|tropical storm/i, 'hurricane'],
+  [/tornado/i, 'tornado'],
+  [/flood/i, 'flood'],
+  [/fire|red flag/i, 'wildfire'],
+  [/volcan|ashfall/i, 'volcano'],
+  [/landslide|mudslide|debris flow/i, 'landslide'],
+  [/blizzard|winter storm|ice storm|snow/i, 'blizzard'],
+  [/heat/i, 'heatwave'],
+  [/thunderstorm|storm|wind/i, 'storm']
+];
+
+export function mapCapEventToDisasterType(event: string): string | null {
+  const match = CAP_EVENT_DISASTER_TYPES.find(([pattern]) => pattern.test(event));
+  return match ? match[1] : null;
+}
+
+// Mean of all polygon vertices and circle centres; null for geocode-only areas
+export function capAreaCentroid(areas: CapArea[]): LatLng | null {
+  const points = areas.flatMap(area => [
+    ...(area.polygons || []).flat(),
+    ...(area.circles || []).map(circle => circle.center)
+  ]);
+  if (points.length === 0) return null;
+
+  return {
+    lat: points.reduce((sum, point) => sum + point.lat, 0) / points.length,
+    lng: points.reduce((sum, point) => sum + point.lng, 0) / points.length
+  };
+}
+
+function parseInfo($: cheerio.CheerioAPI, info: cheerio.Cheerio<any>): CapInfo {
+  return {
+    language: childText(info, 'language') || 'en-US',
+    category: info.children('category').map((_, element) => $(element).text().trim()).get(),
+    event: childText(info, 'event') || 'Unknown',
+    urgency: childText(info, 'urgency') || 'Unknown',
+    severity: childText(info, 'severity') || 'Unknown',
+    certainty: childText(info, 'certainty') || 'Unknown',
+    effective: childText(info, 'effective'),
+    onset: childText(info, 'onset'),
+    expires: childText(info, 'expires'),
+    senderName: childText(info, 'senderName'),
+    headline: childText(info, 'headline'),
+    description: childText(info, 'description'),
+    instruction: childText(info, 'instruction'),
+    web: childText(info, 'web'),
+    areas: info.children('area').map((_, element) => {
+      const area = $(element);
+      return {
+        areaDesc: childText(area, 'areaDesc') || '',
+        // Wrapped in an array because cheerio's map flattens returned arrays
+        polygons: area.children('polygon').map((_, polygon) => [parsePolygon($(polygon).text())]).get(),
+        circles: area.children('circle').map((_, circle) => parseCircle($(circle).text())).get().filter(Boolean),
+        geocodes: area.children('geocode').map((_, geocode) => ({
+          valueName: childText($(geocode), 'valueName') || '',
+          value: childText($(geocode), 'value') || ''
+        })).get()
+      };
+    }).get()
+  };
+}
+
+// CAP polygons are whitespace-separated "lat,lon" pairs
+function parsePolygon(text: string): LatLng[] {
+  return text.trim().split(/\s+/)
+    .map(pair => pair.split(',').map(Number))
+    .filter(([lat, lng]) => !isNaN(lat) && !isNaN(lng))
+    .map(([lat, lng]) => ({ lat, lng }));
+}
+
+// CAP circles are "lat,lon radius" with the radius in kilometers
+function parseCircle(text: string): { center: LatLng; radiusKm: number } | null {
+  const [point, radius] = text.trim().split(/\s+/);
+  const [lat, lng] = (point || '').split(',').map(Number);
+  const radiusKm = Number(radius);
+  if (isNaN(lat) || isNaN(lng) || isNaN(radiusKm)) return null;
+  return { center: { lat, lng }, radiusKm };
+}
+
+// "sender,identifier,sent" triples separated by whitespace
+function parseReferences(text: string | null): { sender: string; identifier: string; sent: string }[] {
+  if (!text) return [];
+  return text.trim().split(/\s+/)
+    .map(reference => reference.split(','))
+    .filter(parts => parts.length >= 2)
+    .map(([sender, identifier, sent]) => ({ sender, identifier, sent: sent || '' }));
+}
+
+function childText(element: cheerio.Cheerio<any>, name: string): string | null {
+  const text = element.children(name).first().text().trim();
+  return text.length > 0 ? text : null;
+}
+
+// Feeds embed CAP with a cap: prefix; drop it so the same selectors work everywhere
+function stripCapPrefix(xml: string): string {
+  return xml.replace(/<(\/?)cap:/g, '<$1');
+}
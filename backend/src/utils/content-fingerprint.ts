@@ -0,0 +1,146 @@
+import { createHash } from 'crypto';
+
+/**
+ * Content fingerprinting for near-duplicate detection
+ * A post is reduced to a normalized title hash, normalized URL hashes and a MinHash signature
+ * over word shingles; LSH bands of the signature give cheap candidate lookups.
+ */
+
+const SHINGLE_SIZE = 3;
+const SIGNATURE_SIZE = 64;
+const BAND_COUNT = 16;
+const ROWS_PER_BAND = SIGNATURE_SIZE / BAND_COUNT;
+
+// Query parameters that only identify the share, not the content
+const TRACKING_PARAMS = /^(utm_.*|fbclid|gclid|igshid|ref|ref_src|ref_source|share_id|context|s|t|cmpid|mc_cid|mc_eid)$/i;
+const HOST_PREFIXES = /^(www|m|mobile|old|new|amp)\./;
+
+export interface ContentFingerprint {
+  titleKey: string | null;
+  urlKeys: string[]; // Linked URL plus the post's own permalink, so cross-posts pointing at it match
+  bandKeys: string[];
+  signature: number[];
+}
+
+export function fingerprintPost(post: { title?: string; content?: string; url?: string; permalink?: string | null }): ContentFingerprint {
+  const title = normalizeText(post.title || '');
+  const shingles = buildShingles(normalizeText(`${post.title || ''} ${post.content || ''}`));
+  const signature = shingles.size > 0 ? minHash(shingles) : [];
+
+  const urlKeys = [post.url, post.permalink]
+    .map(url => normalizeUrl(url || ''))
+    .filter((url): url is string => Boolean(url))
+    .map(url => `url:${sha1(url)}`);
+
+  return {
+    // Very short titles ("Earthquake!") collide across unrelated posts
+    titleKey: title.split(' ').length >= 4 ? `title:${sha1(title)}` : null,
+    urlKeys: [...new Set(urlKeys)],
+    bandKeys: signature.length > 0 ? buildBandKeys(signature) : [],
+    signature
+  };
+}
+
+// Estimated Jaccard similarity of the shingle sets behind two signatures
+export function estimateSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return equal / a.length;
+}
+
+export function normalizeUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    if (!/^https?:$/.test(parsed.protocol)) return null;
+
+    const host = parsed.hostname.toLowerCase().replace(HOST_PREFIXES, '');
+    let path = parsed.pathname.replace(/\/+$/, '');
+    // Reddit permalinks carry an editable slug after the post id
+    const redditPost = path.match(/^\/r\/[^/]+\/comments\/([a-z0-9]+)/i);
+    if (host.endsWith('reddit.com') && redditPost) {
+      path = `/comments/${redditPost[1].toLowerCase()}`;
+    }
+
+    const params = [...parsed.searchParams.entries()]
+      .filter(([key]) => !TRACKING_PARAMS.test(key))
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, value]) => `${key}=${value}`);
+
+    return `${host}${path}${params.length > 0 ? `?${params.join('&')}` : ''}`;
+  } catch {
+    return null;
+  }
+}
+
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/^\s*(breaking|update|updated|live|just in)\s*[:\-|]\s*/g, '')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function buildShingles(text: string): Set<string> {
+  const words = text.split(' ').filter(Boolean);
+  const shingles = new Set<string>();
+  if (words.length < SHINGLE_SIZE) return shingles;
+
+  for (let i = 0; i <= words.length - SHINGLE_SIZE; i++) {
+    shingles.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  return shingles;
+}
+
+function minHash(shingles: Set<string>): number[] {
+  const signature = new Array<number>(SIGNATURE_SIZE).fill(0xffffffff);
+  for (const shingle of shingles) {
+    const base = fnv1a(shingle);
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+      // Family of hash functions derived from one base hash
+      const hash = fmix32(base ^ SEEDS[i]);
+      if (hash < signature[i]) signature[i] = hash;
+    }
+  }
+  return signature;
+}
+
+function buildBandKeys(signature: number[]): string[] {
+  const keys: string[] = [];
+  for (let band = 0; band < BAND_COUNT; band++) {
+    const rows = signature.slice(band * ROWS_PER_BAND, (band + 1) * ROWS_PER_BAND);
+    keys.push(`band:${band}:${sha1(rows.join(',')).slice(0, 16)}`);
+  }
+  return keys;
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// murmur3 finalizer: spreads every input bit over the whole word
+function fmix32(value: number): number {
+  let hash = value;
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+function sha1(text: string): string {
+  return createHash('sha1').update(text).digest('hex');
+}
+
+// Fixed seeds so signatures stay comparable across Lambda instances and deployments
+const SEEDS: number[] = Array.from({ length: SIGNATURE_SIZE }, (_, i) => fnv1a(`smarteas-minhash-${i}`));
@@ -0,0 +1,89 @@
+import { assessCredibility, CredibilityInput, dampConfidence } from './credibility';
+
+const DAY = 24 * 60 * 60;
+const POSTED_AT = Math.floor(Date.parse('2026-10-19T12:00:00Z') / 1000);
+
+function input(overrides: Partial<CredibilityInput> = {}): CredibilityInput {
+  return {
+    title: 'Flooding in Houston',
+    content: 'Water is rising on our street',
+    subreddit: 'houston',
+    url: null,
+    postedAt: POSTED_AT,
+    authorAccount: { createdUtc: POSTED_AT - 3 * 365 * DAY, reputation: 5000 },
+    reportingStyle: 'firsthand',
+    ...overrides
+  };
+}
+
+function signals(overrides: Partial<CredibilityInput>): [string, number][] {
+  return assessCredibility(input(overrides)).factors.map(factor => [factor.signal, factor.adjustment]);
+}
+
+describe('assessCredibility', () => {
+  it('leaves an ordinary first-hand report at full credibility', () => {
+    expect(assessCredibility(input())).toEqual({ score: 100, factors: [] });
+  });
+
+  it('marks down new and low-karma accounts, and ignores unknown ones', () => {
+    expect(signals({ authorAccount: { createdUtc: POSTED_AT - 2 * DAY, reputation: 3 } })).toEqual([['account', -20], ['account', -10]]);
+    expect(signals({ authorAccount: { createdUtc: POSTED_AT - 10 * DAY, reputation: null } })).toEqual([['account', -10]]);
+    expect(signals({ authorAccount: null })).toEqual([]);
+  });
+
+  it('scores subreddits by their reputation', () => {
+    expect(signals({ subreddit: 'TheOnion' })).toEqual([['subreddit', -40]]);
+    expect(signals({ subreddit: 'conspiracy' })).toEqual([['subreddit', -25]]);
+    expect(signals({ subreddit: 'worldnews' })).toEqual([['subreddit', 5]]);
+  });
+
+  it('scores the linked domains, satire before official', () => {
+    expect(signals({ url: 'https://www.theonion.com/flood' })).toEqual([['domain', -50]]);
+    expect(signals({ url: 'https://earthquake.usgs.gov/event/us7000' })).toEqual([['domain', 10]]);
+    expect(signals({ url: 'https://apnews.com/x', content: 'via https://babylonbee.com/news' })).toEqual([['domain', -50]]);
+    expect(signals({ url: 'not a url' })).toEqual([]);
+  });
+
+  it('marks down posts about an old event, less for a bare year', () => {
+    expect(signals({ title: 'Flooding on August 27, 2017' })).toEqual([['stale_date', -30]]);
+    expect(signals({ title: 'Remembering the 2017 flood' })).toEqual([['stale_date', -20]]);
+    expect(signals({ title: 'Flooding on October 18, 2026' })).toEqual([]);
+  });
+
+  it.each([
+    'Worst flooding since 1998 hits Houston, thousands evacuated',
+    'Strongest earthquake in Tokyo since 2011, buildings collapsed',
+    'Earthquake now. Worst since 1994'
+  ])('does not treat a comparison as an old date: %s', title => {
+    expect(assessCredibility(input({ title, content: '' })).score).toBe(100);
+  });
+
+  it('applies the reporting style', () => {
+    expect(signals({ reportingStyle: 'secondhand' })).toEqual([['reporting_style', -10]]);
+    expect(signals({ reportingStyle: 'speculation' })).toEqual([['reporting_style', -25]]);
+    expect(signals({ reportingStyle: 'satire' })).toEqual([['reporting_style', -50]]);
+    expect(signals({ reportingStyle: null })).toEqual([]);
+  });
+
+  it('keeps the score between 0 and 100', () => {
+    expect(assessCredibility(input({ subreddit: 'worldnews', url: 'https://reuters.com/x' })).score).toBe(100);
+    expect(assessCredibility(input({
+      subreddit: 'satire',
+      url: 'https://theonion.com/x',
+      reportingStyle: 'satire',
+      authorAccount: { createdUtc: POSTED_AT, reputation: 0 }
+    })).score).toBe(0);
+  });
+});
+
+describe('dampConfidence', () => {
+  it('keeps between half and all of the confidence', () => {
+    expect(dampConfidence(80, 100)).toBe(80);
+    expect(dampConfidence(80, 50)).toBe(60);
+    expect(dampConfidence(80, 0)).toBe(40);
+  });
+
+  it('leaves the confidence alone when credibility is unknown', () => {
+    expect(dampConfidence(80, null)).toBe(80);
+  });
+});
@@ -0,0 +1,161 @@
+import { AnalysisOutput } from '../llm/analysis-schema';
+import { AuthorAccount } from '../sources/types';
+import { daysBefore, findMentionedDates, latestMentionedDate, STALE_AFTER_DAYS } from './dates';
+
+export type CredibilitySignal = 'account' | 'subreddit' | 'domain' | 'stale_date' | 'reporting_style';
+
+export interface CredibilityFactor {
+  signal: CredibilitySignal;
+  adjustment: number; // Points added to (positive) or taken from (negative) the score
+  detail: string;
+}
+
+export interface CredibilityAssessment {
+  score: number; // 0-100; 100 means nothing argues against the post
+  factors: CredibilityFactor[];
+}
+
+export interface CredibilityInput {
+  title: string;
+  content: string;
+  subreddit: string;
+  url: string | null;
+  postedAt: number; // Unix seconds
+  authorAccount: AuthorAccount | null;
+  reportingStyle: AnalysisOutput['reportingStyle'];
+}
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+// Joke and satire communities; their disasters are punchlines
+const SATIRE_SUBREDDITS = ['theonion', 'satire', 'babylonbee', 'shitposting', 'circlejerk', 'copypasta', 'memes', 'dankmemes', 'fakehistoryporn'];
+// Communities where rumours spread faster than corrections
+const LOW_REPUTATION_SUBREDDITS = ['conspiracy', 'conspiracytheories', 'conspiracy_commons', 'highstrangeness'];
+// Moderated news and hazard communities
+const REPUTABLE_SUBREDDITS = ['worldnews', 'news', 'earthquake', 'earthquakes', 'tropicalweather', 'weather', 'naturaldisasters', 'wildfire', 'tornado', 'volcanoes'];
+
+const SATIRE_DOMAINS = ['theonion.com', 'babylonbee.com', 'clickhole.com', 'thebeaverton.com', 'newsthump.com', 'waterfordwhispersnews.com', 'thedailymash.co.uk', 'duffelblog.com', 'thehardtimes.net'];
+// Agencies and wire services whose reports we would act on directly
+const OFFICIAL_DOMAINS = ['usgs.gov', 'noaa.gov', 'weather.gov', 'gdacs.org', 'emsc-csem.org', 'jma.go.jp', 'nhk.or.jp', 'reuters.com', 'apnews.com', 'bbc.co.uk', 'bbc.com'];
+
+const REPORTING_STYLE_ADJUSTMENTS: Record<string, number> = {
+  firsthand: 0,
+  news: 0,
+  secondhand: -10,
+  speculation: -25,
+  satire: -50
+};
+
+const URL_PATTERN = /https?:\/\/[^\s)\]]+/gi;
+
+/**
+ * Credibility of a social post
+ * Starts from 100 and subtracts for what makes a post likely to be a joke, a rumour or an old event
+ * shared again: a new or unknown account, a satire or conspiracy community, a satire site link, a
+ * date long before the post, and the model's reading of the post as speculation or satire.
+ */
+export function assessCredibility(input: CredibilityInput): CredibilityAssessment {
+  const factors = [
+    ...accountFactors(input.authorAccount, input.postedAt),
+    ...subredditFactors(input.subreddit),
+    ...domainFactors(input.url, `${input.title} ${input.content}`),
+    ...staleDateFactors(`${input.title} ${input.content}`, input.postedAt),
+    ...reportingStyleFactors(input.reportingStyle)
+  ];
+
+  const score = factors.reduce((total, factor) => total + factor.adjustment, 100);
+  return { score: Math.max(0, Math.min(100, score)), factors };
+}
+
+/**
+ * Scales a confidence by credibility: a fully credible post keeps its confidence, a post with no
+ * credibility left keeps half. Unknown credibility (older events) leaves the confidence alone.
+ */
+export function dampConfidence(confidence: number, credibilityScore: number | null): number {
+  if (credibilityScore === null) return confidence;
+  return Math.round(confidence * (0.5 + credibilityScore / 200));
+}
+
+function accountFactors(account: AuthorAccount | null, postedAt: number): CredibilityFactor[] {
+  if (!account) return [];
+  const factors: CredibilityFactor[] = [];
+
+  if (account.createdUtc !== null) {
+    const ageDays = Math.floor((postedAt - account.createdUtc) / DAY_SECONDS);
+    if (ageDays < 7) {
+      factors.push({ signal: 'account', adjustment: -20, detail: `Account was ${ageDays} days old` });
+    } else if (ageDays < 30) {
+      factors.push({ signal: 'account', adjustment: -10, detail: `Account was ${ageDays} days old` });
+    }
+  }
+  if (account.reputation !== null && account.reputation < 20) {
+    factors.push({ signal: 'account', adjustment: -10, detail: `Account reputation ${account.reputation}` });
+  }
+
+  return factors;
+}
+
+function subredditFactors(subreddit: string): CredibilityFactor[] {
+  const name = subreddit.toLowerCase();
+  if (SATIRE_SUBREDDITS.includes(name)) {
+    return [{ signal: 'subreddit', adjustment: -40, detail: `r/${subreddit} is a satire or joke community` }];
+  }
+  if (LOW_REPUTATION_SUBREDDITS.includes(name)) {
+    return [{ signal: 'subreddit', adjustment: -25, detail: `r/${subreddit} has a record of unverified claims` }];
+  }
+  if (REPUTABLE_SUBREDDITS.includes(name)) {
+    return [{ signal: 'subreddit', adjustment: 5, detail: `r/${subreddit} is a moderated news or hazard community` }];
+  }
+  return [];
+}
+
+// The post's own link plus any links in its text; one factor per kind of domain
+function domainFactors(url: string | null, text: string): CredibilityFactor[] {
+  const domains = [url, ...(text.match(URL_PATTERN) || [])]
+    .map(link => link ? linkDomain(link) : null)
+    .filter((domain): domain is string => domain !== null);
+
+  const satire = domains.find(domain => matchesDomain(domain, SATIRE_DOMAINS));
+  if (satire) {
+    return [{ signal: 'domain', adjustment: -50, detail: `Links to satire site ${satire}` }];
+  }
+  const official = domains.find(domain => matchesDomain(domain, OFFICIAL_DOMAINS));
+  if (official) {
+    return [{ signal: 'domain', adjustment: 10, detail: `Links to official or wire source ${official}` }];
+  }
+  return [];
+}
+
+// Comparisons ("worst since 1998") aren't mentioned dates, so a current report keeps its score
+function staleDateFactors(text: string, postedAt: number): CredibilityFactor[] {
+  const latest = latestMentionedDate(findMentionedDates(text));
+  if (!latest) return [];
+
+  const days = daysBefore(latest, postedAt);
+  if (days <= STALE_AFTER_DAYS) return [];
+
+  return [{
+    signal: 'stale_date',
+    // A bare year is weaker evidence than a full date
+    adjustment: latest.precision === 'year' ? -20 : -30,
+    detail: `Mentions "${latest.text}", ${days} days before the post`
+  }];
+}
+
+function reportingStyleFactors(style: AnalysisOutput['reportingStyle']): CredibilityFactor[] {
+  const adjustment = style ? REPORTING_STYLE_ADJUSTMENTS[style] : 0;
+  return adjustment ? [{ signal: 'reporting_style', adjustment, detail: `Reads as ${style}` }] : [];
+}
+
+function linkDomain(link: string): string | null {
+  try {
+    return new URL(link).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+// Exact domain or any subdomain of it
+function matchesDomain(domain: string, list: string[]): boolean {
+  return list.some(entry => domain === entry || domain.endsWith(`.${entry}`));
+}
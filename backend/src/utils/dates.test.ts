@@ -0,0 +1,74 @@
+import { daysBefore, findMentionedDates, latestMentionedDate, mentionedDateEnd } from './dates';
+
+function texts(text: string): string[] {
+  return findMentionedDates(text).map(date => date.text);
+}
+
+describe('findMentionedDates', () => {
+  it('finds full dates in the common formats', () => {
+    const dates = findMentionedDates('On March 11, 2011 (also written 2011-03-11, 3/11/2011 or 11th of March 2011)');
+
+    expect(dates.map(date => [date.text, date.precision])).toEqual([
+      ['March 11, 2011', 'day'],
+      ['2011-03-11', 'day'],
+      ['3/11/2011', 'day'],
+      ['11th of March 2011', 'day']
+    ]);
+    expect(dates.every(date => date.date.getTime() === Date.UTC(2011, 2, 11))).toBe(true);
+  });
+
+  it('finds months and years used as a point in time', () => {
+    expect(findMentionedDates('Flooding in August 2017').map(date => [date.text, date.precision])).toEqual([['August 2017', 'month']]);
+    expect(texts('Same thing happened back in 2011')).toEqual(['back in 2011']);
+    expect(texts('Remembering the 2004 tsunami')).toEqual(['2004 tsunami']);
+    expect(texts('Great Hanshin earthquake (1995)')).toEqual(['(1995)']);
+  });
+
+  it('does not match the same span twice', () => {
+    expect(texts('The quake of March 2011 was huge')).toEqual(['March 2011']);
+  });
+
+  it('skips impossible dates', () => {
+    expect(texts('Serial 13/45/2020')).toEqual([]);
+  });
+
+  it.each([
+    'Worst flooding since 1998 hits Houston, thousands evacuated',
+    'Strongest earthquake in Tokyo since 2011, buildings collapsed',
+    'Earthquake now. Worst since 1994',
+    'The most rain since records began in 1895',
+    'Biggest storm since the 1987 hurricane'
+  ])('leaves comparisons out: %s', text => {
+    expect(findMentionedDates(text)).toEqual([]);
+  });
+
+  it('keeps event dates next to a comparison', () => {
+    expect(texts('Worst since 1998, as bad as the flood of 2017')).toEqual(['of 2017']);
+  });
+});
+
+describe('latestMentionedDate and daysBefore', () => {
+  const postedAt = Math.floor(Date.parse('2026-10-19T12:00:00Z') / 1000);
+
+  it('picks the date that reaches furthest forward', () => {
+    const latest = latestMentionedDate(findMentionedDates('The 2011 quake, and again on March 3, 2026'));
+
+    expect(latest!.text).toBe('March 3, 2026');
+    expect(latestMentionedDate([])).toBeNull();
+  });
+
+  it('counts a bare year as running to its end', () => {
+    const [year] = findMentionedDates('back in 2026');
+
+    expect(mentionedDateEnd(year)).toBe(Date.UTC(2027, 0, 1));
+    expect(daysBefore(year, postedAt)).toBeLessThan(0);
+  });
+
+  it('counts whole days from the end of the mentioned date', () => {
+    const [day] = findMentionedDates('October 17, 2026');
+    const [month] = findMentionedDates('August 2026');
+
+    expect(daysBefore(day, postedAt)).toBe(1);
+    expect(daysBefore(month, postedAt)).toBe(48);
+  });
+});
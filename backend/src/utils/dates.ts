@@ -0,0 +1,98 @@
+/**
+ * Calendar dates mentioned in post text
+ * Finds explicit dates ("March 11, 2011", "2011-03-11", "3/11/2011") and years used as a point in
+ * time ("back in 2011", "the 2011 earthquake"), so a post can be placed relative to when it was written.
+ */
+
+export type DatePrecision = 'day' | 'month' | 'year';
+
+export interface MentionedDate {
+  text: string;
+  date: Date; // Start of the mentioned day, month or year (UTC)
+  precision: DatePrecision;
+}
+
+// A post whose latest mentioned date is older than this is about a past event
+export const STALE_AFTER_DAYS = 30;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+const DAY = '(\\d{1,2})(?:st|nd|rd|th)?';
+const YEAR = '((?:19|20)\\d{2})';
+const EVENT_NOUNS = 'earthquake|quake|tsunami|flood|floods|flooding|hurricane|typhoon|cyclone|tornado|wildfire|fire|fires|eruption|storm|blizzard|landslide|disaster';
+
+// "Worst flooding since 1998", "the most rain since records began in 1895": a yardstick, not the date of the event
+const COMPARISON_PREFIX = /\b(?:since|records (?:began|started)(?: in)?)\s+(?:the\s+)?$/i;
+
+// Most specific first; a span matched by one pattern is not matched again by a later one
+const DATE_PATTERNS: { pattern: RegExp; precision: DatePrecision; parse: (match: RegExpExecArray) => [number, number, number] }[] = [
+  { pattern: /\b((?:19|20)\d{2})-(\d{2})-(\d{2})\b/g, precision: 'day', parse: m => [+m[1], +m[2], +m[3]] },
+  { pattern: /\b(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})\b/g, precision: 'day', parse: m => [expandYear(m[3]), +m[1], +m[2]] },
+  { pattern: new RegExp(`\\b${MONTH}\\s+${DAY},?\\s+${YEAR}\\b`, 'gi'), precision: 'day', parse: m => [+m[3], monthNumber(m[1]), +m[2]] },
+  { pattern: new RegExp(`\\b${DAY}\\s+(?:of\\s+)?${MONTH},?\\s+${YEAR}\\b`, 'gi'), precision: 'day', parse: m => [+m[3], monthNumber(m[2]), +m[1]] },
+  { pattern: new RegExp(`\\b${MONTH},?\\s+${YEAR}\\b`, 'gi'), precision: 'month', parse: m => [+m[2], monthNumber(m[1]), 1] },
+  { pattern: new RegExp(`\\b(?:in|back in|during|from|of)\\s+${YEAR}\\b`, 'gi'), precision: 'year', parse: m => [+m[1], 1, 1] },
+  { pattern: new RegExp(`\\(${YEAR}\\)`, 'g'), precision: 'year', parse: m => [+m[1], 1, 1] },
+  { pattern: new RegExp(`\\b${YEAR}\\s+(?:${EVENT_NOUNS})\\b`, 'gi'), precision: 'year', parse: m => [+m[1], 1, 1] }
+];
+
+/**
+ * Dates the post refers to, in text order
+ * Dates used as a comparison ("since 1998") are left out, so only dates that can be the date of
+ * the event itself are returned.
+ */
+export function findMentionedDates(text: string): MentionedDate[] {
+  const found: (MentionedDate & { start: number; end: number })[] = [];
+  const comparisons: { start: number; end: number }[] = [];
+
+  for (const { pattern, precision, parse } of DATE_PATTERNS) {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      const start = match.index;
+      const end = start + match[0].length;
+      if ([...found, ...comparisons].some(span => start < span.end && end > span.start)) continue;
+      if (COMPARISON_PREFIX.test(text.slice(Math.max(0, start - 40), start))) {
+        comparisons.push({ start, end });
+        continue;
+      }
+
+      const [year, month, day] = parse(match);
+      if (month < 1 || month > 12 || day < 1 || day > 31) continue;
+
+      found.push({ text: match[0], date: new Date(Date.UTC(year, month - 1, day)), precision, start, end });
+    }
+  }
+
+  return found
+    .sort((a, b) => a.start - b.start)
+    .map(({ text, date, precision }) => ({ text, date, precision }));
+}
+
+// End of the mentioned day, month or year, in milliseconds
+export function mentionedDateEnd(date: MentionedDate): number {
+  const end = new Date(date.date);
+  if (date.precision === 'day') end.setUTCDate(end.getUTCDate() + 1);
+  if (date.precision === 'month') end.setUTCMonth(end.getUTCMonth() + 1);
+  if (date.precision === 'year') end.setUTCFullYear(end.getUTCFullYear() + 1);
+  return end.getTime();
+}
+
+// The date that reaches furthest forward; "the 2011 quake, and again on March 3, 2026" is about 2026
+export function latestMentionedDate(dates: MentionedDate[]): MentionedDate | null {
+  if (dates.length === 0) return null;
+  return dates.reduce((latest, date) => mentionedDateEnd(date) > mentionedDateEnd(latest) ? date : latest);
+}
+
+// Whole days from the end of the mentioned date to a moment (unix seconds); negative when the date is later
+export function daysBefore(date: MentionedDate, at: number): number {
+  return Math.floor((at * 1000 - mentionedDateEnd(date)) / (24 * 60 * 60 * 1000));
+}
+
+function monthNumber(name: string): number {
+  return MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+}
+
+function expandYear(value: string): number {
+  return value.length === 2 ? 2000 + parseInt(value, 10) : parseInt(value, 10);
+}
@@ -0,0 +1,47 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { RawComment, RawPost } from '../sources/types';
+import { logger } from './logger';
+
+const dynamoClient = new DynamoDBClient({ region: process.env.BEDROCK_REGION || 'us-east-1' });
+const docClient = DynamoDBDocumentClient.from(dynamoClient);
+
+export const EVENTS_TABLE_NAME = process.env.DYNAMODB_TABLE || (process.env.DYNAMODB_TABLE_PREFIX ? `${process.env.DYNAMODB_TABLE_PREFIX}-events` : undefined);
+if (!EVENTS_TABLE_NAME) {
+  logger.error('EVENTS_TABLE_NAME is undefined. Set DYNAMODB_TABLE or DYNAMODB_TABLE_PREFIX in your .env.');
+}
+
+/**
+ * Shared write path for ingested posts
+ * All ingestion sources save through here so the events table shape stays consistent
+ */
+export async function savePostToDynamoDB(post: RawPost): Promise<void> {
+  try {
+    if (!EVENTS_TABLE_NAME) {
+      throw new Error('EVENTS_TABLE_NAME is undefined (missing env: DYNAMODB_TABLE or DYNAMODB_TABLE_PREFIX)');
+    }
+    const putCommand = new PutCommand({
+      TableName: EVENTS_TABLE_NAME,
+      Item: { ...post }
+    });
+    await docClient.send(putCommand);
+  } catch (error) {
+    logger.error('Error saving post to DynamoDB:', error);
+    throw error;
+  }
+}
+
+export async function saveCommentToDynamoDB(comment: RawComment): Promise<void> {
+  try {
+    if (!EVENTS_TABLE_NAME) {
+      throw new Error('EVENTS_TABLE_NAME is undefined (missing env: DYNAMODB_TABLE or DYNAMODB_TABLE_PREFIX)');
+    }
+    await docClient.send(new PutCommand({
+      TableName: EVENTS_TABLE_NAME,
+      Item: { ...comment }
+    }));
+  } catch (error) {
+    logger.error('Error saving comment to DynamoDB:', error);
+    throw error;
+  }
+}
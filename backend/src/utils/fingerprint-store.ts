@@ -0,0 +1,134 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { BatchGetCommand, DynamoDBDocumentClient, PutCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { RawPost } from '../sources/types';
+import { ContentFingerprint, estimateSimilarity, fingerprintPost } from './content-fingerprint';
+import { EVENTS_TABLE_NAME } from './event-store';
+import { logger } from './logger';
+
+const dynamoClient = new DynamoDBClient({ region: process.env.BEDROCK_REGION || 'us-east-1' });
+const docClient = DynamoDBDocumentClient.from(dynamoClient);
+
+const FINGERPRINTS_TABLE_NAME = process.env.DYNAMODB_FINGERPRINTS_TABLE || (process.env.DYNAMODB_TABLE_PREFIX ? `${process.env.DYNAMODB_TABLE_PREFIX}-fingerprints` : undefined);
+
+// Stories older than this are allowed to come back as new posts
+const FINGERPRINT_TTL_SECONDS = 7 * 24 * 60 * 60;
+const DEFAULT_SIMILARITY_THRESHOLD = 0.6;
+
+export interface DuplicateMatch {
+  canonicalId: string;
+  matchedBy: 'url' | 'title' | 'content';
+  similarity: number;
+}
+
+/**
+ * Near-duplicate registry
+ * Only canonical posts are registered: each fingerprint key (title, URL, LSH band) maps to the
+ * canonical post ids that produced it, and post:<id> holds the MinHash signature for comparison.
+ */
+export async function findDuplicate(post: RawPost): Promise<{ match: DuplicateMatch | null; fingerprint: ContentFingerprint }> {
+  const fingerprint = fingerprintPost(post);
+  if (!FINGERPRINTS_TABLE_NAME) return { match: null, fingerprint };
+
+  const lookupKeys = [...fingerprint.urlKeys, ...(fingerprint.titleKey ? [fingerprint.titleKey] : []), ...fingerprint.bandKeys];
+  if (lookupKeys.length === 0) return { match: null, fingerprint };
+
+  const entries = await batchGetFingerprints(lookupKeys);
+  const candidatesFor = (keys: string[]) => keys.flatMap(key => entries.get(key)?.postIds || []).filter((id: string) => id !== post.id);
+
+  // Same link or same headline is a cross-post; no need to compare text
+  const urlMatch = candidatesFor(fingerprint.urlKeys)[0];
+  if (urlMatch) return { match: { canonicalId: urlMatch, matchedBy: 'url', similarity: 1 }, fingerprint };
+
+  const titleMatch = fingerprint.titleKey ? candidatesFor([fingerprint.titleKey])[0] : undefined;
+  if (titleMatch) return { match: { canonicalId: titleMatch, matchedBy: 'title', similarity: 1 }, fingerprint };
+
+  const bandCandidates = [...new Set(candidatesFor(fingerprint.bandKeys))];
+  if (bandCandidates.length === 0) return { match: null, fingerprint };
+
+  const signatures = await batchGetFingerprints(bandCandidates.map(id => `post:${id}`));
+  let best: DuplicateMatch | null = null;
+  for (const candidateId of bandCandidates) {
+    const similarity = estimateSimilarity(fingerprint.signature, signatures.get(`post:${candidateId}`)?.signature || []);
+    if (similarity >= getSimilarityThreshold() && (!best || similarity > best.similarity)) {
+      best = { canonicalId: candidateId, matchedBy: 'content', similarity };
+    }
+  }
+
+  return { match: best, fingerprint };
+}
+
+export async function registerCanonicalPost(post: RawPost, fingerprint: ContentFingerprint): Promise<void> {
+  if (!FINGERPRINTS_TABLE_NAME) return;
+
+  const ttl = Math.floor(Date.now() / 1000) + FINGERPRINT_TTL_SECONDS;
+  const keys = [...fingerprint.urlKeys, ...(fingerprint.titleKey ? [fingerprint.titleKey] : []), ...fingerprint.bandKeys];
+
+  try {
+    await docClient.send(new PutCommand({
+      TableName: FINGERPRINTS_TABLE_NAME,
+      Item: { fingerprintKey: `post:${post.id}`, signature: fingerprint.signature, ttl }
+    }));
+
+    for (const key of keys) {
+      await docClient.send(new UpdateCommand({
+        TableName: FINGERPRINTS_TABLE_NAME,
+        Key: { fingerprintKey: key },
+        UpdateExpression: 'SET postIds = list_append(if_not_exists(postIds, :emptyList), :postIds), #ttl = :ttl',
+        ExpressionAttributeNames: { '#ttl': 'ttl' },
+        ExpressionAttributeValues: { ':emptyList': [], ':postIds': [post.id], ':ttl': ttl }
+      }));
+    }
+  } catch (error) {
+    // A missed registration only means a later copy gets analyzed too
+    logger.error(`Error registering fingerprint for post ${post.id}:`, error);
+  }
+}
+
+// Duplicates still count: the canonical post records every copy as corroboration
+export async function recordDuplicateOnCanonical(canonicalId: string, duplicate: RawPost): Promise<void> {
+  if (!EVENTS_TABLE_NAME) return;
+
+  try {
+    await docClient.send(new UpdateCommand({
+      TableName: EVENTS_TABLE_NAME,
+      Key: { id: canonicalId },
+      UpdateExpression: 'SET isCanonical = :true, duplicateIds = list_append(if_not_exists(duplicateIds, :emptyList), :duplicateIds) ADD duplicateCount :one, corroboratingPlatforms :platforms',
+      ConditionExpression: 'attribute_exists(id)',
+      ExpressionAttributeValues: {
+        ':true': true,
+        ':emptyList': [],
+        ':duplicateIds': [duplicate.id],
+        ':one': 1,
+        ':platforms': new Set([duplicate.subreddit ? `${duplicate.platform}:${duplicate.subreddit}` : duplicate.platform])
+      }
+    }));
+  } catch (error) {
+    logger.error(`Error recording duplicate ${duplicate.id} on canonical post ${canonicalId}:`, error);
+  }
+}
+
+async function batchGetFingerprints(keys: string[]): Promise<Map<string, any>> {
+  const entries = new Map<string, any>();
+  const uniqueKeys = [...new Set(keys)];
+
+  // BatchGet accepts at most 100 keys per request
+  for (let i = 0; i < uniqueKeys.length; i += 100) {
+    let requestKeys: Record<string, any>[] | undefined = uniqueKeys.slice(i, i + 100).map(key => ({ fingerprintKey: key }));
+
+    while (requestKeys && requestKeys.length > 0) {
+      const result: any = await docClient.send(new BatchGetCommand({
+        RequestItems: { [FINGERPRINTS_TABLE_NAME!]: { Keys: requestKeys } }
+      }));
+      for (const item of result.Responses?.[FINGERPRINTS_TABLE_NAME!] || []) {
+        entries.set(item.fingerprintKey, item);
+      }
+      requestKeys = result.UnprocessedKeys?.[FINGERPRINTS_TABLE_NAME!]?.Keys;
+    }
+  }
+
+  return entries;
+}
+
+function getSimilarityThreshold(): number {
+  return parseFloat(process.env.DUPLICATE_SIMILARITY_THRESHOLD || String(DEFAULT_SIMILARITY_THRESHOLD));
+}
@@ -0,0 +1,199 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { EVENTS_TABLE_NAME } from './event-store';
+import { LatLng, calculateDistance } from './geo';
+import { queryOfficialEvents } from './official-event-store';
+
+const dynamoClient = new DynamoDBClient({ region: process.env.BEDROCK_REGION || 'us-east-1' });
+const docClient = DynamoDBDocumentClient.from(dynamoClient);
+
+// Long-running events (droughts) can start months before a post mentions them
+const GDACS_LOOKBACK_MS = 120 * 24 * 60 * 60 * 1000;
+// Ended events still match posts written shortly after
+const GDACS_END_GRACE_MS = 2 * 24 * 60 * 60 * 1000;
+
+// GDACS hazard codes
+export type GdacsEventType = 'EQ' | 'TC' | 'FL' | 'VO' | 'DR' | 'WF';
+
+const GDACS_DISASTER_TYPES: Record<GdacsEventType, string> = {
+  EQ: 'earthquake',
+  TC: 'cyclone',
+  FL: 'flood',
+  VO: 'volcano',
+  DR: 'drought',
+  WF: 'wildfire'
+};
+
+// Our disaster types (from the AI analysis) that each GDACS hazard confirms
+const MATCHING_DISASTER_TYPES: Record<GdacsEventType, string[]> = {
+  EQ: ['earthquake', 'tsunami'],
+  TC: ['cyclone', 'hurricane', 'typhoon', 'storm', 'flood'],
+  FL: ['flood'],
+  VO: ['volcano'],
+  DR: ['drought', 'heatwave'],
+  WF: ['wildfire']
+};
+
+// Centroids are coarse, so the match radius depends on how large the hazard typically is
+const MATCH_RADIUS_KM: Record<GdacsEventType, number> = {
+  EQ: 300,
+  TC: 800,
+  FL: 300,
+  VO: 100,
+  DR: 1000,
+  WF: 150
+};
+
+export interface GdacsEvent {
+  id: string;
+  type: 'official_event';
+  eventKind: 'gdacs';
+  gdacsEventType: GdacsEventType;
+  gdacsEventId: number;
+  episodeId: number | null;
+  disasterType: string;
+  title: string;
+  description: string;
+  location: string;
+  country: string | null;
+  iso3: string | null;
+  affectedCountries: string[];
+  coordinates: LatLng;
+  alertLevel: 'green' | 'orange' | 'red';
+  alertScore: number;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  severityText: string | null;
+  isCurrent: boolean;
+  fromTime: number;
+  toTime: number;
+  dateModified: number;
+  reportUrl: string | null;
+  created_time: string;
+  timestamp: number; // Start time, for TypeTimestampIndex lookups
+  linkedPostIds: string[];
+  linkedPostCount: number;
+  updatedAt: number;
+}
+
+// Event fields as parsed from the feed, before the store adds link bookkeeping
+export type GdacsEventRecord = Omit<GdacsEvent, 'linkedPostIds' | 'linkedPostCount' | 'updatedAt'>;
+
+/**
+ * GDACS (Global Disaster Alert and Coordination System) events
+ * Stored as official_event items (eventKind gdacs) so non-US disasters have an authoritative source.
+ */
+export function parseGdacsFeature(feature: any): GdacsEventRecord | null {
+  const properties = feature?.properties || {};
+  const gdacsEventType = properties.eventtype as GdacsEventType;
+  if (!GDACS_DISASTER_TYPES[gdacsEventType] || feature.geometry?.type !== 'Point') return null;
+
+  const [lng, lat] = feature.geometry.coordinates;
+  const fromTime = parseGdacsDate(properties.fromdate) || Date.now();
+  const alertLevel = (String(properties.alertlevel || 'green').toLowerCase()) as GdacsEvent['alertLevel'];
+
+  return {
+    id: `gdacs_${gdacsEventType}_${properties.eventid}`,
+    type: 'official_event',
+    eventKind: 'gdacs',
+    gdacsEventType,
+    gdacsEventId: Number(properties.eventid),
+    episodeId: properties.episodeid ? Number(properties.episodeid) : null,
+    disasterType: GDACS_DISASTER_TYPES[gdacsEventType],
+    title: properties.name || properties.eventname || `${GDACS_DISASTER_TYPES[gdacsEventType]} event`,
+    description: properties.description || properties.htmldescription || '',
+    location: properties.country || properties.name || 'Unknown location',
+    country: properties.country || null,
+    iso3: properties.iso3 || null,
+    affectedCountries: (properties.affectedcountries || []).map((country: any) => country.countryname).filter(Boolean),
+    coordinates: { lat, lng },
+    alertLevel,
+    alertScore: Number(properties.alertscore || 0),
+    severity: alertLevelToSeverity(alertLevel),
+    severityText: properties.severitydata?.severitytext || null,
+    isCurrent: String(properties.iscurrent) === 'true',
+    fromTime,
+    toTime: parseGdacsDate(properties.todate) || fromTime,
+    dateModified: parseGdacsDate(properties.datemodified) || fromTime,
+    reportUrl: properties.url?.report || null,
+    created_time: new Date(fromTime).toISOString(),
+    timestamp: fromTime
+  };
+}
+
+// Writes the event unless the stored copy is already at this dateModified
+export async function upsertGdacsEvent(event: GdacsEventRecord): Promise<'created' | 'updated' | 'unchanged'> {
+  if (!EVENTS_TABLE_NAME) {
+    throw new Error('EVENTS_TABLE_NAME is undefined (missing env: DYNAMODB_TABLE or DYNAMODB_TABLE_PREFIX)');
+  }
+
+  const { id, ...fields } = event;
+  const names: Record<string, string> = {};
+  const values: Record<string, any> = {
+    ':emptyList': [],
+    ':zero': 0,
+    ':now': Date.now()
+  };
+  const assignments = Object.entries(fields).map(([key, value]) => {
+    names[`#${key}`] = key;
+    values[`:${key}`] = value;
+    return `#${key} = :${key}`;
+  });
+
+  try {
+    const result = await docClient.send(new UpdateCommand({
+      TableName: EVENTS_TABLE_NAME,
+      Key: { id },
+      UpdateExpression: `SET ${assignments.join(', ')}, linkedPostIds = if_not_exists(linkedPostIds, :emptyList), linkedPostCount = if_not_exists(linkedPostCount, :zero), updatedAt = :now`,
+      ConditionExpression: 'attribute_not_exists(id) OR #dateModified < :dateModified',
+      ExpressionAttributeNames: names,
+      ExpressionAttributeValues: values,
+      ReturnValues: 'UPDATED_OLD'
+    }));
+    return result.Attributes?.gdacsEventId !== undefined ? 'updated' : 'created';
+  } catch (error: any) {
+    if (error?.name === 'ConditionalCheckFailedException') return 'unchanged';
+    throw error;
+  }
+}
+
+/**
+ * GDACS events in force at the given time that cover the point or name the post's country.
+ */
+export async function findGdacsEventsNear(coordinates: LatLng, locationName: string | null, at: number): Promise<GdacsEvent[]> {
+  const events = await queryOfficialEvents<GdacsEvent>('gdacs', at - GDACS_LOOKBACK_MS, at);
+  const normalizedName = (locationName || '').toLowerCase();
+
+  return events
+    .filter(event => event.toTime + GDACS_END_GRACE_MS >= at)
+    .filter(event => {
+      const withinRadius = calculateDistance(coordinates, event.coordinates) <= (MATCH_RADIUS_KM[event.gdacsEventType] || 300);
+      // country can be a comma-separated list for cross-border events
+      const countries = [...(event.country || '').split(','), ...(event.affectedCountries || [])].map(country => country.trim().toLowerCase());
+      const countryNamed = countries.some(country => country.length > 0 && normalizedName.includes(country));
+      return withinRadius || countryNamed;
+    })
+    .sort((a, b) => b.alertScore - a.alertScore);
+}
+
+export function gdacsEventMatchesDisasterType(event: GdacsEvent, disasterType: string | undefined): boolean {
+  if (!disasterType) return false;
+  return (MATCHING_DISASTER_TYPES[event.gdacsEventType] || []).includes(disasterType.toLowerCase());
+}
+
+function alertLevelToSeverity(alertLevel: string): 'low' | 'medium' | 'high' | 'critical' {
+  switch (alertLevel) {
+    case 'red':
+      return 'critical';
+    case 'orange':
+      return 'high';
+    default:
+      return 'low';
+  }
+}
+
+// GDACS dates are ISO strings without a zone designator, in UTC
+function parseGdacsDate(value: string | undefined): number | null {
+  if (!value) return null;
+  const time = new Date(/[zZ]|[+-]\d\d:?\d\d$/.test(value) ? value : `${value}Z`).getTime();
+  return isNaN(time) ? null : time;
+}
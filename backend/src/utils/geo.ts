@@ -0,0 +1,39 @@
+/**
+ * Geometry helpers shared by ingestion and validation
+ */
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+// Great-circle distance in kilometers
+export function calculateDistance(coord1: LatLng, coord2: LatLng): number {
+  const R = 6371; // Earth's radius in kilometers
+  const dLat = (coord2.lat - coord1.lat) * Math.PI / 180;
+  const dLng = (coord2.lng - coord1.lng) * Math.PI / 180;
+  const a = Math.sin(dLat/2) * Math.sin(dLat/2) +
+            Math.cos(coord1.lat * Math.PI / 180) * Math.cos(coord2.lat * Math.PI / 180) *
+            Math.sin(dLng/2) * Math.sin(dLng/2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
+  return R * c;
+}
+
+// Ray casting; good enough for alert-sized polygons that don't cross the antimeridian
+export function isPointInPolygon(point: LatLng, polygon: LatLng[]): boolean {
+  if (polygon.length < 3) return false;
+
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses = (a.lat > point.lat) !== (b.lat > point.lat) &&
+      point.lng < (b.lng - a.lng) * (point.lat - a.lat) / (b.lat - a.lat) + a.lng;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+export function isPointInCircle(point: LatLng, center: LatLng, radiusKm: number): boolean {
+  return calculateDistance(point, center) <= radiusKm;
+}
@@ -0,0 +1,65 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { GeocodeResult } from '../location/types';
+import { logger } from './logger';
+
+const dynamoClient = new DynamoDBClient({ region: process.env.BEDROCK_REGION || 'us-east-1' });
+const docClient = DynamoDBDocumentClient.from(dynamoClient);
+
+const GEOCODE_CACHE_TABLE_NAME = process.env.DYNAMODB_GEOCODE_CACHE_TABLE || (process.env.DYNAMODB_TABLE_PREFIX ? `${process.env.DYNAMODB_TABLE_PREFIX}-geocode-cache` : undefined);
+
+const DEFAULT_CACHE_TTL_DAYS = 90;
+const DEFAULT_NEGATIVE_CACHE_TTL_HOURS = 24;
+
+export interface CachedGeocode {
+  query: string; // Normalized place string
+  result: GeocodeResult | null; // null records that no provider found the place
+  cachedAt: number;
+  ttl: number;
+}
+
+/**
+ * Online geocoder cache
+ * Places don't move, so hits are kept for GEOCODE_CACHE_TTL_DAYS. Places no provider could find
+ * are remembered for GEOCODE_NEGATIVE_CACHE_TTL_HOURS, so the same unknown string in a burst of
+ * posts costs one lookup instead of one per post.
+ */
+export async function getCachedGeocode(query: string): Promise<CachedGeocode | null> {
+  if (!GEOCODE_CACHE_TABLE_NAME) return null;
+
+  try {
+    const result = await docClient.send(new GetCommand({
+      TableName: GEOCODE_CACHE_TABLE_NAME,
+      Key: { query }
+    }));
+    const item = result.Item as CachedGeocode | undefined;
+    // TTL deletion can lag by hours; expired entries count as misses
+    return item && item.ttl > Math.floor(Date.now() / 1000) ? item : null;
+  } catch (error) {
+    // A failed lookup only costs a geocoder request
+    logger.error(`Error reading geocode cache for "${query}":`, error);
+    return null;
+  }
+}
+
+export async function putCachedGeocode(query: string, result: GeocodeResult | null): Promise<void> {
+  if (!GEOCODE_CACHE_TABLE_NAME) return;
+
+  const ttlHours = result
+    ? parseFloat(process.env.GEOCODE_CACHE_TTL_DAYS || String(DEFAULT_CACHE_TTL_DAYS)) * 24
+    : parseFloat(process.env.GEOCODE_NEGATIVE_CACHE_TTL_HOURS || String(DEFAULT_NEGATIVE_CACHE_TTL_HOURS));
+
+  try {
+    await docClient.send(new PutCommand({
+      TableName: GEOCODE_CACHE_TABLE_NAME,
+      Item: {
+        query,
+        result,
+        cachedAt: Date.now(),
+        ttl: Math.floor(Date.now() / 1000 + ttlHours * 60 * 60)
+      }
+    }));
+  } catch (error) {
+    logger.error(`Error caching geocode for "${query}":`, error);
+  }
+}
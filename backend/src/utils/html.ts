@@ -0,0 +1,11 @@
+import * as cheerio from 'cheerio';
+
+// Plain text from an HTML fragment (feed items, Mastodon statuses), whitespace collapsed
+export function stripHtml(html: string): string {
+  if (!html) return '';
+  const $ = cheerio.load(html);
+  $('script, style').remove();
+  // Keep paragraph and line breaks as word boundaries
+  $('br, p').before(' ');
+  return $.root().text().replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,151 @@
+import {
+  agingTransition,
+  applyEvidence,
+  canTransition,
+  initialLifecycle,
+  isIncidentStatus,
+  isOngoingStatus,
+  IncidentStatus,
+  transition
+} from './incident-lifecycle';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const START = Date.parse('2026-10-19T00:00:00Z');
+
+function incident(overrides: Record<string, any> = {}): any {
+  return {
+    ...initialLifecycle({ at: START, trigger: 'evidence', actor: 'post:p1', reason: 'First report' }),
+    disasterType: 'earthquake',
+    lastSeen: START,
+    confirmed: false,
+    reportCount: 1,
+    officialEventCount: 0,
+    officialAlertCount: 0,
+    sources: ['reddit'],
+    ...overrides
+  };
+}
+
+describe('transitions', () => {
+  it('starts reported with the cause recorded', () => {
+    const subject = incident();
+
+    expect(subject.status).toBe('reported');
+    expect(subject.statusChangedAt).toBe(START);
+    expect(subject.statusHistory).toEqual([{ from: null, to: 'reported', at: START, trigger: 'evidence', actor: 'post:p1', reason: 'First report' }]);
+  });
+
+  it('allows the main lifecycle and rejects skipping or reopening by evidence', () => {
+    expect(canTransition('reported', 'confirmed')).toBe(true);
+    expect(canTransition('confirmed', 'active')).toBe(true);
+    expect(canTransition('contained', 'active')).toBe(true);
+    expect(canTransition('reported', 'active')).toBe(false);
+    expect(canTransition('resolved', 'confirmed')).toBe(false);
+    expect(canTransition('dismissed', 'active')).toBe(false);
+  });
+
+  it('records each transition and throws on invalid ones', () => {
+    const confirmed = transition(incident(), 'confirmed', { at: START + HOUR, trigger: 'operator', actor: 'dana', reason: 'Checked' });
+
+    expect(confirmed.status).toBe('confirmed');
+    expect(confirmed.statusChangedAt).toBe(START + HOUR);
+    expect(confirmed.statusHistory[1]).toEqual({ from: 'reported', to: 'confirmed', at: START + HOUR, trigger: 'operator', actor: 'dana', reason: 'Checked' });
+    expect(() => transition(confirmed, 'reported', { at: START, trigger: 'operator', actor: 'dana', reason: '' }))
+      .toThrow('Invalid incident transition confirmed -> reported');
+  });
+
+  it('keeps only the most recent history entries', () => {
+    let subject = incident({ status: 'active' });
+    for (let i = 0; i < 60; i++) {
+      const to: IncidentStatus = subject.status === 'active' ? 'contained' : 'active';
+      subject = transition(subject, to, { at: START + i, trigger: 'aging', actor: 'incident-aging', reason: '' });
+    }
+
+    expect(subject.statusHistory).toHaveLength(50);
+    expect(subject.statusHistory[49].at).toBe(START + 59);
+  });
+
+  it('recognises statuses', () => {
+    expect(isIncidentStatus('under_review')).toBe(true);
+    expect(isIncidentStatus('closed')).toBe(false);
+    expect(isOngoingStatus('active')).toBe(true);
+    expect(isOngoingStatus('contained')).toBe(false);
+  });
+});
+
+describe('applyEvidence', () => {
+  it('leaves a single unconfirmed report alone', () => {
+    expect(applyEvidence(incident(), 'post:p1', START).status).toBe('reported');
+  });
+
+  it('sends repeated unconfirmed reports to review', () => {
+    const updated = applyEvidence(incident({ reportCount: 3 }), 'post:p3', START + HOUR);
+
+    expect(updated.status).toBe('under_review');
+    expect(updated.statusHistory[1].reason).toBe('3 unconfirmed reports');
+  });
+
+  it('walks a fresh report through confirmed to active when an official source joins', () => {
+    const updated = applyEvidence(incident({ officialEventCount: 1 }), 'official_event:us7000', START + HOUR);
+
+    expect(updated.statusHistory.map((entry: any) => entry.to)).toEqual(['reported', 'confirmed', 'active']);
+    expect(updated.statusHistory[2]).toMatchObject({ trigger: 'evidence', actor: 'official_event:us7000', reason: 'Official source joined' });
+  });
+
+  it('confirms on validation and activates once a second source corroborates', () => {
+    const confirmed = applyEvidence(incident({ confirmed: true }), 'post:p2', START + HOUR);
+    expect(confirmed.status).toBe('confirmed');
+
+    const active = applyEvidence({ ...confirmed, sources: ['reddit', 'mastodon'] }, 'post:p3', START + 2 * HOUR);
+    expect(active.status).toBe('active');
+    expect(active.statusHistory[2].reason).toBe('Corroborated by 2 sources');
+  });
+
+  it('reactivates a contained incident when new reports arrive', () => {
+    const updated = applyEvidence(incident({ status: 'contained' }), 'post:p9', START + DAY);
+
+    expect(updated.status).toBe('active');
+    expect(updated.statusHistory[1].reason).toBe('New reports after containment');
+  });
+
+  it('never reopens resolved or dismissed incidents', () => {
+    expect(applyEvidence(incident({ status: 'resolved', officialEventCount: 1 }), 'post:p9', START).status).toBe('resolved');
+    expect(applyEvidence(incident({ status: 'dismissed', reportCount: 5 }), 'post:p9', START).status).toBe('dismissed');
+  });
+});
+
+describe('agingTransition', () => {
+  it('dismisses uncorroborated reports after the quiet period for their disaster type', () => {
+    const tornado = incident({ disasterType: 'tornado' });
+
+    expect(agingTransition(tornado, START + 5 * HOUR)).toBeNull();
+    expect(agingTransition(tornado, START + 6 * HOUR)).toEqual({ to: 'dismissed', reason: 'No corroborating report or official confirmation' });
+  });
+
+  it('uses a day for disaster types without their own quiet period', () => {
+    const landslide = incident({ disasterType: 'landslide' });
+
+    expect(agingTransition(landslide, START + 23 * HOUR)).toBeNull();
+    expect(agingTransition(landslide, START + DAY)?.to).toBe('dismissed');
+  });
+
+  it('keeps items under review for a week', () => {
+    const reviewing = incident({ status: 'under_review' });
+
+    expect(agingTransition(reviewing, START + 6 * DAY)).toBeNull();
+    expect(agingTransition(reviewing, START + 7 * DAY)).toEqual({ to: 'dismissed', reason: 'Review expired without new reports' });
+  });
+
+  it('contains ongoing incidents after the quiet period and resolves them after twice that', () => {
+    expect(agingTransition(incident({ status: 'active' }), START + DAY)).toEqual({ to: 'contained', reason: 'No new reports for 24 hours' });
+    expect(agingTransition(incident({ status: 'confirmed', disasterType: 'flood' }), START + 3 * DAY)).toEqual({ to: 'contained', reason: 'No new reports for 3 days' });
+    expect(agingTransition(incident({ status: 'contained' }), START + DAY)).toBeNull();
+    expect(agingTransition(incident({ status: 'contained' }), START + 2 * DAY)?.to).toBe('resolved');
+  });
+
+  it('leaves closed incidents alone', () => {
+    expect(agingTransition(incident({ status: 'resolved' }), START + 365 * DAY)).toBeNull();
+    expect(agingTransition(incident({ status: 'dismissed' }), START + 365 * DAY)).toBeNull();
+  });
+});
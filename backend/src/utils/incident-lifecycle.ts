@@ -0,0 +1,172 @@
+/**
+ * Incident lifecycle
+ * reported → under_review → confirmed → active → contained → resolved, with dismissed for reports
+ * that never check out. Every change goes through transition() so it is validated and recorded.
+ */
+
+export type IncidentStatus = 'reported' | 'under_review' | 'confirmed' | 'active' | 'contained' | 'resolved' | 'dismissed';
+
+// What caused a transition: new evidence joining, time passing, or a person
+export type TransitionTrigger = 'evidence' | 'aging' | 'operator';
+
+export interface IncidentTransition {
+  from: IncidentStatus | null; // null for the initial status
+  to: IncidentStatus;
+  at: number;
+  trigger: TransitionTrigger;
+  actor: string; // Member that joined (post:<id>, official_event:<id>), 'incident-aging' or the operator's name
+  reason: string;
+}
+
+export interface LifecycleSubject {
+  status: IncidentStatus;
+  statusChangedAt: number;
+  statusHistory: IncidentTransition[];
+}
+
+const ALLOWED_TRANSITIONS: Record<IncidentStatus, IncidentStatus[]> = {
+  reported: ['under_review', 'confirmed', 'dismissed'],
+  under_review: ['confirmed', 'dismissed'],
+  confirmed: ['active', 'contained', 'resolved', 'dismissed'],
+  active: ['contained', 'resolved'],
+  contained: ['active', 'resolved'],
+  // Only operators reopen closed incidents; new reports start a new incident instead
+  resolved: ['active'],
+  dismissed: ['under_review']
+};
+
+export const OPEN_INCIDENT_STATUSES: IncidentStatus[] = ['reported', 'under_review', 'confirmed', 'active', 'contained'];
+export const CONFIRMED_INCIDENT_STATUSES: IncidentStatus[] = ['confirmed', 'active', 'contained'];
+export const ALL_INCIDENT_STATUSES = Object.keys(ALLOWED_TRANSITIONS) as IncidentStatus[];
+
+// Unconfirmed reports from this many posts get a human look
+const REVIEW_REPORT_THRESHOLD = 3;
+// History entries kept on the item
+const MAX_HISTORY_ENTRIES = 50;
+
+// Time without new reports after which an ongoing incident counts as contained (resolved after twice this)
+const QUIET_PERIOD_MS: Record<string, number> = {
+  earthquake: 24 * 60 * 60 * 1000,
+  tsunami: 12 * 60 * 60 * 1000,
+  hurricane: 7 * 24 * 60 * 60 * 1000,
+  tornado: 6 * 60 * 60 * 1000,
+  flood: 3 * 24 * 60 * 60 * 1000,
+  wildfire: 14 * 24 * 60 * 60 * 1000,
+  volcano: 30 * 24 * 60 * 60 * 1000
+};
+const DEFAULT_QUIET_PERIOD_MS = 24 * 60 * 60 * 1000;
+// Items waiting for a reviewer are kept longer than plain unconfirmed reports
+const REVIEW_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000;
+
+export function canTransition(from: IncidentStatus, to: IncidentStatus): boolean {
+  return (ALLOWED_TRANSITIONS[from] || []).includes(to);
+}
+
+export function isIncidentStatus(value: string): value is IncidentStatus {
+  return ALL_INCIDENT_STATUSES.includes(value as IncidentStatus);
+}
+
+// Confirmed and still producing reports or official updates
+export function isOngoingStatus(status: IncidentStatus): boolean {
+  return status === 'confirmed' || status === 'active';
+}
+
+export function initialLifecycle(cause: Omit<IncidentTransition, 'from' | 'to'>): LifecycleSubject {
+  return {
+    status: 'reported',
+    statusChangedAt: cause.at,
+    statusHistory: [{ from: null, to: 'reported', ...cause }]
+  };
+}
+
+export function transition<T extends LifecycleSubject>(subject: T, to: IncidentStatus, cause: Omit<IncidentTransition, 'from' | 'to'>): T {
+  if (!canTransition(subject.status, to)) {
+    throw new Error(`Invalid incident transition ${subject.status} -> ${to}`);
+  }
+
+  return {
+    ...subject,
+    status: to,
+    statusChangedAt: cause.at,
+    statusHistory: [...(subject.statusHistory || []), { from: subject.status, to, ...cause }].slice(-MAX_HISTORY_ENTRIES)
+  };
+}
+
+/**
+ * Status an incident's evidence calls for after a member joined, walked through the allowed
+ * transitions (an official alert on a fresh report goes reported → confirmed → active).
+ */
+export function applyEvidence<T extends LifecycleSubject & EvidenceSummary>(subject: T, actor: string, at: number): T {
+  let current = subject;
+  const target = evidenceTarget(current);
+
+  for (const step of pathTo(current.status, target)) {
+    current = transition(current, step, { at, trigger: 'evidence', actor, reason: evidenceReason(current, step) });
+  }
+  return current;
+}
+
+// Aging step due at the given time, or null when the incident is still fresh
+export function agingTransition(subject: LifecycleSubject & { disasterType: string; lastSeen: number }, now: number): { to: IncidentStatus; reason: string } | null {
+  const quietFor = now - subject.lastSeen;
+  const quietPeriod = QUIET_PERIOD_MS[subject.disasterType] || DEFAULT_QUIET_PERIOD_MS;
+
+  switch (subject.status) {
+    case 'reported':
+      return quietFor >= quietPeriod ? { to: 'dismissed', reason: 'No corroborating report or official confirmation' } : null;
+    case 'under_review':
+      return quietFor >= REVIEW_EXPIRY_MS ? { to: 'dismissed', reason: 'Review expired without new reports' } : null;
+    case 'confirmed':
+    case 'active':
+      return quietFor >= quietPeriod ? { to: 'contained', reason: `No new reports for ${formatDuration(quietFor)}` } : null;
+    case 'contained':
+      return quietFor >= quietPeriod * 2 ? { to: 'resolved', reason: `No new reports for ${formatDuration(quietFor)}` } : null;
+    default:
+      return null;
+  }
+}
+
+interface EvidenceSummary {
+  confirmed: boolean;
+  reportCount: number;
+  officialEventCount: number;
+  officialAlertCount: number;
+  sources: string[];
+}
+
+function evidenceTarget(subject: LifecycleSubject & EvidenceSummary): IncidentStatus {
+  const hasOfficial = subject.officialEventCount + subject.officialAlertCount > 0;
+  // Authorities reporting it, or confirmation plus a second independent source, means it is under way
+  if (hasOfficial || (subject.confirmed && subject.sources.length >= 2)) return 'active';
+  if (subject.confirmed) return subject.status === 'contained' ? 'active' : 'confirmed';
+  if (subject.status === 'contained') return 'active';
+  if (subject.reportCount >= REVIEW_REPORT_THRESHOLD) return 'under_review';
+  return subject.status;
+}
+
+// Forward steps from one status to another along the main lifecycle; empty when already there or not forward
+function pathTo(from: IncidentStatus, to: IncidentStatus): IncidentStatus[] {
+  if (from === to || from === 'resolved' || from === 'dismissed') return [];
+  if (canTransition(from, to)) return [to];
+  if (to === 'active' && canTransition(from, 'confirmed')) return ['confirmed', 'active'];
+  return [];
+}
+
+function evidenceReason(subject: EvidenceSummary & LifecycleSubject, to: IncidentStatus): string {
+  switch (to) {
+    case 'under_review':
+      return `${subject.reportCount} unconfirmed reports`;
+    case 'confirmed':
+      return subject.officialEventCount + subject.officialAlertCount > 0 ? 'Official source joined' : 'Report confirmed by validation';
+    case 'active':
+      if (subject.status === 'contained') return 'New reports after containment';
+      return subject.officialEventCount + subject.officialAlertCount > 0 ? 'Official source joined' : `Corroborated by ${subject.sources.length} sources`;
+    default:
+      return 'Evidence changed';
+  }
+}
+
+function formatDuration(ms: number): string {
+  const hours = Math.round(ms / (60 * 60 * 1000));
+  return hours >= 48 ? `${Math.round(hours / 24)} days` : `${hours} hours`;
+}
@@ -0,0 +1,332 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, PutCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { createHash } from 'crypto';
+import { LatLng, calculateDistance } from './geo';
+import { IncidentStatus, IncidentTransition, LifecycleSubject, OPEN_INCIDENT_STATUSES, applyEvidence, initialLifecycle, transition } from './incident-lifecycle';
+import { logger } from './logger';
+
+const dynamoClient = new DynamoDBClient({ region: process.env.BEDROCK_REGION || 'us-east-1' });
+const docClient = DynamoDBDocumentClient.from(dynamoClient);
+
+export const INCIDENTS_TABLE_NAME = process.env.DYNAMODB_INCIDENTS_TABLE || (process.env.DYNAMODB_TABLE_PREFIX ? `${process.env.DYNAMODB_TABLE_PREFIX}-incidents` : undefined);
+
+// Post ids kept on the item; reportCount keeps counting past this
+const MAX_POST_IDS = 200;
+// Concurrent validator batches can race on the same incident
+const MAX_WRITE_ATTEMPTS = 3;
+
+export type IncidentSeverity = 'low' | 'medium' | 'high' | 'critical';
+const SEVERITY_ORDER: IncidentSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+// How far apart and how long after each other two reports of a type can be and still be one incident
+const CLUSTER_RULES: Record<string, { radiusKm: number; windowMs: number }> = {
+  earthquake: { radiusKm: 150, windowMs: 48 * 60 * 60 * 1000 },
+  tsunami: { radiusKm: 500, windowMs: 24 * 60 * 60 * 1000 },
+  hurricane: { radiusKm: 500, windowMs: 5 * 24 * 60 * 60 * 1000 },
+  storm: { radiusKm: 150, windowMs: 24 * 60 * 60 * 1000 },
+  tornado: { radiusKm: 50, windowMs: 12 * 60 * 60 * 1000 },
+  flood: { radiusKm: 150, windowMs: 3 * 24 * 60 * 60 * 1000 },
+  wildfire: { radiusKm: 75, windowMs: 7 * 24 * 60 * 60 * 1000 },
+  volcano: { radiusKm: 100, windowMs: 14 * 24 * 60 * 60 * 1000 },
+  landslide: { radiusKm: 50, windowMs: 3 * 24 * 60 * 60 * 1000 },
+  blizzard: { radiusKm: 300, windowMs: 3 * 24 * 60 * 60 * 1000 },
+  drought: { radiusKm: 1000, windowMs: 60 * 24 * 60 * 60 * 1000 },
+  heatwave: { radiusKm: 500, windowMs: 7 * 24 * 60 * 60 * 1000 }
+};
+const DEFAULT_CLUSTER_RULE = { radiusKm: 100, windowMs: 48 * 60 * 60 * 1000 };
+
+// Names different sources use for the same hazard
+const TYPE_ALIASES: Record<string, string> = {
+  cyclone: 'hurricane',
+  typhoon: 'hurricane',
+  'tropical storm': 'hurricane',
+  fire: 'wildfire',
+  bushfire: 'wildfire',
+  'winter storm': 'blizzard'
+};
+
+export type IncidentMemberKind = 'post' | 'official_event' | 'official_alert';
+
+// One report being clustered: an analyzed post, an ingested agency event or a CAP alert
+export interface IncidentMember {
+  kind: IncidentMemberKind;
+  id: string;
+  disasterType: string;
+  coordinates: LatLng;
+  severity: IncidentSeverity;
+  confidence: number; // 0-100
+  confirmed: boolean;
+  observedAt: number;
+  title: string | null;
+  location: string | null;
+  source: string; // Platform or agency
+}
+
+export interface Incident extends LifecycleSubject {
+  id: string;
+  disasterType: string;
+  title: string;
+  location: string | null;
+  coordinates: LatLng; // Mean of member locations until an official event pins it
+  anchoredBy: string | null; // Official member whose coordinates the incident uses
+  bounds: { north: number; south: number; east: number; west: number };
+  severity: IncidentSeverity;
+  confidence: number;
+  confirmed: boolean;
+  reportCount: number; // Social posts
+  officialEventCount: number;
+  officialAlertCount: number;
+  sources: string[];
+  postIds: string[];
+  officialEventIds: string[];
+  alertIds: string[];
+  firstSeen: number;
+  lastSeen: number;
+  createdAt: number;
+  updatedAt: number;
+  version: number;
+}
+
+/**
+ * Disaster incidents
+ * Posts, official events and alerts of the same disaster type that are close in space and time
+ * are merged into one incident item; dashboards, maps and alerts read incidents instead of posts.
+ */
+export async function assignToIncident(member: IncidentMember, options: { openIfUnmatched?: boolean } = {}): Promise<Incident | null> {
+  if (!INCIDENTS_TABLE_NAME) return null;
+
+  const disasterType = normalizeIncidentType(member.disasterType);
+  if (!disasterType) return null;
+  const normalizedMember = { ...member, disasterType };
+
+  try {
+    for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+      const candidates = await findCandidateIncidents(normalizedMember);
+
+      // Re-delivered stream records and repeated ingester runs must not count twice
+      const alreadyMember = candidates.find(incident => hasMember(incident, normalizedMember));
+      if (alreadyMember) return alreadyMember;
+
+      const target = pickClosestIncident(candidates, normalizedMember);
+      // Minor official records (small quakes, green GDACS alerts) only join incidents people already report on
+      if (!target && options.openIfUnmatched === false) return null;
+
+      const incident = target ? mergeMember(target, normalizedMember) : createIncident(normalizedMember);
+
+      try {
+        await docClient.send(new PutCommand({
+          TableName: INCIDENTS_TABLE_NAME,
+          Item: incident,
+          ConditionExpression: target ? 'version = :version' : 'attribute_not_exists(id)',
+          ExpressionAttributeValues: target ? { ':version': target.version } : undefined
+        }));
+        return incident;
+      } catch (error: any) {
+        if (error?.name !== 'ConditionalCheckFailedException') throw error;
+        logger.info(`Incident ${incident.id} changed concurrently, retrying ${member.kind} ${member.id}`);
+      }
+    }
+
+    logger.warn(`Gave up assigning ${member.kind} ${member.id} to an incident after ${MAX_WRITE_ATTEMPTS} attempts`);
+    return null;
+
+  } catch (error) {
+    // Clustering is best effort; the member itself is already stored
+    logger.error(`Error assigning ${member.kind} ${member.id} to an incident:`, error);
+    return null;
+  }
+}
+
+// Incidents in any of the given statuses last seen at or after the given time, most recent first
+export async function queryIncidents(statuses: IncidentStatus[], since: number): Promise<Incident[]> {
+  if (!INCIDENTS_TABLE_NAME) return [];
+
+  const incidents: Incident[] = [];
+
+  for (const status of statuses) {
+    let lastEvaluatedKey: Record<string, any> | undefined;
+    do {
+      const result = await docClient.send(new QueryCommand({
+        TableName: INCIDENTS_TABLE_NAME,
+        IndexName: 'StatusLastSeenIndex',
+        KeyConditionExpression: '#status = :status AND lastSeen >= :since',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: { ':status': status, ':since': since },
+        ExclusiveStartKey: lastEvaluatedKey
+      }));
+      incidents.push(...((result.Items || []) as Incident[]));
+      lastEvaluatedKey = result.LastEvaluatedKey;
+    } while (lastEvaluatedKey);
+  }
+
+  return incidents.sort((a, b) => b.lastSeen - a.lastSeen);
+}
+
+export async function getIncident(incidentId: string): Promise<Incident | null> {
+  if (!INCIDENTS_TABLE_NAME) return null;
+
+  const result = await docClient.send(new GetCommand({
+    TableName: INCIDENTS_TABLE_NAME,
+    Key: { id: incidentId }
+  }));
+  return (result.Item as Incident) || null;
+}
+
+/**
+ * Moves an incident to a new status. Throws on transitions the lifecycle doesn't allow;
+ * returns null when the incident changed since it was read, so the caller can reload and decide again.
+ */
+export async function transitionIncident(incident: Incident, to: IncidentStatus, cause: Omit<IncidentTransition, 'from' | 'to'>): Promise<Incident | null> {
+  if (!INCIDENTS_TABLE_NAME) {
+    throw new Error('INCIDENTS_TABLE_NAME is undefined (missing env: DYNAMODB_INCIDENTS_TABLE or DYNAMODB_TABLE_PREFIX)');
+  }
+
+  const updated: Incident = {
+    ...transition(incident, to, cause),
+    updatedAt: Date.now(),
+    version: incident.version + 1
+  };
+
+  try {
+    await docClient.send(new PutCommand({
+      TableName: INCIDENTS_TABLE_NAME,
+      Item: updated,
+      ConditionExpression: 'version = :version',
+      ExpressionAttributeValues: { ':version': incident.version }
+    }));
+    return updated;
+  } catch (error: any) {
+    if (error?.name === 'ConditionalCheckFailedException') return null;
+    throw error;
+  }
+}
+
+function normalizeIncidentType(disasterType: string | null | undefined): string | null {
+  const type = (disasterType || '').toLowerCase().trim();
+  if (!type || type === 'other' || type === 'null') return null;
+  return TYPE_ALIASES[type] || type;
+}
+
+function getClusterRule(disasterType: string): { radiusKm: number; windowMs: number } {
+  return CLUSTER_RULES[disasterType] || DEFAULT_CLUSTER_RULE;
+}
+
+function maxSeverity(a: IncidentSeverity, b: IncidentSeverity): IncidentSeverity {
+  return SEVERITY_ORDER.indexOf(b) > SEVERITY_ORDER.indexOf(a) ? b : a;
+}
+
+async function findCandidateIncidents(member: IncidentMember): Promise<Incident[]> {
+  const { windowMs } = getClusterRule(member.disasterType);
+  // Resolved and dismissed incidents stay closed; a new report after that starts a new incident
+  const recent = await queryIncidents(OPEN_INCIDENT_STATUSES, member.observedAt - windowMs);
+
+  return recent.filter(incident =>
+    incident.disasterType === member.disasterType &&
+    member.observedAt >= incident.firstSeen - windowMs
+  );
+}
+
+function pickClosestIncident(candidates: Incident[], member: IncidentMember): Incident | null {
+  const { radiusKm } = getClusterRule(member.disasterType);
+  let closest: Incident | null = null;
+  let closestDistance = Infinity;
+
+  for (const incident of candidates) {
+    const distance = calculateDistance(incident.coordinates, member.coordinates);
+    if (distance <= radiusKm && distance < closestDistance) {
+      closest = incident;
+      closestDistance = distance;
+    }
+  }
+
+  return closest;
+}
+
+function hasMember(incident: Incident, member: IncidentMember): boolean {
+  const ids = member.kind === 'post' ? incident.postIds : member.kind === 'official_event' ? incident.officialEventIds : incident.alertIds;
+  return (ids || []).includes(member.id);
+}
+
+function createIncident(member: IncidentMember): Incident {
+  const now = Date.now();
+  const isOfficial = member.kind !== 'post';
+  const actor = `${member.kind}:${member.id}`;
+
+  const incident: Incident = {
+    ...initialLifecycle({ at: now, trigger: 'evidence', actor, reason: 'First report' }),
+    id: `incident_${member.disasterType}_${createHash('sha1').update(`${member.kind}|${member.id}`).digest('hex').slice(0, 16)}`,
+    disasterType: member.disasterType,
+    title: member.title || `${member.disasterType} reported${member.location ? ` near ${member.location}` : ''}`,
+    location: member.location,
+    coordinates: member.coordinates,
+    anchoredBy: member.kind === 'official_event' ? member.id : null,
+    bounds: { north: member.coordinates.lat, south: member.coordinates.lat, east: member.coordinates.lng, west: member.coordinates.lng },
+    severity: member.severity,
+    confidence: member.confidence,
+    confirmed: member.confirmed || isOfficial,
+    reportCount: member.kind === 'post' ? 1 : 0,
+    officialEventCount: member.kind === 'official_event' ? 1 : 0,
+    officialAlertCount: member.kind === 'official_alert' ? 1 : 0,
+    sources: [member.source],
+    postIds: member.kind === 'post' ? [member.id] : [],
+    officialEventIds: member.kind === 'official_event' ? [member.id] : [],
+    alertIds: member.kind === 'official_alert' ? [member.id] : [],
+    firstSeen: member.observedAt,
+    lastSeen: member.observedAt,
+    createdAt: now,
+    updatedAt: now,
+    version: 1
+  };
+
+  return applyEvidence(incident, actor, now);
+}
+
+function mergeMember(incident: Incident, member: IncidentMember): Incident {
+  const memberCount = incident.reportCount + incident.officialEventCount + incident.officialAlertCount;
+  const isOfficial = member.kind !== 'post';
+  // An agency epicentre beats any average of geocoded place names
+  const anchorsIncident = member.kind === 'official_event' && !incident.anchoredBy;
+
+  const coordinates = anchorsIncident
+    ? member.coordinates
+    : incident.anchoredBy
+      ? incident.coordinates
+      : {
+        lat: incident.coordinates.lat + (member.coordinates.lat - incident.coordinates.lat) / (memberCount + 1),
+        lng: incident.coordinates.lng + (member.coordinates.lng - incident.coordinates.lng) / (memberCount + 1)
+      };
+
+  // Official wording replaces whatever the first post happened to say
+  const takesOfficialTitle = isOfficial && incident.officialEventCount === 0 && incident.officialAlertCount === 0;
+  const now = Date.now();
+
+  const merged: Incident = {
+    ...incident,
+    title: takesOfficialTitle && member.title ? member.title : incident.title,
+    location: (takesOfficialTitle && member.location) || incident.location || member.location,
+    coordinates,
+    anchoredBy: anchorsIncident ? member.id : incident.anchoredBy,
+    bounds: {
+      north: Math.max(incident.bounds.north, member.coordinates.lat),
+      south: Math.min(incident.bounds.south, member.coordinates.lat),
+      east: Math.max(incident.bounds.east, member.coordinates.lng),
+      west: Math.min(incident.bounds.west, member.coordinates.lng)
+    },
+    severity: maxSeverity(incident.severity, member.severity),
+    confidence: Math.max(incident.confidence, member.confidence),
+    confirmed: incident.confirmed || member.confirmed || isOfficial,
+    reportCount: incident.reportCount + (member.kind === 'post' ? 1 : 0),
+    officialEventCount: incident.officialEventCount + (member.kind === 'official_event' ? 1 : 0),
+    officialAlertCount: incident.officialAlertCount + (member.kind === 'official_alert' ? 1 : 0),
+    sources: [...new Set([...incident.sources, member.source])],
+    postIds: member.kind === 'post' ? [member.id, ...incident.postIds].slice(0, MAX_POST_IDS) : incident.postIds,
+    officialEventIds: member.kind === 'official_event' ? [...incident.officialEventIds, member.id] : incident.officialEventIds,
+    alertIds: member.kind === 'official_alert' ? [...incident.alertIds, member.id] : incident.alertIds,
+    firstSeen: Math.min(incident.firstSeen, member.observedAt),
+    lastSeen: Math.max(incident.lastSeen, member.observedAt),
+    updatedAt: now,
+    version: incident.version + 1
+  };
+
+  return applyEvidence(merged, `${member.kind}:${member.id}`, now);
+}
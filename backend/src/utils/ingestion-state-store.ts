@@ -0,0 +1,60 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { SourceCursor, SourceRunStats } from '../sources/types';
+import { logger } from './logger';
+
+const dynamoClient = new DynamoDBClient({ region: process.env.BEDROCK_REGION || 'us-east-1' });
+const docClient = DynamoDBDocumentClient.from(dynamoClient);
+
+const INGESTION_STATE_TABLE_NAME = process.env.DYNAMODB_INGESTION_STATE_TABLE || (process.env.DYNAMODB_TABLE_PREFIX ? `${process.env.DYNAMODB_TABLE_PREFIX}-ingestion-state` : undefined);
+
+/**
+ * Persisted ingestion cursors
+ * One item per source holding where the previous run stopped, so runs only fetch new items
+ */
+export async function loadSourceCursor(sourceName: string): Promise<SourceCursor | null> {
+  if (!INGESTION_STATE_TABLE_NAME) {
+    logger.warn('Ingestion state table not configured, starting without a cursor');
+    return null;
+  }
+
+  try {
+    const result = await docClient.send(new GetCommand({
+      TableName: INGESTION_STATE_TABLE_NAME,
+      Key: { sourceId: sourceName }
+    }));
+    return result.Item?.cursor || null;
+  } catch (error) {
+    // A missing cursor only costs a full re-read, so never fail the run over it
+    logger.error(`Error loading cursor for source ${sourceName}:`, error);
+    return null;
+  }
+}
+
+export async function saveSourceCursor(
+  sourceName: string,
+  cursor: SourceCursor | null,
+  stats: Pick<SourceRunStats, 'fetched' | 'saved' | 'skippedByCursor' | 'errors' | 'durationMs'>
+): Promise<void> {
+  if (!INGESTION_STATE_TABLE_NAME || !cursor) return;
+
+  try {
+    await docClient.send(new PutCommand({
+      TableName: INGESTION_STATE_TABLE_NAME,
+      Item: {
+        sourceId: sourceName,
+        cursor,
+        updatedAt: Date.now(),
+        lastRun: {
+          fetched: stats.fetched,
+          saved: stats.saved,
+          skippedByCursor: stats.skippedByCursor,
+          errorCount: stats.errors.length,
+          durationMs: stats.durationMs
+        }
+      }
+    }));
+  } catch (error) {
+    logger.error(`Error saving cursor for source ${sourceName}:`, error);
+  }
+}
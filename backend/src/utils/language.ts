@@ -0,0 +1,58 @@
+/**
+ * Lightweight language detection for ingested posts
+ * Script ranges settle Japanese; Latin-script languages are told apart by counting common
+ * function words. Good enough to pick keyword dictionaries and decide whether to translate.
+ */
+
+// Languages with keyword dictionaries; anything else is scored with the English keywords only
+export const SUPPORTED_LANGUAGES = ['en', 'es', 'it', 'tr', 'ja'];
+
+export const UNKNOWN_LANGUAGE = 'und';
+
+const KANA_PATTERN = /[\u3040-\u30ff]/;
+const HAN_PATTERN = /[\u4e00-\u9fff]/;
+const HANGUL_PATTERN = /[\uac00-\ud7af]/;
+const CYRILLIC_PATTERN = /[\u0400-\u04ff]/;
+const TURKISH_LETTERS_PATTERN = /[ğış]/;
+
+// Common words that are rare in the other profiles; shared ones ("la", "di", "con") are left out
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'was', 'are', 'of', 'to', 'for', 'with', 'this', 'that', 'have', 'from', 'just', 'there'],
+  es: ['el', 'los', 'las', 'que', 'y', 'en', 'por', 'del', 'se', 'es', 'está', 'muy', 'hay', 'pero', 'como', 'para'],
+  it: ['il', 'gli', 'che', 'e', 'è', 'per', 'della', 'delle', 'non', 'sono', 'nel', 'alla', 'anche', 'molto', 'ci'],
+  tr: ['ve', 'bir', 'bu', 'için', 'ile', 'çok', 'daha', 'gibi', 'olan', 'ama', 'şu', 'var', 'yok', 'mi', 'oldu']
+};
+
+// Fewer stopword hits than this is too little evidence to call a language
+const MIN_STOPWORD_HITS = 2;
+
+export function detectLanguage(text: string): string {
+  if (KANA_PATTERN.test(text)) return 'ja';
+  if (HANGUL_PATTERN.test(text)) return 'ko';
+  if (HAN_PATTERN.test(text)) return 'zh';
+  if (CYRILLIC_PATTERN.test(text)) return 'ru';
+
+  const tokens = text.toLowerCase().split(/[^\p{L}]+/u).filter(Boolean);
+  const scores = Object.entries(STOPWORDS).map(([language, words]) => ({
+    language,
+    hits: tokens.filter(token => words.includes(token)).length
+  }));
+  // Dotless i, g-breve and s-cedilla only occur in Turkish among the supported languages
+  if (TURKISH_LETTERS_PATTERN.test(text.toLowerCase())) {
+    scores.find(score => score.language === 'tr')!.hits += MIN_STOPWORD_HITS;
+  }
+
+  const best = scores.reduce((top, score) => score.hits > top.hits ? score : top);
+  return best.hits >= MIN_STOPWORD_HITS ? best.language : UNKNOWN_LANGUAGE;
+}
+
+/**
+ * Language for a post: the platform's own tag when it has one ("es-MX" becomes "es"), detection otherwise
+ */
+export function resolveLanguage(declared: string | null | undefined, text: string): string {
+  const primary = (declared || '').toLowerCase().split(/[-_]/)[0];
+  if (/^[a-z]{2,3}$/.test(primary) && primary !== UNKNOWN_LANGUAGE) {
+    return primary;
+  }
+  return detectLanguage(text);
+}
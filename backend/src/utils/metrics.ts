@@ -0,0 +1,32 @@
+/**
+ * CloudWatch metrics via the Embedded Metric Format
+ * Lambda ships stdout to CloudWatch Logs, which extracts any line in EMF as a metric,
+ * so counting something needs no SDK client or extra API call.
+ */
+
+const DEFAULT_NAMESPACE = 'SmartEAS';
+
+export type MetricUnit = 'Count' | 'Milliseconds' | 'None';
+
+export function recordMetric(name: string, value: number, dimensions: Record<string, string> = {}, unit: MetricUnit = 'Count'): void {
+  // Offline tools (the evaluation CLI) turn metrics off to keep their output readable
+  if (process.env.METRICS_DISABLED === 'true') return;
+
+  const entry = {
+    _aws: {
+      Timestamp: Date.now(),
+      CloudWatchMetrics: [
+        {
+          Namespace: process.env.METRICS_NAMESPACE || DEFAULT_NAMESPACE,
+          Dimensions: [Object.keys(dimensions)],
+          Metrics: [{ Name: name, Unit: unit }]
+        }
+      ]
+    },
+    ...dimensions,
+    [name]: value
+  };
+
+  // Written directly: the logger's formatting would stop CloudWatch from recognizing the line
+  console.log(JSON.stringify(entry));
+}
@@ -0,0 +1,193 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, PutCommand, ScanCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { createHash } from 'crypto';
+import { CapAlert, CapInfo, mapCapSeverity } from './cap-parser';
+import { LatLng, isPointInCircle, isPointInPolygon } from './geo';
+import { logger } from './logger';
+
+const dynamoClient = new DynamoDBClient({ region: process.env.BEDROCK_REGION || 'us-east-1' });
+const docClient = DynamoDBDocumentClient.from(dynamoClient);
+
+export const ALERTS_TABLE_NAME = process.env.DYNAMODB_ALERTS_TABLE || (process.env.DYNAMODB_TABLE_PREFIX ? `${process.env.DYNAMODB_TABLE_PREFIX}-alerts` : undefined);
+
+// Alerts without an <expires> are treated as live for this long after they were sent
+const DEFAULT_ALERT_LIFETIME_MS = 24 * 60 * 60 * 1000;
+
+export interface StoredOfficialAlert {
+  id: string;
+  type: 'OFFICIAL';
+  alertSource: string;
+  capIdentifier: string;
+  sender: string;
+  senderName: string | null;
+  msgType: string;
+  event: string;
+  category: string[];
+  urgency: string;
+  certainty: string;
+  capSeverity: string;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  title: string;
+  message: string;
+  instruction: string | null;
+  web: string | null;
+  language: string;
+  areas: any[];
+  sentAt: number;
+  effectiveAt: number;
+  expiresAt: number;
+  timestamp: number;
+  isActive: boolean;
+  feedUrl: string;
+  ingestedAt: number;
+  ttl: number;
+}
+
+/**
+ * Official CAP alert store
+ * CAP messages are kept in the alerts table next to the app's own alerts (type OFFICIAL),
+ * so validation can match events against them without calling external APIs.
+ */
+export function capAlertId(sender: string, identifier: string): string {
+  // identifier is only unique per sender
+  return `cap_${createHash('sha1').update(`${sender}|${identifier}`).digest('hex').slice(0, 24)}`;
+}
+
+export function toStoredOfficialAlert(alert: CapAlert, feedUrl: string): StoredOfficialAlert | null {
+  const info = pickPrimaryInfo(alert.infos);
+  if (!info) return null;
+
+  const sentAt = parseTime(alert.sent) || Date.now();
+  const effectiveAt = parseTime(info.onset) || parseTime(info.effective) || sentAt;
+  const expiresAt = parseTime(info.expires) || sentAt + DEFAULT_ALERT_LIFETIME_MS;
+
+  return {
+    id: capAlertId(alert.sender, alert.identifier),
+    type: 'OFFICIAL',
+    alertSource: 'cap',
+    capIdentifier: alert.identifier,
+    sender: alert.sender,
+    senderName: info.senderName,
+    msgType: alert.msgType,
+    event: info.event,
+    category: info.category,
+    urgency: info.urgency,
+    certainty: info.certainty,
+    capSeverity: info.severity,
+    severity: mapCapSeverity(info.severity),
+    title: info.headline || info.event,
+    message: info.description || info.headline || info.event,
+    instruction: info.instruction,
+    web: info.web,
+    language: info.language,
+    // Areas from every language block; translations usually repeat the same geometry
+    areas: dedupeAreas(alert.infos.flatMap(i => i.areas)),
+    sentAt,
+    effectiveAt,
+    expiresAt,
+    timestamp: sentAt,
+    isActive: expiresAt > Date.now(),
+    feedUrl,
+    ingestedAt: Date.now(),
+    ttl: Math.floor(expiresAt / 1000) + (7 * 24 * 60 * 60) // Keep 7 days past expiry
+  };
+}
+
+export async function saveOfficialAlert(alert: StoredOfficialAlert): Promise<void> {
+  try {
+    if (!ALERTS_TABLE_NAME) {
+      throw new Error('ALERTS_TABLE_NAME is undefined (missing env: DYNAMODB_ALERTS_TABLE or DYNAMODB_TABLE_PREFIX)');
+    }
+    await docClient.send(new PutCommand({
+      TableName: ALERTS_TABLE_NAME,
+      Item: { ...alert }
+    }));
+  } catch (error) {
+    logger.error(`Error saving official alert ${alert.id}:`, error);
+    throw error;
+  }
+}
+
+// Update and Cancel messages retire the alerts they reference
+export async function deactivateReferencedAlerts(alert: CapAlert): Promise<number> {
+  if (!ALERTS_TABLE_NAME || (alert.msgType !== 'Update' && alert.msgType !== 'Cancel')) return 0;
+
+  let deactivated = 0;
+  for (const reference of alert.references) {
+    try {
+      await docClient.send(new UpdateCommand({
+        TableName: ALERTS_TABLE_NAME,
+        Key: { id: capAlertId(reference.sender, reference.identifier) },
+        UpdateExpression: 'SET isActive = :inactive, supersededBy = :supersededBy, supersededAt = :now',
+        ConditionExpression: 'attribute_exists(id)',
+        ExpressionAttributeValues: {
+          ':inactive': false,
+          ':supersededBy': capAlertId(alert.sender, alert.identifier),
+          ':now': Date.now()
+        }
+      }));
+      deactivated++;
+    } catch (error: any) {
+      // Referenced alert was never ingested; nothing to retire
+      if (error?.name !== 'ConditionalCheckFailedException') {
+        logger.error(`Error deactivating referenced alert ${reference.identifier}:`, error);
+      }
+    }
+  }
+  return deactivated;
+}
+
+/**
+ * Official alerts that were in force at the given time and cover the point.
+ * Areas without geometry (geocode-only) fall back to matching the location name against areaDesc.
+ */
+export async function findOfficialAlertsForLocation(coordinates: LatLng, locationName: string | null, at: number): Promise<StoredOfficialAlert[]> {
+  if (!ALERTS_TABLE_NAME) return [];
+
+  const candidates: StoredOfficialAlert[] = [];
+  let lastEvaluatedKey: Record<string, any> | undefined;
+
+  do {
+    const result = await docClient.send(new ScanCommand({
+      TableName: ALERTS_TABLE_NAME,
+      FilterExpression: '#type = :official AND expiresAt >= :at AND effectiveAt <= :at AND msgType <> :cancel',
+      ExpressionAttributeNames: { '#type': 'type' },
+      ExpressionAttributeValues: { ':official': 'OFFICIAL', ':at': at, ':cancel': 'Cancel' },
+      ExclusiveStartKey: lastEvaluatedKey
+    }));
+    candidates.push(...((result.Items || []) as StoredOfficialAlert[]));
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  const normalizedName = (locationName || '').toLowerCase().trim();
+
+  return candidates.filter(alert => (alert.areas || []).some((area: any) => {
+    if (area.polygons?.some((polygon: LatLng[]) => isPointInPolygon(coordinates, polygon))) return true;
+    if (area.circles?.some((circle: any) => isPointInCircle(coordinates, circle.center, circle.radiusKm))) return true;
+
+    const hasGeometry = (area.polygons?.length || 0) > 0 || (area.circles?.length || 0) > 0;
+    return !hasGeometry && normalizedName.length >= 3 && (area.areaDesc || '').toLowerCase().includes(normalizedName);
+  }));
+}
+
+// Prefer English when the sender publishes several languages
+function pickPrimaryInfo(infos: CapInfo[]): CapInfo | null {
+  if (infos.length === 0) return null;
+  return infos.find(info => info.language.toLowerCase().startsWith('en')) || infos[0];
+}
+
+function dedupeAreas(areas: any[]): any[] {
+  const seen = new Set<string>();
+  return areas.filter(area => {
+    const key = JSON.stringify([area.polygons, area.circles, area.geocodes]);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function parseTime(value: string | null): number | null {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return isNaN(time) ? null : time;
+}
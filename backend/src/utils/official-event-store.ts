@@ -0,0 +1,59 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { EVENTS_TABLE_NAME } from './event-store';
+import { logger } from './logger';
+
+const dynamoClient = new DynamoDBClient({ region: process.env.BEDROCK_REGION || 'us-east-1' });
+const docClient = DynamoDBDocumentClient.from(dynamoClient);
+
+/**
+ * Shared access to official_event items in the events table
+ * Each agency feed (USGS/EMSC earthquakes, GDACS, ...) stores its events with an eventKind
+ * and a timestamp equal to the event's start, so they can be looked up through TypeTimestampIndex.
+ */
+export async function queryOfficialEvents<T>(eventKind: string, from: number, to: number): Promise<T[]> {
+  if (!EVENTS_TABLE_NAME) return [];
+
+  const events: T[] = [];
+  let lastEvaluatedKey: Record<string, any> | undefined;
+
+  do {
+    const result = await docClient.send(new QueryCommand({
+      TableName: EVENTS_TABLE_NAME,
+      IndexName: 'TypeTimestampIndex',
+      KeyConditionExpression: '#type = :type AND #timestamp BETWEEN :from AND :to',
+      FilterExpression: 'eventKind = :eventKind',
+      ExpressionAttributeNames: { '#type': 'type', '#timestamp': 'timestamp' },
+      ExpressionAttributeValues: { ':type': 'official_event', ':eventKind': eventKind, ':from': from, ':to': to },
+      ExclusiveStartKey: lastEvaluatedKey
+    }));
+    events.push(...((result.Items || []) as T[]));
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  return events;
+}
+
+// Records the post on the official event; the post side (linkedOfficialEventId) is written by the validator
+export async function linkPostToOfficialEvent(officialEventId: string, postId: string): Promise<void> {
+  if (!EVENTS_TABLE_NAME) return;
+
+  try {
+    await docClient.send(new UpdateCommand({
+      TableName: EVENTS_TABLE_NAME,
+      Key: { id: officialEventId },
+      UpdateExpression: 'SET linkedPostIds = list_append(if_not_exists(linkedPostIds, :emptyList), :postIds) ADD linkedPostCount :one',
+      ConditionExpression: 'attribute_exists(id) AND NOT contains(linkedPostIds, :postId)',
+      ExpressionAttributeValues: {
+        ':emptyList': [],
+        ':postIds': [postId],
+        ':postId': postId,
+        ':one': 1
+      }
+    }));
+  } catch (error: any) {
+    // Already linked on an earlier validation pass
+    if (error?.name === 'ConditionalCheckFailedException') return;
+    logger.error(`Error linking post ${postId} to official event ${officialEventId}:`, error);
+  }
+}
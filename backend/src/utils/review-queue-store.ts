@@ -0,0 +1,174 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, PutCommand, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { LabeledExample } from '../eval/dataset';
+import { logger } from './logger';
+
+const dynamoClient = new DynamoDBClient({ region: process.env.BEDROCK_REGION || 'us-east-1' });
+const docClient = DynamoDBDocumentClient.from(dynamoClient);
+
+const REVIEW_QUEUE_TABLE_NAME = process.env.DYNAMODB_REVIEW_QUEUE_TABLE || (process.env.DYNAMODB_TABLE_PREFIX ? `${process.env.DYNAMODB_TABLE_PREFIX}-review-queue` : undefined);
+
+// AI confidence the validator needs before it checks a disaster against official sources
+const DEFAULT_VALIDATION_MIN_CONFIDENCE = 60;
+// Disasters the AI is less sure of than this are left alone; between this and the validation cut-off a person decides
+const DEFAULT_REVIEW_MIN_CONFIDENCE = 40;
+
+export type ReviewReason =
+  | 'borderline_confidence' // AI called it a disaster, but not confidently enough to validate
+  | 'validation_conflict' // AI was confident, official sources didn't confirm
+  | 'location_unresolved'; // No coordinates, so it could not be validated or clustered
+
+export type ReviewStatus = 'pending' | 'decided';
+export type ReviewDecisionType = 'confirm' | 'reject' | 'relabel';
+
+// What the pipeline concluded about an event, as shown to the reviewer
+export interface ReviewCandidate {
+  eventId: string;
+  reason: ReviewReason;
+  title: string;
+  content: string;
+  subreddit: string;
+  platform: string;
+  url: string | null;
+  aiDisasterType: string | null;
+  aiSeverity: string | null;
+  aiLocation: string | null;
+  aiConfidence: number;
+  validationConfidence: number | null;
+  incidentId: string | null;
+}
+
+export interface ReviewDecision {
+  decision: ReviewDecisionType;
+  reviewer: string;
+  notes: string | null;
+  decidedAt: number;
+}
+
+export interface ReviewItem extends ReviewCandidate {
+  status: ReviewStatus;
+  enqueuedAt: number;
+  decision: ReviewDecision | null;
+  label: LabeledExample | null; // The reviewer's answer in evaluation dataset format
+  applied?: boolean; // False while the decision is recorded but the event and incident don't reflect it yet
+}
+
+export function getValidationMinConfidence(): number {
+  return parseFloat(process.env.VALIDATION_MIN_AI_CONFIDENCE || String(DEFAULT_VALIDATION_MIN_CONFIDENCE));
+}
+
+// Disasters the validator won't look at but the AI didn't rule out either
+export function isBorderlineConfidence(confidence: number): boolean {
+  const reviewMin = parseFloat(process.env.REVIEW_MIN_AI_CONFIDENCE || String(DEFAULT_REVIEW_MIN_CONFIDENCE));
+  return confidence >= reviewMin && confidence <= getValidationMinConfidence();
+}
+
+/**
+ * Human review queue
+ * One item per event. A pending item is refreshed when the event is queued again; once a reviewer
+ * decided, the item is kept as labeled data and never re-queued.
+ */
+export async function enqueueForReview(candidate: ReviewCandidate): Promise<void> {
+  if (!REVIEW_QUEUE_TABLE_NAME) return;
+
+  const item: ReviewItem = {
+    ...candidate,
+    status: 'pending',
+    enqueuedAt: Date.now(),
+    decision: null,
+    label: null
+  };
+
+  try {
+    await docClient.send(new PutCommand({
+      TableName: REVIEW_QUEUE_TABLE_NAME,
+      Item: item,
+      ConditionExpression: 'attribute_not_exists(eventId) OR #status = :pending',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: { ':pending': 'pending' }
+    }));
+    logger.info(`Queued event ${candidate.eventId} for review (${candidate.reason})`);
+  } catch (error: any) {
+    if (error?.name === 'ConditionalCheckFailedException') return;
+    // Review is best effort; the event itself is already stored
+    logger.error(`Error queueing event ${candidate.eventId} for review:`, error);
+  }
+}
+
+export async function getReviewItem(eventId: string): Promise<ReviewItem | null> {
+  if (!REVIEW_QUEUE_TABLE_NAME) return null;
+
+  const result = await docClient.send(new GetCommand({
+    TableName: REVIEW_QUEUE_TABLE_NAME,
+    Key: { eventId }
+  }));
+  return (result.Item as ReviewItem) || null;
+}
+
+// Pending items oldest first, decided items most recently queued first; every item when no limit is given
+export async function listReviewItems(status: ReviewStatus, limit?: number): Promise<ReviewItem[]> {
+  if (!REVIEW_QUEUE_TABLE_NAME) return [];
+
+  const items: ReviewItem[] = [];
+  let lastEvaluatedKey: Record<string, any> | undefined;
+
+  do {
+    const result = await docClient.send(new QueryCommand({
+      TableName: REVIEW_QUEUE_TABLE_NAME,
+      IndexName: 'StatusEnqueuedIndex',
+      KeyConditionExpression: '#status = :status',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: { ':status': status },
+      ScanIndexForward: status === 'pending',
+      Limit: limit !== undefined ? limit - items.length : undefined,
+      ExclusiveStartKey: lastEvaluatedKey
+    }));
+    items.push(...((result.Items || []) as ReviewItem[]));
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey && (limit === undefined || items.length < limit));
+
+  return items;
+}
+
+/**
+ * Stores a reviewer's decision and label, not yet applied. Returns null when the item was decided
+ * in the meantime, so two reviewers can't both act on the same event.
+ */
+export async function recordReviewDecision(eventId: string, decision: ReviewDecision, label: LabeledExample): Promise<ReviewItem | null> {
+  if (!REVIEW_QUEUE_TABLE_NAME) {
+    throw new Error('REVIEW_QUEUE_TABLE_NAME is undefined (missing env: DYNAMODB_REVIEW_QUEUE_TABLE or DYNAMODB_TABLE_PREFIX)');
+  }
+
+  try {
+    const result = await docClient.send(new UpdateCommand({
+      TableName: REVIEW_QUEUE_TABLE_NAME,
+      Key: { eventId },
+      UpdateExpression: 'SET #status = :decided, #decision = :decision, #label = :label, applied = :false',
+      ConditionExpression: '#status = :pending',
+      ExpressionAttributeNames: { '#status': 'status', '#decision': 'decision', '#label': 'label' },
+      ExpressionAttributeValues: { ':decided': 'decided', ':pending': 'pending', ':decision': decision, ':label': label, ':false': false },
+      ReturnValues: 'ALL_NEW'
+    }));
+    return result.Attributes as ReviewItem;
+  } catch (error: any) {
+    if (error?.name === 'ConditionalCheckFailedException') return null;
+    throw error;
+  }
+}
+
+// Decided items without the flag predate it and were applied in the same request
+export function isDecisionUnapplied(item: ReviewItem): boolean {
+  return item.status === 'decided' && item.applied === false;
+}
+
+// Called once the event and its incident carry the decision
+export async function markReviewApplied(eventId: string): Promise<void> {
+  if (!REVIEW_QUEUE_TABLE_NAME) return;
+
+  await docClient.send(new UpdateCommand({
+    TableName: REVIEW_QUEUE_TABLE_NAME,
+    Key: { eventId },
+    UpdateExpression: 'SET applied = :true',
+    ExpressionAttributeValues: { ':true': true }
+  }));
+}
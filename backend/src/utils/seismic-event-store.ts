@@ -0,0 +1,181 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { EVENTS_TABLE_NAME } from './event-store';
+import { LatLng, calculateDistance } from './geo';
+import { queryOfficialEvents } from './official-event-store';
+
+const dynamoClient = new DynamoDBClient({ region: process.env.BEDROCK_REGION || 'us-east-1' });
+const docClient = DynamoDBDocumentClient.from(dynamoClient);
+
+// Two agency solutions describe the same earthquake when they are this close
+const MERGE_TIME_WINDOW_MS = 60 * 1000;
+const MERGE_DISTANCE_KM = 100;
+const MERGE_MAGNITUDE_DELTA = 1.0;
+
+export type SeismicAgency = 'usgs' | 'emsc';
+
+// One agency's solution for an earthquake
+export interface AgencyQuake {
+  agency: SeismicAgency;
+  agencyId: string;
+  magnitude: number;
+  magnitudeType: string | null;
+  depth: number;
+  coordinates: LatLng;
+  place: string;
+  time: number;
+  updated: number;
+  url: string | null;
+  tsunami: boolean;
+}
+
+export interface SeismicEvent {
+  id: string;
+  type: 'official_event';
+  eventKind: 'earthquake';
+  disasterType: 'earthquake';
+  title: string;
+  location: string;
+  coordinates: LatLng;
+  magnitude: number;
+  magnitudeType: string | null;
+  depth: number;
+  tsunami: boolean;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  primaryAgency: SeismicAgency;
+  agencies: { [agency: string]: AgencyQuake };
+  originTime: number;
+  created_time: string;
+  timestamp: number; // Origin time, so TypeTimestampIndex can look events up by when they happened
+  linkedPostIds: string[];
+  linkedPostCount: number;
+  updatedAt: number;
+}
+
+export type SeismicUpsertResult = 'created' | 'merged' | 'updated' | 'unchanged';
+
+export interface SeismicUpsertOutcome {
+  result: SeismicUpsertResult;
+  eventId: string;
+  primary: AgencyQuake; // Solution whose values the stored event carries
+}
+
+/**
+ * Authoritative earthquake events
+ * USGS and EMSC solutions are merged into one official_event item in the events table;
+ * social posts are linked to these items by the validator.
+ */
+export function isSameEarthquake(a: AgencyQuake, b: { coordinates: LatLng; time: number; magnitude: number }): boolean {
+  return Math.abs(a.time - b.time) <= MERGE_TIME_WINDOW_MS &&
+    calculateDistance(a.coordinates, b.coordinates) <= MERGE_DISTANCE_KM &&
+    Math.abs(a.magnitude - b.magnitude) <= MERGE_MAGNITUDE_DELTA;
+}
+
+export async function upsertSeismicEvent(solutions: AgencyQuake[]): Promise<SeismicUpsertOutcome> {
+  if (!EVENTS_TABLE_NAME) {
+    throw new Error('EVENTS_TABLE_NAME is undefined (missing env: DYNAMODB_TABLE or DYNAMODB_TABLE_PREFIX)');
+  }
+
+  const reference = pickPrimarySolution(solutions);
+  const candidates = await queryOfficialEarthquakes(reference.time - MERGE_TIME_WINDOW_MS, reference.time + MERGE_TIME_WINDOW_MS);
+  const existing = candidates.find(event =>
+    solutions.some(solution => event.agencies?.[solution.agency]?.agencyId === solution.agencyId) ||
+    isSameEarthquake(reference, { coordinates: event.coordinates, time: event.originTime, magnitude: event.magnitude })
+  );
+
+  const agencies: { [agency: string]: AgencyQuake } = { ...(existing?.agencies || {}) };
+  let changed = !existing;
+  for (const solution of solutions) {
+    const known = agencies[solution.agency];
+    if (!known || solution.updated > known.updated) {
+      agencies[solution.agency] = solution;
+      changed = true;
+    }
+  }
+
+  const primary = pickPrimarySolution(Object.values(agencies));
+  const id = existing?.id || `quake_${primary.agency}_${primary.agencyId}`;
+  if (!changed) return { result: 'unchanged', eventId: id, primary };
+
+  await docClient.send(new UpdateCommand({
+    TableName: EVENTS_TABLE_NAME,
+    Key: { id },
+    UpdateExpression: `
+      SET
+        #type = :type,
+        eventKind = :eventKind,
+        disasterType = :disasterType,
+        title = :title,
+        #location = :location,
+        coordinates = :coordinates,
+        magnitude = :magnitude,
+        magnitudeType = :magnitudeType,
+        #depth = :depth,
+        tsunami = :tsunami,
+        severity = :severity,
+        primaryAgency = :primaryAgency,
+        agencies = :agencies,
+        originTime = :originTime,
+        created_time = :createdTime,
+        #timestamp = :originTime,
+        linkedPostIds = if_not_exists(linkedPostIds, :emptyList),
+        linkedPostCount = if_not_exists(linkedPostCount, :zero),
+        updatedAt = :now
+    `,
+    ExpressionAttributeNames: {
+      '#type': 'type',
+      '#location': 'location',
+      '#depth': 'depth',
+      '#timestamp': 'timestamp'
+    },
+    ExpressionAttributeValues: {
+      ':type': 'official_event',
+      ':eventKind': 'earthquake',
+      ':disasterType': 'earthquake',
+      ':title': `M ${primary.magnitude.toFixed(1)} - ${primary.place}`,
+      ':location': primary.place,
+      ':coordinates': primary.coordinates,
+      ':magnitude': primary.magnitude,
+      ':magnitudeType': primary.magnitudeType,
+      ':depth': primary.depth,
+      ':tsunami': Object.values(agencies).some(solution => solution.tsunami),
+      ':severity': magnitudeToSeverity(primary.magnitude),
+      ':primaryAgency': primary.agency,
+      ':agencies': agencies,
+      ':originTime': primary.time,
+      ':createdTime': new Date(primary.time).toISOString(),
+      ':emptyList': [],
+      ':zero': 0,
+      ':now': Date.now()
+    }
+  }));
+
+  if (!existing) return { result: 'created', eventId: id, primary };
+  // A second agency joined an event first reported by the other one
+  const result = solutions.some(solution => !existing.agencies?.[solution.agency]) ? 'merged' : 'updated';
+  return { result, eventId: id, primary };
+}
+
+// Stored earthquakes within radiusKm of the point whose origin time falls in [from, to]
+export async function findSeismicEventsNear(coordinates: LatLng, from: number, to: number, radiusKm: number): Promise<SeismicEvent[]> {
+  const events = await queryOfficialEarthquakes(from, to);
+  return events
+    .filter(event => calculateDistance(coordinates, event.coordinates) <= radiusKm)
+    .sort((a, b) => b.magnitude - a.magnitude);
+}
+
+export function magnitudeToSeverity(magnitude: number): 'low' | 'medium' | 'high' | 'critical' {
+  if (magnitude >= 7.0) return 'critical';
+  if (magnitude >= 6.0) return 'high';
+  if (magnitude >= 5.0) return 'medium';
+  return 'low';
+}
+
+function queryOfficialEarthquakes(from: number, to: number): Promise<SeismicEvent[]> {
+  return queryOfficialEvents<SeismicEvent>('earthquake', from, to);
+}
+
+// USGS reviews most solutions, so its values win when both agencies reported
+function pickPrimarySolution(solutions: AgencyQuake[]): AgencyQuake {
+  return solutions.find(solution => solution.agency === 'usgs') || solutions[0];
+}
@@ -0,0 +1,77 @@
+import { assessTimeframe } from './timeframe';
+
+const POSTED_AT = Math.floor(Date.parse('2026-10-19T12:00:00Z') / 1000);
+
+function timeframe(text: string): string {
+  return assessTimeframe(text, POSTED_AT, null).timeframe;
+}
+
+describe('assessTimeframe from the text', () => {
+  it('treats a plain report as current', () => {
+    expect(timeframe('Flooding in Houston, roads closed')).toBe('current');
+  });
+
+  it('places anniversaries and retrospectives in the past', () => {
+    expect(timeframe('Today marks 15 years since the Tohoku earthquake')).toBe('historical');
+    expect(timeframe('On this day the Great Chicago Fire started')).toBe('historical');
+    expect(timeframe('Remembering the 2004 tsunami')).toBe('historical');
+  });
+
+  it('places posts about an old date in the past', () => {
+    expect(timeframe('Photos from the Houston flood on August 27, 2017')).toBe('historical');
+  });
+
+  it('keeps a post current when it mentions a recent date', () => {
+    expect(timeframe('Remembering those lost in the flood on October 17, 2026')).toBe('current');
+  });
+
+  it('keeps an old date with present-tense wording current', () => {
+    expect(timeframe('Earthquake now, the first since the quake of 2011 made us nervous')).toBe('current');
+    expect(timeframe('Flooding again today, just like back in 2017')).toBe('current');
+  });
+
+  it('keeps an anniversary post current when something is happening right now', () => {
+    expect(timeframe('10 years after the last one, another quake right now')).toBe('current');
+  });
+
+  it('does not let plain "today" or "now" outweigh anniversary wording', () => {
+    expect(timeframe('10 years now since the Christchurch earthquake')).toBe('historical');
+  });
+
+  it.each([
+    'Worst flooding since 1998 hits Houston, thousands evacuated',
+    'Strongest earthquake in Tokyo since 2011, buildings collapsed',
+    'Earthquake now. Worst since 1994'
+  ])('reads "since YEAR" comparisons as current: %s', text => {
+    const assessment = assessTimeframe(text, POSTED_AT, null);
+
+    expect(assessment.timeframe).toBe('current');
+    expect(assessment.referencedDates).toEqual([]);
+  });
+});
+
+describe('assessTimeframe with a model timeframe', () => {
+  it('uses the model timeframe when the text does not place the post in the past', () => {
+    expect(assessTimeframe('Flooding in Houston', POSTED_AT, 'historical').timeframe).toBe('historical');
+    expect(assessTimeframe('Hurricane expected to make landfall', POSTED_AT, 'imminent').timeframe).toBe('imminent');
+    expect(assessTimeframe('Flooding again today, just like back in 2017', POSTED_AT, 'current').timeframe).toBe('current');
+  });
+
+  it('marks posts historical when the text places them in the past, whatever the model said', () => {
+    expect(assessTimeframe('Remembering the 2004 tsunami', POSTED_AT, 'current').timeframe).toBe('historical');
+    expect(assessTimeframe('10 years now since the Tohoku earthquake', POSTED_AT, 'current').timeframe).toBe('historical');
+    expect(assessTimeframe('Photos from the Houston flood on August 27, 2017', POSTED_AT, 'imminent').timeframe).toBe('historical');
+  });
+
+  it('records the text evidence, referenced dates and the override', () => {
+    const assessment = assessTimeframe('Remembering the 2004 tsunami', POSTED_AT, 'current');
+
+    expect(assessment.referencedDates).toEqual(['2004-01-01']);
+    expect(assessment.evidence).toEqual([
+      'Latest date mentioned, "2004 tsunami", is 7961 days before the post',
+      'Retrospective wording: "Remembering"',
+      'Model timeframe: current',
+      'Text places the post in the past, overriding the model'
+    ]);
+  });
+});
@@ -0,0 +1,85 @@
+import { TIMEFRAMES } from '../llm/analysis-schema';
+import { daysBefore, findMentionedDates, latestMentionedDate, MentionedDate, STALE_AFTER_DAYS } from './dates';
+
+export type Timeframe = typeof TIMEFRAMES[number];
+
+export interface TimeframeAssessment {
+  timeframe: Timeframe;
+  referencedDates: string[]; // ISO dates (YYYY-MM-DD) of every date the post mentions
+  evidence: string[]; // Why the timeframe was chosen, for operators and reviewers
+}
+
+// Anniversaries and retrospectives; "10 years since the Tohoku earthquake"
+const RETROSPECTIVE_PATTERNS = [
+  /\b(?:\d+|one|two|three|four|five|six|seven|eight|nine|ten|twenty|thirty|fifty|a hundred)\s+years?\s+(?:now\s+)?(?:ago|since|after|on from)\b/i,
+  /\b(?:\d+(?:st|nd|rd|th)|first|fifth|tenth|twentieth)?\s*anniversary\b/i,
+  /\bon this day\b/i,
+  /\b(?:remembering|in memory of|looking back|throwback|retrospective)\b/i,
+  /#(?:tbt|otd|onthisday)\b/i
+];
+
+// Present-tense reporting; "breaking" is left out because reposts copy it along with the old headline
+const CURRENT_PATTERNS = [
+  /\b(?:right now|just now|happening now|as we speak|currently|ongoing)\b/i,
+  /\bjust (?:felt|hit|struck|started)\b/i
+];
+// Weaker than the above: anniversaries say "today" and "10 years now" too
+const PRESENT_PATTERN = /\b(?:now|today|tonight|this (?:morning|afternoon|evening))\b/i;
+
+/**
+ * Whether a post is about something happening now or in the past
+ * Dates mentioned in the text are compared with when the post was published, and anniversary or
+ * present-tense wording is looked for: "today marks 10 years since" is an anniversary, "another
+ * quake right now, 10 years after" is not. When the text places the post in the past it is
+ * historical whatever the model said; otherwise the model's timeframe is used, and 'current' when
+ * the model gave none (keyword-only and fallback analyses, or a response without the field).
+ */
+export function assessTimeframe(text: string, postedAt: number, modelTimeframe: Timeframe | null): TimeframeAssessment {
+  const dates = findMentionedDates(text);
+  const evidence: string[] = [];
+
+  const latest = latestMentionedDate(dates);
+  const latestDaysBefore = latest ? daysBefore(latest, postedAt) : null;
+  const retrospective = findWording(text, RETROSPECTIVE_PATTERNS);
+  const current = findWording(text, [...CURRENT_PATTERNS, PRESENT_PATTERN]);
+  const ongoing = !!findWording(text, CURRENT_PATTERNS);
+
+  if (latest && latestDaysBefore !== null) {
+    evidence.push(latestDaysBefore > STALE_AFTER_DAYS
+      ? `Latest date mentioned, "${latest.text}", is ${latestDaysBefore} days before the post`
+      : `Mentions "${latest.text}", around the time of the post`);
+  }
+  if (retrospective) evidence.push(`Retrospective wording: "${retrospective}"`);
+  if (current) evidence.push(`Present-tense wording: "${current}"`);
+  if (modelTimeframe) evidence.push(`Model timeframe: ${modelTimeframe}`);
+
+  const inPast = textPlacesInPast(latestDaysBefore, !!retrospective, ongoing, !!current);
+  if (inPast && modelTimeframe && modelTimeframe !== 'historical') {
+    evidence.push('Text places the post in the past, overriding the model');
+  }
+
+  const timeframe: Timeframe = inPast ? 'historical' : modelTimeframe || 'current';
+
+  return { timeframe, referencedDates: dates.map(toIsoDate), evidence };
+}
+
+// Mixed signals (an anniversary post about a new quake happening right now) count as current
+function textPlacesInPast(latestDaysBefore: number | null, retrospective: boolean, ongoing: boolean, current: boolean): boolean {
+  // A date around the post time dates the post, whatever else it mentions
+  if (latestDaysBefore !== null && latestDaysBefore <= STALE_AFTER_DAYS) return false;
+
+  if (retrospective) return !ongoing;
+  return latestDaysBefore !== null && !current;
+}
+
+function findWording(text: string, patterns: RegExp[]): string | null {
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match) return match[0].trim();
+  }
+  return null;
+}
+
+function toIsoDate(date: MentionedDate): string {
+  return date.date.toISOString().slice(0, 10);
+}